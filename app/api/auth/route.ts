@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_COOKIE } from '@/lib/auth';
+import { getBridgeStatus, readBridgeInfo } from '@/lib/bridge-port';
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+/**
+ * Ask the bridge server whether a token is valid. Throws when it is not running.
+ */
+async function verifyToken(token: string): Promise<boolean> {
+  const info = readBridgeInfo();
+  if (info === null) {
+    throw new Error('WebSocket server not running');
+  }
+
+  const status = await getBridgeStatus(info, '/api/auth/session', { Authorization: `Bearer ${token}` });
+  return status === 200;
+}
+
+// Whether the browser holds a token the bridge accepts
+export async function GET(request: NextRequest) {
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  if (!token) {
+    return NextResponse.json({ authenticated: false });
+  }
+
+  try {
+    return NextResponse.json({ authenticated: await verifyToken(token) });
+  } catch (error) {
+    console.error('Failed to verify token:', error);
+    return NextResponse.json({ error: 'WebSocket server not available' }, { status: 503 });
+  }
+}
+
+// Log in: check the token with the bridge and keep it in an HttpOnly cookie
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const token = typeof body.token === 'string' ? body.token.trim() : '';
+
+  if (!token) {
+    return NextResponse.json({ error: 'token is required' }, { status: 400 });
+  }
+
+  try {
+    if (!(await verifyToken(token))) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+  } catch (error) {
+    console.error('Failed to verify token:', error);
+    return NextResponse.json({ error: 'WebSocket server not available' }, { status: 503 });
+  }
+
+  const response = NextResponse.json({ authenticated: true });
+  response.cookies.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: ONE_YEAR,
+  });
+  return response;
+}
+
+// Log out
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false });
+  response.cookies.delete(AUTH_COOKIE);
+  return response;
+}
@@ -1,32 +1,26 @@
-import { NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublicHost, readBridgeInfo } from '@/lib/bridge-port';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const portFilePath = path.join(process.cwd(), '.ws-port');
+    const info = readBridgeInfo();
 
     // Check if port file exists
-    if (!fs.existsSync(portFilePath)) {
+    if (info === null) {
       return NextResponse.json(
         { error: 'WebSocket server not running' },
         { status: 503 }
       );
     }
 
-    // Read port from file
-    const port = parseInt(fs.readFileSync(portFilePath, 'utf-8').trim(), 10);
-
-    if (isNaN(port)) {
-      return NextResponse.json(
-        { error: 'Invalid port number' },
-        { status: 500 }
-      );
-    }
-
+    const host = getPublicHost(request.headers.get('host'), info.publicHost);
     return NextResponse.json({
-      port,
-      wsUrl: `ws://localhost:${port}`,
+      port: info.port,
+      host,
+      secure: info.secure,
+      fingerprint: info.fingerprint,
+      url: `${info.secure ? 'https' : 'http'}://${host}:${info.port}`,
+      wsUrl: `${info.secure ? 'wss' : 'ws'}://${host}:${info.port}`,
     });
   } catch (error) {
     console.error('Failed to read WebSocket port:', error);
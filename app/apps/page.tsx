@@ -37,9 +37,11 @@ export default function AppsPage() {
   }, [isInitializing, selectedDevice]);
 
   const loadApps = async () => {
+    if (!selectedDevice) return;
+
     setLoading(true);
     try {
-      const appList = await wsService.getInstalledApps();
+      const appList = await wsService.getInstalledApps(selectedDevice.id);
       setApps(appList);
     } catch (error) {
       console.error("Failed to load apps:", error);
@@ -60,6 +62,8 @@ export default function AppsPage() {
   };
 
   const handleUninstallApps = async () => {
+    if (!selectedDevice) return;
+
     if (selectedApps.size === 0) {
       toast.error("No apps selected");
       return;
@@ -72,7 +76,7 @@ export default function AppsPage() {
       const app = apps.find((a) => a.id === appId);
       if (app) {
         try {
-          await wsService.uninstallApp(app.packageName);
+          await wsService.uninstallApp(selectedDevice.id, app.packageName);
           setApps((prev) => prev.filter((a) => a.id !== appId));
           toast.success(`Uninstalled ${app.name}`);
         } catch (error) {
@@ -84,6 +88,8 @@ export default function AppsPage() {
   };
 
   const handleBackupApps = async () => {
+    if (!selectedDevice) return;
+
     if (selectedApps.size === 0) {
       toast.error("No apps selected");
       return;
@@ -93,7 +99,7 @@ export default function AppsPage() {
       const app = apps.find((a) => a.id === appId);
       if (app) {
         try {
-          await wsService.sendCommand("app:backup", { packageName: app.packageName });
+          await wsService.backupApp(selectedDevice.id, app.packageName);
           toast.success(`Backed up ${app.name}`);
         } catch (error) {
           toast.error(`Failed to backup ${app.name}`);
@@ -36,9 +36,11 @@ export default function ContactsPage() {
   }, [isInitializing, selectedDevice]);
 
   const loadContacts = async () => {
+    if (!selectedDevice) return;
+
     setLoading(true);
     try {
-      const contactList = await wsService.getContacts();
+      const contactList = await wsService.getContacts(selectedDevice.id);
       setContacts(contactList.sort((a, b) => a.name.localeCompare(b.name)));
     } catch (error) {
       console.error("Failed to load contacts:", error);
@@ -59,6 +61,8 @@ export default function ContactsPage() {
   };
 
   const handleDeleteContacts = async () => {
+    if (!selectedDevice) return;
+
     if (selectedContacts.size === 0) {
       toast.error("No contacts selected");
       return;
@@ -69,7 +73,7 @@ export default function ContactsPage() {
 
     for (const contactId of selectedContacts) {
       try {
-        await wsService.sendCommand("contact:delete", { id: contactId });
+        await wsService.deleteContact(selectedDevice.id, contactId);
         setContacts((prev) => prev.filter((c) => c.id !== contactId));
         toast.success("Contacts deleted");
       } catch (error) {
@@ -3,10 +3,15 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { useDeviceStore } from "@/store/device.store";
+import { useTransferStore } from "@/store/transfer.store";
 import { wsService } from "@/services/websocket-native.service";
-import { FileItem } from "@/types";
+import { downloadService } from "@/services/download.service";
+import { uploadService } from "@/services/upload.service";
+import { FileItem, FileOperationProgress } from "@/types";
 import { ImageViewer } from "@/components/ui/image-viewer";
 import { PdfViewer } from "@/components/ui/pdf-viewer";
+import { BatchRenameDialog } from "@/components/ui/batch-rename-dialog";
+import { FileSearchPanel } from "@/components/ui/file-search-panel";
 import {
   File,
   Folder,
@@ -23,13 +28,21 @@ import {
   Scissors,
   Clipboard,
   Eye,
+  FolderPlus,
+  Pencil,
+  ScanSearch,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { invalidFileName, splitFileName } from "@/lib/batch-rename";
+import { confirmTransferOnPoorLink } from "@/lib/link-quality";
+import { THUMBNAIL_SIZE, deviceStreamPath, deviceThumbnailPath } from "@/lib/device-stream";
+import { useBridgeUrl } from "@/hooks/use-bridge-url";
 import toast from "react-hot-toast";
 import { useDropzone } from "react-dropzone";
 
 export default function FilesPage() {
   const { selectedDevice, isInitializing } = useDeviceStore();
+  const bridgeUrl = useBridgeUrl();
   const [files, setFiles] = useState<FileItem[]>([]);
   const [currentPath, setCurrentPath] = useState("/storage/emulated/0");
   const [pathHistory, setPathHistory] = useState<string[]>([]);
@@ -38,6 +51,10 @@ export default function FilesPage() {
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [clipboard, setClipboard] = useState<{ files: FileItem[]; operation: "copy" | "cut" } | null>(null);
+  const [pasting, setPasting] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [batchRenameFiles, setBatchRenameFiles] = useState<FileItem[] | null>(null);
+  const [deviceSearchOpen, setDeviceSearchOpen] = useState(false);
   const [viewerImage, setViewerImage] = useState<FileItem | null>(null);
   const [isViewerOpen, setIsViewerOpen] = useState(false);
   const [pdfViewerFile, setPdfViewerFile] = useState<FileItem | null>(null);
@@ -51,9 +68,11 @@ export default function FilesPage() {
   }, [isInitializing, selectedDevice, currentPath]);
 
   const loadFiles = async (path: string) => {
+    if (!selectedDevice) return;
+
     setLoading(true);
     try {
-      const fileList = await wsService.getFileList(path);
+      const fileList = await wsService.getFileList(selectedDevice.id, path);
       setFiles(fileList);
     } catch (error) {
       console.error("Failed to load files:", error);
@@ -110,34 +129,14 @@ export default function FilesPage() {
       return;
     }
 
-    try {
-      toast.loading(`Downloading ${file.name}...`, { id: file.id });
-
-      // Use HTTP endpoint to download file (port 9527)
-      const url = `http://${selectedDevice.ip}:9527/stream/file?path=${encodeURIComponent(file.path)}`;
+    if (!confirmTransferOnPoorLink(selectedDevice, "Downloading")) return;
 
-      // Fetch the file
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    try {
+      // The bridge downloads it in the transfers panel, it is saved to disk when done
+      const task = await downloadService.download(selectedDevice.id, { path: file.path, name: file.name, size: file.size });
+      if (task) {
+        toast.success(`Added ${file.name} to transfers`, { id: file.id });
       }
-
-      // Get the blob
-      const blob = await response.blob();
-
-      // Create a blob URL and trigger download
-      const blobUrl = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = file.name;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      // Clean up the blob URL
-      URL.revokeObjectURL(blobUrl);
-
-      toast.success(`Downloaded ${file.name}`, { id: file.id });
     } catch (error) {
       console.error("Failed to download file:", error);
       toast.error(`Failed to download ${file.name}`, { id: file.id });
@@ -165,34 +164,15 @@ export default function FilesPage() {
         // Single file download - use the single file download function
         await handleDownloadSingle(selectedFileItems[0]);
       } else {
-        // Multiple files download - will be zipped
-        toast.loading(`Preparing to download ${selectedFileItems.length} files...`, { id: downloadId });
-
-        const pathsParam = encodeURIComponent(paths.join(','));
-        const url = `http://${selectedDevice.ip}:9527/stream/file/multipart?paths=${pathsParam}`;
-
-        // Fetch the zip file
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        // Get the blob
-        const blob = await response.blob();
-
-        // Create a blob URL and trigger download
-        const blobUrl = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = blobUrl;
-        link.download = `batch_download_${Date.now()}.zip`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-
-        // Clean up the blob URL
-        URL.revokeObjectURL(blobUrl);
-
-        toast.success(`Downloaded ${selectedFileItems.length} files as zip`, { id: downloadId });
+        // Multiple files download - the phone zips them, the bridge downloads the zip as a transfer
+        if (!confirmTransferOnPoorLink(selectedDevice, "Downloading")) return;
+
+        const task = await downloadService.download(selectedDevice.id, {
+          paths,
+          name: `batch_download_${Date.now()}.zip`,
+        });
+        if (!task) return;
+        toast.success(`Added ${selectedFileItems.length} files to transfers as a zip`, { id: downloadId });
       }
 
       setSelectedFiles(new Set());
@@ -203,6 +183,8 @@ export default function FilesPage() {
   };
 
   const handleDelete = async () => {
+    if (!selectedDevice) return;
+
     if (selectedFiles.size === 0) {
       toast.error("No files selected");
       return;
@@ -215,7 +197,7 @@ export default function FilesPage() {
       const file = files.find((f) => f.id === fileId);
       if (file) {
         try {
-          await wsService.deleteFile(file.path);
+          await wsService.deleteFile(selectedDevice.id, file.path);
           setFiles((prev) => prev.filter((f) => f.id !== fileId));
           toast.success(`Deleted ${file.name}`);
         } catch (error) {
@@ -249,57 +231,169 @@ export default function FilesPage() {
   };
 
   const handlePaste = async () => {
+    if (!selectedDevice) return;
+
     if (!clipboard) {
       toast.error("Nothing to paste");
       return;
     }
 
-    // Implement paste logic here
-    toast.success(`Pasted ${clipboard.files.length} items`);
-    if (clipboard.operation === "cut") {
-      setClipboard(null);
+    const move = clipboard.operation === "cut";
+    const paths = clipboard.files.map((f) => f.path);
+    // Pasting a copy where it came from keeps both, elsewhere the user decides
+    const clashes = clipboard.files.filter((f) => files.some((existing) => existing.name === f.name && existing.path !== f.path));
+    const conflict = clashes.length > 0 && window.confirm(
+      `${clashes.length} items with the same name are already here. Replace them? Cancel keeps both.`
+    )
+      ? "overwrite"
+      : "rename";
+
+    const verb = move ? "Moving" : "Copying";
+    const pasteId = toast.loading(`${verb} ${paths.length} items...`);
+    setPasting(true);
+    try {
+      const options = {
+        conflict,
+        onProgress: (progress: FileOperationProgress) => {
+          toast.loading(
+            `${verb} ${progress.processedFiles} of ${progress.totalFiles} files (${formatFileSize(progress.processedBytes)} of ${formatFileSize(progress.totalBytes)})`,
+            { id: pasteId }
+          );
+        },
+      } as const;
+      const result = move
+        ? await wsService.moveFiles(selectedDevice.id, paths, currentPath, options)
+        : await wsService.copyFiles(selectedDevice.id, paths, currentPath, options);
+
+      if (result.errors.length > 0) {
+        console.error("Paste finished with errors:", result.errors);
+        toast.error(`${move ? "Moved" : "Copied"} ${result.files.length} items, ${result.errors.length} problems: ${result.errors[0]}`, { id: pasteId });
+      } else {
+        toast.success(`${move ? "Moved" : "Copied"} ${result.files.length} items`, { id: pasteId });
+      }
+      if (move) {
+        setClipboard(null);
+      }
+    } catch (error) {
+      console.error("Failed to paste:", error);
+      toast.error(`Failed to paste: ${(error as Error).message}`, { id: pasteId });
+    } finally {
+      setPasting(false);
+      loadFiles(currentPath);
+    }
+  };
+
+  const handleRenameClick = () => {
+    const selectedFileItems = files.filter((f) => selectedFiles.has(f.id));
+    if (selectedFileItems.length === 1) {
+      setRenamingId(selectedFileItems[0].id);
+    } else if (selectedFileItems.length > 1) {
+      setBatchRenameFiles(selectedFileItems);
     }
-    loadFiles(currentPath);
   };
 
-  const onDrop = async (acceptedFiles: File[]) => {
-    if (!selectedDevice) {
-      toast.error("No device connected");
+  const handleRename = async (file: FileItem, value: string) => {
+    setRenamingId(null);
+    const newName = value.trim();
+    if (!selectedDevice || newName === file.name) return;
+
+    const problem = invalidFileName(newName);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    // Phone storage ignores case
+    if (files.some((f) => f.id !== file.id && f.name.toLowerCase() === newName.toLowerCase())) {
+      toast.error(`${newName} already exists`);
       return;
     }
-
-    const toastId = toast.loading(`Uploading ${acceptedFiles.length} file(s)...`);
 
     try {
-      const formData = new FormData();
-      formData.append('path', currentPath);
-
-      acceptedFiles.forEach((file) => {
-        formData.append('files', file);
+      const renamed = await wsService.renameFile(selectedDevice.id, file.path, newName);
+      setFiles((prev) => prev.map((f) => (f.id === file.id ? renamed : f)));
+      setSelectedFiles((prev) => {
+        if (!prev.has(file.id)) return prev;
+        const next = new Set(prev);
+        next.delete(file.id);
+        next.add(renamed.id);
+        return next;
       });
+    } catch (error) {
+      console.error("Failed to rename:", error);
+      toast.error(`Failed to rename ${file.name}: ${(error as Error).message}`);
+    }
+  };
 
-      const response = await fetch(
-        `http://${selectedDevice.ip}:9527/file/uploadFiles`,
-        {
-          method: 'POST',
-          body: formData,
-        }
-      );
+  const handleNewFolder = async () => {
+    if (!selectedDevice) return;
 
-      const result = await response.json();
+    const taken = new Set(files.map((f) => f.name.toLowerCase()));
+    let name = "New folder";
+    for (let i = 1; taken.has(name.toLowerCase()); i++) {
+      name = `New folder (${i})`;
+    }
 
-      if (result.code === 0) {
-        toast.success(`Uploaded ${acceptedFiles.length} file(s)`, { id: toastId });
-        loadFiles(currentPath);
-      } else {
-        toast.error(result.msg || 'Upload failed', { id: toastId });
-      }
+    try {
+      const folder = await wsService.createFolder(selectedDevice.id, currentPath, name);
+      setFiles((prev) => [...prev, folder]);
+      setSearchQuery("");
+      setRenamingId(folder.id);
     } catch (error) {
-      console.error('Upload error:', error);
-      toast.error('Failed to upload files', { id: toastId });
+      console.error("Failed to create folder:", error);
+      toast.error(`Failed to create folder: ${(error as Error).message}`);
     }
   };
 
+  // Open the folder a search result is in, with the result selected
+  const handleReveal = (file: FileItem) => {
+    const folder = file.path.slice(0, file.path.length - file.name.length - 1) || "/";
+    if (folder !== currentPath) {
+      setPathHistory([...pathHistory, currentPath]);
+      setCurrentPath(folder);
+    }
+    setSearchQuery("");
+    setSelectedFiles(new Set([file.id]));
+    setDeviceSearchOpen(false);
+  };
+
+  const onDrop = async (acceptedFiles: File[]) => {
+    if (!selectedDevice) {
+      toast.error("No device connected");
+      return;
+    }
+
+    if (!confirmTransferOnPoorLink(selectedDevice, "Uploading")) return;
+
+    // Files go to the bridge in chunks and then become transfers, progress is shown in the transfers panel
+    const results = await Promise.allSettled(
+      acceptedFiles.map((file) => uploadService.upload(selectedDevice.id, currentPath, file))
+    );
+    const failed = results.filter((result) => result.status === "rejected").length;
+    if (failed > 0) {
+      console.error("Upload error:", results);
+      toast.error(`Failed to upload ${failed} of ${acceptedFiles.length} file(s)`);
+    } else {
+      toast.success(`Queued ${acceptedFiles.length} file(s) for upload`);
+    }
+  };
+
+  // List uploaded files once the bridge has sent them to the phone
+  const transfers = useTransferStore((state) => state.tasks);
+  const listedUploadsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const uploaded = transfers.filter((task) =>
+      task.type === "upload" &&
+      task.status === "completed" &&
+      task.deviceId === selectedDevice?.id &&
+      task.path === currentPath &&
+      !listedUploadsRef.current.has(task.id)
+    );
+    if (uploaded.length === 0) return;
+
+    uploaded.forEach((task) => listedUploadsRef.current.add(task.id));
+    loadFiles(currentPath);
+  }, [transfers]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     noClick: true,  // Disable click to open file dialog
@@ -358,14 +452,18 @@ export default function FilesPage() {
 
   const getThumbnailUrl = (file: FileItem) => {
     if (!selectedDevice || !isImageFile(file)) return null;
-    const encodedPath = encodeURIComponent(file.path);
-    return `http://${selectedDevice.ip}:9527/stream/image/thumbnail2?path=${encodedPath}&width=300&height=300`;
+    return bridgeUrl(
+      deviceThumbnailPath(selectedDevice.id, "image/thumbnail2", new Date(file.modified).getTime(), {
+        path: file.path,
+        width: THUMBNAIL_SIZE,
+        height: THUMBNAIL_SIZE,
+      })
+    ) || null;
   };
 
   const getFullImageUrl = (file: FileItem) => {
     if (!selectedDevice || !isImageFile(file)) return null;
-    const encodedPath = encodeURIComponent(file.path);
-    return `http://${selectedDevice.ip}:9527/stream/file?path=${encodedPath}`;
+    return bridgeUrl(deviceStreamPath(selectedDevice.id, "file", { path: file.path })) || null;
   };
 
   const handleFileClick = (file: FileItem) => {
@@ -428,8 +526,7 @@ export default function FilesPage() {
 
   const getPdfUrl = (file: FileItem) => {
     if (!selectedDevice || !isPdfFile(file)) return null;
-    const encodedPath = encodeURIComponent(file.path);
-    return `http://${selectedDevice.ip}:9527/stream/file?path=${encodedPath}`;
+    return bridgeUrl(deviceStreamPath(selectedDevice.id, "file", { path: file.path })) || null;
   };
 
   const handlePdfPreview = (file: FileItem) => {
@@ -577,6 +674,13 @@ export default function FilesPage() {
                 <Upload className="h-4 w-4" />
                 Upload
               </button>
+              <button
+                onClick={handleNewFolder}
+                className="flex items-center gap-1 rounded-lg border px-3 py-1.5 text-sm hover:bg-accent"
+              >
+                <FolderPlus className="h-4 w-4" />
+                New folder
+              </button>
               <input
                 ref={uploadInputRef}
                 type="file"
@@ -610,6 +714,13 @@ export default function FilesPage() {
                     <Scissors className="h-4 w-4" />
                     Cut
                   </button>
+                  <button
+                    onClick={handleRenameClick}
+                    className="flex items-center gap-1 rounded-lg border px-2 py-1 text-sm hover:bg-accent"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    Rename
+                  </button>
                   <button
                     onClick={handleDelete}
                     className="flex items-center gap-1 rounded-lg border px-2 py-1 text-sm hover:bg-destructive hover:text-destructive-foreground"
@@ -622,7 +733,8 @@ export default function FilesPage() {
               {clipboard && (
                 <button
                   onClick={handlePaste}
-                  className="flex items-center gap-1 rounded-lg bg-primary px-2 py-1 text-sm text-primary-foreground hover:bg-primary/90"
+                  disabled={pasting}
+                  className="flex items-center gap-1 rounded-lg bg-primary px-2 py-1 text-sm text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
                 >
                   <Clipboard className="h-4 w-4" />
                   Paste ({clipboard.files.length})
@@ -635,13 +747,25 @@ export default function FilesPage() {
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <input
                   type="text"
-                  placeholder="Search files..."
+                  placeholder="Filter this folder..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="h-9 w-64 rounded-lg border bg-background pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                 />
               </div>
 
+              <button
+                onClick={() => setDeviceSearchOpen(!deviceSearchOpen)}
+                className={cn(
+                  "flex items-center gap-1 rounded-lg border px-3 py-1.5 text-sm",
+                  deviceSearchOpen ? "bg-primary text-primary-foreground" : "hover:bg-accent"
+                )}
+                title="Search this folder and all folders below it"
+              >
+                <ScanSearch className="h-4 w-4" />
+                Search device
+              </button>
+
               <div className="flex items-center rounded-lg border">
                 <button
                   onClick={() => setViewMode("list")}
@@ -680,7 +804,14 @@ export default function FilesPage() {
         >
           <input {...getInputProps()} />
 
-          {loading ? (
+          {deviceSearchOpen && selectedDevice ? (
+            <FileSearchPanel
+              deviceId={selectedDevice.id}
+              rootPath={currentPath}
+              onReveal={handleReveal}
+              onClose={() => setDeviceSearchOpen(false)}
+            />
+          ) : loading ? (
             <div className="flex h-full items-center justify-center">
               <div className="text-center">
                 <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent"></div>
@@ -742,7 +873,16 @@ export default function FilesPage() {
                           ) : (
                             <File className="h-4 w-4 text-muted-foreground" />
                           )}
-                          <span className="text-sm">{file.name}</span>
+                          {renamingId === file.id ? (
+                            <RenameInput
+                              file={file}
+                              onSubmit={(name) => handleRename(file, name)}
+                              onCancel={() => setRenamingId(null)}
+                              className="text-sm"
+                            />
+                          ) : (
+                            <span className="text-sm">{file.name}</span>
+                          )}
                         </div>
                         {isPdfFile(file) && (
                           <button
@@ -803,9 +943,18 @@ export default function FilesPage() {
                       <LazyThumbnail file={file} />
                     )}
                   </div>
-                  <span className="text-xs text-center break-all line-clamp-2">
-                    {file.name}
-                  </span>
+                  {renamingId === file.id ? (
+                    <RenameInput
+                      file={file}
+                      onSubmit={(name) => handleRename(file, name)}
+                      onCancel={() => setRenamingId(null)}
+                      className="text-xs text-center"
+                    />
+                  ) : (
+                    <span className="text-xs text-center break-all line-clamp-2">
+                      {file.name}
+                    </span>
+                  )}
                 </div>
               ))}
             </div>
@@ -847,6 +996,66 @@ export default function FilesPage() {
           onDownload={handleDownloadFromPdfViewer}
         />
       )}
+
+      {batchRenameFiles && selectedDevice && (
+        <BatchRenameDialog
+          deviceId={selectedDevice.id}
+          files={batchRenameFiles}
+          siblings={files}
+          onClose={() => setBatchRenameFiles(null)}
+          onRenamed={() => {
+            setSelectedFiles(new Set());
+            loadFiles(currentPath);
+          }}
+        />
+      )}
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
+
+// Name field shown in place of a file name while it is renamed
+function RenameInput({
+  file,
+  onSubmit,
+  onCancel,
+  className,
+}: {
+  file: FileItem;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+  className?: string;
+}) {
+  const [value, setValue] = useState(file.name);
+  const done = useRef(false);
+
+  const finish = (submit: boolean) => {
+    if (done.current) return;
+    done.current = true;
+    if (submit) {
+      onSubmit(value);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      value={value}
+      autoFocus
+      // Select the name without its extension, as file managers do
+      onFocus={(e) => e.target.setSelectionRange(0, splitFileName(file).base.length)}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") finish(true);
+        if (e.key === "Escape") finish(false);
+      }}
+      onBlur={() => finish(true)}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      className={cn(
+        "w-full min-w-0 rounded border bg-background px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-primary",
+        className
+      )}
+    />
+  );
+}
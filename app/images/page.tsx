@@ -2,12 +2,13 @@
 
 import { useState, useEffect } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { OfflineBanner } from "@/components/layout/offline-banner";
 import { useDeviceStore } from "@/store/device.store";
-import { wsService } from "@/services/websocket-native.service";
+import { useMediaDevice } from "@/hooks/use-media-device";
 import { imageService } from "@/services/image.service";
 import { OptimizedImageGrid } from "@/components/ui/optimized-image-grid";
 import { ImageViewer } from "@/components/ui/image-viewer";
-import { ImageItem } from "@/types";
+import { ImageItem, MediaSort } from "@/types";
 import {
   Grid,
   List,
@@ -19,10 +20,21 @@ import {
   ChevronLeft,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { confirmTransferOnPoorLink } from "@/lib/link-quality";
 import toast from "react-hot-toast";
 
+const MEDIA_SORTS: { value: MediaSort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "name", label: "Name" },
+  { value: "size", label: "Largest first" },
+];
+
 export default function ImagesPage() {
-  const { selectedDevice, isInitializing } = useDeviceStore();
+  const { selectedDevice } = useDeviceStore();
+  // The selected device, or the last one synced while none is connected
+  const mediaDevice = useMediaDevice();
+  const deviceId = mediaDevice?.id;
   const [images, setImages] = useState<ImageItem[]>([]);
   const [albums, setAlbums] = useState<any[]>([]);
   const [selectedAlbum, setSelectedAlbum] = useState<string | null>(null);
@@ -31,24 +43,42 @@ export default function ImagesPage() {
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<MediaSort>("newest");
+  const [total, setTotal] = useState(0);
+  const [offline, setOffline] = useState(false);
+  const [syncedAt, setSyncedAt] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [viewerImage, setViewerImage] = useState<ImageItem | null>(null);
   const [isViewerOpen, setIsViewerOpen] = useState(false);
   const PAGE_SIZE = 50;
 
+  // The bridge searches its index, so wait for a pause in typing
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
   useEffect(() => {
-    // Only load images after initialization is complete and device is selected
-    if (!isInitializing && selectedDevice) {
+    // Reload when the device connects or goes away, the bridge answers offline from its index
+    if (deviceId) {
       loadAlbums();
-      loadImages();
     }
-  }, [isInitializing, selectedDevice]);
+  }, [deviceId, selectedDevice]);
+
+  useEffect(() => {
+    if (deviceId) {
+      loadImages(selectedAlbum || undefined);
+    }
+  }, [deviceId, selectedDevice, search, sort]);
 
   const loadAlbums = async () => {
+    if (!deviceId) return;
+
     try {
-      const albumList = await imageService.getAlbums();
-      setAlbums(albumList);
+      const albumPage = await imageService.getAlbums(deviceId);
+      setAlbums(albumPage.items);
     } catch (error) {
       console.error("Failed to load albums:", error);
       // Don't show error toast for albums, just fail silently
@@ -56,6 +86,8 @@ export default function ImagesPage() {
   };
 
   const loadImages = async (albumId?: string, page: number = 1, append: boolean = false) => {
+    if (!deviceId) return;
+
     if (append) {
       setLoadingMore(true);
     } else {
@@ -63,16 +95,23 @@ export default function ImagesPage() {
     }
 
     try {
-      const imageList = await imageService.getImages(albumId, page, PAGE_SIZE);
+      const imagePage = await imageService.getImages(deviceId, albumId, {
+        page,
+        pageSize: PAGE_SIZE,
+        sort,
+        search,
+      });
 
       if (append) {
-        setImages((prev) => [...prev, ...imageList]);
+        setImages((prev) => [...prev, ...imagePage.items]);
       } else {
-        setImages(imageList);
+        setImages(imagePage.items);
       }
 
-      // If we got fewer images than PAGE_SIZE, we've reached the end
-      setHasMore(imageList.length === PAGE_SIZE);
+      setHasMore(page * PAGE_SIZE < imagePage.total);
+      setTotal(imagePage.total);
+      setOffline(imagePage.offline);
+      setSyncedAt(imagePage.syncedAt);
       setCurrentPage(page);
     } catch (error) {
       console.error("Failed to load images:", error);
@@ -120,6 +159,8 @@ export default function ImagesPage() {
       return;
     }
 
+    if (!confirmTransferOnPoorLink(selectedDevice, "Downloading")) return;
+
     try {
       // Collect all image paths
       const imagePaths: string[] = [];
@@ -136,7 +177,7 @@ export default function ImagesPage() {
       }
 
       // Download all images at once (will be a ZIP if multiple)
-      await imageService.downloadImages(imagePaths, selectedDevice.ip);
+      await imageService.downloadImages(imagePaths, selectedDevice.id);
 
       if (imagePaths.length === 1) {
         toast.success("Image downloaded");
@@ -152,6 +193,8 @@ export default function ImagesPage() {
   };
 
   const handleDelete = async () => {
+    if (!selectedDevice || offline) return;
+
     if (selectedImages.size === 0) {
       toast.error("No images selected");
       return;
@@ -164,7 +207,7 @@ export default function ImagesPage() {
       const image = images.find((img) => img.id === imageId);
       if (image) {
         try {
-          await imageService.deleteImage(image.path);
+          await imageService.deleteImage(selectedDevice.id, image.path);
           setImages((prev) => prev.filter((img) => img.id !== imageId));
           toast.success(`Deleted ${image.name}`);
         } catch (error) {
@@ -175,10 +218,6 @@ export default function ImagesPage() {
     setSelectedImages(new Set());
   };
 
-  const filteredImages = images.filter((image) =>
-    image.name?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
   const handleImageClick = (image: ImageItem) => {
     setViewerImage(image);
     setIsViewerOpen(true);
@@ -187,13 +226,13 @@ export default function ImagesPage() {
   const handleViewerNavigate = (direction: "prev" | "next") => {
     if (!viewerImage) return;
 
-    const currentIndex = filteredImages.findIndex((img) => img.id === viewerImage.id);
+    const currentIndex = images.findIndex((img) => img.id === viewerImage.id);
     if (currentIndex === -1) return;
 
     if (direction === "prev" && currentIndex > 0) {
-      setViewerImage(filteredImages[currentIndex - 1]);
-    } else if (direction === "next" && currentIndex < filteredImages.length - 1) {
-      setViewerImage(filteredImages[currentIndex + 1]);
+      setViewerImage(images[currentIndex - 1]);
+    } else if (direction === "next" && currentIndex < images.length - 1) {
+      setViewerImage(images[currentIndex + 1]);
     }
   };
 
@@ -202,7 +241,7 @@ export default function ImagesPage() {
     setViewerImage(null);
   };
 
-  if (!selectedDevice) {
+  if (!mediaDevice) {
     return (
       <DashboardLayout>
         <div className="flex h-full items-center justify-center">
@@ -258,6 +297,8 @@ export default function ImagesPage() {
 
         {/* Main Content */}
         <div className="flex-1 flex flex-col">
+          {offline && <OfflineBanner deviceName={mediaDevice.name} syncedAt={syncedAt} />}
+
           {/* Toolbar */}
           <div className="border-b p-4">
             <div className="flex items-center justify-between">
@@ -276,6 +317,9 @@ export default function ImagesPage() {
                     </span>
                   </>
                 )}
+                {selectedImages.size === 0 && (
+                  <span className="text-sm text-muted-foreground">{total} images</span>
+                )}
               </div>
 
               <div className="flex items-center gap-2">
@@ -291,8 +335,21 @@ export default function ImagesPage() {
                   />
                 </div>
 
-                {/* Actions */}
-                {selectedImages.size > 0 && (
+                {/* Sort */}
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as MediaSort)}
+                  className="h-9 rounded-lg border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {MEDIA_SORTS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+
+                {/* Actions, the saved copy of an offline device is read-only */}
+                {selectedImages.size > 0 && !offline && (
                   <>
                     <button
                       onClick={handleDownload}
@@ -351,7 +408,7 @@ export default function ImagesPage() {
                   </p>
                 </div>
               </div>
-            ) : filteredImages.length === 0 ? (
+            ) : images.length === 0 ? (
               <div className="flex h-full items-center justify-center">
                 <div className="text-center">
                   <ImageIcon className="mx-auto h-12 w-12 text-muted-foreground" />
@@ -362,7 +419,7 @@ export default function ImagesPage() {
               </div>
             ) : (
               <OptimizedImageGrid
-                images={filteredImages}
+                images={images}
                 selectedImages={selectedImages}
                 onImageSelect={handleImageSelect}
                 onImageClick={handleImageClick}
@@ -380,7 +437,7 @@ export default function ImagesPage() {
       {viewerImage && (
         <ImageViewer
           image={viewerImage}
-          images={filteredImages}
+          images={images}
           isOpen={isViewerOpen}
           onClose={handleViewerClose}
           onNavigate={handleViewerNavigate}
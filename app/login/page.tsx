@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { KeyRound, RefreshCw, Smartphone } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [token, setToken] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token.trim()) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token: token.trim() }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Login failed");
+      }
+
+      // Only follow relative redirects back into the app
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.replace(next && next.startsWith("/") && !next.startsWith("//") ? next : "/");
+    } catch (err: any) {
+      setError(err.message || "Login failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/30 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm rounded-lg border bg-background p-6 shadow-sm"
+      >
+        <div className="mb-6 flex items-center justify-center gap-2">
+          <Smartphone className="h-6 w-6 text-primary" />
+          <span className="text-xl font-semibold">AirController</span>
+        </div>
+
+        <label className="mb-1 block text-sm font-medium" htmlFor="access-token">
+          Access token
+        </label>
+        <div className="relative mb-2">
+          <KeyRound className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <input
+            id="access-token"
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            autoFocus
+            autoComplete="current-password"
+            className="w-full rounded-md border bg-background py-2 pl-9 pr-3 text-sm"
+          />
+        </div>
+        <p className="mb-4 text-xs text-muted-foreground">
+          The server prints a token the first time it starts and keeps it in{" "}
+          <code>.aircontroller/auth.json</code>.
+        </p>
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-500/10 px-3 py-2 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting || !token.trim()}
+          className={cn(
+            "flex w-full items-center justify-center gap-2 rounded-md bg-primary px-4 py-2 text-sm text-primary-foreground",
+            (submitting || !token.trim()) && "opacity-50 cursor-not-allowed"
+          )}
+        >
+          {submitting && <RefreshCw className="h-4 w-4 animate-spin" />}
+          {submitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { trustedDeviceService } from "@/services/trusted-device.service";
+import { transferService } from "@/services/transfer.service";
+import { BrowserSaveMethod, DownloadTarget, downloadService } from "@/services/download.service";
+import { BridgeInfo, getBridgeInfo, getWebSocketUrl } from "@/lib/ws-url";
+import { TrustedDevice } from "@/types";
+import { ShieldCheck, ShieldOff, Smartphone, RefreshCw, LogOut, Lock, LockOpen, Download } from "lucide-react";
+import toast from "react-hot-toast";
+
+function formatDate(timestamp?: number) {
+  return timestamp ? new Date(timestamp).toLocaleString() : "Never";
+}
+
+const SAVE_METHODS: Record<BrowserSaveMethod, string> = {
+  "file-system": "Files are written straight to a location you pick and checked against the server's checksum.",
+  "service-worker": "Files are streamed to your downloads folder and checked against the server's checksum.",
+  link: "Files are saved by the browser's downloader. Checksums are only verified over HTTPS or on localhost.",
+};
+
+export default function SettingsPage() {
+  const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [bridgeInfo, setBridgeInfo] = useState<BridgeInfo | null>(null);
+  const [bridgeUrl, setBridgeUrl] = useState<string | null>(null);
+  const [downloadTarget, setDownloadTarget] = useState<DownloadTarget>("browser");
+  const [saveMethod, setSaveMethod] = useState<BrowserSaveMethod>("link");
+  const [hostDownloadDir, setHostDownloadDir] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTrustedDevices();
+    getBridgeInfo().then(setBridgeInfo);
+    getWebSocketUrl().then(setBridgeUrl);
+    setDownloadTarget(downloadService.getTarget());
+    setSaveMethod(downloadService.browserMethod());
+    transferService
+      .getHostDownloadDir()
+      .then(setHostDownloadDir)
+      .catch((error) => console.error("Failed to load download settings:", error));
+  }, []);
+
+  const handleDownloadTarget = (target: DownloadTarget) => {
+    downloadService.setTarget(target);
+    setDownloadTarget(target);
+  };
+
+  const loadTrustedDevices = async () => {
+    setLoading(true);
+    try {
+      const devices = await trustedDeviceService.getTrustedDevices();
+      setTrustedDevices(devices.sort((a, b) => b.pairedAt - a.pairedAt));
+    } catch (error) {
+      console.error("Failed to load trusted devices:", error);
+      toast.error("Failed to load trusted devices");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (device: TrustedDevice) => {
+    if (!window.confirm(`Revoke trust for ${device.name}? It will be disconnected and must pair again.`)) {
+      return;
+    }
+
+    try {
+      await trustedDeviceService.revokeDevice(device.identity);
+      setTrustedDevices((devices) => devices.filter((d) => d.identity !== device.identity));
+      toast.success(`Revoked ${device.name}`);
+    } catch (error) {
+      console.error("Failed to revoke device:", error);
+      toast.error(`Failed to revoke ${device.name}`);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await fetch("/api/auth", { method: "DELETE" });
+    } finally {
+      window.location.href = "/login";
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="flex h-full flex-col">
+        {/* Header */}
+        <div className="border-b p-6">
+          <h1 className="text-2xl font-bold">Settings</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Manage phones allowed to connect to this computer
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          <div className="mb-4 flex items-center justify-between">
+            <div>
+              <h2 className="flex items-center gap-2 text-lg font-semibold">
+                <ShieldCheck className="h-5 w-5" />
+                Trusted devices
+              </h2>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Phones paired with a PIN connect without asking again until revoked.
+              </p>
+            </div>
+            <button
+              onClick={loadTrustedDevices}
+              disabled={loading}
+              className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-accent"
+            >
+              <RefreshCw className={loading ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+              Refresh
+            </button>
+          </div>
+
+          {trustedDevices.length === 0 ? (
+            <div className="rounded-lg border p-8 text-center text-sm text-muted-foreground">
+              {loading ? "Loading..." : "No trusted devices yet. Phones are added here once they pair."}
+            </div>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {trustedDevices.map((device) => (
+                <div key={device.identity} className="flex items-center justify-between p-4">
+                  <div className="flex items-center gap-3">
+                    <Smartphone className="h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <div className="font-medium">{device.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {device.type === "android" ? "Android" : "iOS"} · Paired{" "}
+                        {formatDate(device.pairedAt)} · Last seen {formatDate(device.lastSeenAt)}
+                      </div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(device)}
+                    className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-destructive hover:text-destructive-foreground"
+                  >
+                    <ShieldOff className="h-4 w-4" />
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-8 rounded-lg border p-4">
+            <h2 className="flex items-center gap-2 font-semibold">
+              <Download className="h-4 w-4" />
+              Downloads
+            </h2>
+            <div className="mt-3 space-y-3 text-sm">
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="download-target"
+                  checked={downloadTarget === "browser"}
+                  onChange={() => handleDownloadTarget("browser")}
+                  className="mt-1"
+                />
+                <span>
+                  Save in this browser
+                  <span className="block text-muted-foreground">{SAVE_METHODS[saveMethod]}</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="download-target"
+                  checked={downloadTarget === "host"}
+                  disabled={!hostDownloadDir}
+                  onChange={() => handleDownloadTarget("host")}
+                  className="mt-1"
+                />
+                <span className={hostDownloadDir ? undefined : "text-muted-foreground"}>
+                  Save on the server
+                  <span className="block text-muted-foreground">
+                    {hostDownloadDir ? (
+                      <>
+                        Files are kept in <code className="rounded bg-muted px-1">{hostDownloadDir}</code> on the computer running the server.
+                      </>
+                    ) : (
+                      "Start the server with DOWNLOAD_DIR set to a folder to enable this."
+                    )}
+                  </span>
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-4 rounded-lg border p-4">
+            <h2 className="flex items-center gap-2 font-semibold">
+              {bridgeInfo?.secure ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+              Connection security
+            </h2>
+            {bridgeInfo?.secure ? (
+              <>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  The server uses HTTPS and secure WebSockets. Its certificate fingerprint (SHA-256) is:
+                </p>
+                <code className="mt-2 block break-all rounded-md bg-muted px-3 py-2 text-xs">
+                  {bridgeInfo.fingerprint}
+                </code>
+                <p className="mt-2 text-sm text-muted-foreground">
+                  If the browser refuses to connect, open{" "}
+                  <a
+                    href={`${bridgeUrl}/api/auth/session`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="underline hover:text-foreground"
+                  >
+                    the server
+                  </a>{" "}
+                  once and accept its certificate after checking the fingerprint matches.
+                </p>
+              </>
+            ) : (
+              <p className="mt-1 text-sm text-muted-foreground">
+                {bridgeInfo
+                  ? "The server uses plain HTTP. Start it with TLS=true to enable HTTPS and secure WebSockets."
+                  : "The server is not running."}
+              </p>
+            )}
+          </div>
+
+          <div className="mt-4 flex items-center justify-between rounded-lg border p-4">
+            <div>
+              <h2 className="font-semibold">Session</h2>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Sign out of this browser. The access token is needed to sign in again.
+              </p>
+            </div>
+            <button
+              onClick={handleSignOut}
+              className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-accent"
+            >
+              <LogOut className="h-4 w-4" />
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -2,9 +2,11 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { OfflineBanner } from "@/components/layout/offline-banner";
 import { useDeviceStore } from "@/store/device.store";
+import { useMediaDevice } from "@/hooks/use-media-device";
 import { videoService } from "@/services/video.service";
-import { VideoItem } from "@/types";
+import { MediaSort, VideoItem } from "@/types";
 import {
   Play,
   Pause,
@@ -17,16 +19,36 @@ import {
   List,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { confirmTransferOnPoorLink } from "@/lib/link-quality";
+import { deviceVideoPath } from "@/lib/device-stream";
+import { useBridgeUrl } from "@/hooks/use-bridge-url";
+import { VideoPlayer } from "@/components/ui/video-player";
 import toast from "react-hot-toast";
 
+const MEDIA_SORTS: { value: MediaSort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "name", label: "Name" },
+  { value: "size", label: "Largest first" },
+];
+
 export default function VideosPage() {
-  const { selectedDevice, isInitializing } = useDeviceStore();
+  const { selectedDevice } = useDeviceStore();
+  // The selected device, or the last one synced while none is connected
+  const mediaDevice = useMediaDevice();
+  const deviceId = mediaDevice?.id;
+  const bridgeUrl = useBridgeUrl();
   const [videos, setVideos] = useState<VideoItem[]>([]);
   const [selectedVideos, setSelectedVideos] = useState<Set<string>>(new Set());
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<MediaSort>("newest");
+  const [total, setTotal] = useState(0);
+  const [offline, setOffline] = useState(false);
+  const [syncedAt, setSyncedAt] = useState(0);
   const [playingVideo, setPlayingVideo] = useState<VideoItem | null>(null);
   const [showPlayer, setShowPlayer] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
@@ -36,6 +58,8 @@ export default function VideosPage() {
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
   const loadVideos = async (page: number = 1, append: boolean = false) => {
+    if (!deviceId) return;
+
     if (append) {
       setLoadingMore(true);
     } else {
@@ -43,16 +67,23 @@ export default function VideosPage() {
     }
 
     try {
-      const videoList = await videoService.getVideos(page, PAGE_SIZE);
+      const videoPage = await videoService.getVideos(deviceId, {
+        page,
+        pageSize: PAGE_SIZE,
+        sort,
+        search,
+      });
 
       if (append) {
-        setVideos((prev) => [...prev, ...videoList]);
+        setVideos((prev) => [...prev, ...videoPage.items]);
       } else {
-        setVideos(videoList);
+        setVideos(videoPage.items);
       }
 
-      // If we got fewer videos than PAGE_SIZE, we've reached the end
-      setHasMore(videoList.length === PAGE_SIZE);
+      setHasMore(page * PAGE_SIZE < videoPage.total);
+      setTotal(videoPage.total);
+      setOffline(videoPage.offline);
+      setSyncedAt(videoPage.syncedAt);
       setCurrentPage(page);
     } catch (error) {
       console.error("Failed to load videos:", error);
@@ -74,12 +105,18 @@ export default function VideosPage() {
     }
   }, [loading, loadingMore, hasMore, currentPage]);
 
+  // The bridge searches its index, so wait for a pause in typing
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
   useEffect(() => {
-    // Only load videos after initialization is complete and device is selected
-    if (!isInitializing && selectedDevice) {
+    // Reload when the device connects or goes away, the bridge answers offline from its index
+    if (deviceId) {
       loadVideos();
     }
-  }, [isInitializing, selectedDevice]);
+  }, [deviceId, selectedDevice, search, sort]);
 
   // Set up IntersectionObserver for infinite scroll
   useEffect(() => {
@@ -120,7 +157,7 @@ export default function VideosPage() {
   };
 
   const handlePlayVideo = (video: VideoItem) => {
-    if (!selectedDevice) {
+    if (!selectedDevice || offline) {
       toast.error("No device connected");
       return;
     }
@@ -144,6 +181,8 @@ export default function VideosPage() {
       return;
     }
 
+    if (!confirmTransferOnPoorLink(selectedDevice, "Downloading")) return;
+
     try {
       // Collect all video paths
       const videoPaths: string[] = [];
@@ -160,7 +199,7 @@ export default function VideosPage() {
       }
 
       // Download all videos at once (will be a ZIP if multiple)
-      await videoService.downloadVideos(videoPaths, selectedDevice.ip);
+      await videoService.downloadVideos(videoPaths, selectedDevice.id);
 
       if (videoPaths.length === 1) {
         toast.success("Video downloaded");
@@ -194,7 +233,7 @@ export default function VideosPage() {
       const video = videos.find((v) => v.id === videoId);
       if (video) {
         try {
-          await wsService.deleteFile(video.path);
+          await wsService.deleteFile(selectedDevice.id, video.path);
           setVideos((prev) => prev.filter((v) => v.id !== videoId));
           toast.success(`Deleted ${video.name}`);
         } catch (error) {
@@ -228,11 +267,7 @@ export default function VideosPage() {
     return `${mb.toFixed(1)} MB`;
   };
 
-  const filteredVideos = videos.filter((video) =>
-    video.name.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
-  if (!selectedDevice) {
+  if (!mediaDevice) {
     return (
       <DashboardLayout>
         <div className="flex h-full items-center justify-center">
@@ -248,15 +283,19 @@ export default function VideosPage() {
     );
   }
 
+  const videoUrl = playingVideo ? bridgeUrl(deviceVideoPath(mediaDevice.id, playingVideo.id)) : undefined;
+
   return (
     <>
       <DashboardLayout>
         <div className="flex h-full flex-col">
+          {offline && <OfflineBanner deviceName={mediaDevice.name} syncedAt={syncedAt} />}
+
           {/* Header */}
           <div className="border-b p-6">
             <h1 className="text-2xl font-bold">Videos</h1>
             <p className="mt-1 text-sm text-muted-foreground">
-              {videos.length} videos • {formatFileSize(videos.reduce((acc, v) => acc + v.size, 0))}
+              {total} videos
             </p>
           </div>
 
@@ -264,7 +303,7 @@ export default function VideosPage() {
           <div className="border-b p-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-4">
-                {selectedVideos.size > 0 && (
+                {selectedVideos.size > 0 && !offline && (
                   <>
                     <span className="text-sm font-medium">
                       {selectedVideos.size} selected
@@ -300,6 +339,19 @@ export default function VideosPage() {
                   />
                 </div>
 
+                {/* Sort */}
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as MediaSort)}
+                  className="h-9 rounded-lg border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {MEDIA_SORTS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+
                 {/* View Mode */}
                 <div className="flex items-center rounded-lg border">
                   <button
@@ -338,7 +390,7 @@ export default function VideosPage() {
                   <p className="mt-4 text-sm text-muted-foreground">Loading videos...</p>
                 </div>
               </div>
-            ) : filteredVideos.length === 0 ? (
+            ) : videos.length === 0 ? (
               <div className="flex h-full items-center justify-center">
                 <div className="text-center">
                   <Film className="mx-auto h-12 w-12 text-muted-foreground" />
@@ -347,7 +399,7 @@ export default function VideosPage() {
               </div>
             ) : viewMode === "grid" ? (
               <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
-                {filteredVideos.map((video) => (
+                {videos.map((video) => (
                   <div
                     key={video.id}
                     className={cn(
@@ -417,7 +469,7 @@ export default function VideosPage() {
               </div>
             ) : (
               <div className="space-y-2">
-                {filteredVideos.map((video) => (
+                {videos.map((video) => (
                   <div
                     key={video.id}
                     className={cn(
@@ -487,7 +539,7 @@ export default function VideosPage() {
             )}
 
             {/* Infinite scroll trigger */}
-            {!loading && filteredVideos.length > 0 && (
+            {!loading && videos.length > 0 && (
               <div
                 ref={loadMoreRef}
                 className="flex items-center justify-center py-8"
@@ -550,14 +602,7 @@ export default function VideosPage() {
             </div>
 
             {/* Video player */}
-            <video
-              controls
-              autoPlay
-              className="w-full max-h-[80vh] rounded-lg bg-black"
-              src={`http://${selectedDevice.ip}:9527/video/item/${playingVideo.id}`}
-            >
-              Your browser does not support the video tag.
-            </video>
+            {videoUrl && <VideoPlayer key={videoUrl} src={videoUrl} autoPlay />}
           </div>
         </div>
       )}
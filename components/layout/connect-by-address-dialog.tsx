@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { X, RefreshCw } from "lucide-react";
+import { discoveryService } from "@/services/discovery.service";
+import { Device } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface ConnectByAddressDialogProps {
+  onClose: () => void;
+  onDeviceAdded: (device: Device) => void;
+}
+
+export function ConnectByAddressDialog({ onClose, onDeviceAdded }: ConnectByAddressDialogProps) {
+  const [host, setHost] = useState("");
+  const [name, setName] = useState("");
+  const [probing, setProbing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!host.trim()) return;
+
+    setProbing(true);
+    setError(null);
+    try {
+      const device = await discoveryService.addManualDevice(host.trim(), name.trim() || undefined);
+      onDeviceAdded(device);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || `Could not reach ${host}`);
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md rounded-lg border bg-background p-6 shadow-lg"
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Connect by address</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-muted-foreground">
+          Use this when your network blocks discovery broadcasts. The phone must
+          have AirController open.
+        </p>
+
+        <label className="mb-1 block text-sm font-medium" htmlFor="device-host">
+          IP address or hostname
+        </label>
+        <input
+          id="device-host"
+          value={host}
+          onChange={(e) => setHost(e.target.value)}
+          placeholder="192.168.1.50"
+          autoFocus
+          className="mb-3 w-full rounded-md border bg-background px-3 py-2 text-sm"
+        />
+
+        <label className="mb-1 block text-sm font-medium" htmlFor="device-name">
+          Name <span className="text-muted-foreground">(optional)</span>
+        </label>
+        <input
+          id="device-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="My phone"
+          className="mb-4 w-full rounded-md border bg-background px-3 py-2 text-sm"
+        />
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-500/10 px-3 py-2 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border px-4 py-2 text-sm hover:bg-accent"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={probing || !host.trim()}
+            className={cn(
+              "flex items-center gap-2 rounded-md bg-primary px-4 py-2 text-sm text-primary-foreground",
+              (probing || !host.trim()) && "opacity-50 cursor-not-allowed"
+            )}
+          >
+            {probing && <RefreshCw className="h-4 w-4 animate-spin" />}
+            {probing ? "Checking..." : "Connect"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -12,10 +12,51 @@ import {
   ChevronDown,
   Smartphone,
   RefreshCw,
+  Plus,
+  X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import toast from "react-hot-toast";
 import { getWebSocketUrl } from "@/lib/ws-url";
+import { handleUnauthorized } from "@/lib/auth";
+import {
+  ConnectionState,
+  ConnectionStateInfo,
+  Device,
+  LinkQuality,
+  PairingMethod,
+  PairingRequest,
+} from "@/types";
+import { SignalStrength } from "@/components/ui/signal-strength";
+import { ConnectByAddressDialog } from "@/components/layout/connect-by-address-dialog";
+import { PairingDialog } from "@/components/layout/pairing-dialog";
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  discovered: "Discovered",
+  connecting: "Connecting",
+  handshaking: "Handshaking",
+  pairing: "Pairing",
+  connected: "Connected",
+  degraded: "Degraded",
+  reconnecting: "Reconnecting",
+  lost: "Lost",
+};
+
+// Map the server-side lifecycle onto the coarse status the pages check
+function toDeviceStatus(state: ConnectionState): Device["status"] {
+  switch (state) {
+    case "handshaking":
+    case "connected":
+    case "degraded":
+      return "connected";
+    case "connecting":
+    case "pairing":
+    case "reconnecting":
+      return "connecting";
+    default:
+      return "disconnected";
+  }
+}
 
 export function DeviceConnectionBar() {
   const {
@@ -23,17 +64,23 @@ export function DeviceConnectionBar() {
     selectedDevice,
     isScanning,
     addDevice,
+    removeDevice,
     selectDevice,
+    switchDevice,
     updateDevice,
     setScanning,
     setInitializing,
   } = useDeviceStore();
 
   const [showDeviceList, setShowDeviceList] = useState(false);
+  const [showAddressDialog, setShowAddressDialog] = useState(false);
+  const [pairing, setPairing] = useState<{ request: PairingRequest; error: string | null } | null>(null);
+  const connectedDevices = devices.filter((d) => d.status === "connected");
 
   useEffect(() => {
     // Check if backend already has a connection
     checkExistingConnection();
+    loadManualDevices();
     startDiscovery();
 
     return () => {
@@ -42,27 +89,28 @@ export function DeviceConnectionBar() {
   }, []); // Empty dependency array - only run once on mount
 
   useEffect(() => {
-    // Listen for mobile info updates
+    // Listen for mobile info updates from any connected device
     const handleMobileInfoUpdate = (event: CustomEvent) => {
       const { deviceId, data } = event.detail;
-      if (selectedDevice && selectedDevice.id === deviceId) {
-        // Update device info with mobile info (merge with existing)
-        const updatedDeviceInfo = selectedDevice.deviceInfo ? {
-          ...selectedDevice.deviceInfo,
-          battery: data.battery,
-          storage: data.storage,
-        } : {
-          model: selectedDevice.name,
-          manufacturer: 'Android',
-          androidVersion: '',
-          battery: data.battery,
-          storage: data.storage,
-        };
-
-        updateDevice(deviceId, {
-          deviceInfo: updatedDeviceInfo
-        });
-      }
+      const device = useDeviceStore.getState().devices.find((d) => d.id === deviceId);
+      if (!device) return;
+
+      // Update device info with mobile info (merge with existing)
+      const updatedDeviceInfo = device.deviceInfo ? {
+        ...device.deviceInfo,
+        battery: data.battery,
+        storage: data.storage,
+      } : {
+        model: device.name,
+        manufacturer: 'Android',
+        androidVersion: '',
+        battery: data.battery,
+        storage: data.storage,
+      };
+
+      updateDevice(deviceId, {
+        deviceInfo: updatedDeviceInfo
+      });
     };
 
     window.addEventListener('mobile:info:update', handleMobileInfoUpdate as EventListener);
@@ -70,7 +118,65 @@ export function DeviceConnectionBar() {
     return () => {
       window.removeEventListener('mobile:info:update', handleMobileInfoUpdate as EventListener);
     };
-  }, [selectedDevice?.id, updateDevice]); // Only re-run when device ID changes
+  }, [updateDevice]);
+
+  useEffect(() => {
+    // Follow the connection state machine of every device on the server
+    const handleConnectionState = (info: ConnectionStateInfo & { deviceId: string }) => {
+      const { deviceId, ...connectionState } = info;
+      updateDevice(deviceId, {
+        status: toDeviceStatus(connectionState.state),
+        connectionState,
+      });
+
+      // Pairing finished one way or the other
+      if (connectionState.state !== "pairing") {
+        setPairing((current) => (current?.request.deviceId === deviceId ? null : current));
+      }
+
+      if (connectionState.state !== "lost") return;
+
+      // The active device is gone for good, fall back to another connected one
+      const { devices, selectedDevice } = useDeviceStore.getState();
+      if (selectedDevice?.id === deviceId) {
+        const nextDevice = devices.find((d) => d.id !== deviceId && d.status === "connected");
+        selectDevice(nextDevice || null);
+        if (nextDevice) {
+          devicePersistence.saveConnectedDevice(nextDevice);
+        } else {
+          devicePersistence.clearConnectedDevice();
+        }
+      }
+    };
+
+    const handleLinkQuality = ({ deviceId, linkQuality }: { deviceId: string; linkQuality: LinkQuality }) => {
+      updateDevice(deviceId, { linkQuality });
+    };
+
+    const handlePairingRequired = (request: PairingRequest) => {
+      setPairing({ request, error: null });
+    };
+
+    const handlePairingAttempt = ({ deviceId, attemptsLeft, error }: { deviceId: string; attemptsLeft: number; error: string }) => {
+      setPairing((current) =>
+        current?.request.deviceId === deviceId
+          ? { request: { ...current.request, attemptsLeft }, error }
+          : current
+      );
+    };
+
+    wsService.on("connection:state", handleConnectionState);
+    wsService.on("link:quality", handleLinkQuality);
+    wsService.on("pairing:required", handlePairingRequired);
+    wsService.on("pairing:attempt", handlePairingAttempt);
+
+    return () => {
+      wsService.off("connection:state", handleConnectionState);
+      wsService.off("link:quality", handleLinkQuality);
+      wsService.off("pairing:required", handlePairingRequired);
+      wsService.off("pairing:attempt", handlePairingAttempt);
+    };
+  }, [updateDevice, selectDevice]);
 
   const checkExistingConnection = async () => {
     setInitializing(true);
@@ -80,41 +186,39 @@ export function DeviceConnectionBar() {
 
       // Query backend for current connection status
       const wsUrl = await getWebSocketUrl();
-      const response = await fetch(`${wsUrl}/api/connection/status`);
+      const response = await fetch(`${wsUrl}/api/connection/status`, { credentials: 'include' });
+      if (handleUnauthorized(response)) return;
       const data = await response.json();
 
-      // Check if we have an active connection on backend
-      if (data.hasConnection && data.devices.length > 0) {
-        const backendDevice = data.devices[0];
-
-        // If we have a saved device, check if it matches the backend connection
-        if (savedDevice && savedDevice.ip === backendDevice.device.ip) {
-          console.log('Restored device from localStorage matches backend connection');
-        } else if (savedDevice) {
-          console.log('Saved device does not match backend, using backend device instead');
-        }
-
-        // Update store with connected device from backend
-        const deviceWithInfo = {
+      // Check if we have active connections on backend
+      const backendDevices = data.devices.filter((d: any) => d.connected);
+      if (data.hasConnection && backendDevices.length > 0) {
+        // Restore every connected device so they can be switched between
+        const restoredDevices: Device[] = backendDevices.map((backendDevice: any) => ({
           ...backendDevice.device,
-          deviceInfo: backendDevice.device.deviceInfo || backendDevice.device.deviceInfo,
-        };
-        addDevice(deviceWithInfo);
-        updateDevice(deviceWithInfo.id, {
-          status: "connected",
-          deviceInfo: deviceWithInfo.deviceInfo
-        });
-        selectDevice(deviceWithInfo);
+          status: toDeviceStatus(backendDevice.connectionState.state),
+          connectionState: backendDevice.connectionState,
+          linkQuality: backendDevice.linkQuality,
+        }));
+        restoredDevices.forEach((device) => addDevice(device));
+
+        // Prefer the device that was active last time, if it is still connected
+        const activeDevice =
+          restoredDevices.find((d) => d.id === savedDevice?.id) || restoredDevices[0];
+        if (savedDevice && savedDevice.id !== activeDevice.id) {
+          console.log('Saved device is not connected on backend, using another connected device');
+        }
+        selectDevice(activeDevice);
 
         // Save to localStorage
-        devicePersistence.saveConnectedDevice(deviceWithInfo);
+        devicePersistence.saveConnectedDevice(activeDevice);
 
         // Connect WebSocket if not connected
         if (!wsService.isConnected()) {
-          await wsService.connect('localhost');
+          await wsService.connect();
         }
 
-        console.log('Restored connection to device:', deviceWithInfo.name);
+        console.log(`Restored ${restoredDevices.length} connected device(s), active: ${activeDevice.name}`);
       } else {
         // No backend connection, clear localStorage if we had a saved device
         if (savedDevice) {
@@ -131,10 +235,82 @@ export function DeviceConnectionBar() {
     }
   };
 
+  // Connected and connecting devices are owned by their connection state, discovery
+  // only refreshes their name and last-seen time
+  const isActive = (device?: Device) =>
+    device?.status === "connected" || device?.status === "connecting";
+
+  const handleDeviceFound = (device: Device) => {
+    const existing = useDeviceStore.getState().devices.find((d) => d.id === device.id);
+    if (existing) {
+      updateDevice(device.id, { name: device.name, lastSeen: device.lastSeen });
+    } else {
+      addDevice(device);
+    }
+  };
+
+  const handleManualDevice = (device: Device) => {
+    const existing = useDeviceStore.getState().devices.find((d) => d.id === device.id);
+    if (existing) {
+      updateDevice(device.id, { name: device.name, manual: true });
+    } else {
+      addDevice(device);
+    }
+  };
+
+  const loadManualDevices = async () => {
+    try {
+      const manualDevices = await discoveryService.getManualDevices();
+      manualDevices.forEach(handleManualDevice);
+    } catch (error) {
+      console.error('Failed to load manually added devices:', error);
+    }
+  };
+
+  const handleManualDeviceAdded = (device: Device) => {
+    handleManualDevice(device);
+    const current = useDeviceStore.getState().devices.find((d) => d.id === device.id) || device;
+    if (current.status === "connected") {
+      handleSwitchDevice(current.id);
+    } else {
+      connectToDevice(current);
+    }
+  };
+
+  const forgetManualDevice = async (device: Device) => {
+    try {
+      await discoveryService.forgetManualDevice(device.id);
+      if (isActive(device)) {
+        updateDevice(device.id, { manual: false });
+      } else {
+        removeDevice(device.id);
+      }
+      toast.success(`Forgot ${device.name}`);
+    } catch (error) {
+      console.error('Failed to forget device:', error);
+      toast.error(`Failed to forget ${device.name}`);
+    }
+  };
+
   const startDiscovery = async () => {
     setScanning(true);
-    await discoveryService.startDiscovery((device) => {
-      addDevice(device);
+    await discoveryService.startDiscovery(handleDeviceFound, {
+      onDeviceLost: (deviceId) => {
+        // Manually added devices stay listed, they never depended on broadcasts
+        const existing = useDeviceStore.getState().devices.find((d) => d.id === deviceId);
+        if (existing && !isActive(existing) && !existing.manual) {
+          removeDevice(deviceId);
+        }
+      },
+      onDeviceChanged: (device, previousDeviceId) => {
+        if (previousDeviceId !== device.id) {
+          const previous = useDeviceStore.getState().devices.find((d) => d.id === previousDeviceId);
+          if (previous && !isActive(previous)) {
+            removeDevice(previousDeviceId);
+          }
+        }
+        handleDeviceFound(device);
+      },
     });
     setTimeout(() => setScanning(false), 10000);
   };
@@ -144,79 +320,67 @@ export function DeviceConnectionBar() {
       updateDevice(device.id, { status: "connecting" });
       setShowDeviceList(false);
 
-      // First, check if backend already has this device connected
-      const wsUrl = await getWebSocketUrl();
-      const checkResponse = await fetch(`${wsUrl}/api/connection/status`);
-      const statusData = await checkResponse.json();
-
-      const isAlreadyConnected = statusData.devices.some((d: any) =>
-        d.device.ip === device.ip && d.connected
-      );
-
-      if (isAlreadyConnected) {
-        // Already connected on backend, just update frontend state
-        console.log('Device already connected on backend');
-        updateDevice(device.id, { status: "connected" });
-        selectDevice(device);
-
-        // Save to localStorage
-        devicePersistence.saveConnectedDevice(device);
-
-        // Connect WebSocket if needed
-        if (!wsService.isConnected()) {
-          await wsService.connect('localhost', 8080);
-        }
-
-        toast.success(`Connected to ${device.name}`);
-        return;
-      }
-
-      // Not connected, establish new connection
+      // The server reuses an existing connection and answers right away
       if (!wsService.isConnected()) {
         console.log('Connecting to WebSocket server...');
-        await wsService.connect('localhost');
+        await wsService.connect();
       }
 
       // Create promise to wait for response
       const connectionPromise = new Promise((resolve, reject) => {
-        const timeout = setTimeout(() => {
+        const cleanup = () => {
+          clearTimeout(timeout);
           wsService.off('connection:success', onSuccess);
           wsService.off('connection:error', onError);
+          wsService.off('pairing:required', onPairing);
+        };
+
+        const timeout = setTimeout(() => {
+          cleanup();
           reject(new Error('Connection timeout'));
         }, 15000);
 
+        // Several devices may be connecting at once, only react to this one
         const onSuccess = (data: any) => {
-          clearTimeout(timeout);
-          wsService.off('connection:error', onError);
+          if (data.deviceId !== device.id) return;
+          cleanup();
           resolve(data);
         };
 
         const onError = (data: any) => {
-          clearTimeout(timeout);
-          wsService.off('connection:success', onSuccess);
+          if (data.deviceId && data.deviceId !== device.id) return;
+          cleanup();
           reject(new Error(data.error || 'Connection failed'));
         };
 
+        // Pairing waits for the user, the server expires the PIN on its own
+        const onPairing = (data: PairingRequest) => {
+          if (data.deviceId !== device.id) return;
+          clearTimeout(timeout);
+        };
+
         wsService.on('connection:success', onSuccess);
         wsService.on('connection:error', onError);
+        wsService.on('pairing:required', onPairing);
       });
 
       // Send connection request
       console.log('Sending connection request for device:', device);
-      // Send the connect:device message - just send the device data directly
-      wsService.send('connect:device', {
-        type: 'connect:device',
-        device: device
-      });
+      wsService.connectDevice(device);
 
       // Wait for response
-      await connectionPromise;
+      const result: any = await connectionPromise;
 
-      updateDevice(device.id, { status: "connected" });
-      selectDevice(device);
+      updateDevice(device.id, {
+        status: toDeviceStatus(result.connectionState.state),
+        connectionState: result.connectionState,
+      });
+      const connectedDevice =
+        useDeviceStore.getState().devices.find((d) => d.id === device.id) || device;
+      selectDevice(connectedDevice);
 
       // Save connected device to localStorage
-      devicePersistence.saveConnectedDevice(device);
+      devicePersistence.saveConnectedDevice(connectedDevice);
 
       toast.success(`Connected to ${device.name}`);
     } catch (error: any) {
@@ -228,14 +392,51 @@ export function DeviceConnectionBar() {
 
   const disconnectDevice = () => {
     if (selectedDevice) {
-      wsService.disconnect();
+      // Only close the selected device, other phones stay connected
+      wsService.disconnectDevice(selectedDevice.id);
       updateDevice(selectedDevice.id, { status: "disconnected" });
-      selectDevice(null);
 
-      // Clear localStorage
-      devicePersistence.clearConnectedDevice();
+      const nextDevice = connectedDevices.find((d) => d.id !== selectedDevice.id);
+      if (nextDevice) {
+        selectDevice(nextDevice);
+        devicePersistence.saveConnectedDevice(nextDevice);
+      } else {
+        selectDevice(null);
+        devicePersistence.clearConnectedDevice();
+      }
+
+      toast.success(`Disconnected from ${selectedDevice.name}`);
+    }
+  };
+
+  const selectedState = selectedDevice?.connectionState;
+  const pairingDevice = pairing && devices.find((d) => d.id === pairing.request.deviceId);
 
-      toast.success("Disconnected");
+  const handlePairingSubmit = (pin: string) => {
+    if (pairing) {
+      wsService.submitPairingPin(pairing.request.deviceId, pin);
+    }
+  };
+
+  const handlePairingSwitch = (method: PairingMethod) => {
+    if (pairing) {
+      wsService.restartPairing(pairing.request.deviceId, method);
+    }
+  };
+
+  const handlePairingCancel = () => {
+    if (pairing) {
+      wsService.cancelPairing(pairing.request.deviceId);
+      setPairing(null);
+    }
+  };
+
+  const handleSwitchDevice = (deviceId: string) => {
+    setShowDeviceList(false);
+    switchDevice(deviceId);
+    const device = connectedDevices.find((d) => d.id === deviceId);
+    if (device) {
+      devicePersistence.saveConnectedDevice(device);
     }
   };
 
@@ -246,17 +447,63 @@ export function DeviceConnectionBar() {
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2">
             {selectedDevice ? (
-              <Wifi className="h-5 w-5 text-green-500" />
+              <Wifi
+                className={cn(
+                  "h-5 w-5",
+                  selectedState && selectedState.state !== "connected"
+                    ? "text-yellow-500"
+                    : "text-green-500"
+                )}
+              />
             ) : (
               <WifiOff className="h-5 w-5 text-muted-foreground" />
             )}
-            <span className="text-sm font-medium">
-              {selectedDevice
-                ? `Connected to ${selectedDevice.name}`
-                : "No device connected"}
-            </span>
+            {connectedDevices.length > 1 && selectedDevice ? (
+              <select
+                value={selectedDevice.id}
+                onChange={(e) => handleSwitchDevice(e.target.value)}
+                className="rounded-md border bg-background px-2 py-1 text-sm font-medium"
+                title="Switch active device"
+              >
+                {connectedDevices.map((device) => (
+                  <option key={device.id} value={device.id}>
+                    {device.name} ({device.ip})
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-sm font-medium">
+                {selectedDevice
+                  ? `Connected to ${selectedDevice.name}`
+                  : "No device connected"}
+              </span>
+            )}
           </div>
 
+          {selectedDevice && <SignalStrength quality={selectedDevice.linkQuality} />}
+
+          {selectedState && (
+            <div className="flex items-center gap-2 text-xs" title={selectedState.reason}>
+              <span
+                className={cn(
+                  "rounded-full px-2 py-0.5 font-medium",
+                  selectedState.state === "connected" && "bg-green-500/10 text-green-600",
+                  (selectedState.state === "handshaking" || selectedState.state === "degraded") &&
+                    "bg-yellow-500/10 text-yellow-600",
+                  selectedState.state === "reconnecting" && "bg-orange-500/10 text-orange-600",
+                  selectedState.state === "lost" && "bg-red-500/10 text-red-600"
+                )}
+              >
+                {STATE_LABELS[selectedState.state]}
+              </span>
+              {selectedState.state !== "connected" && (
+                <span className="max-w-xs truncate text-muted-foreground">
+                  {selectedState.reason}
+                </span>
+              )}
+            </div>
+          )}
+
           {selectedDevice && (
             <button
               onClick={disconnectDevice}
@@ -314,41 +561,88 @@ export function DeviceConnectionBar() {
             ) : (
               <div className="space-y-1">
                 {devices.map((device) => (
-                  <button
-                    key={device.id}
-                    onClick={() => connectToDevice(device)}
-                    disabled={device.status === "connecting"}
-                    className={cn(
-                      "flex w-full items-center justify-between rounded-md px-3 py-2 text-sm",
-                      "hover:bg-accent transition-colors",
-                      device.id === selectedDevice?.id && "bg-primary/10",
-                      device.status === "connecting" && "opacity-50 cursor-not-allowed"
-                    )}
-                  >
-                    <div className="flex items-center gap-3">
-                      <Smartphone className="h-4 w-4" />
-                      <div className="text-left">
-                        <div className="font-medium">{device.name}</div>
-                        <div className="text-xs text-muted-foreground">
-                          {device.ip}
-                        </div>
-                      </div>
-                    </div>
-                    <div
+                  <div key={device.id} className="flex items-center gap-1">
+                    <button
+                      onClick={() =>
+                        device.status === "connected"
+                          ? handleSwitchDevice(device.id)
+                          : connectToDevice(device)
+                      }
+                      disabled={device.status === "connecting"}
                       className={cn(
-                        "h-2 w-2 rounded-full",
-                        device.status === "connected" && "bg-green-500",
-                        device.status === "connecting" && "bg-yellow-500 animate-pulse",
-                        device.status === "disconnected" && "bg-gray-400"
+                        "flex flex-1 items-center justify-between rounded-md px-3 py-2 text-sm",
+                        "hover:bg-accent transition-colors",
+                        device.id === selectedDevice?.id && "bg-primary/10",
+                        device.status === "connecting" && "opacity-50 cursor-not-allowed"
                       )}
-                    />
-                  </button>
+                    >
+                      <div className="flex items-center gap-3">
+                        <Smartphone className="h-4 w-4" />
+                        <div className="text-left">
+                          <div className="font-medium">{device.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {device.ip}
+                            {device.manual && " · Added manually"}
+                            {device.connectionState &&
+                              ` · ${STATE_LABELS[device.connectionState.state]}`}
+                          </div>
+                        </div>
+                      </div>
+                      <div
+                        className={cn(
+                          "h-2 w-2 rounded-full",
+                          device.status === "connected" && "bg-green-500",
+                          device.status === "connecting" && "bg-yellow-500 animate-pulse",
+                          device.status === "disconnected" && "bg-gray-400"
+                        )}
+                      />
+                    </button>
+                    {device.manual && (
+                      <button
+                        onClick={() => forgetManualDevice(device)}
+                        title="Forget this device"
+                        className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
                 ))}
               </div>
             )}
           </div>
+          <div className="border-t p-2">
+            <button
+              onClick={() => {
+                setShowDeviceList(false);
+                setShowAddressDialog(true);
+              }}
+              className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-accent transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              Connect by address
+            </button>
+          </div>
         </div>
       )}
+
+      {showAddressDialog && (
+        <ConnectByAddressDialog
+          onClose={() => setShowAddressDialog(false)}
+          onDeviceAdded={handleManualDeviceAdded}
+        />
+      )}
+
+      {pairing && (
+        <PairingDialog
+          request={pairing.request}
+          deviceName={pairingDevice?.name || pairing.request.identity}
+          error={pairing.error}
+          onSubmit={handlePairingSubmit}
+          onSwitchMethod={handlePairingSwitch}
+          onCancel={handlePairingCancel}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+"use client";
+
+import { CloudOff } from "lucide-react";
+
+interface OfflineBannerProps {
+  deviceName: string;
+  syncedAt: number;
+}
+
+/**
+ * Shown above a gallery that is browsed from the bridge's saved media index
+ * because the phone is not connected
+ */
+export function OfflineBanner({ deviceName, syncedAt }: OfflineBannerProps) {
+  return (
+    <div className="flex items-center gap-2 border-b bg-amber-500/10 px-4 py-2 text-sm text-amber-700 dark:text-amber-400">
+      <CloudOff className="h-4 w-4 flex-shrink-0" />
+      <span>
+        <span className="font-medium">Offline</span> · {deviceName} is not connected. Showing the copy saved{" "}
+        {syncedAt ? new Date(syncedAt).toLocaleString() : "earlier"}, downloads and changes need the device.
+      </span>
+    </div>
+  );
+}
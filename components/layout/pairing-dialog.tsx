@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, ShieldCheck } from "lucide-react";
+import { PairingMethod, PairingRequest } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface PairingDialogProps {
+  request: PairingRequest;
+  deviceName: string;
+  error?: string | null;
+  onSubmit: (pin: string) => void;
+  onSwitchMethod: (method: PairingMethod) => void;
+  onCancel: () => void;
+}
+
+function useSecondsLeft(expiresAt: number) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return Math.max(0, Math.ceil((expiresAt - now) / 1000));
+}
+
+export function PairingDialog({
+  request,
+  deviceName,
+  error,
+  onSubmit,
+  onSwitchMethod,
+  onCancel,
+}: PairingDialogProps) {
+  const [pin, setPin] = useState("");
+  const secondsLeft = useSecondsLeft(request.expiresAt);
+
+  // A new PIN was issued, drop whatever was typed for the old one
+  useEffect(() => {
+    setPin("");
+  }, [request.expiresAt]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin.length === 6) {
+      onSubmit(pin);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md rounded-lg border bg-background p-6 shadow-lg"
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <ShieldCheck className="h-5 w-5" />
+            Pair with {deviceName}
+          </h2>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {request.method === "browser" ? (
+          <>
+            <p className="mb-4 text-sm text-muted-foreground">
+              This phone has not been paired yet. Enter this PIN in AirController on{" "}
+              {deviceName} to trust it.
+            </p>
+            <div className="mb-4 rounded-md bg-muted py-4 text-center font-mono text-3xl tracking-[0.5em]">
+              {request.pin}
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="mb-4 text-sm text-muted-foreground">
+              This phone has not been paired yet. Enter the PIN shown in AirController on{" "}
+              {deviceName}.
+            </p>
+            <input
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="000000"
+              autoFocus
+              className="mb-4 w-full rounded-md border bg-background px-3 py-2 text-center font-mono text-2xl tracking-[0.5em]"
+            />
+          </>
+        )}
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-500/10 px-3 py-2 text-sm text-red-600">
+            {error}, {request.attemptsLeft} {request.attemptsLeft === 1 ? "attempt" : "attempts"} left
+          </div>
+        )}
+
+        <div className="mb-4 flex items-center justify-between text-xs text-muted-foreground">
+          <span>Expires in {secondsLeft}s</span>
+          <button
+            type="button"
+            onClick={() => onSwitchMethod(request.method === "browser" ? "phone" : "browser")}
+            className="underline hover:text-foreground"
+          >
+            {request.method === "browser"
+              ? "Show the PIN on the phone instead"
+              : "Show the PIN here instead"}
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border px-4 py-2 text-sm hover:bg-accent"
+          >
+            Cancel
+          </button>
+          {request.method === "phone" && (
+            <button
+              type="submit"
+              disabled={pin.length !== 6}
+              className={cn(
+                "rounded-md bg-primary px-4 py-2 text-sm text-primary-foreground",
+                pin.length !== 6 && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              Pair
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
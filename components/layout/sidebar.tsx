@@ -16,6 +16,7 @@ import {
   Smartphone,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { TransfersPanel } from "./transfers-panel";
 
 const navItems = [
   { href: "/", label: "Home", icon: Home },
@@ -71,6 +72,8 @@ export function Sidebar() {
         })}
       </nav>
 
+      <TransfersPanel />
+
       {/* Bottom Items */}
       <div className="border-t p-3">
         {bottomItems.map((item) => {
@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  ChevronDown,
+  ChevronUp,
+  Pause,
+  Play,
+  RotateCcw,
+  Save,
+  X,
+} from "lucide-react";
+import { useTransferStore } from "@/store/transfer.store";
+import { useUploadStore } from "@/store/upload.store";
+import { transferService } from "@/services/transfer.service";
+import { uploadService } from "@/services/upload.service";
+import { downloadService } from "@/services/download.service";
+import { wsService } from "@/services/websocket-native.service";
+import { ChunkedUpload, TransferTask, UploadChunk } from "@/types";
+import { cn } from "@/lib/utils";
+import toast from "react-hot-toast";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+function formatEta(seconds: number) {
+  if (seconds < 60) return `${Math.ceil(seconds)}s left`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min left`;
+  return `${Math.floor(seconds / 3600)}h ${Math.ceil((seconds % 3600) / 60)}m left`;
+}
+
+function statusText(task: TransferTask) {
+  switch (task.status) {
+    case "pending":
+      return "Waiting";
+    case "transferring": {
+      const parts = [`${formatBytes(task.transferredBytes)} of ${task.fileSize ? formatBytes(task.fileSize) : "?"}`];
+      if (task.speed !== undefined) parts.push(`${formatBytes(task.speed)}/s`);
+      if (task.remainingTime !== undefined) parts.push(formatEta(task.remainingTime));
+      return parts.join(" · ");
+    }
+    case "paused":
+      return `Paused at ${Math.floor(task.progress)}%`;
+    case "completed":
+      return task.savedTo ? `${formatBytes(task.fileSize)} · Saved to ${task.savedTo}` : formatBytes(task.fileSize);
+    case "failed":
+      return task.error || "Failed";
+    case "cancelled":
+      return "Cancelled";
+  }
+}
+
+function uploadStatusText(upload: ChunkedUpload) {
+  const done = upload.chunks.filter((chunk) => chunk.status === "done").length;
+  switch (upload.status) {
+    case "waiting":
+      return "Waiting";
+    case "uploading": {
+      const sent = upload.chunks.reduce((total, chunk) => total + chunk.loaded, 0);
+      return `Sending to server · chunk ${done} of ${upload.chunks.length} · ${formatBytes(sent)} of ${formatBytes(upload.fileSize)}`;
+    }
+    case "completing":
+      return "Handing over to the transfer queue";
+    case "failed": {
+      const failed = upload.chunks.filter((chunk) => chunk.status === "failed").length;
+      const summary = failed > 0 ? `${failed} chunk(s) failed` : "Failed";
+      return upload.error ? `${summary}: ${upload.error}` : summary;
+    }
+  }
+}
+
+function chunkClass(chunk: UploadChunk) {
+  switch (chunk.status) {
+    case "done":
+      return "bg-primary";
+    case "failed":
+      return "bg-destructive";
+    default:
+      return "bg-muted";
+  }
+}
+
+/**
+ * One segment per chunk, so failed chunks stand out
+ */
+function ChunkStrip({ upload }: { upload: ChunkedUpload }) {
+  return (
+    <div className="mt-1.5 flex h-1 gap-px overflow-hidden rounded-full">
+      {upload.chunks.map((chunk, index) => {
+        const size = Math.min(upload.chunkSize, upload.fileSize - index * upload.chunkSize) || 1;
+        return (
+          <div key={index} className={cn("relative min-w-0 flex-1", chunkClass(chunk))}>
+            {chunk.status === "uploading" && (
+              <div className="h-full bg-primary transition-all" style={{ width: `${(chunk.loaded / size) * 100}%` }} />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Saving reads the file from the server again, report how it went
+function reportSave(task: TransferTask, saving: Promise<boolean> | undefined) {
+  saving
+    ?.then((verified) => {
+      if (verified) toast.success(`Saved ${task.fileName}, checksum verified`);
+    })
+    .catch((error) => {
+      // Dismissing the file picker is not an error
+      if (error.name === "AbortError") return;
+      console.error("Failed to save download:", error);
+      toast.error(`Failed to save ${task.fileName}: ${error.message}`);
+    });
+}
+
+// Controls go over the WebSocket, which may be reconnecting
+function control(action: () => void) {
+  try {
+    action();
+  } catch (error) {
+    toast.error("Not connected to the server");
+  }
+}
+
+const isActive = (task: TransferTask) =>
+  task.status === "pending" || task.status === "transferring" || task.status === "paused";
+
+/**
+ * Uploads and downloads queued on the bridge, with their progress. Keeps the
+ * transfer store in sync with the server while it is mounted.
+ */
+export function TransfersPanel() {
+  const { tasks, setTasks, upsertTask, removeTask } = useTransferStore();
+  const uploads = useUploadStore((state) => state.uploads);
+  const [expanded, setExpanded] = useState(true);
+
+  useEffect(() => {
+    const load = () => {
+      transferService
+        .getTransfers()
+        .then(setTasks)
+        .catch((error) => console.error("Failed to load transfers:", error));
+    };
+    const handleUpdate = (task: TransferTask) => {
+      upsertTask(task);
+      reportSave(task, downloadService.handleUpdate(task));
+    };
+    // Catch up on what happened while the WebSocket was down, and carry on
+    // with uploads the outage interrupted
+    const handleConnected = () => {
+      load();
+      uploadService.retryFailed();
+    };
+
+    load();
+    wsService.on("transfer:update", handleUpdate);
+    wsService.on("transfer:removed", removeTask);
+    wsService.on("connected", handleConnected);
+    return () => {
+      wsService.off("transfer:update", handleUpdate);
+      wsService.off("transfer:removed", removeTask);
+      wsService.off("connected", handleConnected);
+    };
+  }, [setTasks, upsertTask, removeTask]);
+
+  if (tasks.length === 0 && uploads.length === 0) {
+    return null;
+  }
+
+  const activeCount = tasks.filter(isActive).length + uploads.length;
+  // Newest first
+  const sorted = [...tasks].reverse();
+
+  const clearFinished = () => {
+    control(() => tasks.filter((task) => !isActive(task)).forEach((task) => transferService.remove(task.id)));
+  };
+
+  return (
+    <div className="border-t">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+          Transfers
+          {activeCount > 0 && (
+            <span className="ml-1 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">{activeCount}</span>
+          )}
+        </button>
+        {activeCount < tasks.length + uploads.length && (
+          <button onClick={clearFinished} className="text-xs text-muted-foreground hover:text-foreground">
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="max-h-64 space-y-2 overflow-auto px-3 pb-3">
+          {uploads.map((upload) => (
+            <div key={upload.id} className="rounded-lg border p-2">
+              <div className="flex items-center gap-2">
+                <ArrowUpFromLine className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                <span className="flex-1 truncate text-sm" title={upload.fileName}>
+                  {upload.fileName}
+                </span>
+
+                {upload.status === "failed" && (
+                  <button
+                    onClick={() => uploadService.retry(upload.id).catch(() => toast.error("Not connected to the server"))}
+                    title="Retry failed chunks"
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => uploadService.cancel(upload.id).catch((error) => console.error("Failed to cancel upload:", error))}
+                  title="Cancel"
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+
+              <ChunkStrip upload={upload} />
+              <p
+                className={cn("mt-1 truncate text-xs", upload.status === "failed" ? "text-destructive" : "text-muted-foreground")}
+                title={upload.error}
+              >
+                {uploadStatusText(upload)}
+              </p>
+            </div>
+          ))}
+          {sorted.map((task) => {
+            const Icon = task.type === "upload" ? ArrowUpFromLine : ArrowDownToLine;
+            return (
+              <div key={task.id} className="rounded-lg border p-2">
+                <div className="flex items-center gap-2">
+                  <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate text-sm" title={task.fileName}>
+                    {task.fileName}
+                  </span>
+
+                  {(task.status === "pending" || task.status === "transferring") && (
+                    <button onClick={() => control(() => transferService.pause(task.id))} title="Pause" className="text-muted-foreground hover:text-foreground">
+                      <Pause className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  {task.status === "paused" && (
+                    <button onClick={() => control(() => transferService.resume(task.id))} title="Resume" className="text-muted-foreground hover:text-foreground">
+                      <Play className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  {task.status === "failed" && task.retryable !== false && (
+                    <button onClick={() => control(() => transferService.resume(task.id))} title="Retry" className="text-muted-foreground hover:text-foreground">
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  {task.status === "completed" && task.type === "download" && !task.savedTo && (
+                    <button onClick={() => reportSave(task, downloadService.save(task))} title="Save again" className="text-muted-foreground hover:text-foreground">
+                      <Save className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => control(() => (isActive(task) ? transferService.cancel(task.id) : transferService.remove(task.id)))}
+                    title={isActive(task) ? "Cancel" : "Remove"}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+
+                {isActive(task) && (
+                  <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-muted">
+                    <div
+                      className={cn("h-full rounded-full transition-all", task.status === "paused" ? "bg-muted-foreground" : "bg-primary")}
+                      style={{ width: `${task.progress}%` }}
+                    />
+                  </div>
+                )}
+                <p
+                  className={cn("mt-1 truncate text-xs", task.status === "failed" ? "text-destructive" : "text-muted-foreground")}
+                  title={task.error}
+                >
+                  {statusText(task)}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
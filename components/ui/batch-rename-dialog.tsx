@@ -0,0 +1,254 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { X, RefreshCw, AlertTriangle } from "lucide-react";
+import toast from "react-hot-toast";
+import { wsService } from "@/services/websocket-native.service";
+import { FileItem } from "@/types";
+import {
+  BatchRenamePattern,
+  DEFAULT_BATCH_RENAME_PATTERN,
+  previewBatchRename,
+  renameOrder,
+} from "@/lib/batch-rename";
+import { cn } from "@/lib/utils";
+
+interface BatchRenameDialogProps {
+  deviceId: string;
+  files: FileItem[];       // The selection, renamed in this order
+  siblings: FileItem[];    // Everything in the folder, to spot collisions
+  onClose: () => void;
+  onRenamed: () => void;
+}
+
+export function BatchRenameDialog({ deviceId, files, siblings, onClose, onRenamed }: BatchRenameDialogProps) {
+  const [pattern, setPattern] = useState<BatchRenamePattern>(DEFAULT_BATCH_RENAME_PATTERN);
+  const [applying, setApplying] = useState(false);
+
+  const previews = useMemo(() => previewBatchRename(files, siblings, pattern), [files, siblings, pattern]);
+  const problems = previews.filter((preview) => preview.error).length;
+  const changes = previews.filter((preview) => !preview.error && preview.newName !== preview.file.name).length;
+
+  const update = <K extends keyof BatchRenamePattern>(key: K, value: BatchRenamePattern[K]) => {
+    setPattern((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problems > 0 || changes === 0) return;
+
+    setApplying(true);
+    const { order } = renameOrder(previews);
+    let failed = 0;
+    for (const preview of order) {
+      try {
+        await wsService.renameFile(deviceId, preview.file.path, preview.newName);
+      } catch (error) {
+        failed++;
+        console.error(`Failed to rename ${preview.file.name}:`, error);
+      }
+    }
+    setApplying(false);
+
+    if (failed > 0) {
+      toast.error(`Renamed ${order.length - failed} of ${order.length} items`);
+    } else {
+      toast.success(`Renamed ${order.length} items`);
+    }
+    onRenamed();
+    onClose();
+  };
+
+  const inputClass = "w-full rounded-md border bg-background px-3 py-2 text-sm";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="flex max-h-[90vh] w-full max-w-2xl flex-col rounded-lg border bg-background p-6 shadow-lg"
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Rename {files.length} items</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mb-4 grid grid-cols-2 gap-3">
+          <div>
+            <label className="mb-1 block text-sm font-medium" htmlFor="rename-find">
+              Find <span className="text-muted-foreground">(regular expression)</span>
+            </label>
+            <input
+              id="rename-find"
+              value={pattern.find}
+              onChange={(e) => update("find", e.target.value)}
+              placeholder="IMG_(\d+)"
+              autoFocus
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium" htmlFor="rename-replace">
+              Replace with
+            </label>
+            <input
+              id="rename-replace"
+              value={pattern.replace}
+              onChange={(e) => update("replace", e.target.value)}
+              placeholder="photo-$1"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium" htmlFor="rename-prefix">
+              Prefix
+            </label>
+            <input
+              id="rename-prefix"
+              value={pattern.prefix}
+              onChange={(e) => update("prefix", e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium" htmlFor="rename-suffix">
+              Suffix
+            </label>
+            <input
+              id="rename-suffix"
+              value={pattern.suffix}
+              onChange={(e) => update("suffix", e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-x-6 gap-y-3 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={pattern.ignoreCase}
+              onChange={(e) => update("ignoreCase", e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Ignore case
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={pattern.counter}
+              onChange={(e) => update("counter", e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Counter from
+            <input
+              type="number"
+              min={0}
+              value={pattern.counterStart}
+              onChange={(e) => update("counterStart", Math.max(0, Number(e.target.value) || 0))}
+              disabled={!pattern.counter}
+              className="w-16 rounded-md border bg-background px-2 py-1 text-sm"
+            />
+            digits
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={pattern.counterDigits}
+              onChange={(e) => update("counterDigits", Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+              disabled={!pattern.counter}
+              className="w-14 rounded-md border bg-background px-2 py-1 text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={pattern.date}
+              onChange={(e) => update("date", e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Modified date
+            <input
+              value={pattern.dateFormat}
+              onChange={(e) => update("dateFormat", e.target.value)}
+              disabled={!pattern.date}
+              className="w-28 rounded-md border bg-background px-2 py-1 text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Separator
+            <input
+              value={pattern.separator}
+              onChange={(e) => update("separator", e.target.value)}
+              className="w-12 rounded-md border bg-background px-2 py-1 text-sm"
+            />
+          </label>
+        </div>
+
+        <div className="mb-4 min-h-0 flex-1 overflow-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-background">
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="px-3 py-2 font-medium">Current name</th>
+                <th className="px-3 py-2 font-medium">New name</th>
+              </tr>
+            </thead>
+            <tbody>
+              {previews.map((preview) => (
+                <tr key={preview.file.id} className={cn("border-b", preview.error && "bg-red-500/10")}>
+                  <td className="px-3 py-1.5 break-all">{preview.file.name}</td>
+                  <td className="px-3 py-1.5 break-all">
+                    <span className={cn(preview.newName === preview.file.name && "text-muted-foreground")}>
+                      {preview.newName}
+                    </span>
+                    {preview.error && (
+                      <span className="mt-0.5 flex items-center gap-1 text-xs text-red-600">
+                        <AlertTriangle className="h-3 w-3" />
+                        {preview.error}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">
+            {problems > 0 ? `${problems} names need fixing` : `${changes} items will be renamed`}
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-md border px-4 py-2 text-sm hover:bg-accent"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={applying || problems > 0 || changes === 0}
+              className={cn(
+                "flex items-center gap-2 rounded-md bg-primary px-4 py-2 text-sm text-primary-foreground",
+                (applying || problems > 0 || changes === 0) && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              {applying && <RefreshCw className="h-4 w-4 animate-spin" />}
+              {applying ? "Renaming..." : "Rename"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
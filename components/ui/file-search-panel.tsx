@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { File, Folder, FolderOpen, Search, Square, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { wsService } from "@/services/websocket-native.service";
+import { FileItem } from "@/types";
+import { FileCategory, FileSearchFilters, FileSearchResult } from "@/lib/protocol";
+import { FILE_CATEGORY_LABELS, createFileMatcher } from "@/lib/file-search";
+import { cn } from "@/lib/utils";
+
+const STORAGE_ROOT = "/storage/emulated/0";
+const MB = 1024 * 1024;
+
+interface FileSearchPanelProps {
+  deviceId: string;
+  rootPath: string;                      // Folder the search starts in unless "All storage" is ticked
+  onReveal: (file: FileItem) => void;    // Open the file's folder with the file selected
+  onClose: () => void;
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[unit]}`;
+}
+
+function parentPath(file: FileItem) {
+  return file.path.slice(0, file.path.length - file.name.length - 1) || "/";
+}
+
+export function FileSearchPanel({ deviceId, rootPath, onReveal, onClose }: FileSearchPanelProps) {
+  const [name, setName] = useState("");
+  const [nameMode, setNameMode] = useState<"glob" | "regex">("glob");
+  const [category, setCategory] = useState<FileCategory | "">("");
+  const [minSize, setMinSize] = useState("");
+  const [maxSize, setMaxSize] = useState("");
+  const [modifiedFrom, setModifiedFrom] = useState("");
+  const [modifiedTo, setModifiedTo] = useState("");
+  const [allStorage, setAllStorage] = useState(false);
+
+  const [results, setResults] = useState<FileItem[]>([]);
+  const [scannedFolders, setScannedFolders] = useState(0);
+  const [summary, setSummary] = useState<FileSearchResult | null>(null);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  // The search under way, so that leaving the panel stops it
+  const running = useRef<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (running.current) {
+        wsService.cancelSearch(deviceId, running.current).catch(() => {});
+      }
+    };
+  }, [deviceId]);
+
+  const buildFilters = (): FileSearchFilters => ({
+    name: name.trim() || undefined,
+    nameMode,
+    category: category || undefined,
+    minSize: minSize ? parseFloat(minSize) * MB : undefined,
+    maxSize: maxSize ? parseFloat(maxSize) * MB : undefined,
+    modifiedAfter: modifiedFrom ? new Date(`${modifiedFrom}T00:00:00`).getTime() : undefined,
+    modifiedBefore: modifiedTo ? new Date(`${modifiedTo}T23:59:59.999`).getTime() : undefined,
+  });
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (searchId) return;
+
+    const filters = buildFilters();
+    try {
+      createFileMatcher(filters);
+    } catch (error) {
+      toast.error(`Invalid pattern: ${(error as Error).message}`);
+      return;
+    }
+
+    setResults([]);
+    setScannedFolders(0);
+    setSummary(null);
+    let search: ReturnType<typeof wsService.searchFiles>;
+    try {
+      search = wsService.searchFiles(deviceId, allStorage ? STORAGE_ROOT : rootPath, filters, (files, scanned) => {
+        setResults((current) => [...current, ...files]);
+        setScannedFolders(scanned);
+      });
+    } catch (error) {
+      toast.error(`Search failed: ${(error as Error).message}`);
+      return;
+    }
+
+    running.current = search.id;
+    setSearchId(search.id);
+    try {
+      const result = await search.done;
+      setSummary(result);
+      setScannedFolders(result.scannedFolders);
+    } catch (error) {
+      console.error("Search failed:", error);
+      toast.error(`Search failed: ${(error as Error).message}`);
+    } finally {
+      running.current = null;
+      setSearchId(null);
+    }
+  };
+
+  const handleStop = () => {
+    if (searchId) {
+      wsService.cancelSearch(deviceId, searchId).catch((error) => console.error("Failed to stop search:", error));
+    }
+  };
+
+  const status = () => {
+    if (searchId) {
+      return `Searching... ${results.length} matches in ${scannedFolders} folders`;
+    }
+    if (!summary) {
+      return `Searches ${allStorage ? STORAGE_ROOT : rootPath} and every folder below it`;
+    }
+    const parts = [`${summary.matches} matches in ${summary.scannedFolders} folders`];
+    if (summary.truncated) parts.push("stopped at the result limit");
+    if (summary.cancelled) parts.push("stopped");
+    if (summary.unreadableFolders > 0) parts.push(`${summary.unreadableFolders} folders could not be read`);
+    return parts.join(" · ");
+  };
+
+  const inputClass = "rounded-md border bg-background px-2 py-1.5 text-sm";
+
+  return (
+    <div className="flex h-full flex-col">
+      <form onSubmit={handleSearch} className="border-b pb-4">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-sm font-semibold">Search device</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+            title="Close search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={nameMode === "glob" ? "Name, e.g. *.pdf or IMG_2024*" : "Regular expression"}
+            autoFocus
+            className={cn(inputClass, "w-64")}
+          />
+          <select
+            value={nameMode}
+            onChange={(e) => setNameMode(e.target.value as "glob" | "regex")}
+            className={inputClass}
+          >
+            <option value="glob">Wildcards</option>
+            <option value="regex">Regex</option>
+          </select>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as FileCategory | "")}
+            className={inputClass}
+          >
+            <option value="">Any type</option>
+            {(Object.keys(FILE_CATEGORY_LABELS) as FileCategory[]).map((key) => (
+              <option key={key} value={key}>
+                {FILE_CATEGORY_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-muted-foreground">
+            Size
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={minSize}
+              onChange={(e) => setMinSize(e.target.value)}
+              placeholder="min"
+              className={cn(inputClass, "w-20")}
+            />
+            –
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={maxSize}
+              onChange={(e) => setMaxSize(e.target.value)}
+              placeholder="max"
+              className={cn(inputClass, "w-20")}
+            />
+            MB
+          </label>
+          <label className="flex items-center gap-1 text-sm text-muted-foreground">
+            Modified
+            <input
+              type="date"
+              value={modifiedFrom}
+              onChange={(e) => setModifiedFrom(e.target.value)}
+              className={inputClass}
+            />
+            –
+            <input
+              type="date"
+              value={modifiedTo}
+              onChange={(e) => setModifiedTo(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={allStorage}
+              onChange={(e) => setAllStorage(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            All storage
+          </label>
+          {searchId ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="flex items-center gap-1 rounded-lg border px-3 py-1.5 text-sm hover:bg-accent"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-sm text-primary-foreground hover:bg-primary/90"
+            >
+              <Search className="h-4 w-4" />
+              Search
+            </button>
+          )}
+        </div>
+
+        <p className="mt-2 text-xs text-muted-foreground">{status()}</p>
+      </form>
+
+      <div className="flex-1 overflow-auto pt-2">
+        {results.length > 0 && (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b text-left text-sm text-muted-foreground">
+                <th className="pb-2 font-medium">Name</th>
+                <th className="pb-2 font-medium">Folder</th>
+                <th className="pb-2 font-medium">Size</th>
+                <th className="pb-2 font-medium">Modified</th>
+                <th className="w-10 pb-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((file) => (
+                <tr key={file.id} className="border-b hover:bg-accent/50">
+                  <td className="py-2">
+                    <div className="flex items-center gap-2">
+                      {file.type === "folder" ? (
+                        <Folder className="h-4 w-4 shrink-0 text-blue-500" />
+                      ) : (
+                        <File className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="text-sm break-all">{file.name}</span>
+                    </div>
+                  </td>
+                  <td className="py-2 text-sm text-muted-foreground break-all">
+                    {parentPath(file).replace(STORAGE_ROOT, "") || "/"}
+                  </td>
+                  <td className="py-2 text-sm text-muted-foreground">
+                    {file.type === "file" ? formatBytes(file.size) : "-"}
+                  </td>
+                  <td className="py-2 text-sm text-muted-foreground">
+                    {new Date(file.modified).toLocaleDateString()}
+                  </td>
+                  <td className="py-2">
+                    <button
+                      onClick={() => onReveal(file)}
+                      className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-primary hover:bg-primary/10"
+                      title="Reveal in folder"
+                    >
+                      <FolderOpen className="h-3 w-3" />
+                      Reveal
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
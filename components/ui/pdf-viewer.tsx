@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { X, Download, ZoomIn, ZoomOut, Hand, RotateCw, RotateCcw } from "lucide-react";
 import { createPluginRegistration } from "@embedpdf/core";
 import { EmbedPDF } from "@embedpdf/core/react";
@@ -168,13 +169,39 @@ export function PdfViewer({
 }: PdfViewerProps) {
   // Initialize the PDF engine
   const { engine, isLoading, error } = usePdfiumEngine();
+  const [content, setContent] = useState<ArrayBuffer | null>(null);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  // The engine fetches without our auth cookie, so the file is loaded here
+  useEffect(() => {
+    if (!isOpen || !fileUrl) return;
+
+    const controller = new AbortController();
+    setContent(null);
+    setFetchError(null);
+    fetch(fileUrl, { credentials: "include", signal: controller.signal })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        return response.arrayBuffer();
+      })
+      .then(setContent)
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setFetchError(err.message);
+        }
+      });
+
+    return () => controller.abort();
+  }, [fileUrl, isOpen]);
 
   if (!isOpen) return null;
 
-  if (error) {
+  if (error || fetchError) {
     return (
       <div className="fixed inset-0 z-50 bg-black/95 flex items-center justify-center">
-        <div className="text-white">Error loading PDF: {error.message}</div>
+        <div className="text-white">Error loading PDF: {error?.message || fetchError}</div>
       </div>
     );
   }
@@ -187,14 +214,22 @@ export function PdfViewer({
     );
   }
 
-  // Create plugins with dynamic URL
+  if (!content) {
+    return (
+      <div className="fixed inset-0 z-50 bg-black/95 flex items-center justify-center">
+        <div className="text-white">Loading {fileName}...</div>
+      </div>
+    );
+  }
+
+  // Create plugins with the downloaded file
   const plugins = [
     createPluginRegistration(LoaderPluginPackage, {
       loadingOptions: {
-        type: "url",
+        type: "buffer",
         pdfFile: {
           id: fileName,
-          url: fileUrl,
+          content,
         },
       },
     }),
@@ -0,0 +1,61 @@
+"use client";
+
+import { LinkQuality, LinkQualityLevel } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface SignalStrengthProps {
+  quality?: LinkQuality;
+  className?: string;
+}
+
+const BARS_BY_LEVEL: Record<LinkQualityLevel, number> = {
+  unknown: 0,
+  poor: 1,
+  fair: 2,
+  good: 3,
+  excellent: 4,
+};
+
+const COLOR_BY_LEVEL: Record<LinkQualityLevel, string> = {
+  unknown: "bg-muted-foreground",
+  poor: "bg-red-500",
+  fair: "bg-yellow-500",
+  good: "bg-green-500",
+  excellent: "bg-green-500",
+};
+
+function describe(quality?: LinkQuality): string {
+  if (!quality || quality.level === "unknown") {
+    return "Measuring link quality...";
+  }
+  return [
+    `Link quality: ${quality.level} (${quality.score}/100)`,
+    `Round trip: ${quality.rtt ?? "-"} ms (avg ${quality.averageRtt ?? "-"} ms)`,
+    `Jitter: ${quality.jitter} ms`,
+    `Missed heartbeats: ${quality.missedHeartbeats} (${Math.round(quality.lossRate * 100)}% recently)`,
+  ].join("\n");
+}
+
+export function SignalStrength({ quality, className }: SignalStrengthProps) {
+  const level = quality?.level ?? "unknown";
+  const activeBars = BARS_BY_LEVEL[level];
+
+  return (
+    <div
+      className={cn("flex h-4 items-end gap-0.5", className)}
+      title={describe(quality)}
+      aria-label={`Link quality ${level}`}
+    >
+      {[1, 2, 3, 4].map((bar) => (
+        <div
+          key={bar}
+          className={cn(
+            "w-1 rounded-sm",
+            bar <= activeBars ? COLOR_BY_LEVEL[level] : "bg-muted"
+          )}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </div>
+  );
+}
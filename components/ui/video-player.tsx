@@ -0,0 +1,343 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Maximize, Minimize, Pause, Play, RefreshCw, Volume2, VolumeX } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface VideoPlayerProps {
+  src: string;
+  autoPlay?: boolean;
+  className?: string;
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Reload after this long without new data while waiting
+const STALL_TIMEOUT_MS = 15000;
+const MAX_RETRIES = 5;
+const RETRY_DELAY_MS = 1000;
+const SEEK_STEP_SECONDS = 5;
+
+function formatTime(seconds: number) {
+  if (!Number.isFinite(seconds)) return "0:00";
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+function toRanges(ranges: TimeRanges): TimeRange[] {
+  const result: TimeRange[] = [];
+  for (let i = 0; i < ranges.length; i++) {
+    result.push({ start: ranges.start(i), end: ranges.end(i) });
+  }
+  return result;
+}
+
+/**
+ * Video player for streams served by the bridge. Shows what has been buffered
+ * and picks up where it was after the connection drops.
+ */
+export function VideoPlayer({ src, autoPlay = false, className }: VideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stallTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retriesRef = useRef(0);
+  // Position to restore once the reloaded video has its metadata
+  const resumeRef = useRef<{ time: number; play: boolean } | null>(null);
+
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [buffered, setBuffered] = useState<TimeRange[]>([]);
+  const [muted, setMuted] = useState(false);
+  const [waiting, setWaiting] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fullscreen, setFullscreen] = useState(false);
+
+  const clearStallTimer = () => {
+    if (stallTimerRef.current) {
+      clearTimeout(stallTimerRef.current);
+      stallTimerRef.current = null;
+    }
+  };
+
+  const reload = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    clearStallTimer();
+    if (retriesRef.current >= MAX_RETRIES) {
+      setReconnecting(false);
+      setError("Lost connection to the device");
+      return;
+    }
+
+    retriesRef.current++;
+    // Keep the first position if several retries happen before metadata arrives
+    resumeRef.current = resumeRef.current || { time: video.currentTime, play: !video.paused };
+    setReconnecting(true);
+    retryTimerRef.current = setTimeout(() => video.load(), RETRY_DELAY_MS * retriesRef.current);
+  }, []);
+
+  const armStallTimer = useCallback(() => {
+    clearStallTimer();
+    stallTimerRef.current = setTimeout(reload, STALL_TIMEOUT_MS);
+  }, [reload]);
+
+  // Start over for a new video
+  useEffect(() => {
+    retriesRef.current = 0;
+    resumeRef.current = null;
+    setError(null);
+    setReconnecting(false);
+    setBuffered([]);
+    setCurrentTime(0);
+
+    return () => {
+      clearStallTimer();
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+      }
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  const updateBuffered = () => {
+    if (videoRef.current) {
+      setBuffered(toRanges(videoRef.current.buffered));
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setDuration(video.duration);
+    const resume = resumeRef.current;
+    if (resume) {
+      resumeRef.current = null;
+      video.currentTime = resume.time;
+      if (resume.play) {
+        video.play().catch(() => {});
+      }
+    }
+  };
+
+  const handleError = () => {
+    const video = videoRef.current;
+    const code = video?.error?.code;
+
+    if (code === MediaError.MEDIA_ERR_NETWORK) {
+      reload();
+    } else if (code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED && retriesRef.current > 0) {
+      // The device went away between retries, its 404 is not a video either
+      reload();
+    } else if (code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED) {
+      setError("This video cannot be played in the browser");
+    } else if (code !== undefined) {
+      setError(video?.error?.message || "Playback failed");
+    }
+  };
+
+  const handlePlaying = () => {
+    clearStallTimer();
+    retriesRef.current = 0;
+    setWaiting(false);
+    setReconnecting(false);
+  };
+
+  const handleWaiting = () => {
+    setWaiting(true);
+    armStallTimer();
+  };
+
+  const handleProgress = () => {
+    updateBuffered();
+    // Data is still coming in, just slowly
+    if (stallTimerRef.current) {
+      armStallTimer();
+    }
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  };
+
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video || !Number.isFinite(video.duration)) return;
+    video.currentTime = Math.min(Math.max(time, 0), video.duration);
+    setCurrentTime(video.currentTime);
+  };
+
+  const toggleMute = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = !video.muted;
+    setMuted(video.muted);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      containerRef.current?.requestFullscreen().catch(() => {});
+    }
+  };
+
+  const handleRetry = () => {
+    retriesRef.current = 0;
+    setError(null);
+    reload();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case " ":
+      case "k":
+        e.preventDefault();
+        togglePlay();
+        break;
+      case "ArrowLeft":
+        e.preventDefault();
+        seekTo(currentTime - SEEK_STEP_SECONDS);
+        break;
+      case "ArrowRight":
+        e.preventDefault();
+        seekTo(currentTime + SEEK_STEP_SECONDS);
+        break;
+      case "m":
+        toggleMute();
+        break;
+      case "f":
+        toggleFullscreen();
+        break;
+    }
+  };
+
+  const percent = (time: number) => (duration > 0 ? `${(time / duration) * 100}%` : "0%");
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className={cn("group relative overflow-hidden rounded-lg bg-black outline-none", className)}
+    >
+      <video
+        ref={videoRef}
+        src={src}
+        autoPlay={autoPlay}
+        playsInline
+        onClick={togglePlay}
+        onLoadedMetadata={handleLoadedMetadata}
+        onDurationChange={() => setDuration(videoRef.current?.duration || 0)}
+        onTimeUpdate={() => setCurrentTime(videoRef.current?.currentTime || 0)}
+        onProgress={handleProgress}
+        onSeeked={updateBuffered}
+        onPlay={() => setPlaying(true)}
+        onPause={() => {
+          setPlaying(false);
+          clearStallTimer();
+        }}
+        onPlaying={handlePlaying}
+        onCanPlay={() => {
+          clearStallTimer();
+          setWaiting(false);
+        }}
+        onWaiting={handleWaiting}
+        onError={handleError}
+        className={cn("w-full bg-black", fullscreen ? "h-full" : "max-h-[80vh]")}
+      >
+        Your browser does not support the video tag.
+      </video>
+
+      {/* Loading and reconnect state */}
+      {(waiting || reconnecting) && !error && (
+        <div className="pointer-events-none absolute inset-0 flex flex-col items-center justify-center gap-2 text-white">
+          <Loader2 className="h-10 w-10 animate-spin" />
+          {reconnecting && <span className="text-sm">Reconnecting...</span>}
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/70 text-white">
+          <span className="text-sm">{error}</span>
+          <button
+            onClick={handleRetry}
+            className="flex items-center gap-2 rounded-lg bg-white/10 px-3 py-1.5 text-sm hover:bg-white/20"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* Controls */}
+      <div
+        className={cn(
+          "absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 to-transparent px-4 pb-3 pt-8 transition-opacity",
+          playing && "opacity-0 focus-within:opacity-100 group-hover:opacity-100"
+        )}
+      >
+        {/* Seek bar with buffered ranges */}
+        <div className="relative mb-2 h-1.5 rounded-full bg-white/20">
+          {buffered.map((range) => (
+            <div
+              key={range.start}
+              className="absolute inset-y-0 rounded-full bg-white/40"
+              style={{ left: percent(range.start), width: percent(range.end - range.start) }}
+            />
+          ))}
+          <div className="absolute inset-y-0 left-0 rounded-full bg-primary" style={{ width: percent(currentTime) }} />
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={currentTime}
+            onChange={(e) => seekTo(Number(e.target.value))}
+            aria-label="Seek"
+            className="absolute -inset-y-1.5 inset-x-0 w-full cursor-pointer opacity-0"
+          />
+        </div>
+
+        <div className="flex items-center gap-3 text-white">
+          <button onClick={togglePlay} className="hover:text-gray-300" title={playing ? "Pause (k)" : "Play (k)"}>
+            {playing ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+          </button>
+          <button onClick={toggleMute} className="hover:text-gray-300" title={muted ? "Unmute (m)" : "Mute (m)"}>
+            {muted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+          </button>
+          <span className="text-xs tabular-nums">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+          <button
+            onClick={toggleFullscreen}
+            className="ml-auto hover:text-gray-300"
+            title={fullscreen ? "Exit full screen (f)" : "Full screen (f)"}
+          >
+            {fullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
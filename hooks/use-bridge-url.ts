@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getWebSocketUrl, resolveBridgeUrl } from '@/lib/ws-url';
+
+/**
+ * Resolve bridge paths for src and href attributes. The returned function
+ * gives undefined until the bridge address is known.
+ */
+export function useBridgeUrl() {
+  const [baseUrl, setBaseUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getWebSocketUrl().then((url) => {
+      if (!cancelled) {
+        setBaseUrl(url);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return useCallback(
+    (path: string | null | undefined) => (baseUrl && path ? resolveBridgeUrl(baseUrl, path) : undefined),
+    [baseUrl]
+  );
+}
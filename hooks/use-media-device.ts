@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { useDeviceStore } from '@/store/device.store';
+import { mediaIndexService } from '@/services/media-index.service';
+import { IndexedDevice } from '@/types';
+
+/**
+ * Device whose galleries to show: the selected one, or while none is
+ * connected, the one the bridge synced most recently, browsed from its saved
+ * index. Null until initialization is done or when nothing was ever synced.
+ */
+export function useMediaDevice(): { id: string; name: string } | null {
+  const { selectedDevice, isInitializing } = useDeviceStore();
+  const [saved, setSaved] = useState<IndexedDevice | null>(null);
+
+  useEffect(() => {
+    if (isInitializing || selectedDevice) return;
+
+    let cancelled = false;
+    mediaIndexService
+      .getIndexedDevices()
+      .then((devices) => {
+        const latest = devices.sort((a, b) => b.syncedAt - a.syncedAt)[0];
+        if (!cancelled) {
+          setSaved(latest || null);
+        }
+      })
+      .catch((error) => console.error('Failed to load indexed devices:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isInitializing, selectedDevice]);
+
+  if (isInitializing) return null;
+  if (selectedDevice) return { id: selectedDevice.id, name: selectedDevice.name };
+  return saved ? { id: saved.deviceId, name: saved.name } : null;
+}
@@ -0,0 +1,21 @@
+/**
+ * Name of the HttpOnly cookie carrying the bridge server token. It is set by
+ * the Next.js /api/auth route and sent along to the bridge, which lives on the
+ * same host under a different port.
+ */
+export const AUTH_COOKIE = 'aircontroller_token';
+
+/**
+ * Send the user to the login page when the bridge rejects our token.
+ * Returns true when the response was a 401 and a redirect is under way.
+ */
+export function handleUnauthorized(response: Pick<Response, 'status'>): boolean {
+  if (response.status !== 401) {
+    return false;
+  }
+  if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
+    const next = encodeURIComponent(window.location.pathname + window.location.search);
+    window.location.href = `/login?next=${next}`;
+  }
+  return true;
+}
@@ -0,0 +1,148 @@
+import { FileItem } from '@/types';
+
+/**
+ * How the batch rename dialog builds new names. The parts are put together as
+ * prefix, date, name, counter, suffix, extension; find and replace only
+ * touches the name, never the extension.
+ */
+export interface BatchRenamePattern {
+  find: string;            // Regular expression, empty to keep the name
+  replace: string;         // May refer to groups as $1, $2...
+  ignoreCase: boolean;
+  prefix: string;
+  suffix: string;
+  counter: boolean;
+  counterStart: number;
+  counterDigits: number;   // Zero padded to this many digits
+  date: boolean;           // Date the file was modified
+  dateFormat: string;      // YYYY, MM, DD, HH, mm and ss are replaced
+  separator: string;       // Between the name and the date or counter
+}
+
+export interface RenamePreview {
+  file: FileItem;
+  newName: string;
+  error?: string;          // Why this file cannot be renamed as previewed
+}
+
+export const DEFAULT_BATCH_RENAME_PATTERN: BatchRenamePattern = {
+  find: '',
+  replace: '',
+  ignoreCase: false,
+  prefix: '',
+  suffix: '',
+  counter: false,
+  counterStart: 1,
+  counterDigits: 2,
+  date: false,
+  dateFormat: 'YYYY-MM-DD',
+  separator: '_',
+};
+
+/**
+ * Name and extension of a file. Folders and dot files have no extension.
+ */
+export function splitFileName(file: Pick<FileItem, 'name' | 'type'>): { base: string; ext: string } {
+  const dot = file.name.lastIndexOf('.');
+  if (file.type === 'folder' || dot <= 0) {
+    return { base: file.name, ext: '' };
+  }
+  return { base: file.name.slice(0, dot), ext: file.name.slice(dot) };
+}
+
+export function formatRenameDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+// Why a name cannot be used on the phone, if it cannot
+export function invalidFileName(name: string): string | undefined {
+  if (!name.trim()) return 'Name is empty';
+  if (/[/\\\0]/.test(name)) return 'Name contains / or \\';
+  if (name === '.' || name === '..') return 'Name is reserved';
+  return undefined;
+}
+
+/**
+ * New names for files, in the order given, with collisions flagged. Phone
+ * storage ignores case, so "a.jpg" and "A.JPG" collide. Siblings are all
+ * entries of the folder, including the files being renamed.
+ */
+export function previewBatchRename(files: FileItem[], siblings: FileItem[], pattern: BatchRenamePattern): RenamePreview[] {
+  let find: RegExp | null = null;
+  if (pattern.find) {
+    try {
+      find = new RegExp(pattern.find, pattern.ignoreCase ? 'gi' : 'g');
+    } catch (error) {
+      return files.map((file) => ({ file, newName: file.name, error: `Invalid pattern: ${(error as Error).message}` }));
+    }
+  }
+
+  const previews: RenamePreview[] = files.map((file, index) => {
+    const { base, ext } = splitFileName(file);
+    const parts = [
+      pattern.date ? formatRenameDate(new Date(file.modified), pattern.dateFormat) : '',
+      find ? base.replace(find, pattern.replace) : base,
+      pattern.counter ? String(pattern.counterStart + index).padStart(pattern.counterDigits, '0') : '',
+    ].filter(Boolean);
+    const newName = `${pattern.prefix}${parts.join(pattern.separator)}${pattern.suffix}${ext}`;
+    return { file, newName, error: invalidFileName(newName) };
+  });
+
+  // Names the renamed files end up with, and names that stay in the folder
+  const key = (name: string) => name.toLowerCase();
+  const renamedIds = new Set(files.map((file) => file.id));
+  const staying = new Set(siblings.filter((file) => !renamedIds.has(file.id)).map((file) => key(file.name)));
+  const targets = new Map<string, number>();
+  for (const preview of previews) {
+    targets.set(key(preview.newName), (targets.get(key(preview.newName)) ?? 0) + 1);
+  }
+
+  for (const preview of previews) {
+    if (preview.error) continue;
+    if ((targets.get(key(preview.newName)) ?? 0) > 1) {
+      preview.error = 'Same new name as another file';
+    } else if (staying.has(key(preview.newName))) {
+      preview.error = 'A file of this name is already in the folder';
+    }
+  }
+
+  const cycle = new Set(renameOrder(previews.filter((preview) => !preview.error)).blocked.map((preview) => preview.file.id));
+  for (const preview of previews) {
+    if (cycle.has(preview.file.id)) {
+      preview.error = 'Names are swapped in a circle, rename one by hand first';
+    }
+  }
+  return previews;
+}
+
+/**
+ * Order in which to rename files so that no file is renamed onto a name
+ * another file still has. Renames that wait on each other in a circle are
+ * blocked. Renames that keep the name are left out.
+ */
+export function renameOrder(previews: RenamePreview[]): { order: RenamePreview[]; blocked: RenamePreview[] } {
+  const key = (name: string) => name.toLowerCase();
+  let pending = previews.filter((preview) => preview.newName !== preview.file.name);
+  const order: RenamePreview[] = [];
+
+  while (pending.length > 0) {
+    const occupied = new Set(pending.map((preview) => key(preview.file.name)));
+    // A change of case only is free, the name is the file's own
+    const ready = pending.filter(
+      (preview) => key(preview.newName) === key(preview.file.name) || !occupied.has(key(preview.newName))
+    );
+    if (ready.length === 0) break;
+    order.push(...ready);
+    pending = pending.filter((preview) => !ready.includes(preview));
+  }
+  return { order, blocked: pending };
+}
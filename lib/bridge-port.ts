@@ -0,0 +1,80 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+
+export interface BridgeInfo {
+  port: number;
+  secure: boolean;        // Serving https and wss
+  fingerprint?: string;   // SHA-256 of the TLS certificate
+  publicHost?: string;    // PUBLIC_HOST the bridge was started with
+}
+
+/**
+ * Host browsers should use to reach the bridge: the configured public host,
+ * or else the host they reached us on, so the UI works from other machines.
+ */
+export function getPublicHost(hostHeader: string | null | undefined, configured?: string): string {
+  if (configured) {
+    return configured;
+  }
+  try {
+    return hostHeader ? new URL(`http://${hostHeader}`).hostname : 'localhost';
+  } catch {
+    return 'localhost';
+  }
+}
+
+/**
+ * Port and scheme the bridge server wrote to .ws-port on startup, for
+ * Next.js route handlers only. Returns null when the bridge is not running.
+ */
+export function readBridgeInfo(): BridgeInfo | null {
+  const portFilePath = path.join(process.cwd(), '.ws-port');
+
+  if (!fs.existsSync(portFilePath)) {
+    return null;
+  }
+
+  const content = fs.readFileSync(portFilePath, 'utf-8').trim();
+  let info: BridgeInfo;
+  try {
+    const parsed = JSON.parse(content);
+    // Older servers wrote the bare port number
+    info = typeof parsed === 'number' ? { port: parsed, secure: false } : parsed;
+  } catch {
+    throw new Error(`Invalid content in ${portFilePath}`);
+  }
+
+  if (!Number.isInteger(info.port)) {
+    throw new Error(`Invalid port number in ${portFilePath}`);
+  }
+  return info;
+}
+
+/**
+ * GET a bridge endpoint over loopback and resolve with the status code.
+ * The certificate is not verified, a self-signed one is expected and the
+ * connection never leaves this machine.
+ */
+export function getBridgeStatus(info: BridgeInfo, endpoint: string, headers: Record<string, string> = {}): Promise<number> {
+  const transport = info.secure ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = transport.request({
+      host: '127.0.0.1',
+      port: info.port,
+      path: endpoint,
+      method: 'GET',
+      headers,
+      rejectUnauthorized: false,
+      timeout: 5000,
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode || 0);
+    });
+    req.on('timeout', () => req.destroy(new Error('Bridge server did not respond')));
+    req.on('error', reject);
+    req.end();
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Bridge paths that stream files and media from a connected phone.
+ *
+ * The server hands these out instead of the phone's own address, so browsers
+ * only ever talk to the bridge. They are relative to the bridge origin, the
+ * web app resolves them with getBridgeUrl or useBridgeUrl.
+ */
+
+export type StreamParams = Record<string, string | number>;
+
+// Width and height of every thumbnail asked of a phone, so each one is rendered and cached once
+export const THUMBNAIL_SIZE = 400;
+
+function devicePath(deviceId: string) {
+  return `/api/devices/${encodeURIComponent(deviceId)}`;
+}
+
+/**
+ * Query string for a phone endpoint. Phones decode %20 but not always '+',
+ * so URLSearchParams is not used here.
+ */
+export function streamQuery(params?: StreamParams): string {
+  if (!params) {
+    return '';
+  }
+  const query = Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Phone endpoint under /stream, e.g. `file` with a path parameter or
+ * `image/thumbnail/12/400/400`
+ */
+export function deviceStreamPath(deviceId: string, endpoint: string, params?: StreamParams): string {
+  return `${devicePath(deviceId)}/stream/${endpoint}${streamQuery(params)}`;
+}
+
+/**
+ * Thumbnail from a /stream endpoint, cached on disk by the bridge. `version`
+ * is the modification time of the media, a new one fetches a fresh thumbnail.
+ */
+export function deviceThumbnailPath(
+  deviceId: string,
+  endpoint: string,
+  version: string | number,
+  params?: StreamParams
+): string {
+  return `${devicePath(deviceId)}/thumbnail/${endpoint}${streamQuery({ ...params, v: version })}`;
+}
+
+/**
+ * Playable video by its media id
+ */
+export function deviceVideoPath(deviceId: string, videoId: string): string {
+  return `${devicePath(deviceId)}/video/${encodeURIComponent(videoId)}`;
+}
+
+/**
+ * Multipart upload into a folder on the phone
+ */
+export function deviceUploadPath(deviceId: string): string {
+  return `${devicePath(deviceId)}/upload`;
+}
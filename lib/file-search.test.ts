@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FileItem } from '../types';
+import { NamePatternError, createFileMatcher, globMatcher, safeRegExp } from './file-search';
+
+function file(name: string): FileItem {
+  return { id: name, name, path: `/storage/emulated/0/${name}`, type: 'file', size: 1, modified: new Date(0) };
+}
+
+test('matches globs with wildcards and sets', () => {
+  assert.equal(globMatcher('*.pdf')('Report.PDF'), true);
+  assert.equal(globMatcher('*.pdf', false)('Report.PDF'), false);
+  assert.equal(globMatcher('IMG_????.jpg')('IMG_2024.jpg'), true);
+  assert.equal(globMatcher('IMG_????.jpg')('IMG_202.jpg'), false);
+  assert.equal(globMatcher('[abc]*')('banana'), true);
+  assert.equal(globMatcher('[!abc]*')('banana'), false);
+  assert.equal(globMatcher('a*b*c')('axxbyyc'), true);
+  assert.equal(globMatcher('a*b*c')('axxbyy'), false);
+});
+
+test('matches a glob without wildcards anywhere in the name', () => {
+  assert.equal(globMatcher('holiday')('2024 Holiday.mp4'), true);
+  assert.equal(globMatcher('holiday')('2024.mp4'), false);
+});
+
+test('takes an unclosed bracket literally', () => {
+  assert.equal(globMatcher('a[b*')('a[bc'), true);
+  assert.equal(globMatcher('a[b*')('abc'), false);
+});
+
+test('matches many stars against a long name quickly', () => {
+  const isMatch = globMatcher('*a*a*a*a*a*a*a*a*a*a*b');
+  const started = Date.now();
+  assert.equal(isMatch('a'.repeat(255)), false);
+  assert.ok(Date.now() - started < 100);
+});
+
+test('compiles ordinary regular expressions', () => {
+  assert.equal(safeRegExp('^IMG_\\d{8}_\\d+\\.(jpg|heic)$').test('img_20240101_1234.JPG'), true);
+  assert.equal(safeRegExp('(?:draft|final)-v\\d+').test('final-v12.docx'), true);
+  assert.equal(safeRegExp('[(+*)]+').test('a+b'), true);
+});
+
+test('refuses regular expressions that backtrack badly', () => {
+  for (const pattern of ['(a+)+$', '(a|aa)*b', '(a|a)*', '((a)*)*', '(\\d+\\s?)+x', '(.*a){12}', '(a?){30}', '(a)\\1', '(?<x>a)\\k<x>']) {
+    assert.throws(() => safeRegExp(pattern), NamePatternError, pattern);
+  }
+});
+
+test('refuses regular expressions with too many open choices', () => {
+  for (const pattern of ['.*.*.*x', '.*.*x', '\\d+\\w+x', `${'a?'.repeat(30)}${'a'.repeat(30)}`, `${'(a|a)'.repeat(20)}b`, 'a{1,200}b{1,200}']) {
+    assert.throws(() => safeRegExp(pattern), /too complex/, pattern);
+  }
+});
+
+test('tests an accepted regular expression against the longest name quickly', () => {
+  const isMatch = createFileMatcher({ name: '(?:draft|final)a*x', nameMode: 'regex' });
+  const started = Date.now();
+  assert.equal(isMatch(file('draft'.repeat(51))), false);
+  assert.equal(isMatch(file(`final${'a'.repeat(250)}`)), false);
+  assert.ok(Date.now() - started < 100);
+});
+
+test('does not test names longer than Android allows against a regular expression', () => {
+  const isMatch = createFileMatcher({ name: 'a', nameMode: 'regex' });
+  assert.equal(isMatch(file('a'.repeat(255))), true);
+  assert.equal(isMatch(file('a'.repeat(256))), false);
+});
+
+test('reports invalid regular expressions as pattern errors', () => {
+  assert.throws(() => safeRegExp('(unclosed'), NamePatternError);
+  assert.throws(() => safeRegExp('*start'), NamePatternError);
+});
+
+test('refuses overlong name patterns', () => {
+  assert.throws(() => createFileMatcher({ name: 'a'.repeat(201) }), /longer than 200/);
+  assert.throws(() => createFileMatcher({ name: 'a'.repeat(201), nameMode: 'regex' }), NamePatternError);
+});
+
+test('combines the name with the other filters', () => {
+  const isMatch = createFileMatcher({ name: 'IMG_*', category: 'image' });
+  assert.equal(isMatch(file('IMG_1.jpg')), true);
+  assert.equal(isMatch(file('IMG_1.mp4')), false);
+  assert.equal(isMatch(file('VID_1.jpg')), false);
+});
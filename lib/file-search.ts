@@ -0,0 +1,231 @@
+import type { FileItem } from '../types';
+import { MAX_NAME_PATTERN_LENGTH } from './protocol';
+import type { FileCategory, FileSearchFilters } from './protocol';
+
+// cSpell:disable
+const CATEGORY_EXTENSIONS: Record<FileCategory, string[]> = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'heic', 'heif', 'svg'],
+  video: ['mp4', 'mkv', 'mov', 'avi', 'webm', '3gp', 'm4v'],
+  audio: ['mp3', 'm4a', 'aac', 'wav', 'flac', 'ogg', 'opus', 'amr'],
+  document: ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'md', 'csv', 'rtf', 'odt', 'ods', 'odp', 'epub'],
+  archive: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'],
+  apk: ['apk', 'apks', 'xapk'],
+};
+// cSpell:enable
+
+export const FILE_CATEGORY_LABELS: Record<FileCategory, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  archive: 'Archives',
+  apk: 'Apps (APK)',
+};
+
+/**
+ * Category of a file by its extension, undefined for folders and other files
+ */
+export function fileCategory(file: Pick<FileItem, 'name' | 'type'>): FileCategory | undefined {
+  if (file.type === 'folder') return undefined;
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (!ext) return undefined;
+  return (Object.keys(CATEGORY_EXTENSIONS) as FileCategory[]).find((category) =>
+    CATEGORY_EXTENSIONS[category].includes(ext)
+  );
+}
+
+/**
+ * A name pattern that cannot be searched with: not valid, or a regular
+ * expression that could take very long to test against a name
+ */
+export class NamePatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NamePatternError';
+  }
+}
+
+// Longest file name Android allows, longer names are never tested against a regular expression
+const MAX_FILE_NAME_LENGTH = 255;
+// Backtracking steps a regular expression may take on one name at worst, about
+// what a single unbounded repetition costs on the longest name, a few times over
+const MAX_REGEX_STEPS = 4 * (MAX_FILE_NAME_LENGTH + 1) ** 2;
+
+/**
+ * Test for a glob: * is any run of characters, ? a single one and [abc] a
+ * set, [!abc] its negation. A pattern without wildcards matches anywhere in
+ * a name. Matching never backtracks past the last *, so it stays linear in
+ * the name for any one position of the pattern.
+ */
+export function globMatcher(glob: string, ignoreCase = true): (name: string) => boolean {
+  const fold = (text: string) => (ignoreCase ? text.toLowerCase() : text);
+  if (!/[*?[]/.test(glob)) {
+    const needle = fold(glob);
+    return (name) => fold(name).includes(needle);
+  }
+
+  // null stands for *
+  const tokens: (((char: string) => boolean) | null)[] = [];
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (tokens[tokens.length - 1] !== null) tokens.push(null);
+    } else if (char === '?') {
+      tokens.push(() => true);
+    } else if (char === '[' && glob.indexOf(']', i + 1) !== -1) {
+      const end = glob.indexOf(']', i + 1);
+      const set = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      let setRegExp: RegExp;
+      try {
+        // A single character class, which cannot backtrack
+        setRegExp = new RegExp(set.startsWith('!') ? `^[^${set.slice(1)}]$` : `^[${set}]$`, ignoreCase ? 'i' : '');
+      } catch {
+        throw new NamePatternError(`Invalid set [${glob.slice(i + 1, end)}]`);
+      }
+      tokens.push((c) => setRegExp.test(c));
+      i = end;
+    } else {
+      const literal = fold(char);
+      tokens.push((c) => fold(c) === literal);
+    }
+  }
+
+  return (name) => {
+    let t = 0;
+    let n = 0;
+    let star = -1;        // Token after the last * seen
+    let starFrom = 0;     // Where in the name that * has matched up to
+    while (n < name.length) {
+      const token = tokens[t];
+      if (token === null) {
+        star = ++t;
+        starFrom = n;
+      } else if (token && token(name[n])) {
+        t++;
+        n++;
+      } else if (star !== -1) {
+        t = star;
+        n = ++starFrom;
+      } else {
+        return false;
+      }
+    }
+    while (tokens[t] === null) t++;
+    return t === tokens.length;
+  };
+}
+
+/**
+ * Compile a regular expression typed by a user, refusing what can backtrack
+ * for very long: a repeated group with repetition or alternation inside,
+ * such as (a+)+ or (a|ab)*, back-references, and patterns whose worst case
+ * on the longest file name exceeds MAX_REGEX_STEPS. Every choice the
+ * pattern leaves open multiplies that worst case: an unbounded repetition
+ * by the length of the name, a ? by two, an alternation by its number of
+ * branches, and an unanchored pattern by the positions it can start at.
+ */
+export function safeRegExp(source: string, ignoreCase = true): RegExp {
+  // Per open group, whether it holds repetition or alternation, and its branches
+  const groups: { complex: boolean; branches: number }[] = [];
+  let topBranches = 1;
+  let steps = 1;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    let complexGroup = false;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(source[i + 1] || '')) {
+        throw new NamePatternError('Back-references are not supported');
+      }
+      i++;
+    } else if (char === '[') {
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ complex: false, branches: 1 });
+      continue;
+    } else if (char === ')') {
+      const group = groups.pop();
+      complexGroup = group?.complex ?? false;
+      steps *= group?.branches ?? 1;
+    } else if (char === '|') {
+      const group = groups[groups.length - 1];
+      if (group) {
+        group.complex = true;
+        group.branches++;
+      } else {
+        topBranches++;
+      }
+      continue;
+    }
+
+    // A quantifier on what was just read
+    const quantifier = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/.exec(source.slice(i + 1));
+    const enclosing = groups[groups.length - 1];
+    if (complexGroup && enclosing) enclosing.complex = true;
+    if (!quantifier) continue;
+
+    i += quantifier[0].length;
+    if (source[i + 1] === '?') i++;   // Lazy
+    if (enclosing) enclosing.complex = true;
+    if (quantifier[0] === '?') {
+      steps *= 2;
+      continue;
+    }
+
+    if (complexGroup) {
+      throw new NamePatternError('Repeated groups may not contain repetition or alternation, use a character class');
+    }
+    const [, min, range, max] = quantifier;
+    if (quantifier[0] === '*' || quantifier[0] === '+' || (range && !max)) {
+      steps *= MAX_FILE_NAME_LENGTH + 1;
+    } else if (range) {
+      steps *= Math.max(Number(max) - Number(min), 0) + 1;
+    }
+  }
+
+  const anchored = source.startsWith('^') && topBranches === 1;
+  steps *= topBranches * (anchored ? 1 : MAX_FILE_NAME_LENGTH + 1);
+  if (steps > MAX_REGEX_STEPS) {
+    throw new NamePatternError('Pattern is too complex, use fewer repetitions, ? or alternatives');
+  }
+
+  try {
+    return new RegExp(source, ignoreCase ? 'i' : '');
+  } catch (error) {
+    throw new NamePatternError((error as Error).message);
+  }
+}
+
+/**
+ * Test for the filters of a search. Throws a NamePatternError when the name
+ * pattern cannot be used.
+ */
+export function createFileMatcher(filters: FileSearchFilters): (file: FileItem) => boolean {
+  const ignoreCase = filters.ignoreCase ?? true;
+  if (filters.name && filters.name.length > MAX_NAME_PATTERN_LENGTH) {
+    throw new NamePatternError(`Pattern is longer than ${MAX_NAME_PATTERN_LENGTH} characters`);
+  }
+  let name: ((fileName: string) => boolean) | null = null;
+  if (filters.name && filters.nameMode === 'regex') {
+    const regex = safeRegExp(filters.name, ignoreCase);
+    name = (fileName) => fileName.length <= MAX_FILE_NAME_LENGTH && regex.test(fileName);
+  } else if (filters.name) {
+    name = globMatcher(filters.name, ignoreCase);
+  }
+  const filesOnly = filters.minSize !== undefined || filters.maxSize !== undefined || filters.category !== undefined;
+
+  return (file) => {
+    if (name && !name(file.name)) return false;
+    if (filesOnly && file.type === 'folder') return false;
+    if (filters.minSize !== undefined && file.size < filters.minSize) return false;
+    if (filters.maxSize !== undefined && file.size > filters.maxSize) return false;
+    if (filters.category && fileCategory(file) !== filters.category) return false;
+
+    const modified = new Date(file.modified).getTime();
+    if (filters.modifiedAfter !== undefined && modified < filters.modifiedAfter) return false;
+    if (filters.modifiedBefore !== undefined && modified > filters.modifiedBefore) return false;
+    return true;
+  };
+}
@@ -0,0 +1,18 @@
+import { Device } from "@/types";
+
+/**
+ * Ask before starting a transfer over a poor link. Returns true when the
+ * transfer should go ahead.
+ */
+export function confirmTransferOnPoorLink(device: Device, action: string): boolean {
+  const quality = device.linkQuality;
+  if (!quality || quality.level !== "poor") {
+    return true;
+  }
+
+  return window.confirm(
+    `The connection to ${device.name} is poor ` +
+      `(${quality.averageRtt ?? "?"} ms round trip, ${Math.round(quality.lossRate * 100)}% heartbeats missed). ` +
+      `${action} may be slow or fail. Continue anyway?`
+  );
+}
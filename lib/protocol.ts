@@ -0,0 +1,473 @@
+import { z } from 'zod';
+import type {
+  Album,
+  AppInfo,
+  ConnectionState,
+  Contact,
+  Device,
+  DeviceInfo,
+  FileItem,
+  FileOperationProgress,
+  ImageItem,
+  LinkQuality,
+  TransferTask,
+  VideoItem,
+} from '../types';
+
+/**
+ * WebSocket protocol between the web app and the bridge server
+ *
+ * Requests sent by the browser are validated by the server before they are
+ * handled. Responses and events are built by the server from these types,
+ * data that comes from the phone is only checked for its overall shape.
+ */
+
+// Values produced elsewhere in the server, typed here but not inspected field by field
+function opaque<T>() {
+  return z.custom<T>((value) => typeof value === 'object' && value !== null);
+}
+
+const deviceId = z.string().min(1);
+
+export const PairingMethodSchema = z.enum(['browser', 'phone']);
+
+// Devices come from discovery or the manual device list, the server relies on these fields
+export const DeviceSchema = z
+  .looseObject({
+    id: z.string().min(1),
+    name: z.string(),
+    ip: z.string().min(1),
+    port: z.number().optional(),
+    type: z.enum(['android', 'ios']),
+  })
+  .transform((device) => device as unknown as Device);
+
+export const ContactSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  phoneNumbers: z.array(z.string()),
+  emails: z.array(z.string()),
+  avatar: z.string().optional(),
+});
+
+const NoPayload = z.object({}).optional();
+
+// What to do when a file of the same name is already there
+export const ConflictPolicySchema = z.enum(['overwrite', 'rename', 'skip']);
+
+export type ConflictPolicy = z.infer<typeof ConflictPolicySchema>;
+
+// A single file or folder name, not a path
+const FileNameSchema = z
+  .string()
+  .min(1)
+  .refine((name) => !/[/\\\0]/.test(name) && name !== '.' && name !== '..', 'Must be a file name, not a path');
+
+const FileOperationPayload = z.object({
+  paths: z.array(z.string().min(1)).min(1),
+  targetPath: z.string().min(1),
+  conflict: ConflictPolicySchema.optional(),   // Default rename
+});
+
+export const FileCategorySchema = z.enum(['image', 'video', 'audio', 'document', 'archive', 'apk']);
+
+export type FileCategory = z.infer<typeof FileCategorySchema>;
+
+// Longest name pattern file:search accepts
+export const MAX_NAME_PATTERN_LENGTH = 200;
+
+// What file:search looks for, every filter given must match
+export const FileSearchFiltersSchema = z.object({
+  name: z.string().min(1).max(MAX_NAME_PATTERN_LENGTH).optional(),
+  nameMode: z.enum(['glob', 'regex']).optional(),   // Default glob, a name without wildcards matches anywhere
+  ignoreCase: z.boolean().optional(),               // Default true
+  minSize: z.number().nonnegative().optional(),     // Bytes, only files match size filters
+  maxSize: z.number().nonnegative().optional(),
+  modifiedAfter: z.number().optional(),             // Epoch milliseconds
+  modifiedBefore: z.number().optional(),
+  category: FileCategorySchema.optional(),          // Only files match a category
+});
+
+export type FileSearchFilters = z.infer<typeof FileSearchFiltersSchema>;
+
+function transferRequest<T extends string>(type: T) {
+  return z.object({ type: z.literal(type), transferId: z.string().min(1) });
+}
+
+function deviceRequest<T extends string, P extends z.ZodType>(type: T, payload: P) {
+  return z.object({
+    id: z.string().min(1),
+    type: z.literal(type),
+    deviceId,
+    payload,
+  });
+}
+
+/**
+ * Requests for a connected phone, answered with `<type>:response` or an error
+ */
+export const DeviceRequestSchema = z.discriminatedUnion('type', [
+  deviceRequest('device:info', NoPayload),
+  deviceRequest('file:list', z.object({ path: z.string().optional() })),
+  deviceRequest('file:download', z.object({ path: z.string().min(1) })),
+  // The bytes follow as binary frames once the server sends upload:ready, see encodeUploadChunk()
+  deviceRequest('file:upload', z.object({
+    name: FileNameSchema,
+    size: z.number().int().nonnegative(),
+    targetPath: z.string().min(1),
+    conflict: ConflictPolicySchema.optional(),   // Default rename
+  })),
+  deviceRequest('file:delete', z.object({ path: z.string().min(1) })),
+  deviceRequest('file:rename', z.object({ path: z.string().min(1), newName: FileNameSchema })),
+  // Creates name inside the folder at path
+  deviceRequest('file:mkdir', z.object({ path: z.string().min(1), name: FileNameSchema })),
+  // Progress arrives as file:progress events, folders are copied with everything in them
+  deviceRequest('file:copy', FileOperationPayload),
+  deviceRequest('file:move', FileOperationPayload),
+  // Matches arrive as file:search:results events until the response, which ends the search
+  deviceRequest('file:search', z.object({
+    path: z.string().min(1),
+    filters: FileSearchFiltersSchema,
+    limit: z.number().int().positive().max(10000).optional(),   // Default 1000
+  })),
+  deviceRequest('file:search:cancel', z.object({ searchId: z.string().min(1) })),
+  deviceRequest('image:list', z.object({ albumId: z.string().optional() })),
+  deviceRequest('album:list', NoPayload),
+  deviceRequest('video:list', NoPayload),
+  deviceRequest('contact:list', NoPayload),
+  deviceRequest('contact:update', ContactSchema),
+  deviceRequest('contact:delete', z.object({ id: z.string().min(1) })),
+  deviceRequest('app:list', NoPayload),
+  deviceRequest('app:uninstall', z.object({ packageName: z.string().min(1) })),
+  deviceRequest('app:backup', z.object({ packageName: z.string().min(1) })),
+]);
+
+/**
+ * Requests handled by the server itself, results arrive as events
+ */
+export const BridgeRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('connect:device'),
+    device: DeviceSchema,
+    pairingMethod: PairingMethodSchema.optional(),
+  }),
+  z.object({ type: z.literal('disconnect:device'), deviceId }),
+  z.object({ type: z.literal('pairing:submit'), deviceId, payload: z.object({ pin: z.string() }) }),
+  z.object({ type: z.literal('pairing:restart'), deviceId, payload: z.object({ method: PairingMethodSchema }) }),
+  z.object({ type: z.literal('pairing:cancel'), deviceId }),
+  // Control of queued uploads and downloads, changes arrive as transfer:update
+  transferRequest('transfer:pause'),
+  transferRequest('transfer:resume'),
+  transferRequest('transfer:cancel'),
+  transferRequest('transfer:remove'),
+  // Registration of a browser as a device, kept for older clients
+  z.object({ type: z.literal('register'), id: z.string().optional(), payload: DeviceSchema }),
+  z.object({ type: z.literal('heartbeat') }),
+]);
+
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  BridgeRequestSchema,
+  DeviceRequestSchema,
+]);
+
+export type DeviceRequest = z.infer<typeof DeviceRequestSchema>;
+export type BridgeRequest = z.infer<typeof BridgeRequestSchema>;
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+export type DeviceRequestType = DeviceRequest['type'];
+export type DeviceRequestOf<T extends DeviceRequestType> = Extract<DeviceRequest, { type: T }>;
+export type RequestPayload<T extends DeviceRequestType> = DeviceRequestOf<T>['payload'];
+
+export interface OperationResult {
+  success: boolean;
+}
+
+export interface FileUploadResult {
+  files: FileItem[];    // Created on the phone, empty when skipped
+  skipped: boolean;     // A file of that name was there and the conflict policy was skip
+}
+
+export interface FileOperationResult {
+  files: FileItem[];    // Created in the target folder
+  skipped: string[];    // Paths left alone, because of the conflict policy or a failure
+  errors: string[];     // Why files were not copied or moved, if any
+}
+
+export interface FileSearchResult {
+  matches: number;
+  scannedFolders: number;
+  unreadableFolders: number;   // Folders the phone would not list
+  cancelled: boolean;
+  truncated: boolean;          // Stopped at the limit
+}
+
+/**
+ * Data carried by the response to each device request
+ */
+export interface ResponseDataMap {
+  'device:info': DeviceInfo;
+  'file:list': FileItem[];
+  'file:download': unknown;
+  'file:upload': FileUploadResult;
+  'file:delete': OperationResult;
+  'file:rename': FileItem;    // The file under its new name
+  'file:mkdir': FileItem;
+  'file:copy': FileOperationResult;
+  'file:move': FileOperationResult;
+  'file:search': FileSearchResult;
+  'file:search:cancel': OperationResult;
+  'image:list': ImageItem[];
+  'album:list': Album[];
+  'video:list': VideoItem[];
+  'contact:list': Contact[];
+  'contact:update': OperationResult;
+  'contact:delete': OperationResult;
+  'app:list': AppInfo[];
+  'app:uninstall': OperationResult;
+  'app:backup': OperationResult;
+}
+
+export type ResponseData<T extends DeviceRequestType> = ResponseDataMap[T];
+
+export const ResponseMessageSchema = z.object({
+  id: z.string(),
+  type: z.templateLiteral([z.string(), ':response']),
+  deviceId: z.string().optional(),
+  data: z.unknown(),
+});
+
+export type ResponseMessage = z.infer<typeof ResponseMessageSchema>;
+
+export function responseType<T extends DeviceRequestType>(type: T): `${T}:response` {
+  return `${type}:response`;
+}
+
+export const ProtocolErrorCodeSchema = z.enum([
+  'invalid_message',       // Not JSON, unknown type or fields that fail validation
+  'device_not_connected',  // The phone the request is for is not connected or still pairing
+  'unsupported',           // Valid request the server cannot carry out yet
+  'request_failed',        // The phone or the server failed while handling it
+]);
+
+export type ProtocolErrorCode = z.infer<typeof ProtocolErrorCodeSchema>;
+
+export const ProtocolIssueSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+
+export type ProtocolIssue = z.infer<typeof ProtocolIssueSchema>;
+
+const ConnectionStateInfoShape = {
+  state: z.custom<ConnectionState>((value) => typeof value === 'string'),
+  previousState: z.custom<ConnectionState>((value) => typeof value === 'string').optional(),
+  reason: z.string(),
+  attempt: z.number(),
+  nextRetryAt: z.number().optional(),
+  changedAt: z.number(),
+};
+
+const ConnectionStateInfoSchema = z.object(ConnectionStateInfoShape);
+
+/**
+ * Messages the server sends without being asked, or in reply to bridge requests
+ */
+export const ServerEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('connected'), message: z.string() }),
+  z.object({ type: z.literal('register:ack'), success: z.boolean() }),
+  z.object({ type: z.literal('heartbeat:ack'), timestamp: z.number() }),
+  z.object({ type: z.literal('device:discovered'), device: opaque<Device>() }),
+  z.object({ type: z.literal('device:lost'), deviceId, device: opaque<Device>() }),
+  z.object({
+    type: z.literal('device:changed'),
+    deviceId,
+    previousDeviceId: deviceId,
+    device: opaque<Device>(),
+  }),
+  z.object({
+    type: z.literal('connection:success'),
+    deviceId,
+    device: opaque<Device>(),
+    connectionState: ConnectionStateInfoSchema,
+  }),
+  z.object({
+    type: z.literal('connection:error'),
+    deviceId: deviceId.optional(),
+    device: opaque<Device>().optional(),
+    error: z.string(),
+  }),
+  z.object({ type: z.literal('connection:state'), deviceId, ...ConnectionStateInfoShape }),
+  z.object({ type: z.literal('connection:closed'), deviceId, device: opaque<Device>(), reason: z.string() }),
+  z.object({ type: z.literal('device:disconnected'), deviceId, device: opaque<Device>() }),
+  z.object({ type: z.literal('link:quality'), deviceId, linkQuality: opaque<LinkQuality>() }),
+  z.object({
+    type: z.literal('mobile:info:update'),
+    deviceId,
+    data: opaque<Partial<Pick<DeviceInfo, 'battery' | 'storage'>>>(),
+  }),
+  z.object({ type: z.literal('command:received'), deviceId, data: z.unknown() }),
+  z.object({
+    type: z.literal('pairing:required'),
+    deviceId,
+    identity: z.string(),
+    method: PairingMethodSchema,
+    pin: z.string().optional(),
+    expiresAt: z.number(),
+    attemptsLeft: z.number(),
+  }),
+  z.object({ type: z.literal('pairing:attempt'), deviceId, attemptsLeft: z.number(), error: z.string() }),
+  z.object({ type: z.literal('transfer:update'), task: opaque<TransferTask>() }),
+  z.object({ type: z.literal('transfer:removed'), transferId: z.string() }),
+  // The server is ready for the bytes of a file:upload, name is what the file will be called
+  z.object({ type: z.literal('upload:ready'), id: z.string(), deviceId, name: z.string() }),
+  // Progress of a file:copy or file:move, id is that of the request
+  z.object({ type: z.literal('file:progress'), id: z.string(), deviceId, progress: opaque<FileOperationProgress>() }),
+  // Matches of a file:search, id is that of the request
+  z.object({
+    type: z.literal('file:search:results'),
+    id: z.string(),
+    deviceId,
+    files: z.array(opaque<FileItem>()),
+    scannedFolders: z.number(),
+  }),
+  z.object({
+    type: z.literal('error'),
+    id: z.string().optional(),
+    deviceId: z.string().optional(),
+    code: ProtocolErrorCodeSchema,
+    error: z.string(),
+    issues: z.array(ProtocolIssueSchema).optional(),
+  }),
+]);
+
+export const ServerMessageSchema = z.union([ServerEventSchema, ResponseMessageSchema]);
+
+export type ServerEvent = z.infer<typeof ServerEventSchema>;
+export type ServerEventType = ServerEvent['type'];
+export type ServerEventOf<T extends ServerEventType> = Extract<ServerEvent, { type: T }>;
+export type ErrorMessage = ServerEventOf<'error'>;
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+export function isResponseMessage(message: ServerMessage): message is ResponseMessage {
+  return message.type.endsWith(':response');
+}
+
+/**
+ * Error reply for a request, id and deviceId tie it to what was sent
+ */
+export function protocolError(
+  code: ProtocolErrorCode,
+  error: string,
+  request: { id?: string; deviceId?: string } = {},
+  issues?: ProtocolIssue[]
+): ErrorMessage {
+  return { type: 'error', id: request.id, deviceId: request.deviceId, code, error, issues };
+}
+
+function toIssues(error: z.ZodError): ProtocolIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+}
+
+// Best effort, so errors about malformed requests still reach their caller
+function requestRef(value: unknown): { id?: string; deviceId?: string } {
+  if (typeof value !== 'object' || value === null) {
+    return {};
+  }
+  const { id, deviceId } = value as Record<string, unknown>;
+  return {
+    id: typeof id === 'string' ? id : undefined,
+    deviceId: typeof deviceId === 'string' ? deviceId : undefined,
+  };
+}
+
+export type ParseResult<T> = { success: true; message: T } | { success: false; error: ErrorMessage };
+
+/**
+ * Parse and validate a raw message from a browser
+ */
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { success: false, error: protocolError('invalid_message', 'Message is not valid JSON') };
+  }
+
+  const result = ClientMessageSchema.safeParse(value);
+  if (!result.success) {
+    const type = (value as { type?: unknown } | null)?.type;
+    return {
+      success: false,
+      error: protocolError(
+        'invalid_message',
+        typeof type === 'string' ? `Invalid ${type} message` : 'Message has no type',
+        requestRef(value),
+        toIssues(result.error)
+      ),
+    };
+  }
+  return { success: true, message: result.data };
+}
+
+/**
+ * Parse a message from the server, null when it does not match the protocol
+ */
+export function parseServerMessage(raw: string): ServerMessage | null {
+  try {
+    const result = ServerMessageSchema.safeParse(JSON.parse(raw));
+    if (result.success) {
+      return result.data;
+    }
+    console.warn('Ignoring message that does not match the protocol:', toIssues(result.error));
+  } catch (error) {
+    console.error('Failed to parse WebSocket message:', error);
+  }
+  return null;
+}
+
+/**
+ * Error a request was answered with, thrown to the caller on the client
+ */
+export class ProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ProtocolErrorCode,
+    public readonly issues?: ProtocolIssue[]
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+/**
+ * Binary frame with part of a file:upload: one byte with the length of the
+ * request id, the id in UTF-8, then the data
+ */
+export function encodeUploadChunk(requestId: string, data: Uint8Array): Uint8Array {
+  const id = new TextEncoder().encode(requestId);
+  if (id.length > 255) {
+    throw new Error('Request id is too long for an upload frame');
+  }
+  const frame = new Uint8Array(1 + id.length + data.length);
+  frame[0] = id.length;
+  frame.set(id, 1);
+  frame.set(data, 1 + id.length);
+  return frame;
+}
+
+/**
+ * Split an upload frame into its request id and data, null when it is too short
+ */
+export function decodeUploadChunk(frame: Uint8Array): { requestId: string; data: Uint8Array } | null {
+  if (frame.length < 1 || frame.length < 1 + frame[0]) {
+    return null;
+  }
+  const idLength = frame[0];
+  return {
+    requestId: new TextDecoder().decode(frame.subarray(1, 1 + idLength)),
+    data: frame.subarray(1 + idLength),
+  };
+}
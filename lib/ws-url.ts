@@ -1,21 +1,81 @@
+export interface BridgeInfo {
+  port: number;
+  host: string;           // Host this browser reaches the server on
+  secure: boolean;        // The server speaks https and wss
+  fingerprint?: string;   // SHA-256 of its TLS certificate
+}
+
 /**
- * Get the WebSocket server URL dynamically
+ * Port and scheme of the bridge server, null when it is not running
  */
-export async function getWebSocketUrl(): Promise<string> {
+export async function getBridgeInfo(): Promise<BridgeInfo | null> {
   try {
     const response = await fetch('/api/ws-port');
     if (response.ok) {
       const data = await response.json();
-      return `http://localhost:${data.port}`;
+      return {
+        port: data.port,
+        host: data.host || window.location.hostname,
+        secure: !!data.secure,
+        fingerprint: data.fingerprint,
+      };
     }
   } catch (error) {
     console.error('Failed to fetch WebSocket port:', error);
   }
+  return null;
+}
+
+/**
+ * Get the WebSocket server URL dynamically
+ */
+export async function getWebSocketUrl(): Promise<string> {
+  const info = await getBridgeInfo();
+  if (info) {
+    return `${info.secure ? 'https' : 'http'}://${info.host}:${info.port}`;
+  }
 
   // Fallback to environment variable or default
   return process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:8080';
 }
 
+/**
+ * Absolute URL of a path on the bridge, such as the device stream paths the
+ * server hands out. Absolute URLs are returned unchanged.
+ */
+export function resolveBridgeUrl(baseUrl: string, path: string): string {
+  return new URL(path, baseUrl).toString();
+}
+
+export async function getBridgeUrl(path: string): Promise<string> {
+  return resolveBridgeUrl(await getWebSocketUrl(), path);
+}
+
+/**
+ * Resolve the thumbnail and file URLs of media items listed by the server
+ */
+export function resolveMediaUrls<T extends { thumbnailUrl?: string; url?: string }>(
+  items: T[],
+  baseUrl: string
+): T[] {
+  return items.map((item) => ({
+    ...item,
+    thumbnailUrl: item.thumbnailUrl && resolveBridgeUrl(baseUrl, item.thumbnailUrl),
+    url: item.url && resolveBridgeUrl(baseUrl, item.url),
+  }));
+}
+
+/**
+ * ws:// or wss:// URL of the bridge server
+ */
+export async function getWebSocketEndpoint(): Promise<string> {
+  const info = await getBridgeInfo();
+  if (!info) {
+    throw new Error('WebSocket server not available');
+  }
+  return `${info.secure ? 'wss' : 'ws'}://${info.host}:${info.port}`;
+}
+
 /**
  * Cache for WebSocket port to avoid multiple API calls
  */
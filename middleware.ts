@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_COOKIE } from '@/lib/auth';
+
+/**
+ * Send visitors without a token cookie to the login page. Whether the token
+ * is still valid is up to the bridge, which answers 401 otherwise.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(AUTH_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Pages only, the login page, API routes and static assets stay reachable
+  matcher: ['/((?!login|api|_next/static|_next/image|favicon.ico).*)'],
+};
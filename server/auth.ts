@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { IncomingMessage } from 'http';
+import type { CorsOptions, CorsOptionsDelegate } from 'cors';
+import type { NextFunction, Request, Response } from 'express';
+import type { VerifyClientCallbackAsync } from 'ws';
+import { AUTH_COOKIE } from '../lib/auth';
+import { getDataFile } from './data-dir';
+
+export interface AuthConfig {
+  token: string;
+  // Origins allowed to call us from a browser, empty means same hostname only
+  allowedOrigins: string[];
+}
+
+interface AuthFile {
+  token?: string;
+  allowedOrigins?: string[];
+}
+
+/**
+ * Load the access token and allowed origins.
+ *
+ * AIRCONTROLLER_TOKEN and ALLOWED_ORIGINS (comma separated) take precedence
+ * over auth.json in the data directory. Without a token anywhere, one is
+ * generated on first run, saved to auth.json and printed once.
+ */
+export function loadAuthConfig(filePath: string = getDataFile('auth.json')): AuthConfig {
+  let file: AuthFile = {};
+  try {
+    if (fs.existsSync(filePath)) {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+  } catch (error) {
+    console.error(`Failed to read auth config from ${filePath}:`, error);
+  }
+
+  const allowedOrigins = process.env.ALLOWED_ORIGINS
+    ? process.env.ALLOWED_ORIGINS.split(',').map((origin) => origin.trim()).filter(Boolean)
+    : file.allowedOrigins || [];
+
+  const token = process.env.AIRCONTROLLER_TOKEN || file.token;
+  if (token) {
+    return { token, allowedOrigins };
+  }
+
+  // First run, create a token for the web app to log in with
+  const generated = crypto.randomBytes(24).toString('base64url');
+  try {
+    fs.writeFileSync(filePath, JSON.stringify({ ...file, token: generated }, null, 2), {
+      encoding: 'utf-8',
+      mode: 0o600,
+    });
+  } catch (error) {
+    console.error(`Failed to save auth config to ${filePath}:`, error);
+  }
+
+  console.log('='.repeat(60));
+  console.log('Generated an access token for the web app:');
+  console.log(`  ${generated}`);
+  console.log(`Enter it on the login page. It is saved in ${filePath}`);
+  console.log('='.repeat(60));
+
+  return { token: generated, allowedOrigins };
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      const name = part.substring(0, index).trim();
+      try {
+        cookies[name] = decodeURIComponent(part.substring(index + 1).trim());
+      } catch {
+        // Ignore cookies that are not ours and not URI encoded
+      }
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Token sent with a request, from the Authorization header or our cookie
+ */
+export function getRequestToken(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.substring('Bearer '.length).trim();
+  }
+  return parseCookies(req.headers.cookie)[AUTH_COOKIE] || null;
+}
+
+export function isValidToken(config: AuthConfig, token: string | null): boolean {
+  if (!token) {
+    return false;
+  }
+  const expected = Buffer.from(config.token);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Requests without an Origin do not come from a browser page. Otherwise the
+ * origin must be listed, or share the hostname the request was sent to.
+ */
+export function isOriginAllowed(config: AuthConfig, origin: string | undefined, host: string | undefined): boolean {
+  if (!origin) {
+    return true;
+  }
+  if (config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin)) {
+    return true;
+  }
+  if (config.allowedOrigins.length > 0 || !host) {
+    return false;
+  }
+
+  try {
+    return new URL(origin).hostname === new URL(`http://${host}`).hostname;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * CORS with credentials for allowed origins only
+ */
+export function createCorsOptions(config: AuthConfig): CorsOptionsDelegate<Request> {
+  return (req, callback) => {
+    const options: CorsOptions = {
+      origin: isOriginAllowed(config, req.headers.origin, req.headers.host),
+      credentials: true,
+      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Range', 'X-Chunk-Sha256'],
+      // Read by the web app when it fetches streamed files
+      exposedHeaders: ['Accept-Ranges', 'Content-Disposition', 'Content-Length', 'Content-Range', 'ETag'],
+    };
+    callback(null, options);
+  };
+}
+
+/**
+ * Reject requests without a valid token or from a foreign origin
+ */
+export function createAuthMiddleware(config: AuthConfig) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!isOriginAllowed(config, req.headers.origin, req.headers.host)) {
+      res.status(403).json({ error: 'Origin not allowed' });
+      return;
+    }
+    if (!isValidToken(config, getRequestToken(req))) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Same checks for the WebSocket upgrade, browsers send our cookie along with it
+ */
+export function createWebSocketVerifier(config: AuthConfig): VerifyClientCallbackAsync {
+  return ({ origin, req }, callback) => {
+    if (!isOriginAllowed(config, origin, req.headers.host)) {
+      console.warn(`Rejected WebSocket connection from origin ${origin}`);
+      callback(false, 403, 'Origin not allowed');
+      return;
+    }
+    if (!isValidToken(config, getRequestToken(req))) {
+      console.warn(`Rejected unauthenticated WebSocket connection from ${req.socket.remoteAddress}`);
+      callback(false, 401, 'Authentication required');
+      return;
+    }
+    callback(true);
+  };
+}
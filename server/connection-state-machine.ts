@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import { ConnectionState, ConnectionStateInfo } from '../types';
+
+export interface BackoffOptions {
+  initialDelay: number;
+  maxDelay: number;
+  factor: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  maxAttempts: 8,
+};
+
+/**
+ * Allowed transitions. degraded and reconnecting may re-enter themselves
+ * so a failed retry can report its new attempt count and reason.
+ */
+const TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  discovered: ['connecting'],
+  connecting: ['handshaking', 'lost'],
+  handshaking: ['pairing', 'connected', 'degraded', 'reconnecting', 'lost'],
+  pairing: ['connected', 'lost'],
+  connected: ['degraded', 'reconnecting', 'lost'],
+  degraded: ['degraded', 'connected', 'reconnecting', 'lost'],
+  reconnecting: ['reconnecting', 'handshaking', 'degraded', 'lost'],
+  lost: ['connecting'],
+};
+
+// States in which the phone's HTTP API can be used, never before pairing completes
+const USABLE_STATES: ConnectionState[] = ['handshaking', 'connected', 'degraded'];
+
+/**
+ * Per-device connection lifecycle. Emits 'state' with a ConnectionStateInfo
+ * on every transition and owns the reconnect backoff timer.
+ */
+export class ConnectionStateMachine extends EventEmitter {
+  private current: ConnectionState = 'discovered';
+  private previous?: ConnectionState;
+  private reason = 'Found on the local network';
+  private changedAt = Date.now();
+  private attempt = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private nextRetryAt?: number;
+  private readonly backoff: BackoffOptions;
+
+  constructor(backoff: Partial<BackoffOptions> = {}) {
+    super();
+    this.backoff = { ...DEFAULT_BACKOFF, ...backoff };
+  }
+
+  get state(): ConnectionState {
+    return this.current;
+  }
+
+  get isConnected(): boolean {
+    return USABLE_STATES.includes(this.current);
+  }
+
+  get hasPendingRetry(): boolean {
+    return this.retryTimer !== null;
+  }
+
+  get maxAttempts(): number {
+    return this.backoff.maxAttempts;
+  }
+
+  canTransition(to: ConnectionState): boolean {
+    return TRANSITIONS[this.current].includes(to);
+  }
+
+  /**
+   * Move to a new state. Transitions not in the table are rejected and logged.
+   */
+  transition(to: ConnectionState, reason: string): boolean {
+    if (!this.canTransition(to)) {
+      console.warn(`Ignoring invalid connection transition ${this.current} -> ${to} (${reason})`);
+      return false;
+    }
+
+    this.previous = this.current;
+    this.current = to;
+    this.reason = reason;
+    this.changedAt = Date.now();
+
+    if (to === 'connected') {
+      this.resetBackoff();
+    }
+    if (to === 'lost') {
+      this.cancelRetry();
+    }
+
+    console.log(`Connection state: ${this.previous} -> ${to} (${reason})`);
+    this.emit('state', this.snapshot());
+    return true;
+  }
+
+  snapshot(): ConnectionStateInfo {
+    return {
+      state: this.current,
+      previousState: this.previous,
+      reason: this.reason,
+      attempt: this.attempt,
+      nextRetryAt: this.nextRetryAt,
+      changedAt: this.changedAt,
+    };
+  }
+
+  /**
+   * Schedule the next reconnect attempt with exponential backoff.
+   * Returns the delay in ms, or null once all attempts are used up.
+   */
+  scheduleRetry(task: () => Promise<void>): number | null {
+    if (this.attempt >= this.backoff.maxAttempts) {
+      return null;
+    }
+
+    this.cancelRetry();
+    this.attempt++;
+
+    const { initialDelay, factor, maxDelay } = this.backoff;
+    const delay = Math.min(initialDelay * Math.pow(factor, this.attempt - 1), maxDelay);
+    this.nextRetryAt = Date.now() + delay;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.nextRetryAt = undefined;
+      task().catch((error) => {
+        console.error('Reconnect attempt failed:', error);
+      });
+    }, delay);
+
+    return delay;
+  }
+
+  cancelRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.nextRetryAt = undefined;
+  }
+
+  resetBackoff() {
+    this.cancelRetry();
+    this.attempt = 0;
+  }
+
+  dispose() {
+    this.cancelRetry();
+    this.removeAllListeners();
+  }
+}
@@ -34,10 +34,16 @@ export const PROTOCOL = {
   // Command types
   CMD_UPDATE_MOBILE_INFO: 1,
   CMD_REPORT_DESKTOP_INFO: 2,
+  CMD_PAIRING_REQUEST: 3,    // Desktop -> phone, starts pairing, carries the PIN when the phone shows it
+  CMD_PAIRING_CONFIRM: 4,    // Phone -> desktop, the PIN typed on the phone or a rejection
+  CMD_PAIRING_RESULT: 5,     // Desktop -> phone, outcome of the pairing attempt, the identity and secret on success
+  CMD_TRUST_CHALLENGE: 6,    // Desktop -> phone, nonce to prove an earlier pairing with
+  CMD_TRUST_PROOF: 7,        // Phone -> desktop, identity and HMAC of the nonce, or nothing when not paired
 
   // Heartbeat
   HEARTBEAT_INTERVAL: 2000,  // 2 seconds
   HEARTBEAT_TIMEOUT: 5000,   // 5 seconds
+  HEARTBEAT_MAX_MISSED: 3,   // Consecutive timeouts before the channel is dropped
 } as const;
 
 /**
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Directory for state the bridge keeps between runs. Override with
+ * AIRCONTROLLER_DATA_DIR, defaults to .aircontroller in the working directory.
+ */
+export function getDataDir(): string {
+  const dir = process.env.AIRCONTROLLER_DATA_DIR || path.join(process.cwd(), '.aircontroller');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+/**
+ * Path of a file inside the data directory
+ */
+export function getDataFile(name: string): string {
+  return path.join(getDataDir(), name);
+}
@@ -1,26 +1,89 @@
 import { WebSocket } from 'ws';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
 import { CommandClient, HeartbeatClient } from './tcp-client';
-import { Device } from '../types';
+import { Device, FileItem, PairingMethod } from '../types';
 import axios from 'axios';
-import { PORTS } from './constants';
+import { PORTS, PROTOCOL } from './constants';
+import { BackoffOptions, ConnectionStateMachine } from './connection-state-machine';
+import { LinkQualityTracker } from './link-quality';
+import { PairingError, PairingOptions, PairingSession } from './pairing-session';
+import { TrustStore, unpairedIdentity } from './trust-store';
+import {
+  DeviceRequest,
+  DeviceRequestOf,
+  ProtocolErrorCode,
+  ResponseData,
+  ServerEvent,
+  ServerEventOf,
+  ServerMessage,
+  protocolError,
+  responseType,
+} from '../lib/protocol';
+import { THUMBNAIL_SIZE, deviceThumbnailPath } from '../lib/device-stream';
+import { normalizeDevicePath, sendFileToDevice, temporaryFileName, uniqueFileName } from './device-upload';
+import { WebSocketUploads } from './websocket-uploads';
+import { DeviceFileOperations, DeviceFileSystem, FileOperationError } from './device-file-operations';
+import { searchDeviceFiles } from './device-file-search';
+import { NamePatternError } from '../lib/file-search';
 
 export interface MobileConnection {
   device: Device;
+  // Trust store identity once proven or paired, keys the media index and thumbnail cache
+  identity: string;
   commandClient: CommandClient;
   heartbeatClient: HeartbeatClient;
   webSocketClients: Set<WebSocket>;
-  connected: boolean;
+  stateMachine: ConnectionStateMachine;
+  linkQuality: LinkQualityTracker;
+  pairing?: PairingSession;
   lastActivity: Date;
 }
 
+export interface DeviceConnectionManagerOptions {
+  backoff?: Partial<BackoffOptions>;
+  linkQualityInterval?: number;  // ms between link:quality pushes, default 5000
+  // Phones not in the trust store must pair before use, pairing is skipped without one
+  pairing?: PairingOptions & { trustStore: TrustStore };
+  // Called after files were added to or removed from a phone through us
+  onFilesChanged?: (connection: MobileConnection, removed: boolean) => void;
+}
+
+// How long a phone has to answer the trust challenge
+const TRUST_PROOF_TIMEOUT_MS = 5000;
+
 export class DeviceConnectionManager {
+  // Keyed by device id, so several phones can be connected side by side
   private connections: Map<string, MobileConnection> = new Map();
+  // Bytes of file:upload requests on their way from browsers
+  private incomingUploads = new WebSocketUploads();
+  private fileOperations = new DeviceFileOperations();
+  // file:search requests under way, keyed by request id
+  private searches = new Map<string, { ws: WebSocket; controller: AbortController }>();
+
+  constructor(private options: DeviceConnectionManagerOptions = {}) {
+    // Push link quality of every usable connection to its web clients
+    const timer = setInterval(() => {
+      for (const connection of this.connections.values()) {
+        if (connection.stateMachine.isConnected) {
+          this.broadcastToClients(connection.webSocketClients, {
+            type: 'link:quality',
+            deviceId: connection.device.id,
+            linkQuality: connection.linkQuality.snapshot(),
+          });
+        }
+      }
+    }, options.linkQualityInterval ?? 5000);
+    timer.unref();
+  }
 
   /**
-   * Connect to a mobile device from a WebSocket client
+   * Connect to a mobile device from a WebSocket client. Untrusted phones are
+   * paired first, pairingMethod picks where the PIN is displayed.
    */
-  async connectToDevice(device: Device, ws: WebSocket): Promise<void> {
-    const deviceKey = device.ip;
+  async connectToDevice(device: Device, ws: WebSocket, pairingMethod: PairingMethod = 'browser'): Promise<void> {
+    const deviceKey = device.id;
 
     // Check if we already have a connection to this device
     let connection = this.connections.get(deviceKey);
@@ -31,19 +94,35 @@ export class DeviceConnectionManager {
 
       const commandClient = new CommandClient();
       const heartbeatClient = new HeartbeatClient();
+      const stateMachine = new ConnectionStateMachine(this.options.backoff);
 
       connection = {
         device,
+        identity: unpairedIdentity(device),
         commandClient,
         heartbeatClient,
-        webSocketClients: new Set(),
-        connected: false,
+        // Register the requesting client first so it sees every state change
+        webSocketClients: new Set([ws]),
+        stateMachine,
+        linkQuality: new LinkQualityTracker(),
         lastActivity: new Date(),
       };
+      this.setupWebSocketHandling(ws, connection);
+
+      const current = connection;
+      stateMachine.on('state', (info) => {
+        this.broadcastToClients(current.webSocketClients, {
+          type: 'connection:state',
+          deviceId: device.id,
+          ...info,
+        });
+      });
 
       this.connections.set(deviceKey, connection);
 
       try {
+        stateMachine.transition('connecting', 'Opening command and heartbeat channels');
+
         // Connect TCP clients to mobile device (sequential like Flutter Desktop)
         // First connect command client
         await commandClient.connect(device.ip);
@@ -53,55 +132,101 @@ export class DeviceConnectionManager {
         await heartbeatClient.connect(device.ip);
         console.log(`Heartbeat client connected to ${device.name}`);
 
-        connection.connected = true;
+        stateMachine.transition('handshaking', 'Channels open, waiting for first heartbeat');
         console.log(`Successfully connected to ${device.name}`);
 
+        // Enter pairing before any heartbeat can complete the handshake
+        const trusted = await this.proveTrust(connection);
+        const needsPairing = !!this.options.pairing && !trusted;
+        if (trusted) {
+          connection.identity = trusted;
+        }
+        if (needsPairing) {
+          this.startPairing(connection, pairingMethod);
+        }
+
         // Setup event forwarding from TCP to WebSocket
         this.setupEventForwarding(connection);
 
+        if (needsPairing) {
+          await this.completePairing(connection);
+        } else {
+          this.options.pairing?.trustStore.markSeen(connection.identity);
+        }
+
         // Fetch mobile info via HTTP API
         this.fetchMobileInfo(connection).catch(err => {
           console.error('Failed to fetch mobile info:', err);
         });
 
-        // Notify WebSocket client of successful connection
-        ws.send(JSON.stringify({
+        // Notify WebSocket client of successful connection. After pairing every
+        // client that joined while it was in progress is waiting for this.
+        const success: ServerEventOf<'connection:success'> = {
           type: 'connection:success',
+          deviceId: device.id,
           device: device,
-        }));
+          connectionState: stateMachine.snapshot(),
+        };
+        if (needsPairing) {
+          this.broadcastToClients(connection.webSocketClients, success);
+        } else {
+          this.send(ws, success);
+        }
 
       } catch (error) {
         console.error(`Failed to connect to ${device.name}:`, error);
 
-        // Clean up failed connection
+        // Clean up failed connection, unless closeConnection already did
+        if (stateMachine.state !== 'lost') {
+          stateMachine.transition('lost', error instanceof PairingError
+            ? `Pairing failed: ${error.message}`
+            : `Could not reach device: ${error instanceof Error ? error.message : error}`);
+        }
+        stateMachine.dispose();
+        commandClient.removeAllListeners();
+        heartbeatClient.removeAllListeners();
         commandClient.disconnect();
         heartbeatClient.disconnect();
-        this.connections.delete(deviceKey);
+        if (this.connections.get(deviceKey) === connection) {
+          this.connections.delete(deviceKey);
+        }
 
         // Notify WebSocket client of failure
-        ws.send(JSON.stringify({
+        this.send(ws, {
           type: 'connection:error',
-          error: 'Failed to connect to device',
+          error: error instanceof PairingError ? `Pairing failed: ${error.message}` : 'Failed to connect to device',
+          deviceId: device.id,
           device: device,
-        }));
+        });
 
         throw error;
       }
     } else {
       console.log(`Reusing existing connection to ${device.name}`);
 
+      // Add WebSocket client to connection
+      if (!connection.webSocketClients.has(ws)) {
+        connection.webSocketClients.add(ws);
+        this.setupWebSocketHandling(ws, connection);
+      }
+
+      // Pairing still running, the client hears about success when it completes
+      if (connection.pairing) {
+        this.send(ws, {
+          type: 'pairing:required',
+          ...connection.pairing.toRequest(connection.device.id, connection.identity),
+        });
+        return;
+      }
+
       // Notify WebSocket client of successful connection
-      ws.send(JSON.stringify({
+      this.send(ws, {
         type: 'connection:success',
-        device: device,
-      }));
+        deviceId: connection.device.id,
+        device: connection.device,
+        connectionState: connection.stateMachine.snapshot(),
+      });
     }
-
-    // Add WebSocket client to connection
-    connection.webSocketClients.add(ws);
-
-    // Setup WebSocket message handling
-    this.setupWebSocketHandling(ws, connection);
   }
 
   /**
@@ -112,6 +237,11 @@ export class DeviceConnectionManager {
 
     // Forward command events
     commandClient.on('mobile:info', (data) => {
+      // Nothing about the phone is shared before it is trusted
+      if (connection.pairing) {
+        return;
+      }
+
       // Update device info in connection (merge with existing data)
       if (!connection.device.deviceInfo) {
         connection.device.deviceInfo = {
@@ -142,48 +272,226 @@ export class DeviceConnectionManager {
       });
     });
 
+    commandClient.on('pairing:confirm', (data) => {
+      const { pairing } = connection;
+      if (!pairing) {
+        console.warn(`Unexpected pairing confirmation from ${connection.device.name}`);
+        return;
+      }
+      if (data.accepted === false) {
+        pairing.fail('Rejected on the phone');
+        return;
+      }
+      this.checkPairingPin(connection, data.pin, 'phone');
+    });
+
     commandClient.on('command', (message) => {
       this.broadcastToClients(webSocketClients, {
         type: 'command:received',
+        deviceId: connection.device.id,
         data: message,
       });
     });
 
     // Forward heartbeat events
-    heartbeatClient.on('heartbeat', (data) => {
+    heartbeatClient.on('heartbeat', (data, rtt: number) => {
       connection.lastActivity = new Date();
-      // Optionally broadcast heartbeat to clients
+      connection.linkQuality.recordRtt(rtt);
+
+      // The first echoed heartbeat completes the handshake
+      if (connection.stateMachine.state === 'handshaking') {
+        connection.stateMachine.transition('connected', 'Heartbeat acknowledged');
+      }
+    });
+
+    heartbeatClient.on('timeout', () => {
+      connection.linkQuality.recordMissed();
+    });
+
+    // Socket errors are followed by 'disconnected', which drives the state machine
+    commandClient.on('error', (error) => {
+      console.error(`Command channel error for ${connection.device.name}:`, error.message);
+    });
+
+    heartbeatClient.on('error', (error) => {
+      console.error(`Heartbeat channel error for ${connection.device.name}:`, error.message);
     });
 
     // Handle disconnections
     commandClient.on('disconnected', () => {
       console.log('Command client disconnected');
-      this.handleDeviceDisconnection(connection);
+      this.evaluateChannels(connection);
     });
 
     heartbeatClient.on('disconnected', () => {
       console.log('Heartbeat client disconnected');
-      this.handleDeviceDisconnection(connection);
+      this.evaluateChannels(connection);
     });
   }
 
   /**
-   * Setup WebSocket message handling
+   * Challenge the phone to prove it holds the secret it was given when it
+   * paired. Resolves to its trusted identity, or undefined when it never
+   * paired with us, gets the proof wrong or does not answer in time.
    */
-  private setupWebSocketHandling(ws: WebSocket, connection: MobileConnection) {
-    ws.on('message', async (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        await this.handleWebSocketMessage(message, connection, ws);
-      } catch (error) {
-        console.error('Error handling WebSocket message:', error);
-        ws.send(JSON.stringify({
-          type: 'error',
-          error: 'Failed to process message',
-        }));
-      }
+  private proveTrust(connection: MobileConnection): Promise<string | undefined> {
+    const trustStore = this.options.pairing?.trustStore;
+    const { commandClient } = connection;
+    if (!trustStore) {
+      return Promise.resolve(undefined);
+    }
+
+    const nonce = crypto.randomBytes(32).toString('hex');
+    return new Promise((resolve) => {
+      const finish = (identity?: string) => {
+        clearTimeout(timer);
+        commandClient.off('trust:proof', onProof);
+        commandClient.off('disconnected', onDisconnected);
+        resolve(identity);
+      };
+      const onProof = (data: { identity?: unknown; proof?: unknown }) => {
+        const trusted = trustStore.verify(data.identity, nonce, data.proof);
+        if (!trusted && data.identity !== undefined) {
+          console.warn(`${connection.device.name} failed the trust challenge`);
+        }
+        finish(trusted?.identity);
+      };
+      const onDisconnected = () => finish();
+      const timer = setTimeout(() => finish(), TRUST_PROOF_TIMEOUT_MS);
+
+      commandClient.on('trust:proof', onProof);
+      commandClient.on('disconnected', onDisconnected);
+      commandClient.sendCommand(PROTOCOL.CMD_TRUST_CHALLENGE, { nonce });
     });
+  }
 
+  /**
+   * Issue a PIN and tell both the phone and the browser about it
+   */
+  private startPairing(connection: MobileConnection, method: PairingMethod) {
+    const session = new PairingSession(method, this.options.pairing);
+    connection.pairing = session;
+
+    connection.stateMachine.transition('pairing', method === 'browser'
+      ? 'Waiting for the PIN shown in the browser to be entered on the phone'
+      : 'Waiting for the PIN shown on the phone to be entered in the browser');
+    this.sendPairingRequest(connection, session);
+  }
+
+  private sendPairingRequest(connection: MobileConnection, session: PairingSession) {
+    const request = session.toRequest(connection.device.id, connection.identity);
+
+    connection.commandClient.sendCommand(PROTOCOL.CMD_PAIRING_REQUEST, {
+      name: os.hostname() || 'AirController Server',
+      method: session.method,
+      // The phone only learns the PIN when it is the one displaying it
+      pin: session.method === 'phone' ? session.pin : undefined,
+      expiresAt: request.expiresAt,
+    });
+
+    this.broadcastToClients(connection.webSocketClients, {
+      type: 'pairing:required',
+      ...request,
+    });
+  }
+
+  /**
+   * Wait for the pairing session to finish and trust the phone on success
+   */
+  private async completePairing(connection: MobileConnection) {
+    const { device, pairing } = connection;
+    if (!pairing) {
+      return;
+    }
+
+    try {
+      await pairing.result;
+    } catch (error) {
+      if (connection.commandClient.isConnected()) {
+        connection.commandClient.sendCommand(PROTOCOL.CMD_PAIRING_RESULT, {
+          accepted: false,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    } finally {
+      connection.pairing = undefined;
+    }
+
+    // The phone keeps the secret and proves it on every later connect
+    const credentials = this.options.pairing?.trustStore.trust(device);
+    if (credentials) {
+      connection.identity = credentials.identity;
+    }
+    connection.commandClient.sendCommand(PROTOCOL.CMD_PAIRING_RESULT, { accepted: true, ...credentials });
+    connection.stateMachine.transition('connected', 'Paired and trusted');
+    console.log(`Paired with ${device.name}`);
+  }
+
+  /**
+   * Check a PIN entered on either side, reporting wrong attempts to the browser
+   */
+  private checkPairingPin(connection: MobileConnection, pin: unknown, enteredOn: PairingMethod): boolean {
+    const { pairing } = connection;
+    if (!pairing) {
+      return false;
+    }
+
+    // The side displaying the PIN cannot vouch for itself
+    if (enteredOn === pairing.method) {
+      console.warn(`Ignoring pairing PIN entered on the ${enteredOn} for ${connection.device.name}, it is displayed there`);
+      return false;
+    }
+
+    const accepted = pairing.submit(pin, enteredOn);
+    if (!accepted && pairing.attemptsLeft > 0) {
+      if (enteredOn === 'phone') {
+        connection.commandClient.sendCommand(PROTOCOL.CMD_PAIRING_RESULT, {
+          accepted: false,
+          attemptsLeft: pairing.attemptsLeft,
+          reason: 'Wrong PIN',
+        });
+      }
+      this.broadcastToClients(connection.webSocketClients, {
+        type: 'pairing:attempt',
+        deviceId: connection.device.id,
+        attemptsLeft: pairing.attemptsLeft,
+        error: 'Wrong PIN',
+      });
+    }
+    return accepted;
+  }
+
+  /**
+   * PIN typed into the browser for a phone that displays it
+   */
+  submitPairingPin(deviceId: string, pin: unknown): boolean {
+    const connection = this.connections.get(deviceId);
+    if (!connection?.pairing) {
+      console.log(`No pairing in progress for ${deviceId}`);
+      return false;
+    }
+    return this.checkPairingPin(connection, pin, 'browser');
+  }
+
+  /**
+   * Start over with a new PIN, displayed on the given side
+   */
+  restartPairing(deviceId: string, method: PairingMethod) {
+    const connection = this.connections.get(deviceId);
+    if (!connection?.pairing) {
+      console.log(`No pairing in progress for ${deviceId}`);
+      return;
+    }
+    connection.pairing.restart(method);
+    this.sendPairingRequest(connection, connection.pairing);
+  }
+
+  /**
+   * Setup WebSocket client tracking. Messages are routed by the outer server,
+   * which passes them to handleWebSocketMessage with their deviceId.
+   */
+  private setupWebSocketHandling(ws: WebSocket, connection: MobileConnection) {
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
       connection.webSocketClients.delete(ws);
@@ -192,135 +500,154 @@ export class DeviceConnectionManager {
       // This allows the connection to persist when the web page refreshes
       if (connection.webSocketClients.size === 0) {
         console.log('No more WebSocket clients, but keeping TCP connection alive');
-        // Optionally close after a longer timeout (5 minutes instead of 30 seconds)
-        // setTimeout(() => {
-        //   if (connection.webSocketClients.size === 0) {
-        //     this.closeConnection(connection.device.ip);
-        //   }
-        // }, 300000); // 5 minutes
       }
     });
   }
 
   /**
-   * Handle messages from WebSocket clients
+   * Find the connection a message is addressed to
    */
-  public async handleWebSocketMessage(
-    message: any,
-    connection: MobileConnection | null,
-    ws: WebSocket
-  ) {
-    // If no connection provided, try to find one based on the WebSocket
-    if (!connection) {
-      // Find a connection that includes this WebSocket client
-      for (const conn of this.connections.values()) {
-        if (conn.webSocketClients.has(ws)) {
-          connection = conn;
-          break;
-        }
-      }
+  getConnection(deviceId: string): MobileConnection | undefined {
+    return this.connections.get(deviceId);
+  }
 
-      // If still no connection, try to get the first available connection
-      if (!connection && this.connections.size > 0) {
-        connection = this.connections.values().next().value;
-        console.log('Using first available connection for message:', message.type);
-      }
+  /**
+   * Binary frame from a WebSocket client, part of a file:upload. Returns
+   * false when no upload of that client is waiting for it.
+   */
+  receiveUploadFrame(ws: WebSocket, frame: Buffer): boolean {
+    return this.incomingUploads.handleFrame(ws, frame);
+  }
 
-      if (!connection) {
-        console.log('No connection found for message:', message.type);
-        // Send error response if message expects a response
-        if (message.id) {
-          ws.send(JSON.stringify({
-            id: message.id,
-            type: 'error',
-            error: 'No device connected',
-          }));
-        }
-        return;
-      }
+  /**
+   * Handle device requests from WebSocket clients, already validated against the protocol
+   */
+  public async handleWebSocketMessage(message: DeviceRequest, ws: WebSocket) {
+    const { type, deviceId } = message;
+
+    const connection = this.connections.get(deviceId);
+    if (!connection || !connection.stateMachine.isConnected) {
+      console.log(`Device ${deviceId} is not connected, dropping message:`, type);
+      this.sendError(ws, message, 'device_not_connected', `Device ${deviceId} is not connected`);
+      return;
+    }
+
+    // Make sure this client receives events from the device it talks to
+    if (!connection.webSocketClients.has(ws)) {
+      connection.webSocketClients.add(ws);
+      this.setupWebSocketHandling(ws, connection);
     }
-    const { type, payload, id } = message;
 
-    console.log(`Handling WebSocket message: ${type}`);
+    console.log(`Handling WebSocket message: ${type} for ${connection.device.name}`);
 
-    switch (type) {
+    switch (message.type) {
       case 'device:info':
         // Request device info via HTTP
-        await this.getDeviceInfo(connection, ws, id);
+        await this.getDeviceInfo(connection, ws, message);
         break;
 
       case 'file:list':
         // Get file list via HTTP
-        await this.getFileList(connection, ws, payload?.path || '/', id);
+        await this.getFileList(connection, ws, message);
         break;
 
       case 'file:download':
         // Download file via HTTP
-        await this.downloadFile(connection, ws, payload?.path, id);
+        await this.downloadFile(connection, ws, message);
         break;
 
       case 'file:upload':
-        // Upload file via HTTP
-        await this.uploadFile(connection, ws, payload, id);
+        // Receive the file over the WebSocket, then upload it via HTTP
+        await this.uploadFile(connection, ws, message);
         break;
 
       case 'file:delete':
         // Delete file via HTTP
-        await this.deleteFile(connection, ws, payload?.path, id);
+        await this.deleteFile(connection, ws, message);
+        break;
+
+      case 'file:rename':
+        // Rename via HTTP
+        await this.renameFile(connection, ws, message);
+        break;
+
+      case 'file:mkdir':
+        // Create folder via HTTP
+        await this.createFolder(connection, ws, message);
+        break;
+
+      case 'file:copy':
+      case 'file:move':
+        // Copy through this host, the phone has no endpoint for either
+        await this.copyFiles(connection, ws, message);
+        break;
+
+      case 'file:search':
+        // Walk the folders via HTTP, matches are streamed as they are found
+        await this.searchFiles(connection, ws, message);
+        break;
+
+      case 'file:search:cancel':
+        this.cancelSearch(ws, message);
         break;
 
       case 'image:list':
         // Get images via HTTP with optional albumId
-        await this.getImages(connection, ws, id, payload?.albumId);
+        await this.getImages(connection, ws, message);
         break;
 
       case 'album:list':
         // Get albums via HTTP
-        await this.getAlbums(connection, ws, id);
+        await this.getAlbums(connection, ws, message);
         break;
 
       case 'contact:list':
         // Get contacts via HTTP
-        await this.getContacts(connection, ws, id);
+        await this.getContacts(connection, ws, message);
         break;
 
       case 'app:list':
         // Get installed apps via HTTP
-        await this.getApps(connection, ws, id);
+        await this.getApps(connection, ws, message);
         break;
 
       case 'video:list':
         // Get videos via HTTP
-        await this.getVideos(connection, ws, id);
+        await this.getVideos(connection, ws, message);
         break;
 
-      case 'heartbeat':
-        // Handle heartbeat from client - just acknowledge it
-        ws.send(JSON.stringify({
-          type: 'heartbeat:ack',
-          timestamp: Date.now(),
-        }));
+      case 'contact:update':
+      case 'contact:delete':
+      case 'app:uninstall':
+      case 'app:backup':
+        // The phone has no HTTP endpoint for these yet
+        this.sendError(ws, message, 'unsupported', `${type} is not supported by this device`);
         break;
+    }
+  }
 
-      case 'register':
-        // Handle device registration
-        ws.send(JSON.stringify({
-          type: 'register:ack',
-          success: true,
-        }));
-        break;
+  /**
+   * Answer a device request
+   */
+  private sendResponse<R extends DeviceRequest>(ws: WebSocket, request: R, data: ResponseData<R['type']>) {
+    this.send(ws, {
+      id: request.id,
+      type: responseType(request.type),
+      deviceId: request.deviceId,
+      data,
+    });
+  }
 
-      default:
-        // For unknown message types, don't send error, just log
-        console.log(`Unhandled message type: ${type}`);
-        // Only send error if there's an id (meaning it expects a response)
-        if (id) {
-          ws.send(JSON.stringify({
-            id,
-            type: 'error',
-            error: `Unknown message type: ${type}`,
-          }));
-        }
+  /**
+   * Reply to a device request with an error
+   */
+  private sendError(ws: WebSocket, request: DeviceRequest, code: ProtocolErrorCode, error: string) {
+    this.send(ws, protocolError(code, error, request));
+  }
+
+  private send(ws: WebSocket, message: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
     }
   }
 
@@ -457,134 +784,393 @@ export class DeviceConnectionManager {
     }
   }
 
-  private async getDeviceInfo(connection: MobileConnection, ws: WebSocket, id: string) {
+  private async getDeviceInfo(connection: MobileConnection, ws: WebSocket, request: DeviceRequestOf<'device:info'>) {
     try {
-      const info = await this.makeHttpRequest(connection, '/device/info');
-      ws.send(JSON.stringify({
-        id,
-        type: 'device:info:response',
-        data: info,
-      }));
+      const response = await this.makeHttpRequest(connection, '/device/info');
+      if (!response?.data) {
+        throw new Error(response?.msg || 'No device info');
+      }
+      this.sendResponse(ws, request, response.data);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to get device info',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to get device info');
     }
   }
 
   private async getFileList(
     connection: MobileConnection,
     ws: WebSocket,
-    path: string,
-    id: string
+    request: DeviceRequestOf<'file:list'>
   ) {
     try {
-      // Use the correct API endpoint for file list - /file/list
-      const response = await this.makeHttpRequest(connection, '/file/list', 'POST', { path: path || '' });
-
-      // Check the response format and extract data
-      const rawFiles = response?.data || [];
-
-      // Transform mobile FileEntity format to web FileItem format
-      // Mobile format: { name, folder, size, isDir, changeDate, isEmpty }
-      // Web format: { id, name, path, type, size, modified, mimeType? }
-      const files = rawFiles.map((file: any) => {
-        const fullPath = `${file.folder}/${file.name}`;
-        return {
-          id: fullPath,
-          name: file.name,
-          path: fullPath,
-          type: file.isDir ? 'folder' : 'file',
-          size: file.size || 0,
-          modified: new Date(file.changeDate),
-          mimeType: file.isDir ? undefined : this.getMimeType(file.name),
-        };
-      });
-
-      ws.send(JSON.stringify({
-        id,
-        type: 'file:list:response',
-        data: files,
-      }));
+      const files = await this.listFolder(connection, request.payload.path || '/');
+      this.sendResponse(ws, request, files);
     } catch (error) {
       console.error('Error getting file list:', error);
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to get file list',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to get file list');
     }
   }
 
+  /**
+   * Entries of a folder on the phone. Rejects when the phone cannot list it.
+   */
+  private async listFolder(connection: MobileConnection, path: string): Promise<FileItem[]> {
+    // Use the correct API endpoint for file list - /file/list
+    const response = await this.makeHttpRequest(connection, '/file/list', 'POST', { path: path || '' });
+    if (response?.code !== undefined && response.code !== 0) {
+      throw new Error(response.msg || `Failed to list ${path}`);
+    }
+
+    // Check the response format and extract data
+    const rawFiles = response?.data || [];
+
+    // Transform mobile FileEntity format to web FileItem format
+    // Mobile format: { name, folder, size, isDir, changeDate, isEmpty }
+    // Web format: { id, name, path, type, size, modified, mimeType? }
+    return rawFiles.map((file: any) => {
+      const fullPath = `${file.folder}/${file.name}`;
+      return {
+        id: fullPath,
+        name: file.name,
+        path: fullPath,
+        type: file.isDir ? 'folder' : 'file',
+        size: file.size || 0,
+        modified: new Date(file.changeDate),
+        mimeType: file.isDir ? undefined : this.getMimeType(file.name),
+      };
+    });
+  }
+
   private async downloadFile(
     connection: MobileConnection,
     ws: WebSocket,
-    path: string,
-    id: string
+    request: DeviceRequestOf<'file:download'>
   ) {
+    const { path } = request.payload;
     try {
       const data = await this.makeHttpRequest(connection, `/file/download?path=${encodeURIComponent(path)}`);
-      ws.send(JSON.stringify({
-        id,
-        type: 'file:download:response',
-        data: data,
-      }));
+      this.sendResponse(ws, request, data);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to download file',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to download file');
     }
   }
 
+  /**
+   * Upload a file sent by the browser over the WebSocket. The target folder
+   * is checked and name conflicts resolved before the browser is told to
+   * send the bytes with upload:ready. Phones may not replace files on
+   * upload, so an overwritten file is deleted once the new one has arrived
+   * here in full.
+   */
   private async uploadFile(
     connection: MobileConnection,
     ws: WebSocket,
-    payload: any,
-    id: string
+    request: DeviceRequestOf<'file:upload'>
   ) {
+    const { name, size, conflict = 'rename' } = request.payload;
+    const folder = normalizeDevicePath(request.payload.targetPath);
+    if (!folder) {
+      this.sendError(ws, request, 'invalid_message', `Invalid target path: ${request.payload.targetPath}`);
+      return;
+    }
+
+    let existing: FileItem[];
     try {
-      // File upload needs special handling
-      ws.send(JSON.stringify({
-        id,
-        type: 'file:upload:response',
-        data: { success: true },
-      }));
+      existing = await this.listFolder(connection, folder);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to upload file',
-      }));
+      this.sendError(ws, request, 'request_failed', `Target folder not found: ${folder}`);
+      return;
+    }
+
+    const clash = existing.find((file) => file.name === name);
+    if (clash && conflict === 'skip') {
+      this.sendResponse(ws, request, { files: [], skipped: true });
+      return;
+    }
+    if (clash && clash.type === 'folder' && conflict === 'overwrite') {
+      this.sendError(ws, request, 'request_failed', `${name} is a folder and cannot be overwritten`);
+      return;
+    }
+    const fileName = clash && conflict === 'rename'
+      ? uniqueFileName(name, new Set(existing.map((file) => file.name)))
+      : name;
+
+    const received = this.incomingUploads.receive(ws, request.id, size);
+    this.send(ws, { type: 'upload:ready', id: request.id, deviceId: request.deviceId, name: fileName });
+
+    // An overwrite goes up under a temporary name and only then takes the original's place
+    const replaces = clash && conflict === 'overwrite' ? clash : undefined;
+    const uploadName = replaces ? temporaryFileName(fileName) : fileName;
+
+    let filePath: string | undefined;
+    try {
+      filePath = await received;
+      try {
+        await sendFileToDevice(connection.device.ip, folder, { name: uploadName, filePath, size });
+      } catch (error) {
+        // Part of a replacement is of no use, the original is still in place
+        if (replaces) {
+          await this.deviceAction(connection, '/file', 'DELETE', { path: path.posix.join(folder, uploadName) }).catch(() => {});
+        }
+        throw error;
+      }
+      if (replaces) {
+        await this.replaceWith(connection, folder, uploadName, replaces);
+      }
+
+      const files = (await this.listFolder(connection, folder)).filter((file) => file.name === fileName);
+      this.sendResponse(ws, request, { files, skipped: false });
+      this.options.onFilesChanged?.(connection, !!replaces);
+    } catch (error) {
+      console.error(`Failed to upload ${name}:`, (error as Error).message);
+      this.sendError(ws, request, 'request_failed', `Failed to upload ${name}: ${(error as Error).message}`);
+    } finally {
+      if (filePath) {
+        this.incomingUploads.discard(filePath);
+      }
+    }
+  }
+
+  /**
+   * Swap a file on the phone for one uploaded next to it under a temporary
+   * name. When the original cannot be deleted the upload is dropped and the
+   * original stays, when the final rename fails the upload keeps its
+   * temporary name rather than being lost.
+   */
+  private async replaceWith(connection: MobileConnection, folder: string, uploadName: string, original: FileItem) {
+    try {
+      await this.deviceAction(connection, '/file', 'DELETE', { path: original.path });
+    } catch (error) {
+      await this.deviceAction(connection, '/file', 'DELETE', { path: path.posix.join(folder, uploadName) }).catch(() => {});
+      throw error;
+    }
+    try {
+      await this.deviceAction(connection, '/file/rename', 'POST', { folder, file: uploadName, newName: original.name, isDir: false });
+    } catch (error) {
+      throw new Error(`${(error as Error).message}, the new file is in ${folder} as ${uploadName}`);
     }
   }
 
   private async deleteFile(
     connection: MobileConnection,
     ws: WebSocket,
-    path: string,
-    id: string
+    request: DeviceRequestOf<'file:delete'>
   ) {
+    const { path } = request.payload;
     try {
       await this.makeHttpRequest(connection, `/file`, 'DELETE', { path });
-      ws.send(JSON.stringify({
-        id,
-        type: 'file:delete:response',
-        data: { success: true },
-      }));
+      this.sendResponse(ws, request, { success: true });
+      this.options.onFilesChanged?.(connection, true);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to delete file',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to delete file');
+    }
+  }
+
+  /**
+   * Copy or move files and folders into another folder, reporting progress
+   * to the client that asked with file:progress
+   */
+  private async copyFiles(
+    connection: MobileConnection,
+    ws: WebSocket,
+    request: DeviceRequestOf<'file:copy'> | DeviceRequestOf<'file:move'>
+  ) {
+    const { conflict = 'rename' } = request.payload;
+    const folder = normalizeDevicePath(request.payload.targetPath);
+    if (!folder) {
+      this.sendError(ws, request, 'invalid_message', `Invalid target path: ${request.payload.targetPath}`);
+      return;
+    }
+    const paths: string[] = [];
+    for (const path of request.payload.paths) {
+      const normalized = normalizeDevicePath(path);
+      if (!normalized || normalized === '/') {
+        this.sendError(ws, request, 'invalid_message', `Invalid path: ${path}`);
+        return;
+      }
+      paths.push(normalized);
+    }
+
+    const device: DeviceFileSystem = {
+      ip: connection.device.ip,
+      list: (path) => this.listFolder(connection, path),
+      mkdir: (folder, name) => this.deviceAction(connection, '/file/create', 'POST', { folder, name }),
+      remove: (path) => this.deviceAction(connection, '/file', 'DELETE', { path }),
+      rename: (folder, file, newName, isDir) => this.deviceAction(connection, '/file/rename', 'POST', { folder, file, newName, isDir }),
+    };
+    const move = request.type === 'file:move';
+    try {
+      const result = await this.fileOperations.run(device, paths, folder, {
+        move,
+        conflict,
+        onProgress: (progress) => this.send(ws, { type: 'file:progress', id: request.id, deviceId: request.deviceId, progress }),
+      });
+      this.sendResponse(ws, request, result);
+      if (result.files.length > 0) {
+        this.options.onFilesChanged?.(connection, move || conflict === 'overwrite');
+      }
+    } catch (error) {
+      if (!(error instanceof FileOperationError)) {
+        console.error(`Failed to ${move ? 'move' : 'copy'} files:`, (error as Error).message);
+      }
+      this.sendError(ws, request, 'request_failed', (error as Error).message);
+    }
+  }
+
+  /**
+   * Rename a file or folder where it is. A name that is already taken is
+   * refused rather than overwritten.
+   */
+  private async renameFile(
+    connection: MobileConnection,
+    ws: WebSocket,
+    request: DeviceRequestOf<'file:rename'>
+  ) {
+    const { newName } = request.payload;
+    const filePath = normalizeDevicePath(request.payload.path);
+    if (!filePath || filePath === '/') {
+      this.sendError(ws, request, 'invalid_message', `Invalid path: ${request.payload.path}`);
+      return;
+    }
+    const folder = path.posix.dirname(filePath);
+    const name = path.posix.basename(filePath);
+
+    try {
+      const existing = await this.listFolder(connection, folder);
+      const file = existing.find((entry) => entry.name === name);
+      if (!file) {
+        this.sendError(ws, request, 'request_failed', `File not found: ${filePath}`);
+        return;
+      }
+      if (newName !== name && existing.some((entry) => entry.name === newName)) {
+        this.sendError(ws, request, 'request_failed', `${newName} already exists`);
+        return;
+      }
+
+      if (newName !== name) {
+        await this.deviceAction(connection, '/file/rename', 'POST', { folder, file: name, newName, isDir: file.type === 'folder' });
+      }
+      const renamed = (await this.listFolder(connection, folder)).find((entry) => entry.name === newName);
+      if (!renamed) {
+        throw new Error(`${newName} did not appear in ${folder}`);
+      }
+      this.sendResponse(ws, request, renamed);
+      this.options.onFilesChanged?.(connection, true);
+    } catch (error) {
+      console.error(`Failed to rename ${filePath}:`, (error as Error).message);
+      this.sendError(ws, request, 'request_failed', `Failed to rename ${name}: ${(error as Error).message}`);
     }
   }
 
-  private async getImages(connection: MobileConnection, ws: WebSocket, id: string, albumId?: string) {
+  private async createFolder(
+    connection: MobileConnection,
+    ws: WebSocket,
+    request: DeviceRequestOf<'file:mkdir'>
+  ) {
+    const { name } = request.payload;
+    const folder = normalizeDevicePath(request.payload.path);
+    if (!folder) {
+      this.sendError(ws, request, 'invalid_message', `Invalid path: ${request.payload.path}`);
+      return;
+    }
+
+    try {
+      const existing = await this.listFolder(connection, folder).catch(() => {
+        throw new Error(`Folder not found: ${folder}`);
+      });
+      if (existing.some((entry) => entry.name === name)) {
+        this.sendError(ws, request, 'request_failed', `${name} already exists`);
+        return;
+      }
+
+      await this.deviceAction(connection, '/file/create', 'POST', { folder, name });
+      const created = (await this.listFolder(connection, folder)).find((entry) => entry.name === name);
+      if (!created) {
+        throw new Error(`${name} did not appear in ${folder}`);
+      }
+      this.sendResponse(ws, request, created);
+      this.options.onFilesChanged?.(connection, false);
+    } catch (error) {
+      this.sendError(ws, request, 'request_failed', `Failed to create ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Search the folders below a path. Matches go to the client as
+   * file:search:results, the response ends the search. It stops when the
+   * client cancels it or goes away.
+   */
+  private async searchFiles(
+    connection: MobileConnection,
+    ws: WebSocket,
+    request: DeviceRequestOf<'file:search'>
+  ) {
+    const { filters, limit = 1000 } = request.payload;
+    const root = normalizeDevicePath(request.payload.path);
+    if (!root) {
+      this.sendError(ws, request, 'invalid_message', `Invalid path: ${request.payload.path}`);
+      return;
+    }
+    if (this.searches.has(request.id)) {
+      this.sendError(ws, request, 'invalid_message', `Search ${request.id} is already running`);
+      return;
+    }
+
+    const controller = new AbortController();
+    const onClose = () => controller.abort();
+    this.searches.set(request.id, { ws, controller });
+    ws.once('close', onClose);
+    try {
+      const result = await searchDeviceFiles((folder) => this.listFolder(connection, folder), root, {
+        filters,
+        limit,
+        signal: controller.signal,
+        onMatches: (files, scannedFolders) => {
+          this.send(ws, { type: 'file:search:results', id: request.id, deviceId: request.deviceId, files, scannedFolders });
+        },
+      });
+      this.sendResponse(ws, request, result);
+    } catch (error) {
+      if (error instanceof NamePatternError) {
+        this.sendError(ws, request, 'invalid_message', `Invalid name pattern: ${error.message}`);
+      } else if (axios.isAxiosError(error)) {
+        // The phone did not answer, or not with a folder listing
+        this.sendError(ws, request, 'request_failed', `Failed to search ${root}: ${error.message}`);
+      } else {
+        // The phone's own answer, e.g. that the folder does not exist
+        this.sendError(ws, request, 'request_failed', (error as Error).message);
+      }
+    } finally {
+      ws.off('close', onClose);
+      this.searches.delete(request.id);
+    }
+  }
+
+  private cancelSearch(ws: WebSocket, request: DeviceRequestOf<'file:search:cancel'>) {
+    const search = this.searches.get(request.payload.searchId);
+    // Only the client that started a search may stop it
+    if (search && search.ws === ws) {
+      search.controller.abort();
+    }
+    this.sendResponse(ws, request, { success: !!search && search.ws === ws });
+  }
+
+  /**
+   * Ask the phone to change something. Rejects unless the phone reports success.
+   */
+  private async deviceAction(
+    connection: MobileConnection,
+    endpoint: string,
+    method: 'POST' | 'DELETE',
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const response = await this.makeHttpRequest(connection, endpoint, method, data);
+    if (response?.code !== undefined && response.code !== 0) {
+      throw new Error(response.msg || `${endpoint} failed`);
+    }
+  }
+
+  private async getImages(connection: MobileConnection, ws: WebSocket, request: DeviceRequestOf<'image:list'>) {
+    const { albumId } = request.payload;
     try {
       // Use the correct API endpoints
       const endpoint = albumId ? '/image/imagesOfAlbum' : '/image/all';
@@ -597,25 +1183,17 @@ export class DeviceConnectionManager {
       // Add thumbnail URLs for each image
       images = images.map((image: any) => ({
         ...image,
-        // Generate thumbnail URL from device HTTP server
-        thumbnailUrl: `http://${connection.device.ip}:${PORTS.HTTP}/stream/thumbnail?path=${encodeURIComponent(image.path)}`
+        // Served from the bridge's thumbnail cache
+        thumbnailUrl: deviceThumbnailPath(connection.device.id, 'thumbnail', image.modifyTime || '', { path: image.path })
       }));
 
-      ws.send(JSON.stringify({
-        id,
-        type: 'image:list:response',
-        data: images,
-      }));
+      this.sendResponse(ws, request, images);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to get images',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to get images');
     }
   }
 
-  private async getAlbums(connection: MobileConnection, ws: WebSocket, id: string) {
+  private async getAlbums(connection: MobileConnection, ws: WebSocket, request: DeviceRequestOf<'album:list'>) {
     try {
       // Use the correct API endpoint for albums - /image/albums
       const response = await this.makeHttpRequest(connection, '/image/albums', 'POST', {});
@@ -623,17 +1201,9 @@ export class DeviceConnectionManager {
       // Check the response format and extract data
       const albums = response?.data || [];
 
-      ws.send(JSON.stringify({
-        id,
-        type: 'album:list:response',
-        data: albums,
-      }));
+      this.sendResponse(ws, request, albums);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to get albums',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to get albums');
     }
   }
 
@@ -662,41 +1232,25 @@ export class DeviceConnectionManager {
     return ext ? mimeTypes[ext] : undefined;
   }
 
-  private async getContacts(connection: MobileConnection, ws: WebSocket, id: string) {
+  private async getContacts(connection: MobileConnection, ws: WebSocket, request: DeviceRequestOf<'contact:list'>) {
     try {
-      const contacts = await this.makeHttpRequest(connection, '/contacts');
-      ws.send(JSON.stringify({
-        id,
-        type: 'contact:list:response',
-        data: contacts,
-      }));
+      const response = await this.makeHttpRequest(connection, '/contacts');
+      this.sendResponse(ws, request, response?.data || []);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to get contacts',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to get contacts');
     }
   }
 
-  private async getApps(connection: MobileConnection, ws: WebSocket, id: string) {
+  private async getApps(connection: MobileConnection, ws: WebSocket, request: DeviceRequestOf<'app:list'>) {
     try {
-      const apps = await this.makeHttpRequest(connection, '/apps');
-      ws.send(JSON.stringify({
-        id,
-        type: 'app:list:response',
-        data: apps,
-      }));
+      const response = await this.makeHttpRequest(connection, '/apps');
+      this.sendResponse(ws, request, response?.data || []);
     } catch (error) {
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to get apps',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to get apps');
     }
   }
 
-  private async getVideos(connection: MobileConnection, ws: WebSocket, id: string) {
+  private async getVideos(connection: MobileConnection, ws: WebSocket, request: DeviceRequestOf<'video:list'>) {
     try {
       // Use the correct API endpoint - /video/videos (POST)
       const response = await this.makeHttpRequest(connection, '/video/videos', 'POST', {});
@@ -714,28 +1268,20 @@ export class DeviceConnectionManager {
         modified: new Date(video.lastModifyTime || Date.now()),
         duration: Math.floor((video.duration || 0) / 1000), // Convert from milliseconds to seconds
         // Generate thumbnail URL using the correct thumbnail endpoint
-        thumbnailUrl: `http://${connection.device.ip}:${PORTS.HTTP}/stream/video/thumbnail/${video.id}/200/200`
+        thumbnailUrl: deviceThumbnailPath(connection.device.id, `video/thumbnail/${video.id}/${THUMBNAIL_SIZE}/${THUMBNAIL_SIZE}`, video.lastModifyTime || '')
       }));
 
-      ws.send(JSON.stringify({
-        id,
-        type: 'video:list:response',
-        data: videos,
-      }));
+      this.sendResponse(ws, request, videos);
     } catch (error: any) {
       console.error('getVideos error:', error.message);
-      ws.send(JSON.stringify({
-        id,
-        type: 'error',
-        error: 'Failed to get videos',
-      }));
+      this.sendError(ws, request, 'request_failed', 'Failed to get videos');
     }
   }
 
   /**
    * Broadcast message to all WebSocket clients
    */
-  private broadcastToClients(clients: Set<WebSocket>, message: any) {
+  private broadcastToClients(clients: Set<WebSocket>, message: ServerEvent) {
     const messageStr = JSON.stringify(message);
     clients.forEach((client) => {
       if (client.readyState === WebSocket.OPEN) {
@@ -745,86 +1291,134 @@ export class DeviceConnectionManager {
   }
 
   /**
-   * Handle device disconnection
+   * Work out the connection state from the two TCP channels and schedule
+   * a reconnect of whichever channel is down.
    */
-  private handleDeviceDisconnection(connection: MobileConnection) {
-    // Check if both connections are down
+  private evaluateChannels(connection: MobileConnection) {
+    const { stateMachine } = connection;
+    if (stateMachine.state === 'lost') {
+      return;
+    }
+
     const commandConnected = connection.commandClient.isConnected();
     const heartbeatConnected = connection.heartbeatClient.isConnected();
 
     console.log(`Connection status - Command: ${commandConnected}, Heartbeat: ${heartbeatConnected}`);
 
-    // Only mark as disconnected if BOTH connections are down
-    if (!commandConnected && !heartbeatConnected) {
-      connection.connected = false;
+    // Pairing is not resumed, the user starts over with a new PIN
+    if (stateMachine.state === 'pairing') {
+      this.closeConnection(connection.device.id, 'Connection dropped during pairing');
+      return;
+    }
+
+    if (commandConnected && heartbeatConnected) {
+      stateMachine.cancelRetry();
+      if (stateMachine.state === 'reconnecting') {
+        stateMachine.transition('handshaking', 'Channels reopened, waiting for first heartbeat');
+      } else if (stateMachine.state === 'degraded') {
+        stateMachine.transition('connected', 'Both channels restored');
+      }
+      return;
+    }
+
+    // A retry is already on its way, it re-evaluates when it finishes
+    if (stateMachine.hasPendingRetry) {
+      return;
+    }
+
+    const bothDown = !commandConnected && !heartbeatConnected;
+    const problem = bothDown
+      ? 'Command and heartbeat channels down'
+      : !commandConnected
+      ? 'Command channel down'
+      : 'Heartbeat channel down';
+
+    const delay = stateMachine.scheduleRetry(() => this.reconnectChannels(connection));
+    if (delay === null) {
+      this.closeConnection(
+        connection.device.id,
+        `${problem}, gave up after ${stateMachine.maxAttempts} reconnect attempts`
+      );
+      return;
+    }
+
+    const { attempt, state: previousState } = stateMachine.snapshot();
+    stateMachine.transition(
+      bothDown ? 'reconnecting' : 'degraded',
+      `${problem}, retry ${attempt}/${stateMachine.maxAttempts} in ${Math.ceil(delay / 1000)}s`
+    );
 
-      // Notify all WebSocket clients
+    if (bothDown && previousState !== 'reconnecting') {
       this.broadcastToClients(connection.webSocketClients, {
         type: 'device:disconnected',
+        deviceId: connection.device.id,
         device: connection.device,
       });
+    }
+  }
 
-      // Clean up connection after a delay
-      setTimeout(() => {
-        // Double check both are still disconnected before cleaning up
-        if (!connection.commandClient.isConnected() && !connection.heartbeatClient.isConnected()) {
-          this.closeConnection(connection.device.ip);
-        }
-      }, 5000);
-    } else {
-      // One connection is still alive, try to reconnect the failed one
-      console.log('One connection still alive, attempting to recover...');
-
-      // If command is down but heartbeat is up, try to reconnect command
-      if (!commandConnected && heartbeatConnected) {
-        console.log('Attempting to reconnect command client in 2 seconds...');
-        setTimeout(() => {
-          // Check again before attempting reconnect
-          if (!connection.commandClient.isConnected() && connection.heartbeatClient.isConnected()) {
-            connection.commandClient.connect(connection.device.ip).catch(err => {
-              console.error('Failed to reconnect command client:', err);
-              // Will trigger handleDeviceDisconnection again if both fail
-            });
-          }
-        }, 2000);
-      }
-
-      // If heartbeat is down but command is up, try to reconnect heartbeat
-      if (commandConnected && !heartbeatConnected) {
-        console.log('Attempting to reconnect heartbeat client in 2 seconds...');
-        setTimeout(() => {
-          // Check again before attempting reconnect
-          if (connection.commandClient.isConnected() && !connection.heartbeatClient.isConnected()) {
-            connection.heartbeatClient.connect(connection.device.ip).catch(err => {
-              console.error('Failed to reconnect heartbeat client:', err);
-              // Will trigger handleDeviceDisconnection again if both fail
-            });
+  /**
+   * Reopen whichever TCP channels are down
+   */
+  private async reconnectChannels(connection: MobileConnection) {
+    const { commandClient, heartbeatClient, device } = connection;
+    if (connection.stateMachine.state === 'lost') {
+      return;
+    }
+
+    try {
+      if (!commandClient.isConnected()) {
+        await commandClient.connect(device.ip);
+
+        // Whatever answers at this address now has to prove it is the phone that paired.
+        // A channel that drops again meanwhile is simply retried.
+        const proven = this.options.pairing ? await this.proveTrust(connection) : connection.identity;
+        if (proven !== connection.identity && commandClient.isConnected()) {
+          if (this.connections.get(device.id) === connection) {
+            this.closeConnection(device.id, 'Device could not prove it is the paired phone');
           }
-        }, 2000);
+          return;
+        }
+      }
+      if (!heartbeatClient.isConnected()) {
+        await heartbeatClient.connect(device.ip);
       }
+    } catch (error) {
+      console.error(`Failed to reconnect to ${device.name}:`, error);
     }
+
+    this.evaluateChannels(connection);
   }
 
   /**
    * Close connection to a device
    */
-  closeConnection(deviceIp: string) {
-    const connection = this.connections.get(deviceIp);
+  closeConnection(deviceId: string, reason: string = 'Disconnected by user') {
+    const connection = this.connections.get(deviceId);
     if (connection) {
-      console.log(`Closing connection to ${connection.device.name}`);
+      console.log(`Closing connection to ${connection.device.name}: ${reason}`);
+
+      // Enter lost first so the socket close events below are ignored
+      connection.stateMachine.transition('lost', reason);
+      connection.stateMachine.dispose();
+      connection.pairing?.fail(reason);
 
       // Disconnect TCP clients
+      connection.commandClient.removeAllListeners();
+      connection.heartbeatClient.removeAllListeners();
       connection.commandClient.disconnect();
       connection.heartbeatClient.disconnect();
 
       // Notify WebSocket clients
       this.broadcastToClients(connection.webSocketClients, {
         type: 'connection:closed',
+        deviceId: connection.device.id,
         device: connection.device,
+        reason,
       });
 
       // Remove connection
-      this.connections.delete(deviceIp);
+      this.connections.delete(deviceId);
     }
   }
 
@@ -838,9 +1432,9 @@ export class DeviceConnectionManager {
   /**
    * Check if device is connected
    */
-  isDeviceConnected(deviceIp: string): boolean {
-    const connection = this.connections.get(deviceIp);
-    return connection?.connected || false;
+  isDeviceConnected(deviceId: string): boolean {
+    const connection = this.connections.get(deviceId);
+    return connection?.stateMachine.isConnected || false;
   }
 
   /**
@@ -848,7 +1442,7 @@ export class DeviceConnectionManager {
    */
   hasActiveConnections(): boolean {
     for (const connection of this.connections.values()) {
-      if (connection.connected) {
+      if (connection.stateMachine.isConnected) {
         return true;
       }
     }
@@ -0,0 +1,332 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream } from 'stream/web';
+import { FileItem, FileOperationProgress } from '../types';
+import { ConflictPolicy, FileOperationResult } from '../lib/protocol';
+import { PORTS } from './constants';
+import { getDataFile } from './data-dir';
+import { idleGuard, sendFileToDevice, temporaryFileName, uniqueFileName } from './device-upload';
+
+/**
+ * What a copy or move needs from the phone it runs on
+ */
+export interface DeviceFileSystem {
+  ip: string;
+  list(folder: string): Promise<FileItem[]>;
+  mkdir(folder: string, name: string): Promise<void>;
+  remove(path: string): Promise<void>;
+  rename(folder: string, name: string, newName: string, isDir: boolean): Promise<void>;
+}
+
+export interface FileOperationOptions {
+  move: boolean;
+  conflict: ConflictPolicy;
+  onProgress?: (progress: FileOperationProgress) => void;
+}
+
+/**
+ * The request as a whole cannot be carried out, e.g. a folder copied into itself
+ */
+export class FileOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileOperationError';
+  }
+}
+
+// A file or folder picked by the user and where it goes
+interface PlannedItem {
+  source: FileItem;
+  name: string;                  // Name in the target folder, after conflicts
+  replaces?: FileItem;           // Swapped for the copy once all of it arrived
+  stagedAs?: string;             // Temporary name the copy is made under while it replaces something
+  folders: string[];            // Target folders to create, parents first
+  files: PlannedFile[];
+  arrived: boolean;              // Something of it is in the target folder
+  complete: boolean;             // Everything in it arrived, a move may delete it
+}
+
+interface PlannedFile {
+  source: FileItem;
+  folder: string;                // Target folder on the phone
+  name: string;
+  copied: boolean;
+}
+
+const PROGRESS_INTERVAL_MS = 250;
+
+function isInside(folder: string, parent: string): boolean {
+  return folder === parent || folder.startsWith(parent === '/' ? '/' : `${parent}/`);
+}
+
+/**
+ * Copies and moves files and folders between folders of a phone. Phones
+ * cannot copy files themselves, so every file makes a round trip through a
+ * spool file on this host, and a move is a copy followed by deleting what was
+ * copied. Nothing is deleted that did not arrive: an overwrite is copied next
+ * to what it replaces under a temporary name and only then takes its place.
+ */
+export class DeviceFileOperations {
+  private dir: string;
+
+  constructor(dir = getDataFile('file-operations')) {
+    this.dir = dir;
+    // Spool files only matter to the operation that wrote them
+    fs.rmSync(this.dir, { recursive: true, force: true });
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Copy or move paths into folder. Paths and folder must be normalized.
+   * Rejects with FileOperationError when the request makes no sense, single
+   * files that fail are reported in the result.
+   */
+  async run(device: DeviceFileSystem, paths: string[], folder: string, options: FileOperationOptions): Promise<FileOperationResult> {
+    const verb = options.move ? 'move' : 'copy';
+    for (const source of paths) {
+      if (isInside(folder, source)) {
+        throw new FileOperationError(`Cannot ${verb} ${path.posix.basename(source)} into itself`);
+      }
+    }
+
+    let existing: FileItem[];
+    try {
+      existing = await device.list(folder);
+    } catch {
+      throw new FileOperationError(`Target folder not found: ${folder}`);
+    }
+
+    const result: FileOperationResult = { files: [], skipped: [], errors: [] };
+    const items = await this.plan(device, paths, folder, existing, options, result);
+
+    const progress: FileOperationProgress = {
+      operation: verb,
+      processedFiles: 0,
+      totalFiles: items.reduce((count, item) => count + item.files.length, 0),
+      processedBytes: 0,
+      totalBytes: items.reduce((bytes, item) => item.files.reduce((sum, file) => sum + file.source.size, bytes), 0),
+    };
+    let reportedAt = 0;
+    const report = (force = false) => {
+      const now = Date.now();
+      if (force || now - reportedAt >= PROGRESS_INTERVAL_MS) {
+        reportedAt = now;
+        options.onProgress?.({ ...progress });
+      }
+    };
+    report(true);
+
+    for (const item of items) {
+      // Uploads create the folders they go into, empty folders need creating
+      for (const folderPath of item.folders) {
+        try {
+          await device.mkdir(path.posix.dirname(folderPath), path.posix.basename(folderPath));
+          item.arrived = true;
+        } catch (error) {
+          item.complete = false;
+          result.errors.push(`Failed to create ${folderPath}: ${(error as Error).message}`);
+        }
+      }
+
+      for (const file of item.files) {
+        progress.currentPath = file.source.path;
+        report();
+        const before = progress.processedBytes;
+        try {
+          await this.copyFile(device, file, (bytes) => {
+            progress.processedBytes += bytes;
+            report();
+          });
+          file.copied = true;
+          item.arrived = true;
+        } catch (error) {
+          item.complete = false;
+          result.errors.push(`${file.source.path}: ${(error as Error).message}`);
+        }
+        progress.processedBytes = before + file.source.size;
+        progress.processedFiles++;
+      }
+
+      if (item.replaces && !(await this.replace(device, folder, item, result))) {
+        result.skipped.push(item.source.path);
+        continue;
+      }
+      if (options.move) {
+        await this.removeSource(device, item, result);
+      }
+    }
+
+    progress.currentPath = undefined;
+    report(true);
+
+    const created = new Set(items.filter((item) => item.arrived).map((item) => item.name));
+    if (created.size > 0) {
+      result.files = (await device.list(folder)).filter((file) => created.has(file.name));
+    }
+    return result;
+  }
+
+  // Look up what the user picked, settle names in the target folder and list folders in full
+  private async plan(
+    device: DeviceFileSystem,
+    paths: string[],
+    folder: string,
+    existing: FileItem[],
+    options: FileOperationOptions,
+    result: FileOperationResult
+  ): Promise<PlannedItem[]> {
+    const listings = new Map<string, Promise<FileItem[]>>([[folder, Promise.resolve(existing)]]);
+    const taken = new Set(existing.map((file) => file.name));
+    const items: PlannedItem[] = [];
+
+    for (const sourcePath of paths) {
+      const parent = path.posix.dirname(sourcePath);
+      if (!listings.has(parent)) {
+        listings.set(parent, device.list(parent));
+      }
+      const source = (await listings.get(parent)!.catch(() => [])).find((file) => file.path === sourcePath);
+      if (!source) {
+        result.skipped.push(sourcePath);
+        result.errors.push(`${sourcePath}: not found`);
+        continue;
+      }
+      if (options.move && parent === folder) {
+        // Already where it should go
+        result.skipped.push(sourcePath);
+        continue;
+      }
+
+      const clash = existing.find((file) => file.name === source.name);
+      let name = source.name;
+      let replaces: FileItem | undefined;
+      if (clash && options.conflict === 'skip') {
+        result.skipped.push(sourcePath);
+        continue;
+      }
+      if (clash && options.conflict === 'overwrite' && clash.path !== source.path) {
+        if (clash.type === 'folder') {
+          result.skipped.push(sourcePath);
+          result.errors.push(`${source.name} is a folder and cannot be overwritten`);
+          continue;
+        }
+        replaces = clash;
+      } else if (clash || taken.has(name)) {
+        // A copy onto itself keeps both even when overwriting
+        name = uniqueFileName(name, taken);
+      }
+      taken.add(name);
+
+      const stagedAs = replaces ? temporaryFileName(name) : undefined;
+      const target = stagedAs || name;
+      const item: PlannedItem = { source, name, replaces, stagedAs, folders: [], files: [], arrived: false, complete: true };
+      if (source.type === 'file') {
+        item.files.push({ source, folder, name: target, copied: false });
+      } else {
+        try {
+          await this.walk(device, source.path, path.posix.join(folder, target), item);
+        } catch (error) {
+          result.skipped.push(sourcePath);
+          result.errors.push(`${sourcePath}: ${(error as Error).message}`);
+          continue;
+        }
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  private async walk(device: DeviceFileSystem, sourceFolder: string, targetFolder: string, item: PlannedItem) {
+    item.folders.push(targetFolder);
+    for (const entry of await device.list(sourceFolder)) {
+      if (entry.type === 'folder') {
+        await this.walk(device, entry.path, path.posix.join(targetFolder, entry.name), item);
+      } else {
+        item.files.push({ source: entry, folder: targetFolder, name: entry.name, copied: false });
+      }
+    }
+  }
+
+  // Stream a file off the phone into a spool file, then upload it to its new folder.
+  // Either side fails once the phone sends or takes nothing for a while.
+  private async copyFile(device: DeviceFileSystem, file: PlannedFile, onBytes: (bytes: number) => void) {
+    const spoolPath = path.join(this.dir, crypto.randomUUID());
+    const abort = new AbortController();
+    const download = idleGuard(onBytes);
+    download.on('error', (error) => abort.abort(error));
+    try {
+      const response = await fetch(`http://${device.ip}:${PORTS.HTTP}/stream/file?path=${encodeURIComponent(file.source.path)}`, {
+        signal: abort.signal,
+      });
+      if (response.status !== 200 || !response.body) {
+        await response.body?.cancel();
+        throw new Error(`Device responded with ${response.status}`);
+      }
+
+      await pipeline(
+        Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+        download,
+        fs.createWriteStream(spoolPath)
+      );
+
+      const size = fs.statSync(spoolPath).size;
+      const length = Number(response.headers.get('content-length'));
+      if (length && size !== length) {
+        throw new Error(`Read ${size} of ${length} bytes`);
+      }
+      await sendFileToDevice(device.ip, file.folder, { name: file.name, filePath: spoolPath, size }, { through: idleGuard() });
+    } finally {
+      download.destroy();
+      fs.rmSync(spoolPath, { force: true });
+    }
+  }
+
+  /**
+   * Put a complete copy made under its temporary name in place of what it
+   * replaces. Returns false when the original stays: the copy is incomplete
+   * or the original cannot be deleted, and the copy is dropped. When only
+   * the final rename fails the copy keeps its temporary name.
+   */
+  private async replace(device: DeviceFileSystem, folder: string, item: PlannedItem, result: FileOperationResult): Promise<boolean> {
+    const staged = path.posix.join(folder, item.stagedAs!);
+    try {
+      if (!item.complete) {
+        throw new Error('not all of it was copied');
+      }
+      await device.remove(item.replaces!.path);
+    } catch (error) {
+      result.errors.push(`Kept ${item.name}, failed to replace it: ${(error as Error).message}`);
+      if (item.arrived) {
+        await device.remove(staged).catch(() => {});
+      }
+      item.arrived = false;
+      return false;
+    }
+
+    try {
+      await device.rename(folder, item.stagedAs!, item.name, item.source.type === 'folder');
+    } catch (error) {
+      result.errors.push(`Replaced ${item.name} but its copy is still named ${item.stagedAs}: ${(error as Error).message}`);
+      item.arrived = false;
+      return false;
+    }
+    return true;
+  }
+
+  // Delete the source of a move, or only the files that arrived when some did not
+  private async removeSource(device: DeviceFileSystem, item: PlannedItem, result: FileOperationResult) {
+    const removals = item.complete ? [item.source.path] : item.files.filter((file) => file.copied).map((file) => file.source.path);
+    if (!item.complete) {
+      result.skipped.push(item.source.path);
+    }
+    for (const removal of removals) {
+      try {
+        await device.remove(removal);
+      } catch (error) {
+        result.errors.push(`Copied ${removal} but failed to delete it: ${(error as Error).message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { FileItem } from '../types';
+import { FileSearchFilters, FileSearchResult } from '../lib/protocol';
+import { createFileMatcher } from '../lib/file-search';
+
+export interface FileSearchOptions {
+  filters: FileSearchFilters;
+  limit: number;
+  signal: AbortSignal;
+  onMatches: (files: FileItem[], scannedFolders: number) => void;
+}
+
+// Folders listed at once, phones answer one request at a time anyway
+const LIST_CONCURRENCY = 4;
+// Matches are sent in batches of this many, or this often
+const BATCH_SIZE = 100;
+const BATCH_INTERVAL_MS = 250;
+// Deeper folders are most likely a link back up the tree
+const MAX_DEPTH = 32;
+
+/**
+ * Walk the folders below root, shallow ones first, and report what matches
+ * the filters in batches as it is found. Rejects with a NamePatternError
+ * before listing anything when the name pattern cannot be used, and when
+ * root cannot be listed; folders below it that the phone will not list are
+ * counted and skipped.
+ */
+export async function searchDeviceFiles(
+  list: (folder: string) => Promise<FileItem[]>,
+  root: string,
+  options: FileSearchOptions
+): Promise<FileSearchResult> {
+  const isMatch = createFileMatcher(options.filters);
+  const result: FileSearchResult = { matches: 0, scannedFolders: 0, unreadableFolders: 0, cancelled: false, truncated: false };
+  const queue: { folder: string; depth: number }[] = [];
+  let batch: FileItem[] = [];
+  let flushedAt = Date.now();
+
+  const flush = (force: boolean) => {
+    if (batch.length === 0) return;
+    if (force || batch.length >= BATCH_SIZE || Date.now() - flushedAt >= BATCH_INTERVAL_MS) {
+      options.onMatches(batch, result.scannedFolders);
+      batch = [];
+      flushedAt = Date.now();
+    }
+  };
+
+  const visit = (entries: FileItem[], depth: number) => {
+    result.scannedFolders++;
+    for (const entry of entries) {
+      if (result.matches >= options.limit) {
+        result.truncated = true;
+        break;
+      }
+      if (isMatch(entry)) {
+        batch.push(entry);
+        result.matches++;
+      }
+      if (entry.type === 'folder' && depth < MAX_DEPTH) {
+        queue.push({ folder: entry.path, depth: depth + 1 });
+      }
+    }
+    flush(false);
+  };
+
+  visit(await list(root), 0);
+
+  await new Promise<void>((resolve) => {
+    let active = 0;
+    const next = () => {
+      const stopped = options.signal.aborted || result.truncated;
+      while (!stopped && active < LIST_CONCURRENCY && queue.length > 0) {
+        const { folder, depth } = queue.shift()!;
+        active++;
+        list(folder)
+          .then(
+            (entries) => {
+              if (!options.signal.aborted) visit(entries, depth);
+            },
+            () => {
+              result.unreadableFolders++;
+            }
+          )
+          .finally(() => {
+            active--;
+            next();
+          });
+      }
+      if (active === 0 && (stopped || queue.length === 0)) {
+        resolve();
+      }
+    };
+    next();
+  });
+
+  result.cancelled = options.signal.aborted;
+  flush(true);
+  return result;
+}
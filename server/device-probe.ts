@@ -0,0 +1,75 @@
+import net from 'net';
+import dns from 'dns';
+import axios from 'axios';
+import { PORTS } from './constants';
+
+export interface ProbeResult {
+  host: string;
+  ip: string;
+  ports: {
+    command: boolean;
+    heartbeat: boolean;
+    http: boolean;
+  };
+  // Raw /common/mobileInfo payload when the HTTP API answered
+  mobileInfo?: any;
+}
+
+/**
+ * Check that a TCP port accepts connections, closing the socket right away
+ */
+function probePort(ip: string, port: number, timeout: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: ip, port });
+    const done = (open: boolean) => {
+      socket.removeAllListeners();
+      socket.destroy();
+      resolve(open);
+    };
+
+    socket.setTimeout(timeout);
+    socket.once('connect', () => done(true));
+    socket.once('timeout', () => done(false));
+    socket.once('error', () => done(false));
+  });
+}
+
+async function fetchMobileInfo(ip: string, timeout: number): Promise<any | undefined> {
+  try {
+    const response = await axios.post(`http://${ip}:${PORTS.HTTP}/common/mobileInfo`, {}, {
+      timeout,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    if (response.data && response.data.code === 0) {
+      return response.data.data;
+    }
+  } catch (error: any) {
+    console.log(`Mobile info probe on ${ip} failed: ${error.message}`);
+  }
+  return undefined;
+}
+
+/**
+ * Probe a host for the AirController ports. Hostnames are resolved to an
+ * IPv4 address first since the phone protocol only carries IPv4.
+ */
+export async function probeDevice(host: string, timeout: number = 3000): Promise<ProbeResult> {
+  const { address: ip } = await dns.promises.lookup(host, { family: 4 });
+
+  const [command, heartbeat, mobileInfo] = await Promise.all([
+    probePort(ip, PORTS.CMD, timeout),
+    probePort(ip, PORTS.HEARTBEAT, timeout),
+    fetchMobileInfo(ip, timeout),
+  ]);
+
+  return {
+    host,
+    ip,
+    ports: {
+      command,
+      heartbeat,
+      http: mobileInfo !== undefined,
+    },
+    mobileInfo,
+  };
+}
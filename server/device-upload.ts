@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import http from 'http';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { PORTS } from './constants';
+import { createMultipartBody } from './multipart';
+
+// A phone that sends or takes nothing for this long fails the transfer
+export const DEVICE_IDLE_TIMEOUT_MS = 30000;
+
+export interface DeviceUploadOptions {
+  signal?: AbortSignal;
+  through?: Transform;   // Sees the request body on its way, e.g. to count progress
+}
+
+/**
+ * Upload a file on this host into a folder on the phone through its
+ * /file/uploadFiles endpoint. Rejects unless the phone reports success.
+ */
+export function sendFileToDevice(
+  ip: string,
+  folder: string,
+  file: { name: string; filePath: string; size: number },
+  options: DeviceUploadOptions = {}
+): Promise<void> {
+  const multipart = createMultipartBody({ path: folder }, {
+    field: 'files',
+    name: file.name,
+    filePath: file.filePath,
+    size: file.size,
+  });
+
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      host: ip,
+      port: PORTS.HTTP,
+      method: 'POST',
+      path: '/file/uploadFiles',
+      headers: { 'Content-Type': multipart.contentType, 'Content-Length': multipart.contentLength },
+    });
+
+    request.on('response', (response) => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk) => chunks.push(chunk));
+      response.on('end', () => {
+        try {
+          const result = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+          if (response.statusCode === 200 && result.code === 0) {
+            resolve();
+          } else {
+            reject(new Error(result.msg || `Device responded with ${response.statusCode}`));
+          }
+        } catch {
+          reject(new Error(`Device responded with ${response.statusCode}`));
+        }
+      });
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    options.signal?.addEventListener('abort', () => request.destroy(new Error('Transfer aborted')));
+
+    const body = options.through
+      ? pipeline(multipart.body, options.through, request)
+      : pipeline(multipart.body, request);
+    body.catch(reject);
+  });
+}
+
+/**
+ * The phone stopped sending or taking data part-way through a transfer
+ */
+export class DeviceStalledError extends Error {
+  constructor() {
+    super('Device stopped responding');
+    this.name = 'DeviceStalledError';
+  }
+}
+
+/**
+ * Pass-through that reports the bytes going through it and fails with
+ * DeviceStalledError when nothing moves for idleMs. The timer runs from
+ * the moment it is created, so it also covers waiting for the phone to
+ * answer at all.
+ */
+export function idleGuard(onBytes: (bytes: number) => void = () => {}, idleMs = DEVICE_IDLE_TIMEOUT_MS): Transform {
+  let idleTimer: NodeJS.Timeout | undefined;
+
+  function armIdleTimer(stream: Transform) {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => stream.destroy(new DeviceStalledError()), idleMs);
+  }
+
+  return new Transform({
+    construct(callback) {
+      armIdleTimer(this);
+      callback();
+    },
+    transform(chunk: Buffer, _encoding, callback) {
+      armIdleTimer(this);
+      onBytes(chunk.length);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      clearTimeout(idleTimer);
+      callback();
+    },
+    destroy(error, callback) {
+      clearTimeout(idleTimer);
+      callback(error);
+    },
+  });
+}
+
+/**
+ * Absolute folder path on the phone without . or .. segments, null when
+ * the path cannot be one
+ */
+export function normalizeDevicePath(devicePath: string): string | null {
+  if (!devicePath.startsWith('/') || devicePath.includes('\0')) {
+    return null;
+  }
+  if (devicePath.split('/').some((segment) => segment === '..')) {
+    return null;
+  }
+  const normalized = path.posix.normalize(devicePath);
+  return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized;
+}
+
+/**
+ * fileName, or "name (1).ext" and so on, whichever is not taken yet
+ */
+export function uniqueFileName(fileName: string, taken: Set<string>): string {
+  const { name, ext } = path.posix.parse(fileName);
+  let candidate = fileName;
+  for (let i = 1; taken.has(candidate); i++) {
+    candidate = `${name} (${i})${ext}`;
+  }
+  return candidate;
+}
+
+/**
+ * Hidden sibling name a replacement is written under, so that what it
+ * replaces is only deleted once the replacement is complete
+ */
+export function temporaryFileName(fileName: string): string {
+  return `.${fileName}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+}
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonStreamDecoder } from './json-stream-decoder';
+
+function collectErrors() {
+  const errors: { message: string; raw: string }[] = [];
+  const decoder = new JsonStreamDecoder({ onError: (error, raw) => errors.push({ message: error.message, raw }) });
+  return { decoder, errors };
+}
+
+test('decodes messages coalesced into one chunk', () => {
+  const decoder = new JsonStreamDecoder();
+  const messages = decoder.write(Buffer.from('{"cmd":1}{"cmd":2} [3]\n{"cmd":4}'));
+  assert.deepEqual(messages, [{ cmd: 1 }, { cmd: 2 }, [3], { cmd: 4 }]);
+  assert.equal(decoder.pendingBytes, 0);
+});
+
+test('decodes a message fed one byte at a time', () => {
+  const decoder = new JsonStreamDecoder();
+  const bytes = Buffer.from('{"cmd":7,"data":{"nested":[1,2,{"a":"b"}]}}');
+  const messages: unknown[] = [];
+  for (const byte of bytes) {
+    messages.push(...decoder.write(Buffer.from([byte])));
+  }
+  assert.deepEqual(messages, [{ cmd: 7, data: { nested: [1, 2, { a: 'b' }] } }]);
+});
+
+test('keeps UTF-8 characters split across chunks intact', () => {
+  const decoder = new JsonStreamDecoder();
+  const bytes = Buffer.from('{"name":"Pixel ✓ 手机"}');
+  const split = bytes.indexOf(Buffer.from('✓')) + 1;
+  assert.deepEqual(decoder.write(bytes.subarray(0, split)), []);
+  assert.deepEqual(decoder.write(bytes.subarray(split)), [{ name: 'Pixel ✓ 手机' }]);
+});
+
+test('ignores braces and escaped quotes inside strings', () => {
+  const decoder = new JsonStreamDecoder();
+  const messages = decoder.write('{"text":"a } b { \\"c}\\" ]"}{"next":true}');
+  assert.deepEqual(messages, [{ text: 'a } b { "c}" ]' }, { next: true }]);
+});
+
+test('reports junk between messages and carries on', () => {
+  const { decoder, errors } = collectErrors();
+  const messages = decoder.write('{"a":1}garbage{"b":2}');
+  assert.deepEqual(messages, [{ a: 1 }, { b: 2 }]);
+  assert.equal(errors.length, 1);
+  assert.equal(errors[0].raw, 'garbage');
+});
+
+test('reports a malformed message and decodes the next one', () => {
+  const { decoder, errors } = collectErrors();
+  const messages = decoder.write('{"a":}{"b":2}');
+  assert.deepEqual(messages, [{ b: 2 }]);
+  assert.equal(errors.length, 1);
+  assert.equal(errors[0].raw, '{"a":}');
+});
+
+test('drops a message that grows past the buffer cap', () => {
+  const errors: string[] = [];
+  const decoder = new JsonStreamDecoder({ maxBufferSize: 16, onError: (error) => errors.push(error.message) });
+  assert.deepEqual(decoder.write('{"data":"0123456789abcdef'), []);
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /maximum buffer size/);
+  assert.equal(decoder.pendingBytes, 0);
+  assert.deepEqual(decoder.write('{"ok":1}'), [{ ok: 1 }]);
+});
+
+test('reset discards a partial message', () => {
+  const decoder = new JsonStreamDecoder();
+  decoder.write('{"partial":');
+  decoder.reset();
+  assert.deepEqual(decoder.write('{"whole":1}'), [{ whole: 1 }]);
+});
@@ -0,0 +1,164 @@
+import { StringDecoder } from 'string_decoder';
+
+export interface JsonStreamDecoderOptions {
+  maxBufferSize?: number;  // Max bytes of a single incomplete message
+  onError?: (error: Error, raw: string) => void;
+}
+
+const DEFAULT_MAX_BUFFER_SIZE = 1024 * 1024; // 1 MB
+
+/**
+ * Streaming decoder for the mobile TCP channels.
+ *
+ * The mobile app writes bare JSON objects back to back without a delimiter,
+ * so TCP may deliver several messages in one segment or split one message
+ * across segments. The decoder buffers input and yields every complete,
+ * brace-balanced JSON value as soon as it has been received.
+ */
+export class JsonStreamDecoder {
+  private readonly maxBufferSize: number;
+  private readonly onError?: (error: Error, raw: string) => void;
+  private stringDecoder = new StringDecoder('utf8');
+  private buffer = '';
+
+  // Scanner state, kept between writes so input is only scanned once
+  private scanIndex = 0;
+  private messageStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private garbageStart = -1;
+
+  constructor(options: JsonStreamDecoderOptions = {}) {
+    this.maxBufferSize = options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Feed a chunk of raw socket data and return all messages it completed
+   */
+  write(chunk: Buffer | string): any[] {
+    // StringDecoder holds back incomplete multi-byte UTF-8 sequences
+    this.buffer += typeof chunk === 'string' ? chunk : this.stringDecoder.write(chunk);
+
+    const messages: any[] = [];
+
+    while (this.scanIndex < this.buffer.length) {
+      const char = this.buffer[this.scanIndex];
+
+      if (this.depth === 0) {
+        if (char === '{' || char === '[') {
+          this.flushGarbage(this.scanIndex);
+          this.messageStart = this.scanIndex;
+          this.depth = 1;
+        } else if (!isWhitespace(char) && this.garbageStart === -1) {
+          this.garbageStart = this.scanIndex;
+        }
+      } else if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 0) {
+          const raw = this.buffer.substring(this.messageStart, this.scanIndex + 1);
+          this.messageStart = -1;
+          try {
+            messages.push(JSON.parse(raw));
+          } catch (error) {
+            this.onError?.(error as Error, raw);
+          }
+        }
+      }
+
+      this.scanIndex++;
+    }
+
+    this.compact();
+
+    if (Buffer.byteLength(this.buffer) > this.maxBufferSize) {
+      const raw = this.buffer;
+      this.reset();
+      this.onError?.(
+        new Error(`Message exceeds maximum buffer size of ${this.maxBufferSize} bytes`),
+        raw
+      );
+    }
+
+    return messages;
+  }
+
+  /**
+   * Discard buffered data, e.g. when the underlying socket reconnects
+   */
+  reset(): void {
+    this.stringDecoder = new StringDecoder('utf8');
+    this.buffer = '';
+    this.scanIndex = 0;
+    this.messageStart = -1;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.garbageStart = -1;
+  }
+
+  /**
+   * Number of bytes waiting for the rest of a message
+   */
+  get pendingBytes(): number {
+    return Buffer.byteLength(this.buffer);
+  }
+
+  /**
+   * Report non-JSON data found between messages
+   */
+  private flushGarbage(end: number) {
+    if (this.garbageStart === -1) {
+      return;
+    }
+
+    const raw = this.buffer.substring(this.garbageStart, end).trim();
+    this.garbageStart = -1;
+    this.onError?.(new Error('Unexpected data between JSON messages'), raw);
+  }
+
+  /**
+   * Drop everything that has already been consumed from the buffer
+   */
+  private compact() {
+    let keepFrom: number;
+
+    if (this.depth > 0) {
+      keepFrom = this.messageStart;
+    } else if (this.garbageStart !== -1) {
+      keepFrom = this.garbageStart;
+    } else {
+      keepFrom = this.scanIndex;
+    }
+
+    if (keepFrom <= 0) {
+      return;
+    }
+
+    this.buffer = this.buffer.substring(keepFrom);
+    this.scanIndex -= keepFrom;
+    if (this.messageStart !== -1) {
+      this.messageStart -= keepFrom;
+    }
+    if (this.garbageStart !== -1) {
+      this.garbageStart -= keepFrom;
+    }
+  }
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
@@ -0,0 +1,95 @@
+import { LinkQuality, LinkQualityLevel } from '../types';
+
+// Number of recent heartbeats the averages and loss rate are computed over
+const WINDOW_SIZE = 20;
+
+// RTT at or below this costs nothing, the penalty grows up to BAD_RTT
+const GOOD_RTT = 50;
+const BAD_RTT = 500;
+
+/**
+ * Rolling link-quality metrics for one device, fed from heartbeat round trips.
+ * Jitter is smoothed the same way RTP does it (RFC 3550, gain 1/16).
+ */
+export class LinkQualityTracker {
+  // Recent heartbeats, null marks a missed one
+  private window: (number | null)[] = [];
+  private lastRtt: number | null = null;
+  private jitter = 0;
+  private missedTotal = 0;
+  private updatedAt = Date.now();
+
+  recordRtt(rtt: number) {
+    if (this.lastRtt !== null) {
+      const delta = Math.abs(rtt - this.lastRtt);
+      this.jitter += (delta - this.jitter) / 16;
+    }
+    this.lastRtt = rtt;
+    this.push(rtt);
+  }
+
+  recordMissed() {
+    this.missedTotal++;
+    this.push(null);
+  }
+
+  reset() {
+    this.window = [];
+    this.lastRtt = null;
+    this.jitter = 0;
+    this.missedTotal = 0;
+    this.updatedAt = Date.now();
+  }
+
+  snapshot(): LinkQuality {
+    const rtts = this.window.filter((value): value is number => value !== null);
+    const missed = this.window.length - rtts.length;
+    const averageRtt = rtts.length > 0
+      ? Math.round(rtts.reduce((sum, value) => sum + value, 0) / rtts.length)
+      : null;
+    const lossRate = this.window.length > 0 ? missed / this.window.length : 0;
+    const score = this.window.length > 0 ? this.computeScore(averageRtt, lossRate) : 0;
+
+    return {
+      rtt: this.lastRtt,
+      averageRtt,
+      jitter: Math.round(this.jitter),
+      missedHeartbeats: this.missedTotal,
+      lossRate,
+      score,
+      level: this.window.length > 0 ? toLevel(score) : 'unknown',
+      samples: this.window.length,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  private push(sample: number | null) {
+    this.window.push(sample);
+    if (this.window.length > WINDOW_SIZE) {
+      this.window.shift();
+    }
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Up to 40 points for latency, 20 for jitter and 60 for missed heartbeats
+   */
+  private computeScore(averageRtt: number | null, lossRate: number): number {
+    let score = 100;
+
+    if (averageRtt !== null && averageRtt > GOOD_RTT) {
+      score -= 40 * Math.min(1, (averageRtt - GOOD_RTT) / (BAD_RTT - GOOD_RTT));
+    }
+    score -= 20 * Math.min(1, this.jitter / 100);
+    score -= 60 * lossRate;
+
+    return Math.max(0, Math.min(100, Math.round(score)));
+  }
+}
+
+function toLevel(score: number): LinkQualityLevel {
+  if (score >= 80) return 'excellent';
+  if (score >= 60) return 'good';
+  if (score >= 40) return 'fair';
+  return 'poor';
+}
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import { getDataFile } from './data-dir';
+
+export interface ManualDeviceEntry {
+  id: string;
+  name: string;
+  host: string;       // What the user typed, an IP or hostname
+  ip: string;         // Address the host resolved to when last probed
+  addedAt: number;
+  lastConnectedAt?: number;
+}
+
+/**
+ * Devices added by address, persisted as JSON in the data directory
+ */
+export class ManualDeviceStore {
+  private entries: Map<string, ManualDeviceEntry> = new Map();
+
+  constructor(private filePath: string = getDataFile('manual-devices.json')) {
+    this.load();
+  }
+
+  list(): ManualDeviceEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  get(id: string): ManualDeviceEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  upsert(entry: ManualDeviceEntry) {
+    const existing = this.entries.get(entry.id);
+    this.entries.set(entry.id, { ...existing, ...entry, addedAt: existing?.addedAt ?? entry.addedAt });
+    this.save();
+  }
+
+  markConnected(id: string) {
+    const entry = this.entries.get(id);
+    if (entry) {
+      entry.lastConnectedAt = Date.now();
+      this.save();
+    }
+  }
+
+  remove(id: string): boolean {
+    const removed = this.entries.delete(id);
+    if (removed) {
+      this.save();
+    }
+    return removed;
+  }
+
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data: ManualDeviceEntry[] = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        data.forEach((entry) => this.entries.set(entry.id, entry));
+      }
+    } catch (error) {
+      console.error(`Failed to read manual devices from ${this.filePath}:`, error);
+    }
+  }
+
+  private save() {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.list(), null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`Failed to save manual devices to ${this.filePath}:`, error);
+    }
+  }
+}
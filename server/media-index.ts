@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDataFile } from './data-dir';
+import { MobileConnection } from './device-connection-manager';
+import { PORTS } from './constants';
+
+/**
+ * Images and videos as the phone lists them, kept as they came
+ */
+export interface IndexedMedia {
+  id: number | string;
+  path: string;
+  name?: string;
+  mimeType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+  modifyTime?: number;
+  createTime?: number;
+}
+
+export interface IndexedAlbum {
+  id: number | string;
+  name: string;
+  path: string;
+  photoNum?: number;
+  coverImageId?: number | string;
+}
+
+/**
+ * Everything known about the media on one phone
+ */
+export interface DeviceMediaIndex {
+  identity: string;
+  deviceId: string;       // Id the phone was last connected under
+  name: string;
+  type: 'android' | 'ios';
+  images: IndexedMedia[]; // Newest first
+  videos: IndexedMedia[];
+  albums: IndexedAlbum[];
+  syncedAt: number;
+  fullSyncedAt: number;
+}
+
+export type MediaSort = 'newest' | 'oldest' | 'name' | 'size';
+
+export interface MediaQuery {
+  page?: number;
+  pageSize?: number;
+  sort?: MediaSort;
+  search?: string;   // Part of the file name, any case
+  albumId?: string;  // Images only
+}
+
+export interface MediaQueryResult {
+  items: IndexedMedia[];
+  total: number;
+}
+
+// Answer from the index without asking the phone for this long after a sync
+const FRESH_MS = 60 * 1000;
+// Incremental syncs cannot see deletions, a full one runs this often
+const FULL_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+const SYNC_PAGE_SIZE = 200;
+const REQUEST_TIMEOUT_MS = 30000;
+
+export function mediaName(item: IndexedMedia): string {
+  return item.name || path.posix.basename(item.path);
+}
+
+function newestFirst(a: IndexedMedia, b: IndexedMedia) {
+  return (b.modifyTime || 0) - (a.modifyTime || 0);
+}
+
+function compareBy(sort: MediaSort): (a: IndexedMedia, b: IndexedMedia) => number {
+  switch (sort) {
+    case 'oldest':
+      return (a, b) => newestFirst(b, a);
+    case 'name':
+      return (a, b) => mediaName(a).localeCompare(mediaName(b));
+    case 'size':
+      return (a, b) => (b.size || 0) - (a.size || 0);
+    default:
+      return newestFirst;
+  }
+}
+
+/**
+ * Local copy of each phone's image, album and video lists, persisted as JSON
+ * in the data directory. Galleries page, sort and filter from here, and can
+ * still be browsed while the phone is offline.
+ *
+ * Phones list media newest first, so a sync stops at the first page that is
+ * entirely older than what the index already has. Every so often a full
+ * sync walks the whole list to drop media deleted on the phone.
+ */
+export class MediaIndex {
+  private indexes = new Map<string, DeviceMediaIndex>();
+  private syncs = new Map<string, Promise<DeviceMediaIndex>>();
+  // Phones whose media changed through us, and whether something was removed
+  private stale = new Map<string, boolean>();
+
+  constructor(private dir: string = getDataFile('media-index')) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.load();
+  }
+
+  list(): DeviceMediaIndex[] {
+    return Array.from(this.indexes.values());
+  }
+
+  get(identity: string): DeviceMediaIndex | undefined {
+    return this.indexes.get(identity);
+  }
+
+  /**
+   * Index of the phone most recently synced under deviceId, for offline browsing
+   */
+  findByDeviceId(deviceId: string): DeviceMediaIndex | undefined {
+    return this.list()
+      .filter((index) => index.deviceId === deviceId)
+      .sort((a, b) => b.syncedAt - a.syncedAt)[0];
+  }
+
+  /**
+   * Bring the index of a connected phone up to date, unless it just was.
+   * Concurrent calls share one sync.
+   */
+  refresh(connection: MobileConnection, force = false): Promise<DeviceMediaIndex> {
+    const { identity } = connection;
+    const index = this.indexes.get(identity);
+    const fresh = index && Date.now() - index.syncedAt < FRESH_MS && index.deviceId === connection.device.id;
+    if (fresh && !force && !this.stale.has(identity)) {
+      return Promise.resolve(index);
+    }
+
+    let sync = this.syncs.get(identity);
+    if (!sync) {
+      const full = force || !!this.stale.get(identity);
+      this.stale.delete(identity);
+      sync = this.sync(connection, full)
+        .catch((error) => {
+          // Try again on the next query
+          this.markStale(connection, full);
+          throw error;
+        })
+        .finally(() => this.syncs.delete(identity));
+      this.syncs.set(identity, sync);
+    }
+    return sync;
+  }
+
+  /**
+   * Sync on the next query, fully when media may have been deleted
+   */
+  markStale(connection: MobileConnection, removed = false) {
+    const { identity } = connection;
+    this.stale.set(identity, removed || !!this.stale.get(identity));
+  }
+
+  queryImages(index: DeviceMediaIndex, query: MediaQuery): MediaQueryResult {
+    let images = index.images;
+    if (query.albumId) {
+      const album = index.albums.find((a) => String(a.id) === query.albumId);
+      images = album ? images.filter((image) => path.posix.dirname(image.path) === album.path) : [];
+    }
+    return this.query(images, query);
+  }
+
+  queryVideos(index: DeviceMediaIndex, query: MediaQuery): MediaQueryResult {
+    return this.query(index.videos, query);
+  }
+
+  private query(items: IndexedMedia[], query: MediaQuery): MediaQueryResult {
+    let result = items;
+    if (query.search) {
+      const search = query.search.toLowerCase();
+      result = result.filter((item) => mediaName(item).toLowerCase().includes(search));
+    }
+    if (query.sort && query.sort !== 'newest') {
+      result = [...result].sort(compareBy(query.sort));
+    }
+
+    const total = result.length;
+    if (query.page !== undefined && query.pageSize !== undefined) {
+      const start = (query.page - 1) * query.pageSize;
+      result = result.slice(start, start + query.pageSize);
+    }
+    return { items: result, total };
+  }
+
+  private async sync(connection: MobileConnection, forceFull: boolean): Promise<DeviceMediaIndex> {
+    const { device, identity } = connection;
+    const previous = this.indexes.get(identity);
+    const full = forceFull || !previous || Date.now() - previous.fullSyncedAt > FULL_SYNC_INTERVAL_MS;
+    const startedAt = Date.now();
+
+    const [images, videos, albums] = await Promise.all([
+      this.syncList(connection, '/image/all', previous?.images || [], full),
+      this.syncList(connection, '/video/videos', previous?.videos || [], full),
+      this.request<IndexedAlbum[]>(connection, '/image/albums', {}),
+    ]);
+
+    const index: DeviceMediaIndex = {
+      identity,
+      deviceId: device.id,
+      name: device.name,
+      type: device.type,
+      images,
+      videos,
+      albums: albums || [],
+      syncedAt: startedAt,
+      fullSyncedAt: full ? startedAt : previous!.fullSyncedAt,
+    };
+    this.indexes.set(identity, index);
+    this.save(index);
+
+    console.log(
+      `Media index of ${device.name}: ${images.length} images, ${videos.length} videos, ` +
+      `${index.albums.length} albums (${full ? 'full' : 'incremental'} sync, ${Date.now() - startedAt}ms)`
+    );
+    return index;
+  }
+
+  private async syncList(
+    connection: MobileConnection,
+    endpoint: string,
+    known: IndexedMedia[],
+    full: boolean
+  ): Promise<IndexedMedia[]> {
+    const byId = new Map(known.map((item) => [String(item.id), item]));
+    const newestKnown = known.reduce((newest, item) => Math.max(newest, item.modifyTime || 0), 0);
+    const seen = new Set<string>();
+
+    for (let page = 1; ; page++) {
+      const items = await this.request<IndexedMedia[]>(connection, endpoint, { page, pageSize: SYNC_PAGE_SIZE });
+      const fresh = (items || []).filter((item) => !seen.has(String(item.id)));
+      // Also stops phones that ignore paging and send everything every time
+      if (fresh.length === 0) {
+        break;
+      }
+
+      for (const item of fresh) {
+        seen.add(String(item.id));
+        byId.set(String(item.id), item);
+      }
+
+      if (fresh.length < SYNC_PAGE_SIZE) {
+        break;
+      }
+      if (!full && fresh.every((item) => (item.modifyTime || 0) < newestKnown)) {
+        break;
+      }
+    }
+
+    if (full) {
+      for (const id of byId.keys()) {
+        if (!seen.has(id)) {
+          byId.delete(id);
+        }
+      }
+    }
+
+    return Array.from(byId.values()).sort(newestFirst);
+  }
+
+  private async request<T>(connection: MobileConnection, endpoint: string, body: object): Promise<T | undefined> {
+    const response = await fetch(`http://${connection.device.ip}:${PORTS.HTTP}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Device responded with ${response.status} to ${endpoint}`);
+    }
+    const data = await response.json();
+    return data?.data;
+  }
+
+  private fileFor(identity: string) {
+    return path.join(this.dir, `${crypto.createHash('sha1').update(identity).digest('hex')}.json`);
+  }
+
+  private load() {
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const filePath = path.join(this.dir, file);
+      try {
+        const index: DeviceMediaIndex = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        this.indexes.set(index.identity, index);
+      } catch (error) {
+        console.error(`Failed to read media index ${filePath}:`, error);
+      }
+    }
+  }
+
+  private save(index: DeviceMediaIndex) {
+    const filePath = this.fileFor(index.identity);
+    try {
+      fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(index), 'utf-8');
+      fs.renameSync(`${filePath}.tmp`, filePath);
+    } catch (error) {
+      console.error(`Failed to save media index ${filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Readable } from 'stream';
+
+export interface MultipartFile {
+  field: string;
+  name: string;
+  filePath: string;  // Local file to send
+  size: number;
+  contentType?: string;
+}
+
+export interface MultipartBody {
+  contentType: string;
+  contentLength: number;
+  body: Readable;
+}
+
+function quote(value: string): string {
+  return value.replace(/[\r\n]/g, ' ').replace(/"/g, '%22');
+}
+
+/**
+ * multipart/form-data body with text fields and one file, streamed from disk.
+ * Its length is known up front, phones do not all accept chunked uploads.
+ */
+export function createMultipartBody(fields: Record<string, string>, file: MultipartFile): MultipartBody {
+  const boundary = `----AirController${crypto.randomBytes(12).toString('hex')}`;
+
+  const head = Buffer.from(
+    Object.entries(fields)
+      .map(([name, value]) => (
+        `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"\r\n\r\n${value}\r\n`
+      ))
+      .join('') +
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="${quote(file.field)}"; filename="${quote(file.name)}"\r\n` +
+    `Content-Type: ${file.contentType || 'application/octet-stream'}\r\n\r\n`
+  );
+  const tail = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+  async function* parts() {
+    yield head;
+    yield* fs.createReadStream(file.filePath);
+    yield tail;
+  }
+
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: head.length + file.size + tail.length,
+    body: Readable.from(parts()),
+  };
+}
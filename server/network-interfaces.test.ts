@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type os from 'os';
+import {
+  InterfaceMap,
+  findInterfaceFor,
+  getBroadcastFor,
+  getLocalAddressFor,
+  listIPv4Interfaces,
+} from './network-interfaces';
+
+delete process.env.BIND_INTERFACE;
+
+function ipv4(address: string, netmask: string, internal = false): os.NetworkInterfaceInfo {
+  return { address, netmask, family: 'IPv4', mac: '00:00:00:00:00:00', internal, cidr: null };
+}
+
+// A laptop running docker, with the phone on the Wi-Fi network
+const multiNic: InterfaceMap = {
+  lo: [ipv4('127.0.0.1', '255.0.0.0', true)],
+  docker0: [ipv4('172.17.0.1', '255.255.0.0')],
+  wlan0: [
+    ipv4('192.168.1.23', '255.255.255.0'),
+    { address: 'fe80::1', netmask: 'ffff:ffff:ffff:ffff::', family: 'IPv6', mac: '00:00:00:00:00:00', internal: false, cidr: null, scopeid: 3 },
+  ],
+};
+const getInterfaces = () => multiNic;
+
+test('lists external IPv4 interfaces with their broadcast address', () => {
+  assert.deepEqual(listIPv4Interfaces({ getInterfaces }), [
+    { name: 'docker0', address: '172.17.0.1', netmask: '255.255.0.0', broadcast: '172.17.255.255' },
+    { name: 'wlan0', address: '192.168.1.23', netmask: '255.255.255.0', broadcast: '192.168.1.255' },
+  ]);
+});
+
+test('picks the interface on the phone subnet, not the first one', () => {
+  const match = findInterfaceFor('192.168.1.57', { getInterfaces });
+  assert.equal(match?.name, 'wlan0');
+  assert.equal(match?.broadcast, '192.168.1.255');
+  assert.equal(getLocalAddressFor('192.168.1.57', { getInterfaces }), '192.168.1.23');
+});
+
+test('falls back to the first interface when no subnet matches', () => {
+  assert.equal(findInterfaceFor('10.0.0.5', { getInterfaces }), undefined);
+  assert.equal(getLocalAddressFor('10.0.0.5', { getInterfaces }), '172.17.0.1');
+  assert.equal(getLocalAddressFor(undefined, { getInterfaces }), '172.17.0.1');
+});
+
+test('falls back to loopback without any external interface', () => {
+  const loopbackOnly = () => ({ lo: multiNic.lo });
+  assert.deepEqual(listIPv4Interfaces({ getInterfaces: loopbackOnly }), []);
+  assert.equal(getLocalAddressFor('192.168.1.57', { getInterfaces: loopbackOnly }), '127.0.0.1');
+});
+
+test('answers loopback for a phone on loopback', () => {
+  assert.equal(getLocalAddressFor('127.0.0.1', { getInterfaces }), '127.0.0.1');
+});
+
+test('narrows to the bind interface by name or address', () => {
+  assert.deepEqual(listIPv4Interfaces({ getInterfaces, bindInterface: 'wlan0' }).map((i) => i.name), ['wlan0']);
+  assert.deepEqual(listIPv4Interfaces({ getInterfaces, bindInterface: '172.17.0.1' }).map((i) => i.name), ['docker0']);
+  assert.equal(findInterfaceFor('192.168.1.57', { getInterfaces, bindInterface: 'docker0' }), undefined);
+});
+
+test('accepts the numeric family reported by older Node versions', () => {
+  const numeric = () => ({ eth0: [{ ...ipv4('10.1.2.3', '255.255.252.0'), family: 4 as unknown as 'IPv4' }] });
+  assert.deepEqual(listIPv4Interfaces({ getInterfaces: numeric }).map((i) => i.broadcast), ['10.1.3.255']);
+});
+
+test('computes broadcast addresses for uncommon netmasks', () => {
+  assert.equal(getBroadcastFor('192.168.1.23', '255.255.255.255'), '192.168.1.23');
+  assert.equal(getBroadcastFor('10.20.30.40', '255.255.255.240'), '10.20.30.47');
+});
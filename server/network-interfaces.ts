@@ -0,0 +1,99 @@
+import os from 'os';
+
+export type InterfaceMap = NodeJS.Dict<os.NetworkInterfaceInfo[]>;
+
+export interface NetworkInterfaceOptions {
+  // Interface name (e.g. "en0") or address to restrict ourselves to, defaults to BIND_INTERFACE
+  bindInterface?: string;
+  // Source of interface data, replaceable with synthetic data
+  getInterfaces?: () => InterfaceMap;
+}
+
+export interface IPv4Interface {
+  name: string;
+  address: string;
+  netmask: string;
+  broadcast: string;
+}
+
+function ipToInt(ip: string): number {
+  return ip.split('.').reduce((value, octet) => ((value << 8) | (parseInt(octet, 10) & 0xff)) >>> 0, 0);
+}
+
+function intToIp(value: number): string {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join('.');
+}
+
+function resolveOptions(options: NetworkInterfaceOptions) {
+  return {
+    bindInterface: options.bindInterface ?? process.env.BIND_INTERFACE ?? undefined,
+    getInterfaces: options.getInterfaces ?? os.networkInterfaces,
+  };
+}
+
+/**
+ * Broadcast address of the subnet an address belongs to
+ */
+export function getBroadcastFor(address: string, netmask: string): string {
+  const mask = ipToInt(netmask);
+  return intToIp((ipToInt(address) & mask) | (~mask >>> 0));
+}
+
+/**
+ * Check whether two addresses share a subnet under the given netmask
+ */
+export function isSameSubnet(a: string, b: string, netmask: string): boolean {
+  const mask = ipToInt(netmask);
+  return (ipToInt(a) & mask) === (ipToInt(b) & mask);
+}
+
+/**
+ * Non-internal IPv4 interfaces we may use, narrowed to the bind interface when one is set
+ */
+export function listIPv4Interfaces(options: NetworkInterfaceOptions = {}): IPv4Interface[] {
+  const { bindInterface, getInterfaces } = resolveOptions(options);
+  const interfaces = getInterfaces();
+  const result: IPv4Interface[] = [];
+
+  for (const name of Object.keys(interfaces)) {
+    for (const iface of interfaces[name] || []) {
+      // Node 18.0-18.3 reports the family as a number
+      const family = iface.family as string | number;
+      if (iface.internal || (family !== 'IPv4' && family !== 4)) continue;
+      if (bindInterface && bindInterface !== name && bindInterface !== iface.address) continue;
+
+      result.push({
+        name,
+        address: iface.address,
+        netmask: iface.netmask,
+        broadcast: getBroadcastFor(iface.address, iface.netmask),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Interface on the same subnet as a remote address, if we have one
+ */
+export function findInterfaceFor(remoteIp: string, options: NetworkInterfaceOptions = {}): IPv4Interface | undefined {
+  return listIPv4Interfaces(options).find((iface) => isSameSubnet(iface.address, remoteIp, iface.netmask));
+}
+
+/**
+ * Local address a phone at remoteIp can reach us on. Prefers the interface on
+ * the phone's subnet, then the first eligible interface.
+ */
+export function getLocalAddressFor(remoteIp: string | undefined, options: NetworkInterfaceOptions = {}): string {
+  if (remoteIp && remoteIp.startsWith('127.')) {
+    return '127.0.0.1';
+  }
+
+  const match = remoteIp ? findInterfaceFor(remoteIp, options) : undefined;
+  if (match) {
+    return match.address;
+  }
+
+  return listIPv4Interfaces(options)[0]?.address || '127.0.0.1';
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { PairingMethod, PairingRequest } from '../types';
+
+export interface PairingOptions {
+  timeout?: number;      // ms a PIN stays valid, default 120000
+  maxAttempts?: number;  // Wrong PINs before pairing fails, default 3
+}
+
+export class PairingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PairingError';
+  }
+}
+
+/**
+ * One pairing attempt with a phone. The PIN is displayed on one side
+ * (the method) and must be typed on the other, so it never travels to the
+ * side that has to prove it can see it.
+ *
+ * `result` resolves once the right PIN is entered and rejects with a
+ * PairingError on expiry, too many wrong PINs or cancellation.
+ */
+export class PairingSession {
+  readonly result: Promise<void>;
+  private currentMethod: PairingMethod;
+  private currentPin = '';
+  private deadline = 0;
+  private attempts = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private settled = false;
+  private resolveResult!: () => void;
+  private rejectResult!: (error: PairingError) => void;
+  private readonly timeout: number;
+  private readonly maxAttempts: number;
+
+  constructor(method: PairingMethod, options: PairingOptions = {}) {
+    this.timeout = options.timeout ?? 120000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.currentMethod = method;
+    this.result = new Promise((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    this.restart(method);
+  }
+
+  get method(): PairingMethod {
+    return this.currentMethod;
+  }
+
+  get pin(): string {
+    return this.currentPin;
+  }
+
+  get attemptsLeft(): number {
+    return this.maxAttempts - this.attempts;
+  }
+
+  /**
+   * Issue a fresh PIN, optionally displayed on the other side this time
+   */
+  restart(method: PairingMethod = this.currentMethod) {
+    if (this.settled) {
+      return;
+    }
+
+    this.currentMethod = method;
+    this.currentPin = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    this.deadline = Date.now() + this.timeout;
+    this.attempts = 0;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.fail('Pairing PIN expired'), this.timeout);
+  }
+
+  /**
+   * Check a PIN typed on the given side. Returns whether it was accepted.
+   */
+  submit(pin: unknown, enteredOn: PairingMethod): boolean {
+    if (this.settled) {
+      return false;
+    }
+
+    if (enteredOn === this.currentMethod) {
+      return false;
+    }
+
+    if (typeof pin === 'string' && pin.trim() === this.currentPin) {
+      this.settle();
+      this.resolveResult();
+      return true;
+    }
+
+    this.attempts++;
+    if (this.attempts >= this.maxAttempts) {
+      this.fail(`Wrong PIN entered ${this.maxAttempts} times`);
+    }
+    return false;
+  }
+
+  fail(reason: string) {
+    if (this.settled) {
+      return;
+    }
+    this.settle();
+    this.rejectResult(new PairingError(reason));
+  }
+
+  /**
+   * What the browser is told. The PIN is only included when the browser displays it.
+   */
+  toRequest(deviceId: string, identity: string): PairingRequest {
+    return {
+      deviceId,
+      identity,
+      method: this.currentMethod,
+      pin: this.currentMethod === 'browser' ? this.currentPin : undefined,
+      expiresAt: this.deadline,
+      attemptsLeft: this.attemptsLeft,
+    };
+  }
+
+  private settle() {
+    this.settled = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RangeCache, RangeFetcher, ResourceInfo } from './range-cache';
+
+/**
+ * Origin serving `content`, which the test may replace, counting requests
+ */
+function origin(content: Buffer, lastModified = 'v1') {
+  const state = { content, lastModified, requests: [] as [number, number][] };
+  const fetcher: RangeFetcher = async (start, end) => {
+    state.requests.push([start, end]);
+    const info: ResourceInfo = { size: state.content.length, contentType: 'video/mp4', lastModified: state.lastModified };
+    return { info, data: state.content.subarray(start, end + 1) };
+  };
+  return { state, fetcher };
+}
+
+async function readAll(cache: RangeCache, key: string, fetcher: RangeFetcher, start: number, end: number) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of cache.read(key, fetcher, { start, end })) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+test('reports an empty resource without fetching any block', async () => {
+  const cache = new RangeCache({ blockSize: 4 });
+  const { state, fetcher } = origin(Buffer.alloc(0));
+  const info = await cache.info('empty', fetcher);
+  assert.equal(info.size, 0);
+  assert.deepEqual(state.requests, [[0, 3]]);
+});
+
+test('serves ranges across blocks from the cache', async () => {
+  const cache = new RangeCache({ blockSize: 4, readAhead: 0 });
+  const { state, fetcher } = origin(Buffer.from('0123456789'));
+  await cache.info('file', fetcher);
+  assert.equal(await readAll(cache, 'file', fetcher, 2, 9), '23456789');
+  assert.equal(await readAll(cache, 'file', fetcher, 0, 5), '012345');
+  assert.deepEqual(state.requests, [[0, 3], [4, 7], [8, 11]]);
+});
+
+test('keeps using cached info until it is due for revalidation', async () => {
+  const cache = new RangeCache({ blockSize: 4, revalidateAfter: 60000 });
+  const { state, fetcher } = origin(Buffer.from('0123456789'));
+  await cache.info('file', fetcher);
+  await cache.info('file', fetcher);
+  assert.equal(state.requests.length, 1);
+});
+
+test('drops stale blocks when the resource was replaced on the origin', async () => {
+  const cache = new RangeCache({ blockSize: 4, readAhead: 0, revalidateAfter: 0 });
+  const { state, fetcher } = origin(Buffer.from('old content'));
+  await cache.info('file', fetcher);
+  assert.equal(await readAll(cache, 'file', fetcher, 0, 3), 'old ');
+
+  state.content = Buffer.from('new data');
+  state.lastModified = 'v2';
+  const info = await cache.info('file', fetcher);
+  assert.equal(info.size, 8);
+  assert.equal(info.lastModified, 'v2');
+  assert.equal(await readAll(cache, 'file', fetcher, 0, 7), 'new data');
+});
+
+test('keeps the blocks of an unchanged resource after revalidating', async () => {
+  const cache = new RangeCache({ blockSize: 4, readAhead: 0, revalidateAfter: 0 });
+  const { state, fetcher } = origin(Buffer.from('0123'));
+  await cache.info('file', fetcher);
+  await cache.info('file', fetcher);
+  assert.equal(await readAll(cache, 'file', fetcher, 0, 3), '0123');
+  assert.deepEqual(state.requests, [[0, 3], [0, 0]]);
+});
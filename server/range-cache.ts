@@ -0,0 +1,252 @@
+/**
+ * What the origin said about a whole resource
+ */
+export interface ResourceInfo {
+  size: number;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Inclusive on both ends, as in Content-Range
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Fetch bytes `start` to `end` of a resource. The origin may return fewer
+ * bytes at the end of the resource, and none with a size of 0 for an empty one.
+ */
+export type RangeFetcher = (start: number, end: number) => Promise<{ info: ResourceInfo; data: Buffer }>;
+
+/**
+ * The origin failed a range request. status is its HTTP status, if it answered.
+ */
+export class RangeFetchError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'RangeFetchError';
+  }
+}
+
+export interface RangeCacheOptions {
+  blockSize?: number;   // Bytes fetched from the origin at a time
+  maxBytes?: number;    // Least recently used blocks are dropped past this
+  readAhead?: number;   // Blocks fetched past the one being sent
+  revalidateAfter?: number;  // ms before info() asks the origin again whether a resource changed
+}
+
+const DEFAULT_OPTIONS: Required<RangeCacheOptions> = {
+  blockSize: 1024 * 1024,
+  maxBytes: 64 * 1024 * 1024,
+  readAhead: 4,
+  revalidateAfter: 5000,
+};
+
+// Resources whose size and validators are remembered
+const MAX_RESOURCES = 200;
+
+/**
+ * Parse a Range header against a resource of `size` bytes. Returns null when
+ * the whole resource should be sent: no header, a malformed one or several
+ * ranges, which we are allowed to ignore.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  if (!match[1]) {
+    // Suffix range, the last N bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  if (match[2] && Number(match[2]) < start) {
+    return null;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end: match[2] ? Math.min(Number(match[2]), size - 1) : size - 1 };
+}
+
+/**
+ * Whether a request's If-Range still matches the resource, so its Range may
+ * be honoured. Weak ETags never match.
+ */
+export function ifRangeMatches(header: string | undefined, info: ResourceInfo): boolean {
+  if (!header) {
+    return true;
+  }
+
+  const value = header.trim();
+  if (value.startsWith('"')) {
+    return info.etag === value;
+  }
+  if (value.startsWith('W/')) {
+    return false;
+  }
+  return info.lastModified !== undefined && info.lastModified === value;
+}
+
+function sameResource(a: ResourceInfo, b: ResourceInfo) {
+  return a.size === b.size && a.etag === b.etag && a.lastModified === b.lastModified;
+}
+
+/**
+ * Fixed-size blocks of remote resources kept in memory, so seeking back and
+ * reconnecting after a dropped request are served without the origin, and
+ * the blocks after the one being sent are already on their way.
+ */
+export class RangeCache {
+  private readonly options: Required<RangeCacheOptions>;
+  private blocks = new Map<string, Buffer>();      // Least recently used first
+  private pending = new Map<string, Promise<Buffer>>();
+  private resources = new Map<string, { info: ResourceInfo; checkedAt: number }>();
+  private cachedBytes = 0;
+
+  constructor(options: RangeCacheOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Size and validators of a resource, fetching its first block if unknown.
+   * Info older than revalidateAfter is checked with a one byte request, and
+   * the cached blocks are dropped when the resource changed on the origin.
+   */
+  async info(key: string, fetcher: RangeFetcher): Promise<ResourceInfo> {
+    const known = this.resources.get(key);
+    if (known && Date.now() - known.checkedAt < this.options.revalidateAfter) {
+      return known.info;
+    }
+
+    if (known) {
+      const { info } = await fetcher(0, 0);
+      if (!sameResource(known.info, info)) {
+        this.invalidate(key);
+      }
+      this.remember(key, info);
+      return info;
+    }
+
+    // An empty resource has no first block, the fetch still brings its info
+    await this.block(key, fetcher, 0);
+    return this.resources.get(key)!.info;
+  }
+
+  /**
+   * Bytes of `range`, one block at a time, starting the read-ahead as it goes
+   */
+  async *read(key: string, fetcher: RangeFetcher, range: ByteRange): AsyncGenerator<Buffer> {
+    const { blockSize, readAhead } = this.options;
+    const first = Math.floor(range.start / blockSize);
+    const last = Math.floor(range.end / blockSize);
+
+    for (let index = first; index <= last; index++) {
+      const data = await this.block(key, fetcher, index);
+      this.prefetch(key, fetcher, index + 1, index + readAhead);
+
+      const blockStart = index * blockSize;
+      yield data.subarray(Math.max(range.start - blockStart, 0), Math.min(range.end - blockStart + 1, data.length));
+    }
+  }
+
+  /**
+   * Forget everything about a resource, e.g. after it was deleted
+   */
+  invalidate(key: string) {
+    this.resources.delete(key);
+    for (const [blockKey, data] of this.blocks) {
+      if (blockKey.startsWith(`${key}#`)) {
+        this.blocks.delete(blockKey);
+        this.cachedBytes -= data.length;
+      }
+    }
+  }
+
+  private prefetch(key: string, fetcher: RangeFetcher, from: number, to: number) {
+    const known = this.resources.get(key);
+    if (!known || known.info.size === 0) {
+      return;
+    }
+
+    const lastBlock = Math.floor((known.info.size - 1) / this.options.blockSize);
+    for (let index = from; index <= Math.min(to, lastBlock); index++) {
+      this.block(key, fetcher, index).catch(() => {
+        // Read-ahead is best effort, the block is fetched again when needed
+      });
+    }
+  }
+
+  private block(key: string, fetcher: RangeFetcher, index: number): Promise<Buffer> {
+    const blockKey = `${key}#${index}`;
+
+    const cached = this.blocks.get(blockKey);
+    if (cached) {
+      this.blocks.delete(blockKey);
+      this.blocks.set(blockKey, cached);
+      return Promise.resolve(cached);
+    }
+
+    let request = this.pending.get(blockKey);
+    if (!request) {
+      request = this.fetchBlock(key, fetcher, index).finally(() => this.pending.delete(blockKey));
+      this.pending.set(blockKey, request);
+    }
+    return request;
+  }
+
+  private async fetchBlock(key: string, fetcher: RangeFetcher, index: number): Promise<Buffer> {
+    const { blockSize } = this.options;
+    const start = index * blockSize;
+    const { info, data } = await fetcher(start, start + blockSize - 1);
+
+    // A changed resource must not be stitched together from old and new blocks
+    const known = this.resources.get(key);
+    if (known && !sameResource(known.info, info)) {
+      this.invalidate(key);
+      this.remember(key, info);
+      throw new RangeFetchError('Resource changed on the device');
+    }
+    this.remember(key, info);
+
+    const expected = Math.max(0, Math.min(blockSize, info.size - start));
+    if (data.length !== expected) {
+      throw new RangeFetchError(`Expected ${expected} bytes at ${start}, got ${data.length}`);
+    }
+
+    if (data.length === 0) {
+      return data;
+    }
+    this.blocks.set(`${key}#${index}`, data);
+    this.cachedBytes += data.length;
+    for (const [blockKey, block] of this.blocks) {
+      if (this.cachedBytes <= this.options.maxBytes) {
+        break;
+      }
+      this.blocks.delete(blockKey);
+      this.cachedBytes -= block.length;
+    }
+    return data;
+  }
+
+  private remember(key: string, info: ResourceInfo) {
+    this.resources.delete(key);
+    this.resources.set(key, { info, checkedAt: Date.now() });
+    if (this.resources.size > MAX_RESOURCES) {
+      const oldest = this.resources.keys().next().value!;
+      this.invalidate(oldest);
+    }
+  }
+}
@@ -0,0 +1,373 @@
+import express from 'express';
+import http from 'http';
+import { pipeline } from 'stream';
+import { DeviceConnectionManager, MobileConnection } from './device-connection-manager';
+import { PORTS } from './constants';
+import { RangeCache, RangeFetchError, RangeFetcher, ifRangeMatches, parseRange } from './range-cache';
+import { ThumbnailCache } from './thumbnail-cache';
+import { MediaIndex } from './media-index';
+
+// Passed on to the phone, our cookie and access token stay here
+const REQUEST_HEADERS = [
+  'accept',
+  'content-length',
+  'content-type',
+  'if-modified-since',
+  'if-none-match',
+  'if-range',
+  'range',
+];
+
+const RESPONSE_HEADERS = [
+  'accept-ranges',
+  'cache-control',
+  'content-disposition',
+  'content-length',
+  'content-range',
+  'content-type',
+  'etag',
+  'last-modified',
+];
+
+// A phone that sends nothing for this long is given up on
+const IDLE_TIMEOUT_MS = 30000;
+
+// Thumbnail URLs are versioned, browsers only revalidate them now and then
+const THUMBNAIL_MAX_AGE_SECONDS = 24 * 60 * 60;
+const THUMBNAIL_ENDPOINT = /^((image|video)\/)?thumbnail/;
+
+/**
+ * Routes that stream files and media from a connected phone, so the browser
+ * only talks to the bridge. Paths are built with lib/device-stream.
+ */
+export function createStreamProxy(
+  manager: DeviceConnectionManager,
+  thumbnails: ThumbnailCache,
+  mediaIndex: MediaIndex
+): express.Router {
+  const router = express.Router();
+  const videoCache = new RangeCache();
+
+  router.get('/api/devices/:id/thumbnail/*path', (req, res) => {
+    serveThumbnail(manager, thumbnails, mediaIndex, req, res)
+      .catch((error) => failRequest(res, `thumbnail for device ${req.params.id}`, error));
+  });
+
+  router.get('/api/devices/:id/stream/*path', (req, res) => {
+    const endpoint = req.params.path.map(encodeURIComponent).join('/');
+    proxyToDevice(manager, req, res, `/stream/${endpoint}`);
+  });
+
+  // Videos are served from cached blocks, so seeking and resuming stay fast on a weak link
+  router.get('/api/devices/:id/video/:videoId', (req, res) => {
+    serveCached(manager, videoCache, req, res, `/video/item/${encodeURIComponent(req.params.videoId)}`)
+      .catch((error) => failRequest(res, `video for device ${req.params.id}`, error));
+  });
+
+  router.post('/api/devices/:id/upload', (req, res) => {
+    const connection = manager.getConnection(req.params.id);
+    if (connection) {
+      res.on('finish', () => mediaIndex.markStale(connection));
+    }
+    proxyToDevice(manager, req, res, '/file/uploadFiles');
+  });
+
+  return router;
+}
+
+/**
+ * The connected device a request is for, or null after answering 404
+ */
+function getConnectedDevice(
+  manager: DeviceConnectionManager,
+  req: express.Request<{ id: string }>,
+  res: express.Response
+): MobileConnection | null {
+  const connection = manager.getConnection(req.params.id);
+  if (!connection || !connection.stateMachine.isConnected) {
+    res.status(404).json({ error: `Device ${req.params.id} is not connected` });
+    return null;
+  }
+  return connection;
+}
+
+function proxyToDevice(
+  manager: DeviceConnectionManager,
+  req: express.Request<{ id: string }>,
+  res: express.Response,
+  phonePath: string
+) {
+  const deviceId = req.params.id;
+  const connection = getConnectedDevice(manager, req, res);
+  if (!connection) return;
+
+  const headers: http.OutgoingHttpHeaders = {};
+  for (const name of REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (value !== undefined) {
+      headers[name] = value;
+    }
+  }
+
+  // Query strings are forwarded untouched, phones are picky about their encoding
+  const queryIndex = req.originalUrl.indexOf('?');
+  const query = queryIndex === -1 ? '' : req.originalUrl.substring(queryIndex);
+
+  const upstream = http.request({
+    host: connection.device.ip,
+    port: PORTS.HTTP,
+    method: req.method,
+    path: phonePath + query,
+    headers,
+  });
+
+  upstream.on('response', (phoneRes) => {
+    res.status(phoneRes.statusCode || 502);
+    for (const name of RESPONSE_HEADERS) {
+      const value = phoneRes.headers[name];
+      if (value !== undefined) {
+        res.setHeader(name, value);
+      }
+    }
+
+    // pipeline pauses reading from the phone while the browser is behind
+    pipeline(phoneRes, res, (error) => {
+      if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+        console.warn(`Stream from ${connection.device.name} failed:`, error.message);
+      }
+    });
+  });
+
+  upstream.setTimeout(IDLE_TIMEOUT_MS, () => {
+    upstream.destroy(new Error('Device stopped responding'));
+  });
+
+  upstream.on('error', (error) => {
+    if (res.headersSent || res.destroyed) {
+      res.destroy();
+      return;
+    }
+    console.error(`Proxy request to ${connection.device.name} failed:`, error.message);
+    res.status(502).json({ error: `Device ${deviceId} did not respond: ${error.message}` });
+  });
+
+  // The browser went away, e.g. a video seek that abandons the previous range
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      upstream.destroy();
+    }
+  });
+
+  if (req.method === 'POST') {
+    pipeline(req, upstream, (error) => {
+      if (error) {
+        upstream.destroy(error);
+      }
+    });
+  } else {
+    upstream.end();
+  }
+}
+
+/**
+ * Answer from the thumbnail cache, with a 304 when the browser already has it.
+ * Thumbnails of a phone that is offline are served as long as they are cached.
+ */
+async function serveThumbnail(
+  manager: DeviceConnectionManager,
+  thumbnails: ThumbnailCache,
+  mediaIndex: MediaIndex,
+  req: express.Request<{ id: string; path: string[] }>,
+  res: express.Response
+) {
+  const endpoint = req.params.path.join('/');
+  if (!THUMBNAIL_ENDPOINT.test(endpoint)) {
+    res.status(404).json({ error: `${endpoint} is not a thumbnail endpoint` });
+    return;
+  }
+
+  const connection = manager.getConnection(req.params.id);
+  const connected = connection?.stateMachine.isConnected ? connection : undefined;
+  const identity = connected
+    ? connected.identity
+    : mediaIndex.findByDeviceId(req.params.id)?.identity;
+  if (!identity) {
+    res.status(404).json({ error: `Device ${req.params.id} is not connected` });
+    return;
+  }
+
+  const { v: version = '', ...params } = req.query as Record<string, string>;
+  const source = { endpoint, params, version };
+
+  const etag = thumbnails.etag(identity, source);
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', `private, max-age=${THUMBNAIL_MAX_AGE_SECONDS}`);
+
+  const ifNoneMatch = req.header('if-none-match');
+  if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)) {
+    res.status(304).end();
+    return;
+  }
+
+  const result = await thumbnails.get(identity, source, connected);
+  if (!result.ok) {
+    res.removeHeader('ETag');
+    res.removeHeader('Cache-Control');
+    res.status(result.status).end();
+    return;
+  }
+
+  res.type(result.contentType);
+  // The data directory is usually .aircontroller, which sendFile refuses by default
+  res.sendFile(result.filePath, { dotfiles: 'allow', lastModified: false }, (error) => {
+    if (error && !res.headersSent) {
+      res.status(500).end();
+    }
+  });
+}
+
+/**
+ * Fetch ranges of a file on the phone, which must answer them with 206
+ */
+function phoneRangeFetcher(url: string): RangeFetcher {
+  return async (start, end) => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Range: `bytes=${start}-${end}` },
+        signal: AbortSignal.timeout(IDLE_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw new RangeFetchError(error.message);
+    }
+
+    const total = /\/(\d+)$/.exec(response.headers.get('content-range') || '');
+
+    // Any range of an empty file is unsatisfiable, the phone answers bytes */0.
+    // The content type is that of its error page, not of the file.
+    if (response.status === 416 && total && Number(total[1]) === 0) {
+      await response.body?.cancel();
+      return { info: { size: 0, contentType: 'application/octet-stream' }, data: Buffer.alloc(0) };
+    }
+
+    if (response.status !== 206) {
+      await response.body?.cancel();
+      throw new RangeFetchError(`Device responded with ${response.status}`, response.status);
+    }
+
+    if (!total) {
+      await response.body?.cancel();
+      throw new RangeFetchError('Device sent a partial response without its total size');
+    }
+
+    return {
+      info: {
+        size: Number(total[1]),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined,
+      },
+      data: Buffer.from(await response.arrayBuffer()),
+    };
+  };
+}
+
+/**
+ * Answer a request whose handler threw, or cut it off if the response started
+ */
+function failRequest(res: express.Response, what: string, error: unknown) {
+  console.error(`Failed to serve ${what}:`, error);
+  if (!res.headersSent) {
+    res.status(500).json({ error: `Could not serve ${what}` });
+  } else {
+    res.destroy();
+  }
+}
+
+function waitForDrain(res: express.Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * Answer a request, ranged or not, from blocks cached on the bridge
+ */
+async function serveCached(
+  manager: DeviceConnectionManager,
+  cache: RangeCache,
+  req: express.Request<{ id: string }>,
+  res: express.Response,
+  phonePath: string
+) {
+  const connection = getConnectedDevice(manager, req, res);
+  if (!connection) return;
+
+  const key = `${connection.device.id}${phonePath}`;
+  const fetcher = phoneRangeFetcher(`http://${connection.device.ip}:${PORTS.HTTP}${phonePath}`);
+
+  let info;
+  try {
+    info = await cache.info(key, fetcher);
+  } catch (error) {
+    // A phone without range support still gets its file streamed, just uncached
+    if (error instanceof RangeFetchError && error.status === 200) {
+      proxyToDevice(manager, req, res, phonePath);
+      return;
+    }
+    const status = error instanceof RangeFetchError && error.status && error.status < 500 ? error.status : 502;
+    res.status(status).json({ error: `Could not read from device: ${(error as Error).message}` });
+    return;
+  }
+
+  // A stale If-Range gets the whole current file instead of a piece of it
+  const requested = ifRangeMatches(req.header('if-range'), info)
+    ? parseRange(req.header('range'), info.size)
+    : null;
+
+  if (requested === 'unsatisfiable') {
+    res.status(416).setHeader('Content-Range', `bytes */${info.size}`).end();
+    return;
+  }
+
+  const range = requested || { start: 0, end: info.size - 1 };
+  res.status(requested ? 206 : 200);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Type', info.contentType);
+  res.setHeader('Content-Length', range.end - range.start + 1);
+  if (requested) {
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+  }
+  if (info.etag) {
+    res.setHeader('ETag', info.etag);
+  }
+  if (info.lastModified) {
+    res.setHeader('Last-Modified', info.lastModified);
+  }
+
+  if (req.method === 'HEAD' || info.size === 0) {
+    res.end();
+    return;
+  }
+
+  try {
+    for await (const chunk of cache.read(key, fetcher, range)) {
+      if (res.destroyed) {
+        return;
+      }
+      if (!res.write(chunk)) {
+        await waitForDrain(res);
+      }
+    }
+    res.end();
+  } catch (error) {
+    console.warn(`Cached stream from ${connection.device.name} failed:`, (error as Error).message);
+    res.destroy();
+  }
+}
@@ -1,6 +1,8 @@
 import net from 'net';
 import { EventEmitter } from 'events';
 import { PORTS, PROTOCOL, getPlatformCode } from './constants';
+import { JsonStreamDecoder } from './json-stream-decoder';
+import { getLocalAddressFor } from './network-interfaces';
 import os from 'os';
 
 export interface DeviceConnection extends EventEmitter {
@@ -17,9 +19,16 @@ export class CommandClient extends EventEmitter implements DeviceConnection {
   private socket: net.Socket | null = null;
   private deviceIp: string = '';
   private isConnectedFlag = false;
+  private decoder = new JsonStreamDecoder({
+    onError: (error, raw) => {
+      console.error('Failed to parse command:', error.message);
+      console.error('Raw data that failed to parse:', raw);
+    },
+  });
 
   async connect(deviceIp: string): Promise<void> {
     this.deviceIp = deviceIp;
+    this.decoder.reset();
 
     return new Promise((resolve, reject) => {
       console.log(`Connecting to command server at ${deviceIp}:${PORTS.CMD}`);
@@ -58,20 +67,13 @@ export class CommandClient extends EventEmitter implements DeviceConnection {
         resolve();
       });
 
-      // Handle incoming data
+      // Handle incoming data - one chunk may hold several messages or part of one
       this.socket.on('data', (data) => {
-        try {
-          const dataStr = data.toString();
-          console.log('Raw command data received:', dataStr);
-          console.log('Data length:', dataStr.length);
-          console.log('Data bytes:', data);
+        console.log(`Raw command data received: ${data.length} bytes`);
 
-          const message = JSON.parse(dataStr);
+        for (const message of this.decoder.write(data)) {
           console.log('Parsed command:', JSON.stringify(message, null, 2));
           this.handleCommand(message);
-        } catch (error) {
-          console.error('Failed to parse command:', error);
-          console.error('Raw data that failed to parse:', data.toString());
         }
       });
 
@@ -125,6 +127,14 @@ export class CommandClient extends EventEmitter implements DeviceConnection {
         this.emit('mobile:info', mobileInfo);
         break;
 
+      case PROTOCOL.CMD_PAIRING_CONFIRM:
+        this.emit('pairing:confirm', data || {});
+        break;
+
+      case PROTOCOL.CMD_TRUST_PROOF:
+        this.emit('trust:proof', data || {});
+        break;
+
       default:
         console.log('Unknown command:', cmd);
         this.emit('command', message);
@@ -146,15 +156,7 @@ export class CommandClient extends EventEmitter implements DeviceConnection {
   }
 
   private getLocalIP(): string {
-    const interfaces = os.networkInterfaces();
-    for (const name of Object.keys(interfaces)) {
-      for (const iface of interfaces[name]!) {
-        if ('IPv4' === iface.family && !iface.internal) {
-          return iface.address;
-        }
-      }
-    }
-    return '127.0.0.1';
+    return getLocalAddressFor(this.deviceIp);
   }
 
   sendCommand(cmd: number, data?: any) {
@@ -194,13 +196,21 @@ export class HeartbeatClient extends EventEmitter implements DeviceConnection {
   private lastHeartbeatValue = -1; // Start at -1 so first heartbeat is 0
   private lastHeartbeatTime = 0;
   private waitingForResponse = false;
-  private readonly HEARTBEAT_TIMEOUT = 5000; // 5 seconds timeout
+  private missedHeartbeats = 0;
+  private decoder = new JsonStreamDecoder({
+    onError: (error, raw) => {
+      // Heartbeat might be plain text
+      console.log('Heartbeat data:', raw, `(${error.message})`);
+    },
+  });
 
   async connect(deviceIp: string): Promise<void> {
     this.deviceIp = deviceIp;
     this.lastHeartbeatValue = -1; // Reset to -1 so first heartbeat is 0
     this.lastHeartbeatTime = 0;
     this.waitingForResponse = false;
+    this.missedHeartbeats = 0;
+    this.decoder.reset();
 
     return new Promise((resolve, reject) => {
       console.log(`Connecting to heartbeat server at ${deviceIp}:${PORTS.HEARTBEAT}`);
@@ -236,28 +246,8 @@ export class HeartbeatClient extends EventEmitter implements DeviceConnection {
 
       // Handle incoming data
       this.socket.on('data', (data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          console.log('Heartbeat response:', message);
-
-          // Stop timeout timer when response received
-          this.stopTimeoutTimer();
-          this.waitingForResponse = false;
-
-          // Update heartbeat value from response
-          this.lastHeartbeatValue = message.value || 0;
-
-          // Schedule next heartbeat after 2 seconds
-          setTimeout(() => {
-            if (this.isConnectedFlag) {
-              this.sendHeartbeat();
-            }
-          }, 2000);
-
-          this.emit('heartbeat', message);
-        } catch (error) {
-          // Heartbeat might be plain text
-          console.log('Heartbeat data:', data.toString());
+        for (const message of this.decoder.write(data)) {
+          this.handleHeartbeatResponse(message);
         }
       });
 
@@ -301,6 +291,30 @@ export class HeartbeatClient extends EventEmitter implements DeviceConnection {
     });
   }
 
+  private handleHeartbeatResponse(message: any) {
+    console.log('Heartbeat response:', message);
+
+    // Stop timeout timer when response received
+    this.stopTimeoutTimer();
+    this.waitingForResponse = false;
+    this.missedHeartbeats = 0;
+
+    // Round trip of the heartbeat we are waiting on
+    const rtt = Date.now() - this.lastHeartbeatTime;
+
+    // Update heartbeat value from response
+    this.lastHeartbeatValue = message.value || 0;
+
+    // Schedule next heartbeat after 2 seconds
+    setTimeout(() => {
+      if (this.isConnectedFlag) {
+        this.sendHeartbeat();
+      }
+    }, 2000);
+
+    this.emit('heartbeat', message, rtt);
+  }
+
   private sendHeartbeat() {
     if (!this.isConnectedFlag || !this.socket || this.waitingForResponse) {
       return;
@@ -328,15 +342,23 @@ export class HeartbeatClient extends EventEmitter implements DeviceConnection {
     this.stopTimeoutTimer();
 
     this.timeoutTimer = setTimeout(() => {
-      console.log('Heartbeat timeout - no response received');
-      this.emit('timeout');
+      this.missedHeartbeats++;
+      console.log(`Heartbeat timeout - no response received (${this.missedHeartbeats}/${PROTOCOL.HEARTBEAT_MAX_MISSED})`);
+      this.emit('timeout', this.missedHeartbeats);
 
-      // Disconnect on timeout
+      if (this.missedHeartbeats < PROTOCOL.HEARTBEAT_MAX_MISSED) {
+        // Give the link another chance before dropping it
+        this.waitingForResponse = false;
+        this.sendHeartbeat();
+        return;
+      }
+
+      // Disconnect after too many consecutive misses
       if (this.isConnectedFlag) {
         this.disconnect();
         this.emit('disconnected');
       }
-    }, this.HEARTBEAT_TIMEOUT);
+    }, PROTOCOL.HEARTBEAT_TIMEOUT);
   }
 
   private stopTimeoutTimer() {
@@ -355,15 +377,7 @@ export class HeartbeatClient extends EventEmitter implements DeviceConnection {
   }
 
   private getLocalIP(): string {
-    const interfaces = os.networkInterfaces();
-    for (const name of Object.keys(interfaces)) {
-      for (const iface of interfaces[name]!) {
-        if ('IPv4' === iface.family && !iface.internal) {
-          return iface.address;
-        }
-      }
-    }
-    return '127.0.0.1';
+    return getLocalAddressFor(this.deviceIp);
   }
 
   sendCommand(cmd: number, data?: any) {
@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDataFile } from './data-dir';
+import { MobileConnection } from './device-connection-manager';
+import { PORTS } from './constants';
+import { StreamParams, streamQuery } from '../lib/device-stream';
+
+/**
+ * A thumbnail the phone renders: a /stream endpoint such as
+ * `image/thumbnail/12/400/400` with its parameters, and the modification
+ * time of the media it shows, so edited media gets a fresh thumbnail.
+ */
+export interface ThumbnailSource {
+  endpoint: string;
+  params?: StreamParams;
+  version: string | number;
+}
+
+interface CacheEntry {
+  file: string;          // Name inside the cache directory
+  size: number;
+  contentType: string;
+  lastUsedAt: number;
+}
+
+export type ThumbnailResult =
+  | { ok: true; filePath: string; contentType: string }
+  | { ok: false; status: number };
+
+type Fetched = { status: number; contentType?: string; data?: Buffer };
+
+const DEFAULT_LIMIT_MB = 256;
+const INDEX_FILE = 'index.json';
+const SAVE_DELAY_MS = 5000;
+const FETCH_TIMEOUT_MS = 30000;
+const PREFETCH_CONCURRENCY = 2;
+// Prefetches waiting beyond this are dropped, oldest first
+const PREFETCH_QUEUE_LIMIT = 200;
+
+/**
+ * Size limit from THUMBNAIL_CACHE_MB, 256 MB by default
+ */
+export function thumbnailCacheLimit(): number {
+  const limit = Number(process.env.THUMBNAIL_CACHE_MB);
+  return (process.env.THUMBNAIL_CACHE_MB && limit >= 0 ? limit : DEFAULT_LIMIT_MB) * 1024 * 1024;
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex');
+}
+
+/**
+ * Thumbnails fetched from phones, kept on disk between runs so scrolling a
+ * gallery again does not make the phone render them again. Entries are keyed
+ * by phone, endpoint (media id and size) and modification time. The least
+ * recently used ones are removed once the cache grows past its limit.
+ */
+export class ThumbnailCache {
+  private entries = new Map<string, CacheEntry>();   // Least recently used first
+  private pending = new Map<string, Promise<ThumbnailResult>>();
+  private queue = new Map<string, () => Promise<ThumbnailResult>>();
+  private activePrefetches = 0;
+  private totalBytes = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private dir: string = getDataFile('thumbnails'),
+    private maxBytes: number = thumbnailCacheLimit()
+  ) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.load();
+  }
+
+  /**
+   * ETag of a thumbnail. Keys carry the media's modification time, so the
+   * same key always stands for the same image.
+   */
+  etag(identity: string, source: ThumbnailSource): string {
+    return `"${hash(this.key(identity, source))}"`;
+  }
+
+  /**
+   * Thumbnail of the phone with this identity (see MobileConnection). Without a
+   * connection only what is already cached can be served, e.g. while the
+   * phone is offline.
+   */
+  async get(identity: string, source: ThumbnailSource, connection?: MobileConnection): Promise<ThumbnailResult> {
+    const key = this.key(identity, source);
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      const filePath = path.join(this.dir, entry.file);
+      if (fs.existsSync(filePath)) {
+        this.entries.delete(key);
+        this.entries.set(key, { ...entry, lastUsedAt: Date.now() });
+        this.scheduleSave();
+        return { ok: true, filePath, contentType: entry.contentType };
+      }
+      // Removed behind our back, fetch it again
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+    }
+
+    if (!connection) {
+      return { ok: false, status: 404 };
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.fill(key, connection, source).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  /**
+   * Fetch thumbnails in the background, a few at a time
+   */
+  prefetch(identity: string, connection: MobileConnection, sources: ThumbnailSource[]) {
+    for (const source of sources) {
+      const key = this.key(identity, source);
+      if (this.entries.has(key) || this.pending.has(key) || this.queue.has(key)) {
+        continue;
+      }
+      this.queue.set(key, () => this.get(identity, source, connection));
+      if (this.queue.size > PREFETCH_QUEUE_LIMIT) {
+        this.queue.delete(this.queue.keys().next().value!);
+      }
+    }
+    this.runPrefetches();
+  }
+
+  /**
+   * Write the index now, e.g. before the server exits
+   */
+  flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+
+  private key(identity: string, source: ThumbnailSource): string {
+    const params = Object.entries(source.params || {}).sort(([a], [b]) => a.localeCompare(b));
+    return [
+      identity,
+      source.endpoint + streamQuery(Object.fromEntries(params)),
+      source.version,
+    ].join('|');
+  }
+
+  private runPrefetches() {
+    while (this.activePrefetches < PREFETCH_CONCURRENCY && this.queue.size > 0) {
+      const [key, run] = this.queue.entries().next().value!;
+      this.queue.delete(key);
+      this.activePrefetches++;
+      run()
+        .catch(() => {
+          // Best effort, the browser asks again when it needs the thumbnail
+        })
+        .finally(() => {
+          this.activePrefetches--;
+          this.runPrefetches();
+        });
+    }
+  }
+
+  private async fill(key: string, connection: MobileConnection, source: ThumbnailSource): Promise<ThumbnailResult> {
+    const fetched = await this.fetchFromDevice(connection, source);
+    if (fetched.status !== 200 || !fetched.data) {
+      return { ok: false, status: fetched.status };
+    }
+
+    const file = hash(key);
+    const filePath = path.join(this.dir, file);
+    const contentType = fetched.contentType || 'image/jpeg';
+    await fs.promises.writeFile(filePath, fetched.data);
+
+    const previous = this.entries.get(key);
+    if (previous) {
+      this.totalBytes -= previous.size;
+      this.entries.delete(key);
+    }
+    this.entries.set(key, { file, size: fetched.data.length, contentType, lastUsedAt: Date.now() });
+    this.totalBytes += fetched.data.length;
+    this.evict();
+    this.scheduleSave();
+
+    return { ok: true, filePath, contentType };
+  }
+
+  private async fetchFromDevice(connection: MobileConnection, source: ThumbnailSource): Promise<Fetched> {
+    const endpoint = source.endpoint.split('/').map(encodeURIComponent).join('/');
+    const url = `http://${connection.device.ip}:${PORTS.HTTP}/stream/${endpoint}${streamQuery(source.params)}`;
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        await response.body?.cancel();
+        return { status: response.status };
+      }
+      return {
+        status: 200,
+        contentType: response.headers.get('content-type') || undefined,
+        data: Buffer.from(await response.arrayBuffer()),
+      };
+    } catch (error: any) {
+      console.warn(`Failed to fetch thumbnail ${source.endpoint} from ${connection.device.name}:`, error.message);
+      return { status: 502 };
+    }
+  }
+
+  // Oldest first, never the entry just added
+  private evict() {
+    for (const [key, entry] of this.entries) {
+      if (this.totalBytes <= this.maxBytes || this.entries.size <= 1) {
+        break;
+      }
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+      fs.rm(path.join(this.dir, entry.file), { force: true }, () => {});
+    }
+  }
+
+  private scheduleSave() {
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = null;
+        this.save();
+      }, SAVE_DELAY_MS);
+      this.saveTimer.unref();
+    }
+  }
+
+  private load() {
+    const indexPath = path.join(this.dir, INDEX_FILE);
+    try {
+      if (fs.existsSync(indexPath)) {
+        const data: [string, CacheEntry][] = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+        for (const [key, entry] of data) {
+          if (fs.existsSync(path.join(this.dir, entry.file))) {
+            this.entries.set(key, entry);
+            this.totalBytes += entry.size;
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to read thumbnail cache index ${indexPath}:`, error);
+    }
+
+    // Files the index does not know about, e.g. after a crash before it was saved
+    const known = new Set(Array.from(this.entries.values(), (entry) => entry.file));
+    for (const file of fs.readdirSync(this.dir)) {
+      if (file !== INDEX_FILE && !known.has(file)) {
+        fs.rmSync(path.join(this.dir, file), { force: true });
+      }
+    }
+
+    // The limit may have been lowered since the last run
+    this.evict();
+    console.log(`Thumbnail cache: ${this.entries.size} thumbnails, ${(this.totalBytes / 1024 / 1024).toFixed(1)} MB`);
+  }
+
+  private save() {
+    const indexPath = path.join(this.dir, INDEX_FILE);
+    try {
+      fs.writeFileSync(`${indexPath}.tmp`, JSON.stringify(Array.from(this.entries)), 'utf-8');
+      fs.renameSync(`${indexPath}.tmp`, indexPath);
+    } catch (error) {
+      console.error(`Failed to save thumbnail cache index ${indexPath}:`, error);
+    }
+  }
+}
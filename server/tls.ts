@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generate } from 'selfsigned';
+import { getDataFile } from './data-dir';
+import { listIPv4Interfaces } from './network-interfaces';
+
+export interface TlsConfig {
+  cert: string;
+  key: string;
+  fingerprint: string;  // SHA-256, colon separated as browsers show it
+  selfSigned: boolean;
+  certFile: string;
+  keyFile: string;
+}
+
+// Generated certificates are replaced this long before they expire
+const RENEW_BEFORE_MS = 30 * 24 * 60 * 60 * 1000;
+const VALIDITY_DAYS = 825;
+
+export function getFingerprint(cert: string): string {
+  return new crypto.X509Certificate(cert).fingerprint256;
+}
+
+/**
+ * TLS settings from the environment, or null to serve plain http/ws.
+ *
+ * TLS_CERT_FILE and TLS_KEY_FILE point at a user-provided certificate.
+ * TLS=true without them uses a self-signed certificate kept in the data
+ * directory, so its fingerprint stays the same across restarts.
+ */
+export async function loadTlsConfig(): Promise<TlsConfig | null> {
+  const certFile = process.env.TLS_CERT_FILE;
+  const keyFile = process.env.TLS_KEY_FILE;
+
+  if (certFile || keyFile) {
+    if (!certFile || !keyFile) {
+      throw new Error('TLS_CERT_FILE and TLS_KEY_FILE must be set together');
+    }
+    const cert = fs.readFileSync(certFile, 'utf-8');
+    return {
+      cert,
+      key: fs.readFileSync(keyFile, 'utf-8'),
+      fingerprint: getFingerprint(cert),
+      selfSigned: false,
+      certFile,
+      keyFile,
+    };
+  }
+
+  if (process.env.TLS !== 'true') {
+    return null;
+  }
+
+  return loadSelfSigned();
+}
+
+/**
+ * Reuse the stored self-signed certificate, or create one for this machine's
+ * hostname and addresses. Delete the tls directory to issue a new one.
+ */
+async function loadSelfSigned(): Promise<TlsConfig> {
+  const dir = getDataFile('tls');
+  const certFile = path.join(dir, 'cert.pem');
+  const keyFile = path.join(dir, 'key.pem');
+
+  if (fs.existsSync(certFile) && fs.existsSync(keyFile)) {
+    const cert = fs.readFileSync(certFile, 'utf-8');
+    const validTo = Date.parse(new crypto.X509Certificate(cert).validTo);
+    if (validTo - Date.now() > RENEW_BEFORE_MS) {
+      return {
+        cert,
+        key: fs.readFileSync(keyFile, 'utf-8'),
+        fingerprint: getFingerprint(cert),
+        selfSigned: true,
+        certFile,
+        keyFile,
+      };
+    }
+    console.log('Self-signed certificate is about to expire, generating a new one');
+  }
+
+  const hostname = os.hostname();
+  const addresses = ['127.0.0.1', ...listIPv4Interfaces().map((iface) => iface.address)];
+  console.log(`Generating self-signed certificate for localhost, ${hostname}, ${addresses.join(', ')}`);
+
+  const notBeforeDate = new Date();
+  const notAfterDate = new Date(notBeforeDate.getTime() + VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  const pems = await generate([{ name: 'commonName', value: hostname || 'localhost' }], {
+    keyType: 'ec',
+    curve: 'P-256',
+    algorithm: 'sha256',
+    notBeforeDate,
+    notAfterDate,
+    extensions: [
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+      { name: 'extKeyUsage', serverAuth: true },
+      {
+        name: 'subjectAltName',
+        altNames: [
+          { type: 2, value: 'localhost' },
+          ...(hostname ? [{ type: 2 as const, value: hostname }] : []),
+          ...Array.from(new Set(addresses)).map((ip) => ({ type: 7 as const, ip })),
+        ],
+      },
+    ],
+  });
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(certFile, pems.cert, 'utf-8');
+  fs.writeFileSync(keyFile, pems.private, { encoding: 'utf-8', mode: 0o600 });
+
+  return {
+    cert: pems.cert,
+    key: pems.private,
+    fingerprint: getFingerprint(pems.cert),
+    selfSigned: true,
+    certFile,
+    keyFile,
+  };
+}
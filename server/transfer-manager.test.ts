@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { DeviceConnectionManager } from './device-connection-manager';
+import { TransferManager, freePath, hostFileName } from './transfer-manager';
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'transfer-manager-'));
+}
+
+test('keeps only the last part of a name with folders in it', () => {
+  assert.equal(hostFileName('../escaped.md'), 'escaped.md');
+  assert.equal(hostFileName('../../etc/cron.d/job'), 'job');
+  assert.equal(hostFileName('photo.jpg'), 'photo.jpg');
+});
+
+test('refuses names that are no file name at all', () => {
+  for (const name of ['', '  ', '.', '..', '../..', 'a/..', 'folder\\..\\escaped.md', 'bad\0name']) {
+    assert.throws(() => hostFileName(name), /Invalid file name/, JSON.stringify(name));
+  }
+});
+
+test('saves a traversal name inside the host folder', () => {
+  const dir = tempDir();
+  const destination = freePath(dir, hostFileName('../escaped.md'));
+  assert.equal(destination, path.join(dir, 'escaped.md'));
+});
+
+test('refuses a destination outside the host folder', () => {
+  const dir = tempDir();
+  assert.throws(() => freePath(dir, '../escaped.md'), /outside/);
+  assert.throws(() => freePath(dir, '..'), /outside/);
+  assert.equal(fs.existsSync(path.join(dir, '..', 'escaped.md')), false);
+});
+
+test('numbers a name that is taken', () => {
+  const dir = tempDir();
+  fs.writeFileSync(path.join(dir, 'report.pdf'), '');
+  fs.writeFileSync(path.join(dir, 'report (1).pdf'), '');
+  assert.equal(freePath(dir, 'report.pdf'), path.join(dir, 'report (2).pdf'));
+});
+
+test('does not retry an upload that was cut off while arriving from the browser', async () => {
+  const dir = tempDir();
+  const transfers = new TransferManager({} as DeviceConnectionManager, { dir });
+  const source = new Readable({ read() {} });
+  source.push(Buffer.alloc(1024));
+  setImmediate(() => source.destroy(new Error('Connection reset')));
+
+  const request = { deviceId: 'device_1', path: '/storage/emulated/0', fileName: 'video.mp4', fileSize: 4096 };
+  await assert.rejects(transfers.addUpload(request, source), /Connection reset/);
+
+  const [task] = transfers.list();
+  assert.equal(task.status, 'failed');
+  assert.equal(task.retryable, false);
+  assert.deepEqual(fs.readdirSync(dir), []);
+
+  transfers.resume(task.id);
+  assert.equal(transfers.get(task.id)?.status, 'failed');
+});
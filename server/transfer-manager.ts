@@ -0,0 +1,474 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream } from 'stream/web';
+import { TransferTask } from '../types';
+import { getDataFile } from './data-dir';
+import { DeviceConnectionManager, MobileConnection } from './device-connection-manager';
+import { PORTS } from './constants';
+import { idleGuard, sendFileToDevice } from './device-upload';
+
+export interface TransferManagerOptions {
+  dir?: string;
+  hostDir?: string;                       // Folder on this host downloads can be saved into
+  concurrency?: number;                   // Transfers running at once, default 2
+  onUpdate?: (task: TransferTask) => void;
+  onRemove?: (transferId: string) => void;
+}
+
+export interface DownloadRequest {
+  deviceId: string;
+  path: string;
+  paths?: string[];       // Several files, which the phone sends as one zip
+  fileName?: string;
+  fileSize?: number;
+  saveToHost?: boolean;   // Keep it in hostDir instead of handing it to the browser
+}
+
+export interface UploadRequest {
+  deviceId: string;
+  path: string;      // Folder on the phone
+  fileName: string;
+  fileSize: number;
+}
+
+interface Job {
+  task: TransferTask;
+  filePath: string;              // Downloaded file, or the upload staged from the browser
+  source?: string;               // Path and query on the phone a download is read from
+  saveToHost?: boolean;
+  staging: boolean;              // Upload still arriving from the browser
+  abort?: AbortController;
+  lastSampleAt: number;
+  lastSampleBytes: number;
+  lastEmitAt: number;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const UPDATE_INTERVAL_MS = 250;
+// Weight of the latest sample in the smoothed speed
+const SPEED_SMOOTHING = 0.3;
+// Finished transfers kept for the transfers panel, oldest are removed first
+const FINISHED_LIMIT = 50;
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Name a download is saved under in the host folder: the last part of what
+ * was asked for, and never one that could lead out of the folder
+ */
+export function hostFileName(fileName: string): string {
+  const name = path.basename(fileName.trim());
+  if (!name || name === '.' || name === '..' || /[\\/\0]/.test(name)) {
+    throw new Error(`Invalid file name: ${fileName}`);
+  }
+  return name;
+}
+
+/**
+ * name.ext, then "name (1).ext" and so on until it is free. Throws for a
+ * name that does not stay inside dir.
+ */
+export function freePath(dir: string, fileName: string): string {
+  const root = path.resolve(dir);
+  const inside = (candidate: string) => {
+    if (!path.resolve(candidate).startsWith(root + path.sep)) {
+      throw new Error(`${fileName} would be saved outside ${dir}`);
+    }
+    return candidate;
+  };
+  const { name, ext } = path.parse(fileName);
+  let candidate = inside(path.join(root, fileName));
+  for (let i = 1; fs.existsSync(candidate); i++) {
+    candidate = inside(path.join(root, `${name} (${i})${ext}`));
+  }
+  return candidate;
+}
+
+function isFinished(task: TransferTask): boolean {
+  return task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled';
+}
+
+/**
+ * Queue of uploads to and downloads from phones, run a few at a time by the
+ * bridge. Progress, speed and remaining time of each transfer are reported
+ * through onUpdate while it runs.
+ *
+ * Downloads are written to the data directory and handed to the browser
+ * once complete, a paused download resumes with a range request. A completed
+ * download has been checked against the size the phone announced. Phones
+ * report no checksum, the SHA-256 it carries is of the bridge's copy and
+ * only lets the browser, or a copy in the hostDir, be checked against that.
+ * Uploads are staged in the data directory first. Phones cannot append to a
+ * file, so a paused upload starts over when it is resumed.
+ */
+export class TransferManager {
+  private jobs = new Map<string, Job>();   // In the order they were added
+  private active = 0;
+  private dir: string;
+  private concurrency: number;
+  readonly hostDir: string | null;
+
+  constructor(private manager: DeviceConnectionManager, private options: TransferManagerOptions = {}) {
+    this.dir = options.dir || getDataFile('transfers');
+    this.concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+    this.hostDir = options.hostDir ? path.resolve(options.hostDir) : null;
+
+    // Transfers only live as long as the server, left-over files are of no use
+    fs.rmSync(this.dir, { recursive: true, force: true });
+    fs.mkdirSync(this.dir, { recursive: true });
+    if (this.hostDir) {
+      fs.mkdirSync(this.hostDir, { recursive: true });
+    }
+  }
+
+  list(): TransferTask[] {
+    return Array.from(this.jobs.values(), (job) => job.task);
+  }
+
+  get(transferId: string): TransferTask | undefined {
+    return this.jobs.get(transferId)?.task;
+  }
+
+  /**
+   * File of a completed download, for the browser to save
+   */
+  downloadedFile(transferId: string): string | undefined {
+    const job = this.jobs.get(transferId);
+    return job && job.task.type === 'download' && job.task.status === 'completed' && !job.task.savedTo
+      ? job.filePath
+      : undefined;
+  }
+
+  addDownload(request: DownloadRequest): TransferTask {
+    if (request.saveToHost && !this.hostDir) {
+      throw new Error('No download folder is configured on the server');
+    }
+
+    const paths = request.paths && request.paths.length > 1 ? request.paths : undefined;
+    const fileName = request.fileName || (paths ? `batch_download_${Date.now()}.zip` : path.posix.basename(request.path));
+    const job = this.createJob('download', {
+      deviceId: request.deviceId,
+      path: paths ? paths.join(',') : request.path,
+      // Checked up front, so a bad name is refused instead of failing the finished download
+      fileName: request.saveToHost ? hostFileName(fileName) : fileName,
+      fileSize: paths ? 0 : request.fileSize || 0,
+    });
+    job.source = paths
+      ? `/stream/file/multipart?paths=${encodeURIComponent(paths.join(','))}`
+      : `/stream/file?path=${encodeURIComponent(request.path)}`;
+    job.saveToHost = request.saveToHost;
+    this.pump();
+    return job.task;
+  }
+
+  /**
+   * Stage a file sent by the browser and queue its upload once it is complete
+   */
+  async addUpload(request: UploadRequest, source: Readable): Promise<TransferTask> {
+    const job = this.createJob('upload', request);
+    job.staging = true;
+    job.abort = new AbortController();
+    try {
+      await pipeline(source, fs.createWriteStream(job.filePath), { signal: job.abort.signal });
+      job.task.fileSize = fs.statSync(job.filePath).size;
+    } catch (error) {
+      // Only part of the file arrived, there is nothing to retry the upload with
+      fs.rmSync(job.filePath, { force: true });
+      job.task.retryable = false;
+      if (!isFinished(job.task)) {
+        this.finish(job, 'failed', `Upload from the browser failed: ${(error as Error).message}`);
+      }
+      throw error;
+    } finally {
+      job.staging = false;
+      job.abort = undefined;
+    }
+
+    this.pump();
+    return job.task;
+  }
+
+  /**
+   * Queue the upload of a file the browser has already sent in full. The
+   * file is moved into the transfer directory.
+   */
+  addStagedUpload(request: UploadRequest, stagedFile: string): TransferTask {
+    const job = this.createJob('upload', request);
+    fs.renameSync(stagedFile, job.filePath);
+    this.pump();
+    return job.task;
+  }
+
+  pause(transferId: string) {
+    const job = this.jobs.get(transferId);
+    if (!job || job.staging || (job.task.status !== 'pending' && job.task.status !== 'transferring')) return;
+
+    this.setStatus(job, 'paused');
+    job.abort?.abort();
+  }
+
+  resume(transferId: string) {
+    const job = this.jobs.get(transferId);
+    if (!job || (job.task.status !== 'paused' && job.task.status !== 'failed')) return;
+    if (job.task.type === 'upload' && !this.isStaged(job)) return;
+
+    job.task.error = undefined;
+    job.task.finishedAt = undefined;
+    this.setStatus(job, 'pending');
+    this.pump();
+  }
+
+  cancel(transferId: string) {
+    const job = this.jobs.get(transferId);
+    if (!job || isFinished(job.task)) return;
+
+    job.abort?.abort();
+    this.finish(job, 'cancelled');
+    fs.rm(job.filePath, { force: true }, () => {});
+  }
+
+  /**
+   * Forget a transfer, cancelling it first if it still runs
+   */
+  remove(transferId: string) {
+    const job = this.jobs.get(transferId);
+    if (!job) return;
+
+    this.cancel(transferId);
+    this.jobs.delete(transferId);
+    fs.rm(job.filePath, { force: true }, () => {});
+    this.options.onRemove?.(transferId);
+  }
+
+  // An upload can only be sent again while its whole file is staged
+  private isStaged(job: Job): boolean {
+    try {
+      return fs.statSync(job.filePath).size === job.task.fileSize;
+    } catch {
+      return false;
+    }
+  }
+
+  private createJob(
+    type: TransferTask['type'],
+    details: Pick<TransferTask, 'deviceId' | 'path' | 'fileName' | 'fileSize'>
+  ): Job {
+    const id = crypto.randomUUID();
+    const job: Job = {
+      task: {
+        id,
+        type,
+        ...details,
+        progress: 0,
+        transferredBytes: 0,
+        status: 'pending',
+        createdAt: Date.now(),
+      },
+      filePath: path.join(this.dir, id),
+      staging: false,
+      lastSampleAt: 0,
+      lastSampleBytes: 0,
+      lastEmitAt: 0,
+    };
+    this.jobs.set(id, job);
+    this.emit(job);
+    return job;
+  }
+
+  // Start queued transfers while there is room, uploads still being staged wait
+  private pump() {
+    for (const job of this.jobs.values()) {
+      if (this.active >= this.concurrency) break;
+      if (job.task.status === 'pending' && !job.staging) {
+        this.run(job);
+      }
+    }
+  }
+
+  private async run(job: Job) {
+    this.active++;
+    job.abort = new AbortController();
+    this.setStatus(job, 'transferring');
+
+    try {
+      const connection = this.manager.getConnection(job.task.deviceId);
+      if (!connection || !connection.stateMachine.isConnected) {
+        throw new Error(`Device ${job.task.deviceId} is not connected`);
+      }
+
+      if (job.task.type === 'download') {
+        await this.download(job, connection);
+      } else {
+        await this.upload(job, connection);
+      }
+      this.finish(job, 'completed');
+      console.log(`Transfer ${job.task.type} of ${job.task.fileName} completed`);
+    } catch (error) {
+      // Paused and cancelled transfers were aborted on purpose
+      if (job.task.status === 'transferring') {
+        console.warn(`Transfer ${job.task.type} of ${job.task.fileName} failed:`, (error as Error).message);
+        this.finish(job, 'failed', (error as Error).message);
+      }
+    } finally {
+      job.abort = undefined;
+      this.active--;
+      this.pump();
+    }
+  }
+
+  private async download(job: Job, connection: MobileConnection) {
+    const { task } = job;
+    const offset = fs.existsSync(job.filePath) ? fs.statSync(job.filePath).size : 0;
+    const url = `http://${connection.device.ip}:${PORTS.HTTP}${job.source}`;
+
+    const response = await fetch(url, {
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : {},
+      signal: job.abort!.signal,
+    });
+    if (response.status !== 200 && response.status !== 206) {
+      await response.body?.cancel();
+      throw new Error(`Device responded with ${response.status}`);
+    }
+
+    // A phone without range support sends the whole file again
+    const resumed = response.status === 206;
+    const length = Number(response.headers.get('content-length')) || 0;
+    task.fileSize = length ? length + (resumed ? offset : 0) : task.fileSize;
+    this.startSampling(job, resumed ? offset : 0);
+
+    await pipeline(
+      Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      this.progressCounter(job),
+      fs.createWriteStream(job.filePath, { flags: resumed ? 'a' : 'w' })
+    );
+
+    const size = fs.statSync(job.filePath).size;
+    if (length && size !== task.fileSize) {
+      // Start over rather than resume from a file that may be damaged
+      fs.rmSync(job.filePath, { force: true });
+      throw new Error(`Download incomplete, got ${size} of ${task.fileSize} bytes`);
+    }
+    task.fileSize = size;
+    task.sha256 = await hashFile(job.filePath);
+
+    if (job.saveToHost) {
+      task.savedTo = await this.saveToHost(job);
+    }
+  }
+
+  // Move a completed download into the host folder and check it arrived intact
+  private async saveToHost(job: Job): Promise<string> {
+    const { task } = job;
+    const destination = freePath(this.hostDir!, hostFileName(task.fileName));
+    try {
+      fs.renameSync(job.filePath, destination);
+    } catch (error) {
+      // The host folder is on another disk
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await fs.promises.copyFile(job.filePath, destination);
+      fs.rmSync(job.filePath, { force: true });
+      if (fs.statSync(destination).size !== task.fileSize || (await hashFile(destination)) !== task.sha256) {
+        fs.rmSync(destination, { force: true });
+        throw new Error(`Copy of ${task.fileName} in ${this.hostDir} is damaged`);
+      }
+    }
+    return destination;
+  }
+
+  private upload(job: Job, connection: MobileConnection): Promise<void> {
+    const { task } = job;
+    this.startSampling(job, 0);
+    // The multipart framing is counted too, progress is capped at the file size
+    return sendFileToDevice(
+      connection.device.ip,
+      task.path,
+      { name: task.fileName, filePath: job.filePath, size: task.fileSize },
+      { signal: job.abort!.signal, through: this.progressCounter(job, task.fileSize) }
+    );
+  }
+
+  /**
+   * Pass-through that counts bytes into the task and fails the transfer
+   * when nothing moves for a while
+   */
+  private progressCounter(job: Job, limit = Infinity): Transform {
+    return idleGuard((bytes) => {
+      job.task.transferredBytes = Math.min(job.task.transferredBytes + bytes, limit);
+      this.sample(job);
+    });
+  }
+
+  private startSampling(job: Job, transferredBytes: number) {
+    job.task.transferredBytes = transferredBytes;
+    job.task.speed = undefined;
+    job.task.remainingTime = undefined;
+    job.lastSampleAt = Date.now();
+    job.lastSampleBytes = transferredBytes;
+    this.updateProgress(job.task);
+    this.emit(job);
+  }
+
+  // Smoothed speed and remaining time, reported a few times a second
+  private sample(job: Job) {
+    const now = Date.now();
+    if (now - job.lastEmitAt < UPDATE_INTERVAL_MS) return;
+
+    const { task } = job;
+    const elapsed = (now - job.lastSampleAt) / 1000;
+    if (elapsed > 0) {
+      const speed = (task.transferredBytes - job.lastSampleBytes) / elapsed;
+      task.speed = task.speed === undefined ? speed : SPEED_SMOOTHING * speed + (1 - SPEED_SMOOTHING) * task.speed;
+      task.remainingTime = task.speed > 0 && task.fileSize > 0
+        ? Math.max(task.fileSize - task.transferredBytes, 0) / task.speed
+        : undefined;
+    }
+    job.lastSampleAt = now;
+    job.lastSampleBytes = task.transferredBytes;
+    this.updateProgress(task);
+    this.emit(job);
+  }
+
+  private updateProgress(task: TransferTask) {
+    task.progress = task.fileSize > 0 ? Math.min((task.transferredBytes / task.fileSize) * 100, 100) : 0;
+  }
+
+  private setStatus(job: Job, status: TransferTask['status']) {
+    job.task.status = status;
+    if (status !== 'transferring') {
+      job.task.speed = undefined;
+      job.task.remainingTime = undefined;
+    }
+    this.emit(job);
+  }
+
+  private finish(job: Job, status: 'completed' | 'failed' | 'cancelled', error?: string) {
+    const { task } = job;
+    if (status === 'completed') {
+      task.transferredBytes = task.fileSize;
+      task.progress = 100;
+    }
+    task.error = error;
+    task.finishedAt = Date.now();
+    this.setStatus(job, status);
+    this.pruneFinished();
+  }
+
+  private pruneFinished() {
+    const finished = this.list().filter(isFinished);
+    for (const task of finished.slice(0, Math.max(finished.length - FINISHED_LIMIT, 0))) {
+      this.remove(task.id);
+    }
+  }
+
+  private emit(job: Job) {
+    job.lastEmitAt = Date.now();
+    this.options.onUpdate?.({ ...job.task });
+  }
+}
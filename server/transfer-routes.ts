@@ -0,0 +1,82 @@
+import express from 'express';
+import { TransferManager } from './transfer-manager';
+
+/**
+ * REST side of the transfer manager: queueing transfers and handing finished
+ * downloads to the browser. Pausing, resuming and cancelling go over the
+ * WebSocket, as do progress updates.
+ */
+export function createTransferRoutes(transfers: TransferManager): express.Router {
+  const router = express.Router();
+
+  router.get('/api/transfers', (req, res) => {
+    res.json(transfers.list());
+  });
+
+  // Where downloads can be saved on this host, null when only the browser can save them
+  router.get('/api/transfers/config', (req, res) => {
+    res.json({ hostDownloadDir: transfers.hostDir });
+  });
+
+  router.post('/api/transfers/download', (req, res) => {
+    const { deviceId, path, paths, fileName, fileSize, saveToHost } = req.body || {};
+    const validPaths = Array.isArray(paths) && paths.length > 0 && paths.every((p) => typeof p === 'string' && p);
+    if (typeof deviceId !== 'string' || !deviceId || !((typeof path === 'string' && path) || validPaths)) {
+      res.status(400).json({ error: 'deviceId and path or paths are required' });
+      return;
+    }
+
+    try {
+      const task = transfers.addDownload({
+        deviceId,
+        path: typeof path === 'string' && path ? path : paths[0],
+        paths: validPaths ? paths : undefined,
+        fileName: typeof fileName === 'string' ? fileName : undefined,
+        fileSize: Number(fileSize) || 0,
+        saveToHost: saveToHost === true,
+      });
+      res.status(201).json(task);
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  // The file is the raw request body, details are in the query
+  router.post('/api/transfers/upload', async (req, res) => {
+    const { deviceId, path, name } = req.query;
+    if (typeof deviceId !== 'string' || !deviceId || typeof path !== 'string' || typeof name !== 'string' || !name) {
+      res.status(400).json({ error: 'deviceId, path and name query parameters are required' });
+      return;
+    }
+
+    try {
+      const task = await transfers.addUpload(
+        { deviceId, path, fileName: name, fileSize: Number(req.header('content-length')) || 0 },
+        req
+      );
+      res.status(201).json(task);
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(400).json({ error: `Failed to receive ${name}: ${(error as Error).message}` });
+      }
+    }
+  });
+
+  router.get('/api/transfers/:id/file', (req, res) => {
+    const task = transfers.get(req.params.id);
+    const filePath = transfers.downloadedFile(req.params.id);
+    if (!task || !filePath) {
+      res.status(404).json({ error: `Transfer ${req.params.id} has no downloaded file` });
+      return;
+    }
+
+    // The data directory is usually .aircontroller, which sendFile refuses by default
+    res.download(filePath, task.fileName, { dotfiles: 'allow' }, (error) => {
+      if (error && !res.headersSent) {
+        res.status(500).end();
+      }
+    });
+  });
+
+  return router;
+}
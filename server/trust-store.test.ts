@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TrustStore, trustProof } from './trust-store';
+
+function tempStoreFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'trust-store-')), 'trusted-devices.json');
+}
+
+test('accepts the proof of a paired phone', () => {
+  const store = new TrustStore(tempStoreFile());
+  const { identity, secret } = store.trust({ type: 'android', name: 'Pixel 7' });
+  assert.equal(store.verify(identity, 'nonce-1', trustProof(secret, 'nonce-1'))?.name, 'Pixel 7');
+});
+
+test('rejects a wrong secret, a replayed nonce and an unknown identity', () => {
+  const store = new TrustStore(tempStoreFile());
+  const { identity, secret } = store.trust({ type: 'android', name: 'Pixel 7' });
+  assert.equal(store.verify(identity, 'nonce-1', trustProof('guessed', 'nonce-1')), undefined);
+  assert.equal(store.verify(identity, 'nonce-2', trustProof(secret, 'nonce-1')), undefined);
+  assert.equal(store.verify('someone-else', 'nonce-1', trustProof(secret, 'nonce-1')), undefined);
+  assert.equal(store.verify(identity, 'nonce-1', undefined), undefined);
+});
+
+test('gives two phones with the same name their own identity', () => {
+  const store = new TrustStore(tempStoreFile());
+  const first = store.trust({ type: 'android', name: 'Pixel 7' });
+  const second = store.trust({ type: 'android', name: 'Pixel 7' });
+  assert.notEqual(first.identity, second.identity);
+  assert.equal(store.verify(second.identity, 'n', trustProof(first.secret, 'n')), undefined);
+});
+
+test('keeps secrets out of the listing but persists them', () => {
+  const file = tempStoreFile();
+  const { identity, secret } = new TrustStore(file).trust({ type: 'android', name: 'Pixel 7' });
+  const reloaded = new TrustStore(file);
+  assert.deepEqual(reloaded.list().map((device) => Object.keys(device).sort()), [
+    ['identity', 'lastSeenAt', 'name', 'pairedAt', 'type'],
+  ]);
+  assert.ok(reloaded.verify(identity, 'n', trustProof(secret, 'n')));
+});
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Device, TrustedDevice } from '../types';
+import { getDataFile } from './data-dir';
+
+/**
+ * What a phone keeps after pairing. The secret never travels again, the
+ * phone answers a fresh challenge with trustProof() on every connect.
+ */
+export interface TrustCredentials {
+  identity: string;
+  secret: string;
+}
+
+interface TrustEntry extends TrustedDevice {
+  secret: string;
+}
+
+/**
+ * Answer to a trust challenge: an HMAC of the nonce under the pairing secret
+ */
+export function trustProof(secret: string, nonce: string): string {
+  return crypto.createHmac('sha256', secret).update(nonce).digest('hex');
+}
+
+/**
+ * Identity of a phone connected with pairing turned off. Nothing about it
+ * is proven, so it is tied to the connection's device id rather than to the
+ * name the phone announces.
+ */
+export function unpairedIdentity(device: Pick<Device, 'id'>): string {
+  return `unpaired:${device.id}`;
+}
+
+/**
+ * Phones that completed pairing, persisted as JSON in the data directory.
+ * Each one gets a random identity and secret, names are only for display.
+ */
+export class TrustStore {
+  private entries: Map<string, TrustEntry> = new Map();
+
+  constructor(private filePath: string = getDataFile('trusted-devices.json')) {
+    this.load();
+  }
+
+  list(): TrustedDevice[] {
+    return Array.from(this.entries.values()).map(({ secret, ...device }) => device);
+  }
+
+  trust(device: Pick<Device, 'type' | 'name'>): TrustCredentials {
+    const credentials: TrustCredentials = {
+      identity: crypto.randomUUID(),
+      secret: crypto.randomBytes(32).toString('hex'),
+    };
+    this.entries.set(credentials.identity, {
+      ...credentials,
+      name: device.name,
+      type: device.type,
+      pairedAt: Date.now(),
+      lastSeenAt: Date.now(),
+    });
+    this.save();
+    return credentials;
+  }
+
+  /**
+   * Trusted phone that answered the challenge nonce correctly, if any
+   */
+  verify(identity: unknown, nonce: string, proof: unknown): TrustedDevice | undefined {
+    if (typeof identity !== 'string' || typeof proof !== 'string') {
+      return undefined;
+    }
+    const entry = this.entries.get(identity);
+    if (!entry) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(trustProof(entry.secret, nonce));
+    const actual = Buffer.from(proof);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return undefined;
+    }
+    const { secret, ...device } = entry;
+    return device;
+  }
+
+  markSeen(identity: string) {
+    const entry = this.entries.get(identity);
+    if (entry) {
+      entry.lastSeenAt = Date.now();
+      this.save();
+    }
+  }
+
+  revoke(identity: string): boolean {
+    const removed = this.entries.delete(identity);
+    if (removed) {
+      this.save();
+    }
+    return removed;
+  }
+
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data: Partial<TrustEntry>[] = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        data
+          .filter((entry): entry is TrustEntry => typeof entry.identity === 'string' && typeof entry.secret === 'string')
+          .forEach((entry) => this.entries.set(entry.identity, entry));
+      }
+    } catch (error) {
+      console.error(`Failed to read trusted devices from ${this.filePath}:`, error);
+    }
+  }
+
+  private save() {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(Array.from(this.entries.values()), null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error(`Failed to save trusted devices to ${this.filePath}:`, error);
+    }
+  }
+}
@@ -7,24 +7,50 @@ import {
   buildDiscoveryResponse,
   ParsedDevice
 } from './constants';
+import { NetworkInterfaceOptions, findInterfaceFor, getLocalAddressFor, listIPv4Interfaces } from './network-interfaces';
 
-export interface DiscoveryOptions {
+export interface DiscoveredDevice extends ParsedDevice {
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface DiscoveryOptions extends NetworkInterfaceOptions {
   deviceName?: string;
-  onDeviceDiscovered?: (device: ParsedDevice) => void;
+  // A device that has not broadcast for this long is dropped, default 15s
+  expiryMs?: number;
+  onDeviceDiscovered?: (device: DiscoveredDevice) => void;
+  onDeviceLost?: (device: DiscoveredDevice) => void;
+  onDeviceChanged?: (device: DiscoveredDevice, previous: DiscoveredDevice) => void;
   onError?: (error: Error) => void;
 }
 
 export class UDPDiscoveryServer {
   private udpSocket: dgram.Socket | null = null;
   private deviceName: string;
-  private onDeviceDiscovered?: (device: ParsedDevice) => void;
+  private expiryMs: number;
+  // Silence after which a device's old address may be taken over by a new one
+  private quietMs: number;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private onDeviceDiscovered?: (device: DiscoveredDevice) => void;
+  private onDeviceLost?: (device: DiscoveredDevice) => void;
+  private onDeviceChanged?: (device: DiscoveredDevice, previous: DiscoveredDevice) => void;
   private onError?: (error: Error) => void;
-  private discoveredDevices: Map<string, ParsedDevice> = new Map();
+  private networkOptions: NetworkInterfaceOptions;
+  // Keyed by the device's current IP
+  private discoveredDevices: Map<string, DiscoveredDevice> = new Map();
 
   constructor(options: DiscoveryOptions = {}) {
     this.deviceName = options.deviceName || os.hostname();
+    this.expiryMs = options.expiryMs ?? 15000;
+    this.quietMs = Math.max(1000, this.expiryMs / 3);
     this.onDeviceDiscovered = options.onDeviceDiscovered;
+    this.onDeviceLost = options.onDeviceLost;
+    this.onDeviceChanged = options.onDeviceChanged;
     this.onError = options.onError;
+    this.networkOptions = {
+      bindInterface: options.bindInterface,
+      getInterfaces: options.getInterfaces,
+    };
   }
 
   /**
@@ -56,6 +82,9 @@ export class UDPDiscoveryServer {
           // Enable broadcast receiving
           this.udpSocket?.setBroadcast(true);
 
+          // Drop devices that stopped broadcasting
+          this.expiryTimer = setInterval(() => this.expireDevices(), this.quietMs);
+
           resolve();
         });
       } catch (error) {
@@ -89,16 +118,15 @@ export class UDPDiscoveryServer {
         device.ip = rinfo.address;
       }
 
-      // Store discovered device
-      const deviceKey = `${device.ip}_${device.name}`;
-      if (!this.discoveredDevices.has(deviceKey)) {
-        this.discoveredDevices.set(deviceKey, device);
-        console.log(`New device discovered: ${device.name} (${device.ip})`);
-
-        // Notify listener
-        this.onDeviceDiscovered?.(device);
+      // With a bind interface set, only answer phones on that interface's subnet
+      const bindInterface = this.networkOptions.bindInterface ?? process.env.BIND_INTERFACE;
+      if (bindInterface && !rinfo.address.startsWith('127.') && !findInterfaceFor(rinfo.address, this.networkOptions)) {
+        console.log(`Ignoring ${device.name} (${rinfo.address}), not reachable through ${bindInterface}`);
+        return;
       }
 
+      this.recordDevice(device);
+
       // Send response back to mobile device
       this.sendDiscoveryResponse(rinfo.address);
     } catch (error) {
@@ -107,12 +135,71 @@ export class UDPDiscoveryServer {
     }
   }
 
+  /**
+   * Refresh a device's last-seen time, reporting new devices and devices
+   * whose name or IP changed since their last broadcast.
+   */
+  private recordDevice(device: ParsedDevice, now: number = Date.now()): void {
+    const known = this.discoveredDevices.get(device.ip);
+
+    if (known) {
+      if (known.name !== device.name || known.platform !== device.platform) {
+        const previous = { ...known };
+        Object.assign(known, device, { lastSeen: now });
+        console.log(`Device at ${device.ip} renamed: ${previous.name} -> ${device.name}`);
+        this.onDeviceChanged?.(known, previous);
+      } else {
+        known.lastSeen = now;
+      }
+      return;
+    }
+
+    // Same phone announcing itself from a new address, e.g. after a DHCP renewal.
+    // Packets carry no device id, so only a same-named entry whose old address
+    // has gone quiet counts, and only when there is exactly one: two phones
+    // with the same default name both keep broadcasting and stay separate.
+    const candidates = Array.from(this.discoveredDevices.values()).filter(
+      (d) => d.name === device.name && d.platform === device.platform && now - d.lastSeen > this.quietMs
+    );
+    const moved = candidates.length === 1 ? candidates[0] : undefined;
+    if (moved) {
+      const previous = { ...moved };
+      this.discoveredDevices.delete(moved.ip);
+      const updated: DiscoveredDevice = { ...device, firstSeen: moved.firstSeen, lastSeen: now };
+      this.discoveredDevices.set(device.ip, updated);
+      console.log(`Device ${device.name} moved: ${previous.ip} -> ${device.ip}`);
+      this.onDeviceChanged?.(updated, previous);
+      return;
+    }
+
+    const discovered: DiscoveredDevice = { ...device, firstSeen: now, lastSeen: now };
+    this.discoveredDevices.set(device.ip, discovered);
+    console.log(`New device discovered: ${device.name} (${device.ip})`);
+
+    // Notify listener
+    this.onDeviceDiscovered?.(discovered);
+  }
+
+  /**
+   * Remove devices that have not broadcast within the expiry window
+   */
+  private expireDevices(now: number = Date.now()): void {
+    for (const [ip, device] of this.discoveredDevices) {
+      if (now - device.lastSeen > this.expiryMs) {
+        this.discoveredDevices.delete(ip);
+        console.log(`Device expired: ${device.name} (${device.ip}), last seen ${now - device.lastSeen}ms ago`);
+        this.onDeviceLost?.(device);
+      }
+    }
+  }
+
   /**
    * Send discovery response to mobile device
    */
   private sendDiscoveryResponse(targetAddress: string): void {
     try {
-      const localIp = this.getLocalIPAddress();
+      // Advertise the address on the phone's own subnet, not whichever adapter comes first
+      const localIp = getLocalAddressFor(targetAddress, this.networkOptions);
       // Use Web platform code (6) instead of OS platform code
       const platformCode = 6; // Web platform
       const response = `search_msg_received#RBIDoKFHLX9frYTh#${platformCode}#${this.deviceName}#${localIp}`;
@@ -140,110 +227,58 @@ export class UDPDiscoveryServer {
   }
 
   /**
-   * Get the local IP address of the machine
-   */
-  private getLocalIPAddress(): string {
-    const networkInterfaces = os.networkInterfaces();
-
-    for (const interfaceName of Object.keys(networkInterfaces)) {
-      const interfaces = networkInterfaces[interfaceName];
-      if (!interfaces) continue;
-
-      for (const iface of interfaces) {
-        // Skip internal (127.0.0.1) and non-IPv4 addresses
-        if (iface.internal || iface.family !== 'IPv4') continue;
-
-        // Return the first valid external IPv4 address
-        return iface.address;
-      }
-    }
-
-    return '127.0.0.1';
-  }
-
-  /**
-   * Broadcast our own discovery packet (for testing or active discovery)
+   * Broadcast our own discovery packet on every eligible interface
    */
   async broadcastDiscovery(): Promise<void> {
     if (!this.udpSocket) {
       throw new Error('UDP socket not initialized');
     }
 
-    const localIp = this.getLocalIPAddress();
-    const response = buildDiscoveryResponse(this.deviceName, localIp);
-    const buffer = Buffer.from(response);
-
-    // Get broadcast address
-    const broadcastAddress = this.getBroadcastAddress();
-
-    return new Promise((resolve, reject) => {
-      this.udpSocket?.send(
-        buffer,
-        0,
-        buffer.length,
-        PORTS.SEARCH,
-        broadcastAddress,
-        (err) => {
-          if (err) {
-            console.error('Error broadcasting discovery:', err);
-            reject(err);
-          } else {
-            console.log(`Broadcast discovery packet to ${broadcastAddress}`);
-            resolve();
+    const interfaces = listIPv4Interfaces(this.networkOptions);
+    const targets = interfaces.length > 0
+      ? interfaces.map((iface) => ({ address: iface.address, broadcast: iface.broadcast }))
+      : [{ address: '127.0.0.1', broadcast: '255.255.255.255' }];
+
+    await Promise.all(targets.map(({ address, broadcast }) => {
+      // Each subnet hears the address it can reach us on
+      const buffer = Buffer.from(buildDiscoveryResponse(this.deviceName, address));
+
+      return new Promise<void>((resolve, reject) => {
+        this.udpSocket?.send(
+          buffer,
+          0,
+          buffer.length,
+          PORTS.SEARCH,
+          broadcast,
+          (err) => {
+            if (err) {
+              console.error(`Error broadcasting discovery to ${broadcast}:`, err);
+              reject(err);
+            } else {
+              console.log(`Broadcast discovery packet to ${broadcast}`);
+              resolve();
+            }
           }
-        }
-      );
-    });
-  }
-
-  /**
-   * Get the broadcast address for the current network
-   */
-  private getBroadcastAddress(): string {
-    const networkInterfaces = os.networkInterfaces();
-
-    for (const interfaceName of Object.keys(networkInterfaces)) {
-      const interfaces = networkInterfaces[interfaceName];
-      if (!interfaces) continue;
-
-      for (const iface of interfaces) {
-        if (iface.internal || iface.family !== 'IPv4') continue;
-
-        // Calculate broadcast address
-        const ip = iface.address.split('.');
-        const netmask = iface.netmask.split('.');
-
-        const broadcast = ip.map((octet, index) => {
-          const ipOctet = parseInt(octet, 10);
-          const netmaskOctet = parseInt(netmask[index], 10);
-          return (ipOctet | (~netmaskOctet & 0xff)).toString();
-        }).join('.');
-
-        return broadcast;
-      }
-    }
-
-    return '255.255.255.255';
+        );
+      });
+    }));
   }
 
   /**
    * Get list of discovered devices
    */
-  getDiscoveredDevices(): ParsedDevice[] {
+  getDiscoveredDevices(): DiscoveredDevice[] {
     return Array.from(this.discoveredDevices.values());
   }
 
-  /**
-   * Clear discovered devices
-   */
-  clearDiscoveredDevices(): void {
-    this.discoveredDevices.clear();
-  }
-
   /**
    * Stop the discovery server
    */
   stop(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
     if (this.udpSocket) {
       this.udpSocket.close();
       this.udpSocket = null;
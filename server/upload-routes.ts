@@ -0,0 +1,82 @@
+import express from 'express';
+import { TransferManager } from './transfer-manager';
+import { UploadError, UploadSessions } from './upload-sessions';
+
+function sendError(res: express.Response, error: unknown) {
+  if (res.headersSent) return;
+  if (error instanceof UploadError) {
+    res.status(error.status).json({ error: error.message });
+  } else {
+    res.status(500).json({ error: (error as Error).message });
+  }
+}
+
+/**
+ * Chunked uploads from the browser. A file is sent to the bridge chunk by
+ * chunk, each with its SHA-256 in X-Chunk-Sha256, and only queued for upload
+ * to the phone once it is complete.
+ */
+export function createUploadRoutes(uploads: UploadSessions, transfers: TransferManager): express.Router {
+  const router = express.Router();
+
+  // Starts an upload, or returns the one already under way for the same file
+  router.post('/api/uploads', (req, res) => {
+    const { deviceId, path, fileName, fileSize, lastModified } = req.body || {};
+    if (
+      typeof deviceId !== 'string' || !deviceId ||
+      typeof path !== 'string' ||
+      typeof fileName !== 'string' || !fileName ||
+      !Number.isInteger(fileSize) || fileSize < 0
+    ) {
+      res.status(400).json({ error: 'deviceId, path, fileName and fileSize are required' });
+      return;
+    }
+
+    res.json(uploads.open({ deviceId, path, fileName, fileSize, lastModified: Number(lastModified) || 0 }));
+  });
+
+  router.get('/api/uploads/:id', (req, res) => {
+    const session = uploads.get(req.params.id);
+    if (!session) {
+      res.status(404).json({ error: `Upload ${req.params.id} not found` });
+      return;
+    }
+    res.json(session);
+  });
+
+  router.put('/api/uploads/:id/chunks/:index', async (req, res) => {
+    const sha256 = req.header('x-chunk-sha256');
+    if (!sha256) {
+      res.status(400).json({ error: 'X-Chunk-Sha256 header is required' });
+      return;
+    }
+
+    try {
+      const session = await uploads.writeChunk(req.params.id, Number(req.params.index), req, sha256);
+      res.json({ receivedChunks: session.receivedChunks.length, chunkCount: session.chunkCount });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Every chunk is in, queue the upload to the phone
+  router.post('/api/uploads/:id/complete', (req, res) => {
+    try {
+      const { session, filePath } = uploads.complete(req.params.id);
+      const task = transfers.addStagedUpload(
+        { deviceId: session.deviceId, path: session.path, fileName: session.fileName, fileSize: session.fileSize },
+        filePath
+      );
+      res.status(201).json(task);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.delete('/api/uploads/:id', (req, res) => {
+    uploads.remove(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { UploadSession } from '../types';
+import { getDataFile } from './data-dir';
+
+export interface UploadSessionsOptions {
+  dir?: string;
+  chunkSize?: number;   // Bytes per chunk, default 8 MB
+  maxAge?: number;      // ms an untouched upload is kept, default 24 h
+}
+
+export interface UploadSessionRequest {
+  deviceId: string;
+  path: string;         // Folder on the phone
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+}
+
+/**
+ * A chunk or session request that cannot be honoured. status is the HTTP
+ * status to answer with.
+ */
+export class UploadError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Files the browser sends to the bridge in chunks, each checked against the
+ * SHA-256 the browser computed. Chunks are written into place in a part file
+ * as they arrive, in any order, and the session is saved after each one so an
+ * upload survives a dropped connection or a bridge restart.
+ *
+ * A session is identified by the phone, folder, name, size and modification
+ * time of the file, so opening the same file again continues where it
+ * stopped. Once every chunk is in, the part file is handed over with
+ * complete() and the session ends.
+ */
+export class UploadSessions {
+  private sessions = new Map<string, UploadSession>();
+  private dir: string;
+  private chunkSize: number;
+  private maxAge: number;
+
+  constructor(options: UploadSessionsOptions = {}) {
+    this.dir = options.dir || getDataFile('uploads');
+    this.chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+    this.maxAge = options.maxAge || DEFAULT_MAX_AGE_MS;
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.load();
+    this.removeExpired();
+    setInterval(() => this.removeExpired(), CLEANUP_INTERVAL_MS).unref();
+  }
+
+  get(uploadId: string): UploadSession | undefined {
+    return this.sessions.get(uploadId);
+  }
+
+  /**
+   * Session for a file, the existing one when its upload was started before
+   */
+  open(request: UploadSessionRequest): UploadSession {
+    const id = crypto
+      .createHash('sha1')
+      .update([request.deviceId, request.path, request.fileName, request.fileSize, request.lastModified].join('\n'))
+      .digest('hex');
+
+    const existing = this.sessions.get(id);
+    if (existing && fs.existsSync(this.partFile(id))) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const session: UploadSession = {
+      id,
+      ...request,
+      chunkSize: this.chunkSize,
+      chunkCount: Math.max(Math.ceil(request.fileSize / this.chunkSize), 1),
+      receivedChunks: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    // Sparse until the chunks fill it in
+    fs.writeFileSync(this.partFile(id), '');
+    fs.truncateSync(this.partFile(id), request.fileSize);
+    this.sessions.set(id, session);
+    this.save(session);
+    return session;
+  }
+
+  /**
+   * Read one chunk from the browser and write it into place. Fails with an
+   * UploadError when the chunk is not the expected size or its checksum does
+   * not match, in which case it is not counted as received.
+   */
+  async writeChunk(uploadId: string, index: number, source: Readable, sha256: string): Promise<UploadSession> {
+    const session = this.sessions.get(uploadId);
+    if (!session) {
+      throw new UploadError(`Upload ${uploadId} not found`, 404);
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= session.chunkCount) {
+      throw new UploadError(`Chunk ${index} is out of range`, 400);
+    }
+
+    const offset = index * session.chunkSize;
+    const expected = Math.min(session.chunkSize, session.fileSize - offset);
+    const hash = crypto.createHash('sha256');
+    const parts: Buffer[] = [];
+    let length = 0;
+    for await (const part of source) {
+      length += part.length;
+      if (length > expected) {
+        throw new UploadError(`Chunk ${index} is larger than ${expected} bytes`, 400);
+      }
+      hash.update(part);
+      parts.push(part);
+    }
+
+    if (length !== expected) {
+      throw new UploadError(`Chunk ${index} has ${length} of ${expected} bytes`, 400);
+    }
+    if (hash.digest('hex') !== sha256.toLowerCase()) {
+      throw new UploadError(`Chunk ${index} failed its checksum`, 422);
+    }
+
+    const file = await fs.promises.open(this.partFile(uploadId), 'r+');
+    try {
+      await file.write(Buffer.concat(parts, length), 0, length, offset);
+    } finally {
+      await file.close();
+    }
+
+    // The upload may have been cancelled while the chunk was arriving
+    if (this.sessions.get(uploadId) !== session) {
+      throw new UploadError(`Upload ${uploadId} was cancelled`, 404);
+    }
+    if (!session.receivedChunks.includes(index)) {
+      session.receivedChunks.push(index);
+      session.receivedChunks.sort((a, b) => a - b);
+    }
+    session.updatedAt = Date.now();
+    this.save(session);
+    return session;
+  }
+
+  /**
+   * End a session whose chunks are all in. Returns the assembled file, which
+   * now belongs to the caller.
+   */
+  complete(uploadId: string): { session: UploadSession; filePath: string } {
+    const session = this.sessions.get(uploadId);
+    if (!session) {
+      throw new UploadError(`Upload ${uploadId} not found`, 404);
+    }
+    const missing = session.chunkCount - session.receivedChunks.length;
+    if (missing > 0) {
+      throw new UploadError(`Upload ${uploadId} is missing ${missing} chunk(s)`, 409);
+    }
+
+    this.sessions.delete(uploadId);
+    fs.rmSync(this.sessionFile(uploadId), { force: true });
+    return { session, filePath: this.partFile(uploadId) };
+  }
+
+  remove(uploadId: string) {
+    this.sessions.delete(uploadId);
+    fs.rmSync(this.partFile(uploadId), { force: true });
+    fs.rmSync(this.sessionFile(uploadId), { force: true });
+  }
+
+  private removeExpired() {
+    const cutoff = Date.now() - this.maxAge;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.updatedAt < cutoff) {
+        console.log(`Dropping unfinished upload of ${session.fileName}`);
+        this.remove(session.id);
+      }
+    }
+  }
+
+  private partFile(uploadId: string): string {
+    return path.join(this.dir, `${uploadId}.part`);
+  }
+
+  private sessionFile(uploadId: string): string {
+    return path.join(this.dir, `${uploadId}.json`);
+  }
+
+  private load() {
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const filePath = path.join(this.dir, file);
+      try {
+        const session: UploadSession = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        this.sessions.set(session.id, session);
+      } catch (error) {
+        console.error(`Failed to read upload session ${filePath}:`, error);
+      }
+    }
+  }
+
+  private save(session: UploadSession) {
+    const filePath = this.sessionFile(session.id);
+    try {
+      fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(session), 'utf-8');
+      fs.renameSync(`${filePath}.tmp`, filePath);
+    } catch (error) {
+      console.error(`Failed to save upload session ${filePath}:`, error);
+    }
+  }
+}
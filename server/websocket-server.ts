@@ -1,11 +1,30 @@
 import express from 'express';
-import { createServer } from 'http';
+import http from 'http';
+import https from 'https';
 import { WebSocket, WebSocketServer } from 'ws';
 import cors from 'cors';
 import { Device } from '../types';
-import { UDPDiscoveryServer } from './udp-discovery';
-import { DeviceConnectionManager } from './device-connection-manager';
+import { DiscoveredDevice, UDPDiscoveryServer } from './udp-discovery';
+import { DeviceConnectionManager, MobileConnection } from './device-connection-manager';
 import { PORTS } from './constants';
+import { probeDevice } from './device-probe';
+import { ManualDeviceEntry, ManualDeviceStore } from './manual-device-store';
+import { TrustStore } from './trust-store';
+import { createAuthMiddleware, createCorsOptions, createWebSocketVerifier, loadAuthConfig } from './auth';
+import { TlsConfig, loadTlsConfig } from './tls';
+import { createStreamProxy } from './stream-proxy';
+import { ThumbnailCache, ThumbnailSource } from './thumbnail-cache';
+import { TransferManager } from './transfer-manager';
+import { createTransferRoutes } from './transfer-routes';
+import { UploadSessions } from './upload-sessions';
+import { createUploadRoutes } from './upload-routes';
+import { DeviceMediaIndex, IndexedMedia, MediaIndex, MediaQuery, MediaSort, mediaName } from './media-index';
+import { getDataFile } from './data-dir';
+import { DeviceSimulator } from '../simulator/device-simulator';
+import { createDemoDataset } from '../simulator/demo-dataset';
+import { getPublicHost } from '../lib/bridge-port';
+import { ServerEvent, ServerMessage, parseClientMessage, protocolError } from '../lib/protocol';
+import { THUMBNAIL_SIZE, deviceStreamPath, deviceThumbnailPath } from '../lib/device-stream';
 import os from 'os';
 import fs from 'fs';
 import path from 'path';
@@ -14,23 +33,37 @@ const app = express();
 // Use port 0 to let the system assign an available port, or use env/default
 const PORT = process.env.WS_PORT || 0;
 
+// --demo runs a simulated phone with a fixed dataset next to the server, see startDemoDevice()
+const DEMO = process.argv.includes('--demo');
+const DEMO_DEVICE_NAME = 'AirController Demo';
+
+// Host browsers on other machines reach us on, defaults to the host of each request
+const PUBLIC_HOST = process.env.PUBLIC_HOST || undefined;
+
 // Store actual assigned port
 let actualPort: number = 0;
 
-// Middleware - Configure CORS to allow all origins during development
-app.use(cors({
-  origin: '*', // Allow all origins in development
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
-}));
+// Set at startup when serving https/wss
+let tlsConfig: TlsConfig | null = null;
+
+// Every route and the WebSocket upgrade require the access token
+const authConfig = loadAuthConfig();
+
+// Middleware - CORS for allowed origins, answered before authentication so preflights pass
+app.use(cors(createCorsOptions(authConfig)));
+app.use(createAuthMiddleware(authConfig));
 app.use(express.json());
 
-// Create HTTP server
-const server = createServer(app);
+// Lets the web app check a token before storing it in its cookie
+app.get('/api/auth/session', (req, res) => {
+  res.json({ authenticated: true });
+});
+
+// HTTP or HTTPS server, created at startup once the TLS settings are loaded
+let server: http.Server | https.Server | null = null;
 
-// Create WebSocket server
-const wss = new WebSocketServer({ server });
+// Create WebSocket server, upgrades are handed to it by whichever server is running
+const wss = new WebSocketServer({ noServer: true, verifyClient: createWebSocketVerifier(authConfig) });
 
 // Store connected devices
 const connectedDevices = new Map<string, {
@@ -39,62 +72,55 @@ const connectedDevices = new Map<string, {
   lastPing: number;
 }>();
 
-// Initialize Device Connection Manager
-const deviceConnectionManager = new DeviceConnectionManager();
+// Phones that completed pairing. Pairing needs a phone app that speaks it, the stock
+// AirController app does not, so it is only asked for with REQUIRE_PAIRING=true.
+const trustStore = new TrustStore(DEMO ? getDataFile('demo-trusted-devices.json') : undefined);
+const requirePairing = process.env.REQUIRE_PAIRING === 'true';
 
-// Initialize UDP Discovery Server
-const udpDiscovery = new UDPDiscoveryServer({
-  deviceName: os.hostname() || 'AirController Server',
-  onDeviceDiscovered: (device) => {
-    console.log('Device discovered via UDP:', device);
+// Initialize Device Connection Manager
+// Image, album and video lists of every phone seen, for galleries and offline browsing
+const mediaIndex = new MediaIndex();
 
-    // Convert to our Device type format
-    const discoveredDevice: Device = {
-      id: `device_${device.ip.replace(/\./g, '_')}`,
-      name: device.name,
-      ip: device.ip,
-      port: PORTS.HTTP,
-      type: device.platform === 1 ? 'android' : 'ios',
-      status: 'discovered',
-      // Set initial deviceInfo with placeholder values, will be updated by CMD_UPDATE_MOBILE_INFO
-      deviceInfo: {
-        model: device.name,
-        manufacturer: device.platform === 1 ? 'Android' : 'iOS',
-        androidVersion: '',
-        storage: {
-          total: 0,
-          used: 0,
-          free: 0,
-        },
-        battery: 0,
-      },
-    };
+const deviceConnectionManager = new DeviceConnectionManager({
+  pairing: requirePairing ? { trustStore } : undefined,
+  onFilesChanged: (connection, removed) => mediaIndex.markStale(connection, removed),
+});
 
-    // Broadcast to all connected WebSocket clients
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify({
-          type: 'device:discovered',
-          device: discoveredDevice,
-        }));
+// Files and media from connected phones, streamed through us
+const thumbnailCache = new ThumbnailCache();
+app.use(createStreamProxy(deviceConnectionManager, thumbnailCache, mediaIndex));
+
+// Queued uploads and downloads, progress goes to every web client
+const transferManager = new TransferManager(deviceConnectionManager, {
+  hostDir: process.env.DOWNLOAD_DIR,
+  onUpdate: (task) => {
+    broadcastToAll({ type: 'transfer:update', task });
+    if (task.type === 'upload' && task.status === 'completed') {
+      const connection = deviceConnectionManager.getConnection(task.deviceId);
+      if (connection) {
+        mediaIndex.markStale(connection);
       }
-    });
-  },
-  onError: (error) => {
-    console.error('UDP Discovery error:', error);
+    }
   },
+  onRemove: (transferId) => broadcastToAll({ type: 'transfer:removed', transferId }),
 });
+app.use(createTransferRoutes(transferManager));
 
-// Device discovery endpoint
-app.get('/api/discover', (req, res) => {
-  // Get devices from UDP discovery
-  const udpDevices = udpDiscovery.getDiscoveredDevices().map((device) => ({
+// Large files arrive from the browser in checked chunks before they are queued
+app.use(createUploadRoutes(new UploadSessions(), transferManager));
+
+/**
+ * Convert a device seen over UDP into the Device shape the web client uses
+ */
+function toDevice(device: DiscoveredDevice): Device {
+  return {
     id: `device_${device.ip.replace(/\./g, '_')}`,
     name: device.name,
     ip: device.ip,
     port: PORTS.HTTP,
     type: device.platform === 1 ? 'android' : 'ios',
     status: 'discovered',
+    lastSeen: new Date(device.lastSeen),
     // Set initial deviceInfo with placeholder values, will be updated by CMD_UPDATE_MOBILE_INFO
     deviceInfo: {
       model: device.name,
@@ -107,7 +133,72 @@ app.get('/api/discover', (req, res) => {
       },
       battery: 0,
     },
-  }));
+  };
+}
+
+/**
+ * Send a message to one WebSocket client
+ */
+function send(ws: WebSocket, message: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Send a message to every connected WebSocket client
+ */
+function broadcastToAll(message: ServerEvent) {
+  const messageStr = JSON.stringify(message);
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(messageStr);
+    }
+  });
+}
+
+// Devices the user added by address
+const manualDeviceStore = new ManualDeviceStore();
+
+// Initialize UDP Discovery Server
+const udpDiscovery = new UDPDiscoveryServer({
+  deviceName: os.hostname() || 'AirController Server',
+  expiryMs: Number(process.env.DISCOVERY_EXPIRY_MS) || undefined,
+  onDeviceDiscovered: (device) => {
+    console.log('Device discovered via UDP:', device);
+    broadcastToAll({
+      type: 'device:discovered',
+      device: toDevice(device),
+    });
+  },
+  onDeviceLost: (device) => {
+    console.log('Device lost:', device);
+    const lostDevice = toDevice(device);
+    broadcastToAll({
+      type: 'device:lost',
+      deviceId: lostDevice.id,
+      device: lostDevice,
+    });
+  },
+  onDeviceChanged: (device, previous) => {
+    console.log('Device changed:', previous, '->', device);
+    const changedDevice = toDevice(device);
+    broadcastToAll({
+      type: 'device:changed',
+      deviceId: changedDevice.id,
+      previousDeviceId: toDevice(previous).id,
+      device: changedDevice,
+    });
+  },
+  onError: (error) => {
+    console.error('UDP Discovery error:', error);
+  },
+});
+
+// Device discovery endpoint
+app.get('/api/discover', (req, res) => {
+  // Get devices from UDP discovery
+  const udpDevices = udpDiscovery.getDiscoveredDevices().map(toDevice);
 
   // Combine with connected devices
   const connectedDevicesList = Array.from(connectedDevices.values()).map(({ device }) => ({
@@ -124,6 +215,119 @@ app.get('/api/discover', (req, res) => {
   res.json(Array.from(allDevices.values()));
 });
 
+/**
+ * Convert a remembered manual device into the Device shape the web client uses
+ */
+function toManualDevice(entry: ManualDeviceEntry, mobileInfo?: any): Device {
+  return {
+    id: entry.id,
+    name: entry.name,
+    ip: entry.ip,
+    port: PORTS.HTTP,
+    type: 'android',
+    status: 'disconnected',
+    lastSeen: new Date(entry.lastConnectedAt || entry.addedAt),
+    manual: true,
+    deviceInfo: mobileInfo ? {
+      model: entry.name,
+      manufacturer: 'Android',
+      androidVersion: '',
+      storage: {
+        total: mobileInfo.storageSize?.totalSize || 0,
+        used: (mobileInfo.storageSize?.totalSize || 0) - (mobileInfo.storageSize?.availableSize || 0),
+        free: mobileInfo.storageSize?.availableSize || 0,
+      },
+      battery: mobileInfo.batteryLevel || 0,
+    } : undefined,
+  };
+}
+
+// Manually added devices, for networks that block UDP broadcasts
+app.get('/api/devices/manual', (req, res) => {
+  res.json(manualDeviceStore.list().map((entry) => toManualDevice(entry)));
+});
+
+app.post('/api/devices/manual', async (req, res) => {
+  const host = typeof req.body?.host === 'string' ? req.body.host.trim() : '';
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+
+  if (!host) {
+    res.status(400).json({ error: 'host is required' });
+    return;
+  }
+
+  let probe;
+  try {
+    probe = await probeDevice(host);
+  } catch (error) {
+    console.error(`Failed to resolve ${host}:`, error);
+    res.status(404).json({ error: `Could not resolve ${host}` });
+    return;
+  }
+
+  console.log('Manual device probe:', { host, ip: probe.ip, ports: probe.ports });
+
+  // The command and heartbeat channels are what connectToDevice needs
+  if (!probe.ports.command || !probe.ports.heartbeat) {
+    const closed = [
+      !probe.ports.command && `command (${PORTS.CMD})`,
+      !probe.ports.heartbeat && `heartbeat (${PORTS.HEARTBEAT})`,
+    ].filter(Boolean).join(' and ');
+    res.status(502).json({
+      error: `${host} does not answer on the ${closed} port. Is AirController running on the phone?`,
+      probe,
+    });
+    return;
+  }
+
+  // Forget older entries for the same host, its address may have changed
+  manualDeviceStore.list()
+    .filter((entry) => entry.host === host)
+    .forEach((entry) => manualDeviceStore.remove(entry.id));
+
+  const entry: ManualDeviceEntry = {
+    id: `device_${probe.ip.replace(/\./g, '_')}`,
+    name: name || host,
+    host,
+    ip: probe.ip,
+    addedAt: Date.now(),
+  };
+  manualDeviceStore.upsert(entry);
+
+  res.json({
+    device: toManualDevice(entry, probe.mobileInfo),
+    probe,
+  });
+});
+
+app.delete('/api/devices/manual/:id', (req, res) => {
+  if (!manualDeviceStore.remove(req.params.id)) {
+    res.status(404).json({ error: `Unknown manual device ${req.params.id}` });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// Phones that completed pairing
+app.get('/api/trusted-devices', (req, res) => {
+  res.json(trustStore.list());
+});
+
+// Revoking trust also drops any open connection, the phone has to pair again
+app.delete('/api/trusted-devices/:identity', (req, res) => {
+  const { identity } = req.params;
+  if (!trustStore.revoke(identity)) {
+    res.status(404).json({ error: `Unknown trusted device ${identity}` });
+    return;
+  }
+
+  deviceConnectionManager.getConnections()
+    .filter((connection) => connection.identity === identity)
+    .forEach((connection) => deviceConnectionManager.closeConnection(connection.device.id, 'Trust revoked'));
+
+  res.json({ success: true });
+});
+
 // Device info endpoint (for device discovery)
 app.get('/device/info', (req, res) => {
   res.json({
@@ -136,9 +340,14 @@ app.get('/device/info', (req, res) => {
 
 // WebSocket port endpoint (for frontend to discover the port)
 app.get('/api/ws-port', (req, res) => {
+  const host = getPublicHost(req.headers.host, PUBLIC_HOST);
   res.json({
     port: actualPort,
-    wsUrl: `ws://localhost:${actualPort}`,
+    host,
+    secure: !!tlsConfig,
+    fingerprint: tlsConfig?.fingerprint,
+    url: `${tlsConfig ? 'https' : 'http'}://${host}:${actualPort}`,
+    wsUrl: `${tlsConfig ? 'wss' : 'ws'}://${host}:${actualPort}`,
   });
 });
 
@@ -146,28 +355,31 @@ app.get('/api/ws-port', (req, res) => {
 app.get('/api/connection/status', (req, res) => {
   const connections = deviceConnectionManager.getConnections();
   const connectedDevices = connections.map(conn => ({
+    deviceId: conn.device.id,
     device: {
       ...conn.device,
       // Include the latest device info
       deviceInfo: conn.device.deviceInfo,
     },
-    connected: conn.connected,
+    connected: conn.stateMachine.isConnected,
+    connectionState: conn.stateMachine.snapshot(),
+    linkQuality: conn.linkQuality.snapshot(),
     lastActivity: conn.lastActivity,
   }));
 
   res.json({
-    hasConnection: connections.length > 0 && connections.some(c => c.connected),
+    hasConnection: connections.length > 0 && connections.some(c => c.stateMachine.isConnected),
     devices: connectedDevices,
   });
 });
 
 // Connect endpoint
 app.post('/connect', (req, res) => {
-  const { clientId, clientName, deviceIp } = req.body;
-  console.log(`Connection request from ${clientName} (${clientId}) for device ${deviceIp}`);
+  const { clientId, clientName, deviceId } = req.body;
+  console.log(`Connection request from ${clientName} (${clientId}) for device ${deviceId}`);
 
   // Check if already connected to this device
-  if (deviceConnectionManager.isDeviceConnected(deviceIp)) {
+  if (deviceConnectionManager.isDeviceConnected(deviceId)) {
     res.json({
       success: true,
       message: 'Already connected to device',
@@ -182,246 +394,200 @@ app.post('/connect', (req, res) => {
   }
 });
 
-// Image API endpoints
-app.get('/api/images', async (req, res) => {
-  try {
-    const { albumId, page, pageSize } = req.query;
-
-    // Check if we have active device connections
-    if (deviceConnectionManager.hasActiveConnections()) {
-      // Get the first active connection
-      const connections = deviceConnectionManager.getConnections();
-      const activeConnection = connections.find(conn => conn.connected);
-
-      if (activeConnection) {
-        try {
-          // Use the correct endpoint based on whether we have an albumId
-          const endpoint = albumId
-            ? `http://${activeConnection.device.ip}:${PORTS.HTTP}/image/imagesOfAlbum`
-            : `http://${activeConnection.device.ip}:${PORTS.HTTP}/image/all`;
-
-          // Build request body
-          const body: any = albumId ? { id: String(albumId) } : {};
-
-          // Add pagination parameters if provided
-          if (page !== undefined && pageSize !== undefined) {
-            body.page = Number(page);
-            body.pageSize = Number(pageSize);
-          }
+// Gallery thumbnails, versioned by modification time so edited media gets a new one
+function imageThumbnail(image: IndexedMedia): ThumbnailSource {
+  return { endpoint: `image/thumbnail/${image.id}/${THUMBNAIL_SIZE}/${THUMBNAIL_SIZE}`, version: image.modifyTime || '' };
+}
 
-          console.log('Fetching images from device:', { endpoint, body });
+function videoThumbnail(video: IndexedMedia): ThumbnailSource {
+  return { endpoint: `video/thumbnail/${video.id}/${THUMBNAIL_SIZE}/${THUMBNAIL_SIZE}`, version: video.modifyTime || '' };
+}
 
-          // Make HTTP request to device to get images
-          const response = await fetch(endpoint, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Private-Network': 'true'
-            },
-            body: JSON.stringify(body),
-          });
+function thumbnailPath(index: DeviceMediaIndex, source: ThumbnailSource): string {
+  return deviceThumbnailPath(index.deviceId, source.endpoint, source.version, source.params);
+}
 
-          if (response.ok) {
-            const data = await response.json();
-            console.log('Device response:', {
-              success: data.success,
-              code: data.code,
-              dataLength: data.data?.length
-            });
+// How long a gallery request waits for a sync before answering from the saved index
+const MEDIA_SYNC_WAIT_MS = 3000;
+const MEDIA_SORTS: MediaSort[] = ['newest', 'oldest', 'name', 'size'];
 
-            const images = data.data || [];
-
-            // Transform images to match our frontend interface
-            // The device returns: id, mimeType, path, width, height, modifyTime, createTime, size
-            const imagesWithThumbnails = images.map((image: any) => {
-              // Extract filename from path
-              const pathParts = image.path.split('/');
-              const name = pathParts[pathParts.length - 1];
-
-              return {
-                id: String(image.id),
-                name: name,
-                path: image.path,
-                type: 'file' as const,
-                size: image.size || 0,
-                modified: new Date(image.modifyTime || Date.now()),
-                mimeType: image.mimeType || 'image/jpeg',
-                width: image.width || 0,
-                height: image.height || 0,
-                // Use the correct thumbnail URL format with image ID
-                thumbnailUrl: `http://${activeConnection.device.ip}:${PORTS.HTTP}/stream/image/thumbnail/${image.id}/400/400`,
-                // Full-size image URL using path parameter (matching desktop implementation)
-                url: `http://${activeConnection.device.ip}:${PORTS.HTTP}/stream/file?path=${encodeURIComponent(image.path)}`
-              };
-            });
+interface RequestedMedia {
+  index: DeviceMediaIndex;
+  connection: MobileConnection | null;  // null while the phone is offline
+}
 
-            console.log(`Returning ${imagesWithThumbnails.length} images`);
-            res.json(imagesWithThumbnails);
-            return;
-          } else {
-            console.error('Device responded with error:', response.status, response.statusText);
-          }
-        } catch (error) {
-          console.error('Failed to fetch images from device:', error);
-        }
-      }
+/**
+ * Resolve the media index a gallery request reads from. A connected phone is
+ * synced first, but a slow sync only holds up the request for a moment when
+ * there is a saved index to answer from. A phone that is not connected is
+ * browsed from its saved index. Sends an error response and returns null
+ * when neither is available.
+ */
+async function getRequestedMedia(req: express.Request, res: express.Response): Promise<RequestedMedia | null> {
+  const { deviceId, refresh } = req.query;
+
+  if (typeof deviceId !== 'string' || !deviceId) {
+    res.status(400).json({ error: 'deviceId query parameter is required' });
+    return null;
+  }
+
+  const connection = deviceConnectionManager.getConnection(deviceId);
+  if (!connection || !connection.stateMachine.isConnected) {
+    const index = mediaIndex.findByDeviceId(deviceId);
+    if (!index) {
+      res.status(404).json({ error: `Device ${deviceId} is not connected` });
+      return null;
     }
+    return { index, connection: null };
+  }
+
+  const saved = mediaIndex.get(connection.identity);
+  const sync = mediaIndex.refresh(connection, refresh === '1');
 
-    // Return empty array if no device connected - don't use mock data
-    console.log('No active device connection, returning empty array');
-    res.json([]);
+  try {
+    if (!saved) {
+      return { index: await sync, connection };
+    }
+    sync.catch((error) => console.warn(`Media sync with ${connection.device.name} failed:`, error.message));
+    const timeout = new Promise<DeviceMediaIndex>((resolve) => setTimeout(() => resolve(saved), MEDIA_SYNC_WAIT_MS));
+    // A sync may have replaced the saved index in the meantime
+    const index = await Promise.race([sync.catch(() => saved), timeout]);
+    return { index: mediaIndex.get(index.identity) || index, connection };
   } catch (error) {
-    console.error('Error in /api/images:', error);
-    res.status(500).json({ error: 'Failed to fetch images' });
+    console.error(`Media sync with ${connection.device.name} failed:`, error);
+    res.status(502).json({ error: `Could not read media from device ${deviceId}` });
+    return null;
   }
-});
+}
 
-app.get('/api/albums', async (req, res) => {
-  try {
-    // Check if we have active device connections
-    if (deviceConnectionManager.hasActiveConnections()) {
-      // Get the first active connection
-      const connections = deviceConnectionManager.getConnections();
-      const activeConnection = connections.find(conn => conn.connected);
-
-      if (activeConnection) {
-        try {
-          console.log('Fetching albums from device:', activeConnection.device.ip);
-
-          // Make HTTP request to device to get albums
-          const response = await fetch(`http://${activeConnection.device.ip}:${PORTS.HTTP}/image/albums`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Private-Network': 'true'
-            },
-            body: JSON.stringify({}),
-          });
+function parseMediaQuery(req: express.Request): MediaQuery {
+  const { page, pageSize, sort, search } = req.query;
+  const query: MediaQuery = {};
 
-          if (response.ok) {
-            const data = await response.json();
-            console.log('Albums response:', {
-              success: data.success,
-              code: data.code,
-              dataLength: data.data?.length
-            });
+  if (page !== undefined && pageSize !== undefined) {
+    query.page = Math.max(Number(page) || 1, 1);
+    query.pageSize = Math.max(Number(pageSize) || 1, 1);
+  }
+  if (typeof sort === 'string' && MEDIA_SORTS.includes(sort as MediaSort)) {
+    query.sort = sort as MediaSort;
+  }
+  if (typeof search === 'string' && search.trim()) {
+    query.search = search.trim();
+  }
+  return query;
+}
 
-            // Transform albums to match our frontend interface
-            // The device returns: id, name, photoNum, coverImageId, path
-            const albums = (data.data || []).map((album: any) => ({
-              id: String(album.id),
-              name: album.name,
-              count: album.photoNum || 0,
-              coverImageId: album.coverImageId,
-              path: album.path
-            }));
-
-            console.log(`Returning ${albums.length} albums`);
-            res.json(albums);
-            return;
-          } else {
-            console.error('Device responded with error:', response.status, response.statusText);
-          }
-        } catch (error) {
-          console.error('Failed to fetch albums from device:', error);
-        }
-      }
-    }
+/**
+ * Cache the thumbnails of the page after the one just sent in the
+ * background, so scrolling on finds them on disk
+ */
+function prefetchNextPage(
+  requested: RequestedMedia,
+  query: MediaQuery,
+  run: (query: MediaQuery) => IndexedMedia[],
+  toThumbnail: (item: IndexedMedia) => ThumbnailSource
+) {
+  if (!requested.connection || query.page === undefined) return;
+
+  const items = run({ ...query, page: query.page + 1 });
+  thumbnailCache.prefetch(requested.index.identity, requested.connection, items.map(toThumbnail));
+}
 
-    // Return empty array if no device connected - don't use mock data
-    console.log('No active device connection, returning empty albums array');
-    res.json([]);
-  } catch (error) {
-    console.error('Error in /api/albums:', error);
-    res.status(500).json({ error: 'Failed to fetch albums' });
-  }
+// Media API endpoints, answered from the media index
+app.get('/api/media/devices', (req, res) => {
+  const devices = mediaIndex.list().map((index) => {
+    const connection = deviceConnectionManager.getConnection(index.deviceId);
+    return {
+      deviceId: index.deviceId,
+      identity: index.identity,
+      name: index.name,
+      type: index.type,
+      syncedAt: index.syncedAt,
+      imageCount: index.images.length,
+      videoCount: index.videos.length,
+      albumCount: index.albums.length,
+      connected: !!connection?.stateMachine.isConnected && connection.identity === index.identity,
+    };
+  });
+  res.json(devices);
 });
 
-// Video API endpoints
-app.get('/api/videos', async (req, res) => {
-  try {
-    const { page, pageSize } = req.query;
-
-    // Check if we have active device connections
-    if (deviceConnectionManager.hasActiveConnections()) {
-      // Get the first active connection
-      const connections = deviceConnectionManager.getConnections();
-      const activeConnection = connections.find(conn => conn.connected);
-
-      if (activeConnection) {
-        try {
-          const endpoint = `http://${activeConnection.device.ip}:${PORTS.HTTP}/video/videos`;
-
-          // Build request body with pagination parameters if provided
-          const body: any = {};
-          if (page !== undefined && pageSize !== undefined) {
-            body.page = Number(page);
-            body.pageSize = Number(pageSize);
-          }
+app.get('/api/images', async (req, res) => {
+  const requested = await getRequestedMedia(req, res);
+  if (!requested) return;
 
-          console.log('Fetching videos from device:', { endpoint, body });
+  const { index, connection } = requested;
+  const query = parseMediaQuery(req);
+  if (typeof req.query.albumId === 'string' && req.query.albumId) {
+    query.albumId = req.query.albumId;
+  }
 
-          // Make HTTP request to device to get videos
-          const response = await fetch(endpoint, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Private-Network': 'true'
-            },
-            body: JSON.stringify(body),
-          });
+  const { items, total } = mediaIndex.queryImages(index, query);
+
+  // Transform images to match our frontend interface
+  const images = items.map((image) => ({
+    id: String(image.id),
+    name: mediaName(image),
+    path: image.path,
+    type: 'file' as const,
+    size: image.size || 0,
+    modified: new Date(image.modifyTime || Date.now()),
+    mimeType: image.mimeType || 'image/jpeg',
+    width: image.width || 0,
+    height: image.height || 0,
+    // Served from the bridge's thumbnail cache, also while the phone is offline
+    thumbnailUrl: thumbnailPath(index, imageThumbnail(image)),
+    // Full-size images need the phone
+    url: connection ? deviceStreamPath(index.deviceId, 'file', { path: image.path }) : undefined,
+  }));
 
-          if (response.ok) {
-            const data = await response.json();
-            console.log('Device response:', {
-              success: data.success,
-              code: data.code,
-              dataLength: data.data?.length
-            });
+  res.json({ items: images, total, offline: !connection, syncedAt: index.syncedAt });
+  prefetchNextPage(requested, query, (next) => mediaIndex.queryImages(index, next).items, imageThumbnail);
+});
 
-            const videos = data.data || [];
-
-            // Transform videos to match our frontend interface
-            const videosWithThumbnails = videos.map((video: any) => {
-              // Extract filename from path
-              const pathParts = video.path.split('/');
-              const name = pathParts[pathParts.length - 1];
-
-              return {
-                id: String(video.id),
-                name: name,
-                path: video.path,
-                type: 'file' as const,
-                size: video.size || 0,
-                modified: new Date(video.modifyTime || Date.now()),
-                mimeType: video.mimeType || 'video/mp4',
-                width: video.width || 0,
-                height: video.height || 0,
-                duration: video.duration || 0,
-                // Use the correct thumbnail URL format with video ID
-                thumbnailUrl: `http://${activeConnection.device.ip}:${PORTS.HTTP}/stream/video/thumbnail/${video.id}/400/400`
-              };
-            });
+app.get('/api/albums', async (req, res) => {
+  const requested = await getRequestedMedia(req, res);
+  if (!requested) return;
+
+  const { index, connection } = requested;
+  // The device returns: id, name, photoNum, coverImageId, path
+  const albums = index.albums.map((album) => ({
+    id: String(album.id),
+    name: album.name,
+    count: album.photoNum || 0,
+    coverImageId: album.coverImageId,
+    path: album.path
+  }));
 
-            console.log(`Returning ${videosWithThumbnails.length} videos`);
-            res.json(videosWithThumbnails);
-            return;
-          } else {
-            console.error('Device responded with error:', response.status, response.statusText);
-          }
-        } catch (error) {
-          console.error('Failed to fetch videos from device:', error);
-        }
-      }
-    }
+  res.json({ items: albums, total: albums.length, offline: !connection, syncedAt: index.syncedAt });
+});
 
-    // Return empty array if no device connected
-    console.log('No active device connection, returning empty array');
-    res.json([]);
-  } catch (error) {
-    console.error('Error in /api/videos:', error);
-    res.status(500).json({ error: 'Failed to fetch videos' });
-  }
+app.get('/api/videos', async (req, res) => {
+  const requested = await getRequestedMedia(req, res);
+  if (!requested) return;
+
+  const { index, connection } = requested;
+  const query = parseMediaQuery(req);
+  const { items, total } = mediaIndex.queryVideos(index, query);
+
+  // Transform videos to match our frontend interface
+  const videos = items.map((video) => ({
+    id: String(video.id),
+    name: mediaName(video),
+    path: video.path,
+    type: 'file' as const,
+    size: video.size || 0,
+    modified: new Date(video.modifyTime || Date.now()),
+    mimeType: video.mimeType || 'video/mp4',
+    width: video.width || 0,
+    height: video.height || 0,
+    duration: video.duration || 0,
+    // Served from the bridge's thumbnail cache, also while the phone is offline
+    thumbnailUrl: thumbnailPath(index, videoThumbnail(video))
+  }));
+
+  res.json({ items: videos, total, offline: !connection, syncedAt: index.syncedAt });
+  prefetchNextPage(requested, query, (next) => mediaIndex.queryVideos(index, next).items, videoThumbnail);
 });
 
 // WebSocket connection handling
@@ -431,57 +597,102 @@ wss.on('connection', (ws, req) => {
 
   let deviceId: string | null = null;
 
-  ws.on('message', async (data) => {
-    try {
-      const message = JSON.parse(data.toString());
-      let { type, payload, id } = message;
-
-      // Log incoming message for debugging
-      console.log('Received message:', { type, hasPayload: !!payload, hasId: !!id });
-
-      // Handle messages from websocket.service.ts which wrap the actual command
-      // If the message has a nested type in payload, extract it
-      if (message.payload && message.payload.type) {
-        type = message.payload.type;
-        payload = message.payload.payload;
-        id = message.payload.id || message.id;
+  ws.on('message', async (data, isBinary) => {
+    // Binary frames carry the bytes of file:upload requests
+    if (isBinary) {
+      if (!deviceConnectionManager.receiveUploadFrame(ws, data as Buffer)) {
+        send(ws, protocolError('invalid_message', 'Binary frame does not belong to an upload in progress'));
       }
+      return;
+    }
 
-      switch (type) {
-        case 'connect:device':
+    // Anything that does not match the protocol is answered with a structured error
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.success) {
+      console.warn('Rejected invalid message:', parsed.error.error, parsed.error.issues || '');
+      send(ws, parsed.error);
+      return;
+    }
+    const message = parsed.message;
+
+    // Log incoming message for debugging
+    console.log('Received message:', message.type);
+
+    try {
+      switch (message.type) {
+        case 'connect:device': {
           // Handle device connection request from web client
-          const deviceToConnect = message.device || payload;
+          const deviceToConnect = message.device;
           console.log('>>> CONNECT:DEVICE case matched, device:', deviceToConnect);
           try {
             // Connect to device via TCP and manage the connection
             // This will handle sending connection:success or connection:error
-            await deviceConnectionManager.connectToDevice(deviceToConnect, ws);
+            await deviceConnectionManager.connectToDevice(deviceToConnect, ws, message.pairingMethod);
+            manualDeviceStore.markConnected(deviceToConnect.id);
             console.log('>>> Device connection initiated successfully');
           } catch (error) {
             console.error('>>> Failed to connect to device:', error);
             // Send connection error response
-            ws.send(JSON.stringify({
+            send(ws, {
               type: 'connection:error',
+              deviceId: deviceToConnect.id,
               error: error instanceof Error ? error.message : 'Connection failed'
-            }));
+            });
           }
           break;
+        }
+
+        case 'disconnect:device':
+          // Close the TCP channels of one device, other devices stay connected
+          console.log('Disconnect request for device:', message.deviceId);
+          deviceConnectionManager.closeConnection(message.deviceId);
+          break;
+
+        case 'pairing:submit':
+          // PIN shown on the phone, typed into the browser
+          deviceConnectionManager.submitPairingPin(message.deviceId, message.payload.pin);
+          break;
+
+        case 'pairing:restart':
+          // New PIN, possibly displayed on the other side
+          deviceConnectionManager.restartPairing(message.deviceId, message.payload.method);
+          break;
+
+        case 'pairing:cancel':
+          deviceConnectionManager.closeConnection(message.deviceId, 'Pairing cancelled');
+          break;
+
+        case 'transfer:pause':
+          transferManager.pause(message.transferId);
+          break;
+
+        case 'transfer:resume':
+          transferManager.resume(message.transferId);
+          break;
+
+        case 'transfer:cancel':
+          transferManager.cancel(message.transferId);
+          break;
+
+        case 'transfer:remove':
+          transferManager.remove(message.transferId);
+          break;
 
         case 'register':
           // Register device (for backward compatibility)
-          deviceId = payload.id;
+          deviceId = message.payload.id;
           connectedDevices.set(deviceId, {
-            device: payload,
+            device: message.payload,
             ws,
             lastPing: Date.now(),
           });
-          console.log(`Device registered: ${payload.name} (${deviceId})`);
+          console.log(`Device registered: ${message.payload.name} (${deviceId})`);
 
           // Send acknowledgment
-          ws.send(JSON.stringify({
+          send(ws, {
             type: 'register:ack',
             success: true,
-          }));
+          });
           break;
 
         case 'heartbeat':
@@ -491,76 +702,24 @@ wss.on('connection', (ws, req) => {
             device.lastPing = Date.now();
 
             // Send heartbeat acknowledgment
-            ws.send(JSON.stringify({
+            send(ws, {
               type: 'heartbeat:ack',
               timestamp: Date.now(),
-            }));
+            });
           }
           break;
 
-        case 'device:info':
-          // Send device information
-          ws.send(JSON.stringify({
-            id,
-            type: 'device:info:response',
-            data: mockDeviceInfo(),
-          }));
-          break;
-
-        case 'file:list':
-          // Forward to device connection manager to get real data from device
-          await deviceConnectionManager.handleWebSocketMessage(message, null, ws);
-          break;
-
-        case 'image:list':
-          // Forward to device connection manager to get real data from device
-          await deviceConnectionManager.handleWebSocketMessage(message, null, ws);
-          break;
-
-        case 'album:list':
-          // Forward to device connection manager to get real data from device
-          await deviceConnectionManager.handleWebSocketMessage(message, null, ws);
-          break;
-
-        case 'contact:list':
-          // Send contact list
-          ws.send(JSON.stringify({
-            id,
-            type: 'contact:list:response',
-            data: mockContactList(),
-          }));
-          break;
-
-        case 'app:list':
-          // Send app list
-          ws.send(JSON.stringify({
-            id,
-            type: 'app:list:response',
-            data: mockAppList(),
-          }));
-          break;
-
-        // video:list is now handled by deviceConnectionManager (removed mock)
-
         default:
-          console.log(`>>> DEFAULT case hit for type: ${type}, hasId: ${!!id}`);
-          // Forward unknown messages to device connection manager
-          // This handles messages like file:list, image:list, etc.
-          if (id) {
-            // Message expects a response, might be forwarded to device
-            deviceConnectionManager.handleWebSocketMessage(message, null, ws).catch(err => {
-              console.error('Failed to handle message:', err);
-            });
-          } else {
-            console.log(`Unknown message type: ${type}`);
-          }
+          // Everything else is a request for a connected phone
+          await deviceConnectionManager.handleWebSocketMessage(message, ws);
       }
     } catch (error) {
       console.error('Error processing message:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        error: 'Failed to process message',
-      }));
+      send(ws, protocolError(
+        'request_failed',
+        'Failed to process message',
+        'id' in message ? message : {}
+      ));
     }
   });
 
@@ -576,10 +735,10 @@ wss.on('connection', (ws, req) => {
   });
 
   // Send initial connection success
-  ws.send(JSON.stringify({
+  send(ws, {
     type: 'connected',
     message: 'Connected to AirController server',
-  }));
+  });
 });
 
 // Heartbeat check interval
@@ -595,193 +754,118 @@ setInterval(() => {
   }
 }, 10000);
 
-// Mock data functions
-function mockDeviceInfo() {
-  return {
-    model: 'Pixel 7 Pro',
-    manufacturer: 'Google',
-    androidVersion: '14',
-    storage: {
-      total: 128 * 1024 * 1024 * 1024,
-      used: 45 * 1024 * 1024 * 1024,
-      free: 83 * 1024 * 1024 * 1024,
+/**
+ * Start the demo phone. It is found through discovery like a real one and
+ * answers every request through the same handlers, from storage that is
+ * regenerated on each start so demos and screenshots always look the same.
+ */
+async function startDemoDevice(): Promise<DeviceSimulator> {
+  const dataset = createDemoDataset(getDataFile('demo'));
+  const simulator = new DeviceSimulator({
+    storageDir: dataset.storageDir,
+    name: DEMO_DEVICE_NAME,
+    ip: '127.0.0.1',
+    broadcastAddress: '127.0.0.1',
+    batteryLevel: 76,
+    storageSize: {
+      totalSize: 128 * 1024 * 1024 * 1024,
+      availableSize: 71 * 1024 * 1024 * 1024,
     },
-    battery: 85,
-  };
-}
-
-function mockFileList(path: string) {
-  return [
-    {
-      id: '1',
-      name: 'Documents',
-      path: `${path}/Documents`,
-      type: 'folder',
-      size: 0,
-      modified: new Date().toISOString(),
-    },
-    {
-      id: '2',
-      name: 'Pictures',
-      path: `${path}/Pictures`,
-      type: 'folder',
-      size: 0,
-      modified: new Date().toISOString(),
-    },
-    {
-      id: '3',
-      name: 'sample.pdf',
-      path: `${path}/sample.pdf`,
-      type: 'file',
-      size: 1024 * 1024 * 2,
-      modified: new Date().toISOString(),
-      mimeType: 'application/pdf',
-    },
-  ];
-}
-
-function mockImageList(albumId?: string) {
-  // Different image sets for different albums
-  const albumConfigs: Record<string, { prefix: string; folder: string; count: number; startId: number }> = {
-    camera: { prefix: 'IMG', folder: 'Camera', count: 20, startId: 0 },
-    screenshots: { prefix: 'Screenshot', folder: 'Screenshots', count: 15, startId: 100 },
-    downloads: { prefix: 'Download', folder: 'Download', count: 10, startId: 200 },
-    whatsapp: { prefix: 'WhatsApp Image', folder: 'WhatsApp/Media/WhatsApp Images', count: 25, startId: 300 },
-  };
+    contacts: dataset.contacts,
+    apps: dataset.apps,
+  });
 
-  // Default to camera if no album specified or unknown album
-  const config = albumId && albumConfigs[albumId] ? albumConfigs[albumId] : albumConfigs.camera;
-
-  // If "all images" (no albumId), combine some images from each album
-  if (!albumId) {
-    const allImages = [];
-    let imgIndex = 0;
-    for (const [key, cfg] of Object.entries(albumConfigs)) {
-      const albumImages = Array.from({ length: Math.min(5, cfg.count) }, (_, i) => ({
-        id: `img_${imgIndex++}`,
-        name: `${cfg.prefix}_${cfg.startId + i}.jpg`,
-        path: `/storage/emulated/0/DCIM/${cfg.folder}/${cfg.prefix}_${cfg.startId + i}.jpg`,
-        type: 'file',
-        size: Math.random() * 5 * 1024 * 1024,
-        modified: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-        width: 1920,
-        height: 1080,
-        thumbnailUrl: `https://picsum.photos/200/200?random=${cfg.startId + i}`,
-        albumId: key,
-      }));
-      allImages.push(...albumImages);
-    }
-    return allImages;
+  // Demo trust lives in its own file, real phones still pair with a PIN
+  if (requirePairing) {
+    trustStore.list()
+      .filter((device) => device.name === DEMO_DEVICE_NAME)
+      .forEach((device) => trustStore.revoke(device.identity));
+    const credentials = trustStore.trust({ type: 'android', name: DEMO_DEVICE_NAME });
+    simulator.rememberPairing(credentials);
   }
 
-  // Return images for specific album
-  return Array.from({ length: config.count }, (_, i) => ({
-    id: `img_${config.startId + i}`,
-    name: `${config.prefix}_${config.startId + i}.jpg`,
-    path: `/storage/emulated/0/DCIM/${config.folder}/${config.prefix}_${config.startId + i}.jpg`,
-    type: 'file',
-    size: Math.random() * 5 * 1024 * 1024,
-    modified: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-    width: 1920,
-    height: 1080,
-    thumbnailUrl: `https://picsum.photos/200/200?random=${config.startId + i}`,
-    albumId,
-  }));
-}
-
-function mockAlbumList() {
-  return [
-    { id: 'camera', name: 'Camera', count: 125 },
-    { id: 'screenshots', name: 'Screenshots', count: 43 },
-    { id: 'downloads', name: 'Downloads', count: 67 },
-    { id: 'whatsapp', name: 'WhatsApp Images', count: 234 },
-  ];
+  await simulator.start();
+  return simulator;
 }
 
-function mockContactList() {
-  const names = ['Alice Johnson', 'Bob Smith', 'Charlie Brown', 'Diana Prince', 'Eve Wilson'];
-  return names.map((name, i) => ({
-    id: `contact_${i}`,
-    name,
-    phoneNumbers: [`+1234567${8900 + i}`],
-    emails: [`${name.toLowerCase().replace(' ', '.')}@example.com`],
-  }));
-}
+let demoDevice: DeviceSimulator | null = null;
 
-function mockAppList() {
-  const apps = [
-    { name: 'WhatsApp', packageName: 'com.whatsapp', size: 65 },
-    { name: 'Instagram', packageName: 'com.instagram.android', size: 45 },
-    { name: 'Chrome', packageName: 'com.android.chrome', size: 120 },
-    { name: 'YouTube', packageName: 'com.google.android.youtube', size: 85 },
-    { name: 'Gmail', packageName: 'com.google.android.gm', size: 35 },
-  ];
-
-  return apps.map((app, i) => ({
-    id: `app_${i}`,
-    name: app.name,
-    packageName: app.packageName,
-    version: '1.0.0',
-    size: app.size * 1024 * 1024,
-    installTime: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
-    icon: `https://picsum.photos/100/100?random=${i + 100}`,
-  }));
-}
+// Start server
+async function start() {
+  tlsConfig = await loadTlsConfig();
+  const httpServer = tlsConfig
+    ? https.createServer({ cert: tlsConfig.cert, key: tlsConfig.key }, app)
+    : http.createServer(app);
+  server = httpServer;
+
+  httpServer.on('upgrade', (req, socket, head) => {
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
 
-function mockVideoList() {
-  return Array.from({ length: 10 }, (_, i) => ({
-    id: `video_${i}`,
-    name: `VID_${2000 + i}.mp4`,
-    path: `/storage/emulated/0/DCIM/Camera/VID_${2000 + i}.mp4`,
-    type: 'file',
-    size: Math.random() * 100 * 1024 * 1024,
-    modified: new Date(Date.now() - Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString(),
-    duration: Math.floor(Math.random() * 300) + 30,
-    thumbnailUrl: `https://picsum.photos/320/180?random=${i + 200}`,
-  }));
-}
+  httpServer.listen(PORT, async () => {
+    // Get the actual port assigned by the system
+    const address = httpServer.address();
+    if (address && typeof address === 'object') {
+      actualPort = address.port;
+    } else {
+      actualPort = PORT as number;
+    }
 
-// Start server
-server.listen(PORT, async () => {
-  // Get the actual port assigned by the system
-  const address = server.address();
-  if (address && typeof address === 'object') {
-    actualPort = address.port;
-  } else {
-    actualPort = PORT as number;
-  }
+    const httpScheme = tlsConfig ? 'https' : 'http';
+    const wsScheme = tlsConfig ? 'wss' : 'ws';
+    console.log(`WebSocket server running on port ${actualPort}`);
+    console.log(`HTTP endpoints available at ${httpScheme}://localhost:${actualPort}`);
+    console.log(`WebSocket endpoint: ${wsScheme}://localhost:${actualPort}`);
+    console.log(`Port discovery endpoint: ${httpScheme}://localhost:${actualPort}/api/ws-port`);
+    if (PUBLIC_HOST) {
+      console.log(`Browsers will be pointed at ${PUBLIC_HOST}:${actualPort}`);
+    }
+    if (tlsConfig) {
+      console.log(`TLS certificate: ${tlsConfig.certFile}${tlsConfig.selfSigned ? ' (self-signed)' : ''}`);
+      console.log(`SHA-256 fingerprint: ${tlsConfig.fingerprint}`);
+    }
 
-  console.log(`WebSocket server running on port ${actualPort}`);
-  console.log(`HTTP endpoints available at http://localhost:${actualPort}`);
-  console.log(`WebSocket endpoint: ws://localhost:${actualPort}`);
-  console.log(`Port discovery endpoint: http://localhost:${actualPort}/api/ws-port`);
+    // Write port and scheme to file so Next.js can read them
+    const portFilePath = path.join(process.cwd(), '.ws-port');
+    fs.writeFileSync(portFilePath, JSON.stringify({
+      port: actualPort,
+      secure: !!tlsConfig,
+      fingerprint: tlsConfig?.fingerprint,
+      publicHost: PUBLIC_HOST,
+    }), 'utf-8');
+    console.log(`Port written to ${portFilePath}`);
+
+    // Start UDP discovery server
+    try {
+      await udpDiscovery.start();
+      console.log(`UDP discovery server started on port ${PORTS.SEARCH}`);
+    } catch (error) {
+      console.error('Failed to start UDP discovery server:', error);
+    }
 
-  // Write port to file so Next.js can read it
-  const portFilePath = path.join(process.cwd(), '.ws-port');
-  fs.writeFileSync(portFilePath, actualPort.toString(), 'utf-8');
-  console.log(`Port written to ${portFilePath}`);
+    if (DEMO) {
+      try {
+        demoDevice = await startDemoDevice();
+        console.log(`Demo mode: connect to "${DEMO_DEVICE_NAME}" from the device list`);
+      } catch (error) {
+        console.error('Failed to start demo device, is another phone simulator running?', error);
+      }
+    }
+  });
+}
 
-  // Start UDP discovery server
-  try {
-    await udpDiscovery.start();
-    console.log(`UDP discovery server started on port ${PORTS.SEARCH}`);
-
-    // Periodically clear old discovered devices (every 30 seconds)
-    setInterval(() => {
-      const devicesBefore = udpDiscovery.getDiscoveredDevices().length;
-      udpDiscovery.clearDiscoveredDevices();
-      console.log(`Cleared ${devicesBefore} discovered devices from cache`);
-    }, 30000);
-  } catch (error) {
-    console.error('Failed to start UDP discovery server:', error);
-  }
+start().catch((error) => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
 });
 
 // Cleanup on exit
 process.on('SIGINT', () => {
   console.log('Shutting down servers...');
   udpDiscovery.stop();
-  server.close();
+  demoDevice?.stop();
+  server?.close();
+  thumbnailCache.flush();
 
   // Clean up port file
   const portFilePath = path.join(process.cwd(), '.ws-port');
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebSocket } from 'ws';
+import { encodeUploadChunk } from '../lib/protocol';
+import { WebSocketUploads } from './websocket-uploads';
+
+/**
+ * Just enough of a browser's socket to see when it is paused and resumed
+ */
+function fakeSocket() {
+  const socket = Object.assign(new EventEmitter(), {
+    readyState: WebSocket.OPEN,
+    events: [] as string[],
+    pause: () => socket.events.push('pause'),
+    resume: () => socket.events.push('resume'),
+  });
+  return socket;
+}
+
+test('keeps the browser paused until the last chunk is written', async () => {
+  const uploads = new WebSocketUploads(fs.mkdtempSync(path.join(os.tmpdir(), 'ws-uploads-')));
+  const socket = fakeSocket();
+  const ws = socket as unknown as WebSocket;
+  const data = Buffer.alloc(1024 * 1024, 7);
+
+  const received = uploads.receive(ws, 'upload-1', data.length);
+  assert.equal(uploads.handleFrame(ws, Buffer.from(encodeUploadChunk('upload-1', data))), true);
+  assert.deepEqual(socket.events, ['pause']);
+
+  const filePath = await received;
+  assert.deepEqual(socket.events, ['pause', 'resume']);
+  assert.deepEqual(fs.readFileSync(filePath), data);
+});
+
+test('refuses more bytes than were announced', async () => {
+  const uploads = new WebSocketUploads(fs.mkdtempSync(path.join(os.tmpdir(), 'ws-uploads-')));
+  const ws = fakeSocket() as unknown as WebSocket;
+
+  const received = uploads.receive(ws, 'upload-1', 2);
+  uploads.handleFrame(ws, Buffer.from(encodeUploadChunk('upload-1', Buffer.from('abc'))));
+  await assert.rejects(received, /more than the announced 2 bytes/);
+});
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { WebSocket } from 'ws';
+import { decodeUploadChunk } from '../lib/protocol';
+import { getDataFile } from './data-dir';
+
+interface IncomingUpload {
+  ws: WebSocket;
+  size: number;
+  received: number;
+  filePath: string;
+  stream: fs.WriteStream;
+  draining: boolean;             // The browser is paused until the disk catches up
+  idleTimer?: NodeJS.Timeout;
+  resolve: (filePath: string) => void;
+  reject: (error: Error) => void;
+}
+
+// A browser that sends nothing for this long has given up on the upload
+const IDLE_TIMEOUT_MS = 30000;
+
+/**
+ * Bytes of file:upload requests, which browsers send as binary WebSocket
+ * frames tagged with the request id (see encodeUploadChunk). They are
+ * spooled to the data directory until the file is complete, then handed to
+ * whoever is uploading it to the phone. A browser that sends faster than the
+ * disk writes is paused until the spool file drains, and after its last
+ * chunk until the file is completely written.
+ */
+export class WebSocketUploads {
+  private uploads = new Map<string, IncomingUpload>();   // Keyed by request id
+  private dir: string;
+
+  constructor(dir = getDataFile('ws-uploads')) {
+    this.dir = dir;
+    // Spooled files only matter to the request that is waiting for them
+    fs.rmSync(this.dir, { recursive: true, force: true });
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Wait for the bytes of a request. Resolves with the spooled file once size
+   * bytes have arrived, rejects when the browser stops sending or goes away.
+   * The file belongs to the caller, see discard().
+   */
+  receive(ws: WebSocket, requestId: string, size: number): Promise<string> {
+    if (this.uploads.has(requestId)) {
+      return Promise.reject(new Error(`Upload ${requestId} is already in progress`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const filePath = path.join(this.dir, crypto.randomUUID());
+      const upload: IncomingUpload = {
+        ws,
+        size,
+        received: 0,
+        filePath,
+        stream: fs.createWriteStream(filePath),
+        draining: false,
+        resolve,
+        reject,
+      };
+      upload.stream.on('error', (error) => this.fail(requestId, error));
+
+      const onClose = () => this.fail(requestId, new Error('Browser disconnected during the upload'));
+      ws.once('close', onClose);
+      upload.stream.once('close', () => ws.off('close', onClose));
+
+      this.uploads.set(requestId, upload);
+      if (size === 0) {
+        this.complete(requestId);
+      } else {
+        this.armIdleTimer(requestId);
+      }
+    });
+  }
+
+  /**
+   * Binary frame from a browser. Returns false when it belongs to no upload
+   * of that browser.
+   */
+  handleFrame(ws: WebSocket, frame: Buffer): boolean {
+    const chunk = decodeUploadChunk(frame);
+    const upload = chunk && this.uploads.get(chunk.requestId);
+    if (!chunk || !upload || upload.ws !== ws) {
+      return false;
+    }
+
+    upload.received += chunk.data.length;
+    if (upload.received > upload.size) {
+      this.fail(chunk.requestId, new Error(`Received more than the announced ${upload.size} bytes`));
+      return true;
+    }
+
+    if (!upload.stream.write(chunk.data) && !upload.draining) {
+      upload.draining = true;
+      ws.pause();
+      // A completed upload is released once its spool file is written, not before
+      upload.stream.once('drain', () => this.uploads.has(chunk.requestId) && this.release(upload));
+    }
+    if (upload.received === upload.size) {
+      this.complete(chunk.requestId);
+    } else {
+      this.armIdleTimer(chunk.requestId);
+    }
+    return true;
+  }
+
+  discard(filePath: string) {
+    fs.rm(filePath, { force: true }, () => {});
+  }
+
+  private complete(requestId: string) {
+    const upload = this.uploads.get(requestId)!;
+    this.uploads.delete(requestId);
+    clearTimeout(upload.idleTimer);
+    // The browser stays paused until the last chunks are on disk
+    upload.stream.end((error?: Error | null) => {
+      this.release(upload);
+      if (error) {
+        this.discard(upload.filePath);
+        upload.reject(error);
+      } else {
+        upload.resolve(upload.filePath);
+      }
+    });
+  }
+
+  private fail(requestId: string, error: Error) {
+    const upload = this.uploads.get(requestId);
+    if (!upload) return;
+
+    this.uploads.delete(requestId);
+    clearTimeout(upload.idleTimer);
+    this.release(upload);
+    upload.stream.destroy();
+    this.discard(upload.filePath);
+    upload.reject(error);
+  }
+
+  /**
+   * Let the browser send again, unless another of its uploads is still draining
+   */
+  private release(upload: IncomingUpload) {
+    if (!upload.draining) return;
+    upload.draining = false;
+    const waiting = Array.from(this.uploads.values()).some((other) => other.ws === upload.ws && other.draining);
+    if (!waiting && upload.ws.readyState === WebSocket.OPEN) {
+      upload.ws.resume();
+    }
+  }
+
+  private armIdleTimer(requestId: string) {
+    const upload = this.uploads.get(requestId)!;
+    clearTimeout(upload.idleTimer);
+    upload.idleTimer = setTimeout(() => this.fail(requestId, new Error('Browser stopped sending the file')), IDLE_TIMEOUT_MS);
+  }
+}
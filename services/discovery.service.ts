@@ -1,16 +1,29 @@
 import { Device } from '@/types';
-import { getWebSocketUrl, getWebSocketPort } from '@/lib/ws-url';
+import { getWebSocketUrl, getWebSocketEndpoint } from '@/lib/ws-url';
+import { handleUnauthorized } from '@/lib/auth';
+import { parseServerMessage } from '@/lib/protocol';
+
+export interface DiscoveryHandlers {
+  // A device stopped broadcasting and expired on the server
+  onDeviceLost?: (deviceId: string) => void;
+  // A known device came back under a new name or IP, previousDeviceId differs on IP changes
+  onDeviceChanged?: (device: Device, previousDeviceId: string) => void;
+}
 
 class DeviceDiscoveryService {
   private ws: WebSocket | null = null;
   private discoveryCallbacks: Set<(device: Device) => void> = new Set();
+  private handlers: Set<DiscoveryHandlers> = new Set();
   private discoveredDevices: Map<string, Device> = new Map();
   private isDiscovering = false;
 
-  async startDiscovery(onDeviceFound?: (device: Device) => void) {
+  async startDiscovery(onDeviceFound?: (device: Device) => void, handlers?: DiscoveryHandlers) {
     if (onDeviceFound) {
       this.discoveryCallbacks.add(onDeviceFound);
     }
+    if (handlers) {
+      this.handlers.add(handlers);
+    }
 
     if (this.isDiscovering) {
       // Already discovering, just add the callback
@@ -40,7 +53,10 @@ class DeviceDiscoveryService {
   private async fetchDiscoveredDevices() {
     try {
       const serverUrl = await getWebSocketUrl();
-      const response = await fetch(`${serverUrl}/api/discover`);
+      const response = await fetch(`${serverUrl}/api/discover`, { credentials: 'include' });
+      if (handleUnauthorized(response)) {
+        return;
+      }
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -49,19 +65,10 @@ class DeviceDiscoveryService {
       console.log('Fetched discovered devices:', devices);
 
       devices.forEach((deviceData: any) => {
-        const device: Device = {
-          id: deviceData.id,
-          name: deviceData.name,
-          ip: deviceData.ip,
-          port: deviceData.port,
-          type: deviceData.type,
-          status: deviceData.status || 'discovered',
-          lastSeen: new Date(),
-          deviceInfo: deviceData.deviceInfo,
-        };
+        const device = this.toDevice(deviceData);
 
         // Store and notify
-        this.discoveredDevices.set(device.ip, device);
+        this.discoveredDevices.set(device.id, device);
         this.discoveryCallbacks.forEach(callback => callback(device));
       });
     } catch (error) {
@@ -70,11 +77,11 @@ class DeviceDiscoveryService {
   }
 
   private async connectWebSocket() {
-    const port = await getWebSocketPort();
+    const url = await getWebSocketEndpoint();
     return new Promise<void>((resolve, reject) => {
       try {
         // Connect to the WebSocket server
-        this.ws = new WebSocket(`ws://localhost:${port}`);
+        this.ws = new WebSocket(url);
 
         this.ws.onopen = () => {
           console.log('Connected to discovery WebSocket');
@@ -83,31 +90,40 @@ class DeviceDiscoveryService {
 
         this.ws.onmessage = (event) => {
           try {
-            const message = JSON.parse(event.data);
-
-            if (message.type === 'device:discovered') {
-              console.log('New device discovered via WebSocket:', message.device);
-
-              const device: Device = {
-                id: message.device.id,
-                name: message.device.name,
-                ip: message.device.ip,
-                port: message.device.port,
-                type: message.device.type,
-                status: message.device.status || 'discovered',
-                lastSeen: new Date(),
-                deviceInfo: message.device.deviceInfo,
-              };
-
-              // Check if we already have this device
-              if (!this.discoveredDevices.has(device.ip)) {
-                this.discoveredDevices.set(device.ip, device);
-                this.discoveryCallbacks.forEach(callback => callback(device));
-              } else {
-                // Update existing device
-                const existingDevice = this.discoveredDevices.get(device.ip)!;
-                Object.assign(existingDevice, device);
-                existingDevice.lastSeen = new Date();
+            const message = parseServerMessage(event.data);
+            if (!message) {
+              return;
+            }
+
+            switch (message.type) {
+              case 'device:discovered': {
+                console.log('New device discovered via WebSocket:', message.device);
+                const device = this.toDevice(message.device);
+
+                // Check if we already have this device
+                if (!this.discoveredDevices.has(device.id)) {
+                  this.discoveredDevices.set(device.id, device);
+                  this.discoveryCallbacks.forEach(callback => callback(device));
+                } else {
+                  // Update existing device
+                  Object.assign(this.discoveredDevices.get(device.id)!, device);
+                }
+                break;
+              }
+
+              case 'device:lost':
+                console.log('Device lost:', message.deviceId);
+                this.discoveredDevices.delete(message.deviceId);
+                this.handlers.forEach(h => h.onDeviceLost?.(message.deviceId));
+                break;
+
+              case 'device:changed': {
+                console.log('Device changed:', message.previousDeviceId, '->', message.device);
+                const device = this.toDevice(message.device);
+                this.discoveredDevices.delete(message.previousDeviceId);
+                this.discoveredDevices.set(device.id, device);
+                this.handlers.forEach(h => h.onDeviceChanged?.(device, message.previousDeviceId));
+                break;
               }
             }
           } catch (error) {
@@ -154,9 +170,23 @@ class DeviceDiscoveryService {
     });
   }
 
+  private toDevice(deviceData: any): Device {
+    return {
+      id: deviceData.id,
+      name: deviceData.name,
+      ip: deviceData.ip,
+      port: deviceData.port,
+      type: deviceData.type,
+      status: deviceData.status || 'discovered',
+      lastSeen: deviceData.lastSeen ? new Date(deviceData.lastSeen) : new Date(),
+      deviceInfo: deviceData.deviceInfo,
+    };
+  }
+
   stopDiscovery() {
     console.log('Stopping device discovery');
     this.discoveryCallbacks.clear();
+    this.handlers.clear();
 
     if (this.ws) {
       this.ws.close();
@@ -174,19 +204,67 @@ class DeviceDiscoveryService {
     this.discoveredDevices.clear();
   }
 
+  /**
+   * Devices the user added by address, remembered by the server
+   */
+  async getManualDevices(): Promise<Device[]> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/devices/manual`, { credentials: 'include' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const devices = await response.json();
+    return devices.map((deviceData: any) => ({ ...this.toDevice(deviceData), manual: true }));
+  }
+
+  /**
+   * Probe a host for a phone running AirController and remember it.
+   * Rejects with the server's explanation when the phone is not reachable.
+   */
+  async addManualDevice(host: string, name?: string): Promise<Device> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/devices/manual`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ host, name }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || `Could not reach ${host}`);
+    }
+
+    return { ...this.toDevice(result.device), manual: true };
+  }
+
+  async forgetManualDevice(deviceId: string): Promise<void> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/devices/manual/${encodeURIComponent(deviceId)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+
   async connectToDevice(device: Device): Promise<boolean> {
     try {
       // Send connection request to the server
       const serverUrl = await getWebSocketUrl();
       const response = await fetch(`${serverUrl}/connect`, {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           clientId: this.getClientId(),
           clientName: 'AirController Web',
-          deviceIp: device.ip,
+          deviceId: device.id,
         }),
       });
 
@@ -0,0 +1,259 @@
+import { TransferTask } from '@/types';
+import { getWebSocketUrl } from '@/lib/ws-url';
+import { handleUnauthorized } from '@/lib/auth';
+import { Sha256 } from '@/lib/sha256';
+import { transferService } from './transfer.service';
+
+export type DownloadTarget = 'browser' | 'host';
+
+// How this browser writes a download to disk, best first
+export type BrowserSaveMethod = 'file-system' | 'service-worker' | 'link';
+
+const TARGET_KEY = 'aircontroller.downloadTarget';
+const WORKER_SCOPE = '/__downloads/';
+const WORKER_CHANNEL = 'aircontroller-downloads';
+
+interface WorkerResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+function checkIntegrity(task: TransferTask, size: number, sha256: string) {
+  if (task.fileSize && size !== task.fileSize) {
+    throw new Error(`${task.fileName} is incomplete, got ${size} of ${task.fileSize} bytes`);
+  }
+  if (task.sha256 && sha256 !== task.sha256) {
+    throw new Error(`${task.fileName} does not match the server's checksum`);
+  }
+}
+
+async function activated(registration: ServiceWorkerRegistration): Promise<ServiceWorkerRegistration> {
+  const worker = registration.installing || registration.waiting;
+  if (worker && !registration.active) {
+    await new Promise<void>((resolve) => {
+      worker.addEventListener('statechange', () => {
+        if (worker.state === 'activated') resolve();
+      });
+    });
+  }
+  return registration;
+}
+
+/**
+ * Saves completed downloads from the bridge without holding them in page
+ * memory, and checks each copy against the size and SHA-256 the bridge
+ * reports. The File System Access API writes straight into a file picked
+ * when the download is started; otherwise public/download-sw.js streams it
+ * to the browser's downloader. Where neither is available the browser
+ * downloads the file by itself, unchecked.
+ *
+ * Downloads can instead be kept in a folder on the server host, if the
+ * server was started with DOWNLOAD_DIR.
+ */
+class DownloadService {
+  // Downloads started in this tab, with the file picked for them if any
+  private pendingSaves = new Map<string, FileSystemFileHandle | null>();
+  // Small downloads can complete before the request that queued them returns
+  private completedDownloads = new Map<string, TransferTask>();
+  private worker: Promise<ServiceWorkerRegistration | null> | null = null;
+  private channel: BroadcastChannel | null = null;
+  private workerResults = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+
+  getTarget(): DownloadTarget {
+    return localStorage.getItem(TARGET_KEY) === 'host' ? 'host' : 'browser';
+  }
+
+  setTarget(target: DownloadTarget): void {
+    localStorage.setItem(TARGET_KEY, target);
+  }
+
+  browserMethod(): BrowserSaveMethod {
+    if (typeof window.showSaveFilePicker === 'function') {
+      return 'file-system';
+    }
+    if ('serviceWorker' in navigator && window.isSecureContext) {
+      return 'service-worker';
+    }
+    return 'link';
+  }
+
+  /**
+   * Queue a download and save it once the bridge has it. Call this from a
+   * click handler, the file picker needs one. Resolves with null when the
+   * user dismisses the picker.
+   */
+  async download(
+    deviceId: string,
+    file: { path?: string; paths?: string[]; name: string; size?: number }
+  ): Promise<TransferTask | null> {
+    const saveToHost = this.getTarget() === 'host';
+    let handle: FileSystemFileHandle | null = null;
+    if (!saveToHost && this.browserMethod() === 'file-system') {
+      try {
+        handle = await window.showSaveFilePicker!({ suggestedName: file.name });
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return null;
+        throw error;
+      }
+    }
+
+    const task = await transferService.download(deviceId, { ...file, saveToHost });
+    if (saveToHost) {
+      return task;
+    }
+
+    const completed = this.completedDownloads.get(task.id);
+    if (completed) {
+      this.completedDownloads.delete(task.id);
+      await this.save(completed, handle);
+    } else {
+      this.pendingSaves.set(task.id, handle);
+    }
+    return task;
+  }
+
+  /**
+   * Save a completed download to disk. Resolves with whether the copy was
+   * checked, rejects when it was damaged on the way.
+   */
+  async save(task: TransferTask, handle?: FileSystemFileHandle | null): Promise<boolean> {
+    const serverUrl = await getWebSocketUrl();
+    const url = `${serverUrl}/api/transfers/${encodeURIComponent(task.id)}/file`;
+
+    switch (this.browserMethod()) {
+      case 'file-system': {
+        const target = handle || (await window.showSaveFilePicker!({ suggestedName: task.fileName }));
+        await this.writeToFile(task, url, target);
+        return true;
+      }
+      case 'service-worker': {
+        const registration = await this.registerWorker();
+        if (registration) {
+          await this.streamThroughWorker(task, url);
+          return true;
+        }
+        break;
+      }
+    }
+
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = task.fileName;
+    anchor.style.display = 'none';
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    return false;
+  }
+
+  /**
+   * Save downloads started in this tab as soon as they complete. Returns the
+   * save under way, if the update started one.
+   */
+  handleUpdate(task: TransferTask): Promise<boolean> | undefined {
+    if (!this.pendingSaves.has(task.id)) {
+      if (task.type === 'download' && task.status === 'completed' && !task.savedTo) {
+        this.completedDownloads.set(task.id, task);
+      }
+      return undefined;
+    }
+
+    if (task.status === 'completed') {
+      const handle = this.pendingSaves.get(task.id);
+      this.pendingSaves.delete(task.id);
+      return this.save(task, handle);
+    }
+    if (task.status === 'cancelled') {
+      this.pendingSaves.delete(task.id);
+    }
+    return undefined;
+  }
+
+  // The picked file only replaces what was there once the copy checks out
+  private async writeToFile(task: TransferTask, url: string, handle: FileSystemFileHandle) {
+    const response = await fetch(url, { credentials: 'include' });
+    handleUnauthorized(response);
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const hash = new Sha256();
+    let size = 0;
+    const writable = await handle.createWritable();
+    try {
+      await response.body
+        .pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+              hash.update(chunk);
+              size += chunk.length;
+              controller.enqueue(chunk);
+            },
+          })
+        )
+        .pipeTo(writable, { preventClose: true });
+      checkIntegrity(task, size, hash.digest());
+      await writable.close();
+    } catch (error) {
+      await writable.abort().catch(() => {});
+      throw error;
+    }
+  }
+
+  // A hidden frame opens the download, the worker streams and checks it
+  private streamThroughWorker(task: TransferTask, url: string): Promise<void> {
+    const id = crypto.randomUUID();
+    const params = new URLSearchParams({
+      url,
+      name: task.fileName,
+      size: String(task.fileSize || ''),
+      sha256: task.sha256 || '',
+    });
+
+    const frame = document.createElement('iframe');
+    frame.hidden = true;
+    frame.src = `${WORKER_SCOPE}${id}?${params.toString()}`;
+
+    return new Promise<void>((resolve, reject) => {
+      this.workerResults.set(id, { resolve, reject });
+      document.body.appendChild(frame);
+    }).finally(() => {
+      this.workerResults.delete(id);
+      frame.remove();
+    });
+  }
+
+  private registerWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (!this.worker) {
+      this.channel = new BroadcastChannel(WORKER_CHANNEL);
+      this.channel.onmessage = (event: MessageEvent<WorkerResult>) => {
+        const pending = this.workerResults.get(event.data.id);
+        if (event.data.ok) {
+          pending?.resolve();
+        } else {
+          pending?.reject(new Error(event.data.error || 'Download failed'));
+        }
+      };
+
+      this.worker = navigator.serviceWorker
+        .register('/download-sw.js', { scope: WORKER_SCOPE })
+        .then(activated)
+        .catch((error) => {
+          console.error('Failed to register the download service worker:', error);
+          this.worker = null;
+          return null;
+        });
+    }
+    return this.worker;
+  }
+}
+
+export const downloadService = new DownloadService();
+export default downloadService;
@@ -3,8 +3,10 @@
  * This replaces the WebSocket-based approach for more reliable communication
  */
 
-import { ImageItem, Album } from '@/types';
-import { getWebSocketUrl } from '@/lib/ws-url';
+import { ImageItem, Album, MediaPage, MediaQuery } from '@/types';
+import { getWebSocketUrl, resolveBridgeUrl, resolveMediaUrls } from '@/lib/ws-url';
+import { deviceStreamPath } from '@/lib/device-stream';
+import { handleUnauthorized } from '@/lib/auth';
 
 class ImageService {
   /**
@@ -18,37 +20,42 @@ class ImageService {
   }
 
   /**
-   * Get images from the server (which will proxy to device if connected)
+   * Get images from the server's media index, which it keeps in sync with
+   * the device while connected and serves from disk while it is not
    */
-  async getImages(albumId?: string, page?: number, pageSize?: number): Promise<ImageItem[]> {
+  async getImages(deviceId: string, albumId?: string, query: MediaQuery = {}): Promise<MediaPage<ImageItem>> {
     try {
       const baseUrl = await this.getBaseUrl();
-      const params = new URLSearchParams();
+      const params = new URLSearchParams({ deviceId });
       if (albumId) {
         params.append('albumId', albumId);
       }
-      if (page !== undefined) {
-        params.append('page', String(page));
-      }
-      if (pageSize !== undefined) {
-        params.append('pageSize', String(pageSize));
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== '') {
+          params.append(key, String(value));
+        }
       }
 
-      const url = `${baseUrl}/api/images${params.toString() ? '?' + params.toString() : ''}`;
+      const url = `${baseUrl}/api/images?${params.toString()}`;
 
       const response = await fetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
         },
+        // Carries the auth cookie to the bridge server
+        credentials: 'include',
       });
 
+      handleUnauthorized(response);
+
       if (!response.ok) {
         throw new Error(`Failed to fetch images: ${response.statusText}`);
       }
 
-      const data = await response.json();
-      return data;
+      // Thumbnails are streamed through the bridge
+      const data: MediaPage<ImageItem> = await response.json();
+      return { ...data, items: resolveMediaUrls(data.items, baseUrl) };
     } catch (error) {
       console.error('Error fetching images:', error);
       throw error;
@@ -56,18 +63,23 @@ class ImageService {
   }
 
   /**
-   * Get albums from the server (which will proxy to device if connected)
+   * Get albums from the server's media index
    */
-  async getAlbums(): Promise<Album[]> {
+  async getAlbums(deviceId: string): Promise<MediaPage<Album>> {
     try {
       const baseUrl = await this.getBaseUrl();
-      const response = await fetch(`${baseUrl}/api/albums`, {
+      const params = new URLSearchParams({ deviceId });
+      const response = await fetch(`${baseUrl}/api/albums?${params.toString()}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
         },
+        // Carries the auth cookie to the bridge server
+        credentials: 'include',
       });
 
+      handleUnauthorized(response);
+
       if (!response.ok) {
         throw new Error(`Failed to fetch albums: ${response.statusText}`);
       }
@@ -84,14 +96,14 @@ class ImageService {
    * Download image files (single or multiple)
    * If multiple images are provided, they will be downloaded as a ZIP file
    */
-  async downloadImages(imagePaths: string[], deviceIp: string): Promise<void> {
+  async downloadImages(imagePaths: string[], deviceId: string): Promise<void> {
     try {
-      // Prepare the paths parameter (JSON encoded array)
-      const pathsJson = JSON.stringify(imagePaths);
-      const pathsParam = encodeURIComponent(pathsJson);
-
-      // Construct download URL
-      const downloadUrl = `http://${deviceIp}:9527/stream/download?paths=${pathsParam}`;
+      // The bridge streams the file, or a ZIP of several, from the device
+      const baseUrl = await this.getBaseUrl();
+      const downloadUrl = resolveBridgeUrl(
+        baseUrl,
+        deviceStreamPath(deviceId, 'download', { paths: JSON.stringify(imagePaths) })
+      );
 
       // Create a temporary anchor element to trigger download
       const anchor = document.createElement('a');
@@ -121,19 +133,19 @@ class ImageService {
   /**
    * Download a single image file
    */
-  async downloadImage(imagePath: string, deviceIp: string): Promise<void> {
-    return this.downloadImages([imagePath], deviceIp);
+  async downloadImage(imagePath: string, deviceId: string): Promise<void> {
+    return this.downloadImages([imagePath], deviceId);
   }
 
   /**
    * Delete an image file
    * Note: This still uses WebSocket service for file operations
    */
-  async deleteImage(imagePath: string): Promise<void> {
+  async deleteImage(deviceId: string, imagePath: string): Promise<void> {
     // This would be implemented to delete via HTTP
     // For now, we'll keep using the WebSocket service for deletions
     const { wsService } = await import('./websocket-native.service');
-    return wsService.deleteFile(imagePath);
+    return wsService.deleteFile(deviceId, imagePath);
   }
 }
 
@@ -0,0 +1,21 @@
+import { IndexedDevice } from '@/types';
+import { getWebSocketUrl } from '@/lib/ws-url';
+import { handleUnauthorized } from '@/lib/auth';
+
+class MediaIndexService {
+  /**
+   * Phones whose galleries the bridge has saved, browsable while offline
+   */
+  async getIndexedDevices(): Promise<IndexedDevice[]> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/media/devices`, { credentials: 'include' });
+    handleUnauthorized(response);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+export const mediaIndexService = new MediaIndexService();
+export default mediaIndexService;
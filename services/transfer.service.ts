@@ -0,0 +1,82 @@
+import { TransferTask } from '@/types';
+import { getWebSocketUrl } from '@/lib/ws-url';
+import { handleUnauthorized } from '@/lib/auth';
+import { wsService } from './websocket-native.service';
+
+class TransferService {
+  /**
+   * Transfers the bridge is running or has finished recently
+   */
+  async getTransfers(): Promise<TransferTask[]> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/transfers`, { credentials: 'include' });
+    handleUnauthorized(response);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Folder on the server host downloads can be saved into, null when there is none
+   */
+  async getHostDownloadDir(): Promise<string | null> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/transfers/config`, { credentials: 'include' });
+    handleUnauthorized(response);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const config: { hostDownloadDir: string | null } = await response.json();
+    return config.hostDownloadDir;
+  }
+
+  /**
+   * Queue a download from the phone, several paths come as one zip. See
+   * downloadService for saving it once it is complete.
+   */
+  async download(
+    deviceId: string,
+    file: { path?: string; paths?: string[]; name: string; size?: number; saveToHost?: boolean }
+  ): Promise<TransferTask> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/transfers/download`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        deviceId,
+        path: file.path,
+        paths: file.paths,
+        fileName: file.name,
+        fileSize: file.size,
+        saveToHost: file.saveToHost,
+      }),
+    });
+    handleUnauthorized(response);
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  pause(transferId: string): void {
+    wsService.send({ type: 'transfer:pause', transferId });
+  }
+
+  resume(transferId: string): void {
+    wsService.send({ type: 'transfer:resume', transferId });
+  }
+
+  cancel(transferId: string): void {
+    wsService.send({ type: 'transfer:cancel', transferId });
+  }
+
+  remove(transferId: string): void {
+    wsService.send({ type: 'transfer:remove', transferId });
+  }
+}
+
+export const transferService = new TransferService();
+export default transferService;
@@ -0,0 +1,33 @@
+import { TrustedDevice } from '@/types';
+import { getWebSocketUrl } from '@/lib/ws-url';
+
+class TrustedDeviceService {
+  /**
+   * Phones that completed pairing with the server
+   */
+  async getTrustedDevices(): Promise<TrustedDevice[]> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/trusted-devices`, { credentials: 'include' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Forget a paired phone. It is disconnected and has to pair again.
+   */
+  async revokeDevice(identity: string): Promise<void> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/trusted-devices/${encodeURIComponent(identity)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+}
+
+export const trustedDeviceService = new TrustedDeviceService();
+export default trustedDeviceService;
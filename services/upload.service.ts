@@ -0,0 +1,306 @@
+import { ChunkedUpload, TransferTask, UploadChunk, UploadSession } from '@/types';
+import { getWebSocketUrl } from '@/lib/ws-url';
+import { handleUnauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/sha256';
+import { useUploadStore } from '@/store/upload.store';
+
+// Chunks of one file sent at once
+const CHUNK_CONCURRENCY = 3;
+// Tries per chunk before it is marked failed and left for the user to retry
+const CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+class UploadRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+}
+
+interface ActiveUpload {
+  file: File;
+  deviceId: string;
+  targetPath: string;
+  requests: Set<XMLHttpRequest>;
+  cancelled: boolean;
+}
+
+function chunkLength(session: Pick<UploadSession, 'chunkSize' | 'fileSize'>, index: number): number {
+  return Math.min(session.chunkSize, session.fileSize - index * session.chunkSize);
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends files to the bridge in chunks with a SHA-256 each, so a dropped
+ * connection only costs the chunks in flight. Chunks that keep failing are
+ * left for the user to retry. Once the bridge has every chunk it queues the
+ * upload to the phone, which then shows up as a transfer.
+ *
+ * Files are sent one after another. An upload of the same file into the same
+ * folder continues where it stopped, even after the page was reloaded.
+ */
+class UploadService {
+  private active = new Map<string, ActiveUpload>();
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue a file for upload into targetPath on the phone. Resolves once the
+   * bridge has opened the upload, progress is in the upload store.
+   */
+  async upload(deviceId: string, targetPath: string, file: File): Promise<void> {
+    const session = await this.openSession(deviceId, targetPath, file);
+    if (this.active.has(session.id)) {
+      // Dropped again while it was under way, or after it failed
+      await this.retry(session.id);
+      return;
+    }
+
+    this.active.set(session.id, { file, deviceId, targetPath, requests: new Set(), cancelled: false });
+    useUploadStore.getState().upsertUpload({
+      id: session.id,
+      deviceId,
+      fileName: file.name,
+      fileSize: file.size,
+      chunkSize: session.chunkSize,
+      chunks: this.chunksOf(session),
+      status: 'waiting',
+    });
+    this.enqueue(session.id);
+  }
+
+  /**
+   * Send the failed chunks of an upload again
+   */
+  async retry(uploadId: string): Promise<void> {
+    const active = this.active.get(uploadId);
+    const upload = this.find(uploadId);
+    if (!active || !upload || upload.status !== 'failed') return;
+
+    const { updateUpload } = useUploadStore.getState();
+    updateUpload(uploadId, { status: 'waiting', error: undefined });
+    try {
+      // Chunks may have arrived before the connection dropped. The bridge
+      // forgets uploads left alone for long, the file then starts over.
+      const session = (await this.getSession(uploadId)) ?? (await this.openSession(active.deviceId, active.targetPath, active.file));
+      updateUpload(uploadId, { chunks: this.chunksOf(session) });
+    } catch (error) {
+      updateUpload(uploadId, { status: 'failed', error: (error as Error).message });
+      return;
+    }
+    this.enqueue(uploadId);
+  }
+
+  /**
+   * Retry every failed upload, e.g. once the bridge is reachable again
+   */
+  retryFailed(): void {
+    for (const upload of useUploadStore.getState().uploads) {
+      if (upload.status === 'failed') {
+        this.retry(upload.id).catch((error) => console.error('Failed to retry upload:', error));
+      }
+    }
+  }
+
+  /**
+   * Stop an upload and drop what the bridge has received of it
+   */
+  async cancel(uploadId: string): Promise<void> {
+    const active = this.active.get(uploadId);
+    if (active) {
+      active.cancelled = true;
+      active.requests.forEach((request) => request.abort());
+      this.active.delete(uploadId);
+    }
+    useUploadStore.getState().removeUpload(uploadId);
+
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/uploads/${encodeURIComponent(uploadId)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+    handleUnauthorized(response);
+  }
+
+  private enqueue(uploadId: string) {
+    this.queue = this.queue.then(() => this.run(uploadId));
+  }
+
+  private async run(uploadId: string) {
+    const active = this.active.get(uploadId);
+    if (!active || active.cancelled) return;
+
+    const { updateUpload } = useUploadStore.getState();
+    updateUpload(uploadId, { status: 'uploading' });
+
+    await Promise.all(
+      Array.from({ length: CHUNK_CONCURRENCY }, async () => {
+        for (let index = this.claimChunk(uploadId); index !== -1; index = this.claimChunk(uploadId)) {
+          await this.sendChunk(uploadId, active, index);
+        }
+      })
+    );
+    if (active.cancelled) return;
+
+    const failed = this.find(uploadId)?.chunks.filter((chunk) => chunk.status === 'failed') ?? [];
+    if (failed.length > 0) {
+      updateUpload(uploadId, { status: 'failed', error: failed[0].error });
+      return;
+    }
+
+    updateUpload(uploadId, { status: 'completing' });
+    try {
+      await this.complete(uploadId);
+      this.active.delete(uploadId);
+      useUploadStore.getState().removeUpload(uploadId);
+    } catch (error) {
+      updateUpload(uploadId, { status: 'failed', error: (error as Error).message });
+    }
+  }
+
+  // Next chunk to send, marked as uploading so other workers skip it
+  private claimChunk(uploadId: string): number {
+    const upload = this.find(uploadId);
+    if (!upload || !this.active.has(uploadId)) return -1;
+
+    const index = upload.chunks.findIndex((chunk) => chunk.status === 'pending');
+    if (index !== -1) {
+      useUploadStore.getState().updateChunk(uploadId, index, { status: 'uploading', loaded: 0, error: undefined });
+    }
+    return index;
+  }
+
+  private async sendChunk(uploadId: string, active: ActiveUpload, index: number) {
+    const { updateChunk } = useUploadStore.getState();
+    const upload = this.find(uploadId)!;
+    const start = index * upload.chunkSize;
+    const blob = active.file.slice(start, start + chunkLength(upload, index));
+    const sha256 = await sha256Hex(await blob.arrayBuffer());
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.putChunk(uploadId, active, index, blob, sha256);
+        updateChunk(uploadId, index, { status: 'done', loaded: blob.size });
+        return;
+      } catch (error) {
+        if (active.cancelled) return;
+
+        // The bridge has dropped the upload, retrying the chunk will not help
+        const gone = error instanceof UploadRequestError && error.status === 404;
+        if (gone || attempt >= CHUNK_ATTEMPTS) {
+          updateChunk(uploadId, index, { status: 'failed', loaded: 0, error: (error as Error).message });
+          return;
+        }
+        updateChunk(uploadId, index, { loaded: 0 });
+        await delay(RETRY_DELAY_MS * attempt);
+      }
+    }
+  }
+
+  // XMLHttpRequest rather than fetch, fetch does not report upload progress
+  private async putChunk(uploadId: string, active: ActiveUpload, index: number, blob: Blob, sha256: string): Promise<void> {
+    const serverUrl = await getWebSocketUrl();
+    const { updateChunk } = useUploadStore.getState();
+
+    return new Promise((resolve, reject) => {
+      const request = new XMLHttpRequest();
+      request.open('PUT', `${serverUrl}/api/uploads/${encodeURIComponent(uploadId)}/chunks/${index}`);
+      request.withCredentials = true;
+      request.setRequestHeader('Content-Type', 'application/octet-stream');
+      request.setRequestHeader('X-Chunk-Sha256', sha256);
+
+      request.upload.onprogress = (event) => updateChunk(uploadId, index, { loaded: event.loaded });
+      request.onload = () => {
+        active.requests.delete(request);
+        if (request.status >= 200 && request.status < 300) {
+          resolve();
+          return;
+        }
+        handleUnauthorized(request);
+        let message = `HTTP error! status: ${request.status}`;
+        try {
+          message = JSON.parse(request.responseText).error || message;
+        } catch {
+          // Not a JSON error
+        }
+        reject(new UploadRequestError(message, request.status));
+      };
+      request.onerror = () => {
+        active.requests.delete(request);
+        reject(new UploadRequestError('Connection to the server lost', 0));
+      };
+      request.onabort = () => {
+        active.requests.delete(request);
+        reject(new UploadRequestError('Upload cancelled', 0));
+      };
+
+      active.requests.add(request);
+      request.send(blob);
+    });
+  }
+
+  private async openSession(deviceId: string, targetPath: string, file: File): Promise<UploadSession> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        deviceId,
+        path: targetPath,
+        fileName: file.name,
+        fileSize: file.size,
+        lastModified: file.lastModified,
+      }),
+    });
+    handleUnauthorized(response);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  // undefined when the bridge no longer has the upload
+  private async getSession(uploadId: string): Promise<UploadSession | undefined> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/uploads/${encodeURIComponent(uploadId)}`, {
+      credentials: 'include',
+    });
+    handleUnauthorized(response);
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private async complete(uploadId: string): Promise<TransferTask> {
+    const serverUrl = await getWebSocketUrl();
+    const response = await fetch(`${serverUrl}/api/uploads/${encodeURIComponent(uploadId)}/complete`, {
+      method: 'POST',
+      credentials: 'include',
+    });
+    handleUnauthorized(response);
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private chunksOf(session: UploadSession): UploadChunk[] {
+    const received = new Set(session.receivedChunks);
+    return Array.from({ length: session.chunkCount }, (_, index) =>
+      received.has(index) ? { status: 'done', loaded: chunkLength(session, index) } : { status: 'pending', loaded: 0 }
+    );
+  }
+
+  private find(uploadId: string): ChunkedUpload | undefined {
+    return useUploadStore.getState().uploads.find((upload) => upload.id === uploadId);
+  }
+}
+
+export const uploadService = new UploadService();
+export default uploadService;
@@ -3,8 +3,10 @@
  * This replaces the WebSocket-based approach for more reliable communication
  */
 
-import { VideoItem } from '@/types';
-import { getWebSocketUrl } from '@/lib/ws-url';
+import { MediaPage, MediaQuery, VideoItem } from '@/types';
+import { getWebSocketUrl, resolveBridgeUrl, resolveMediaUrls } from '@/lib/ws-url';
+import { deviceStreamPath } from '@/lib/device-stream';
+import { handleUnauthorized } from '@/lib/auth';
 
 class VideoService {
   /**
@@ -18,34 +20,39 @@ class VideoService {
   }
 
   /**
-   * Get videos from the server (which will proxy to device if connected)
+   * Get videos from the server's media index, which it keeps in sync with
+   * the device while connected and serves from disk while it is not
    */
-  async getVideos(page?: number, pageSize?: number): Promise<VideoItem[]> {
+  async getVideos(deviceId: string, query: MediaQuery = {}): Promise<MediaPage<VideoItem>> {
     try {
       const baseUrl = await this.getBaseUrl();
-      const params = new URLSearchParams();
-      if (page !== undefined) {
-        params.append('page', String(page));
-      }
-      if (pageSize !== undefined) {
-        params.append('pageSize', String(pageSize));
+      const params = new URLSearchParams({ deviceId });
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== '') {
+          params.append(key, String(value));
+        }
       }
 
-      const url = `${baseUrl}/api/videos${params.toString() ? '?' + params.toString() : ''}`;
+      const url = `${baseUrl}/api/videos?${params.toString()}`;
 
       const response = await fetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
         },
+        // Carries the auth cookie to the bridge server
+        credentials: 'include',
       });
 
+      handleUnauthorized(response);
+
       if (!response.ok) {
         throw new Error(`Failed to fetch videos: ${response.statusText}`);
       }
 
-      const data = await response.json();
-      return data;
+      // Thumbnails are streamed through the bridge
+      const data: MediaPage<VideoItem> = await response.json();
+      return { ...data, items: resolveMediaUrls(data.items, baseUrl) };
     } catch (error) {
       console.error('Error fetching videos:', error);
       throw error;
@@ -56,14 +63,14 @@ class VideoService {
    * Download video files (single or multiple)
    * If multiple videos are provided, they will be downloaded as a ZIP file
    */
-  async downloadVideos(videoPaths: string[], deviceIp: string): Promise<void> {
+  async downloadVideos(videoPaths: string[], deviceId: string): Promise<void> {
     try {
-      // Prepare the paths parameter (JSON encoded array)
-      const pathsJson = JSON.stringify(videoPaths);
-      const pathsParam = encodeURIComponent(pathsJson);
-
-      // Construct download URL using the same /stream/download API as images
-      const downloadUrl = `http://${deviceIp}:9527/stream/download?paths=${pathsParam}`;
+      // The bridge streams the file, or a ZIP of several, from the device
+      const baseUrl = await this.getBaseUrl();
+      const downloadUrl = resolveBridgeUrl(
+        baseUrl,
+        deviceStreamPath(deviceId, 'download', { paths: JSON.stringify(videoPaths) })
+      );
 
       // Create a temporary anchor element to trigger download
       const anchor = document.createElement('a');
@@ -93,19 +100,19 @@ class VideoService {
   /**
    * Download a single video file
    */
-  async downloadVideo(videoPath: string, deviceIp: string): Promise<void> {
-    return this.downloadVideos([videoPath], deviceIp);
+  async downloadVideo(videoPath: string, deviceId: string): Promise<void> {
+    return this.downloadVideos([videoPath], deviceId);
   }
 
   /**
    * Delete a video file
    * Note: This still uses WebSocket service for file operations
    */
-  async deleteVideo(videoPath: string): Promise<void> {
+  async deleteVideo(deviceId: string, videoPath: string): Promise<void> {
     // This would be implemented to delete via HTTP
     // For now, we'll keep using the WebSocket service for deletions
     const { wsService } = await import('./websocket-native.service');
-    return wsService.deleteFile(videoPath);
+    return wsService.deleteFile(deviceId, videoPath);
   }
 }
 
@@ -1,15 +1,44 @@
-import { Device, DeviceInfo, FileItem, ImageItem, Album, Contact, AppInfo, VideoItem } from '@/types';
+import { Device, DeviceInfo, FileItem, FileOperationProgress, ImageItem, Album, Contact, AppInfo, VideoItem, PairingMethod } from '@/types';
+import { getBridgeInfo, getWebSocketUrl, resolveMediaUrls } from '@/lib/ws-url';
+import {
+  ClientMessage,
+  ConflictPolicy,
+  DeviceRequest,
+  DeviceRequestType,
+  FileOperationResult,
+  FileSearchFilters,
+  FileSearchResult,
+  FileUploadResult,
+  ProtocolError,
+  RequestPayload,
+  ResponseData,
+  encodeUploadChunk,
+  isResponseMessage,
+  parseServerMessage,
+} from '@/lib/protocol';
 
 interface MessageHandler {
   resolve: (data: any) => void;
   reject: (error: Error) => void;
-  timeout: NodeJS.Timeout;
+  timeout?: NodeJS.Timeout;
 }
 
+const REQUEST_TIMEOUT_MS = 30000;
+// Bytes per binary frame of a file upload
+const UPLOAD_FRAME_SIZE = 256 * 1024;
+// Frames wait while this much is still queued in the socket
+const UPLOAD_BUFFER_LIMIT = 4 * 1024 * 1024;
+
 class WebSocketNativeService {
   private ws: WebSocket | null = null;
   private listeners: Map<string, Set<Function>> = new Map();
   private messageHandlers: Map<string, MessageHandler> = new Map();
+  // file:upload requests waiting for upload:ready, keyed by request id
+  private uploadsReady: Map<string, () => void> = new Map();
+  // file:copy and file:move requests that want file:progress, keyed by request id
+  private progressHandlers: Map<string, (progress: FileOperationProgress) => void> = new Map();
+  // file:search requests waiting for file:search:results, keyed by request id
+  private searchHandlers: Map<string, (files: FileItem[], scannedFolders: number) => void> = new Map();
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private reconnectInterval: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
@@ -17,30 +46,22 @@ class WebSocketNativeService {
   private shouldReconnect = true;
   private lastUrl: string | null = null;
 
-  async connect(deviceIp: string, port?: number): Promise<void> {
+  // Host and port default to what the server reports for this browser
+  async connect(host?: string, port?: number): Promise<void> {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.disconnect();
     }
 
-    // If no port is provided, fetch it from the API
-    let actualPort = port;
-    if (!actualPort) {
-      try {
-        const response = await fetch('/api/ws-port');
-        if (response.ok) {
-          const data = await response.json();
-          actualPort = data.port;
-          console.log('WebSocket server port discovered:', actualPort);
-        } else {
-          throw new Error('Failed to discover WebSocket server port');
-        }
-      } catch (error) {
-        console.error('Failed to fetch WebSocket port:', error);
-        throw new Error('WebSocket server not available');
-      }
+    // Ask the API for the port and whether the server speaks wss
+    const info = await getBridgeInfo();
+    if (!info && (!host || !port)) {
+      throw new Error('WebSocket server not available');
     }
+    const actualHost = host || info!.host;
+    const actualPort = port || info!.port;
+    console.log(`WebSocket server discovered at ${actualHost}:${actualPort}`);
 
-    const url = `ws://${deviceIp}:${actualPort}`;
+    const url = `${info?.secure ? 'wss' : 'ws'}://${actualHost}:${actualPort}`;
     this.lastUrl = url;
     this.shouldReconnect = true;
 
@@ -65,6 +86,7 @@ class WebSocketNativeService {
       this.ws.onclose = () => {
         console.log('WebSocket disconnected');
         this.stopHeartbeat();
+        this.rejectPendingRequests();
         this.emit('disconnected');
 
         // Attempt to reconnect if not manually disconnected
@@ -99,14 +121,11 @@ class WebSocketNativeService {
 
     this.reconnectInterval = setTimeout(() => {
       if (this.shouldReconnect && this.lastUrl) {
-        const [, host] = this.lastUrl.match(/ws:\/\/([^:]+):(\d+)/) || [];
-        if (host) {
-          // Don't pass port, let it be auto-discovered
-          this.connect(host).catch(err => {
-            console.error('Reconnection failed:', err);
-            // Will trigger another reconnect attempt via onclose handler
-          });
-        }
+        // Don't pass host or port, the server may have restarted elsewhere
+        this.connect().catch(err => {
+          console.error('Reconnection failed:', err);
+          // Will trigger another reconnect attempt via onclose handler
+        });
       }
     }, delay);
   }
@@ -119,92 +138,128 @@ class WebSocketNativeService {
   }
 
   private handleMessage(event: MessageEvent) {
-    try {
-      const data = JSON.parse(event.data);
-      console.log('WebSocket message received:', data);
-
-      switch (data.type) {
-        case 'connected':
-          console.log('Connected to server:', data.message);
-          break;
-
-        case 'register:ack':
-          console.log('Device registered successfully');
-          break;
-
-        case 'heartbeat:ack':
-          // Heartbeat acknowledged
-          break;
-
-        case 'device:discovered':
-          console.log('New device discovered via UDP:', data.device);
-          // Notify device discovery listeners
-          this.emit('device:discovered', data.device);
-          if (typeof window !== 'undefined') {
-            window.dispatchEvent(new CustomEvent('device:discovered', { detail: data.device }));
-          }
-          break;
-
-        case 'connection:success':
-          console.log('Device connection successful:', data.device);
-          this.emit('connection:success', data);
-          break;
-
-        case 'connection:error':
-          console.log('Device connection failed:', data.error);
-          this.emit('connection:error', data);
-          break;
-
-        case 'device:disconnected':
-          console.log('Device disconnected:', data.device);
-          this.emit('device:disconnected', data.device);
-          break;
-
-        case 'mobile:info:update':
-          console.log('Mobile info updated:', data);
-          this.emit('mobile:info:update', data);
-          // Also dispatch custom event for device store
-          if (typeof window !== 'undefined') {
-            window.dispatchEvent(new CustomEvent('mobile:info:update', { detail: data }));
-          }
-          break;
-
-        case 'device:info:response':
-        case 'file:list:response':
-        case 'image:list:response':
-        case 'album:list:response':
-        case 'contact:list:response':
-        case 'app:list:response':
-        case 'video:list:response':
-          if (data.id && this.messageHandlers.has(data.id)) {
-            const handler = this.messageHandlers.get(data.id)!;
-            clearTimeout(handler.timeout);
-            handler.resolve(data.data);
-            this.messageHandlers.delete(data.id);
-          }
-          break;
-
-        case 'error':
-          if (data.id && this.messageHandlers.has(data.id)) {
-            const handler = this.messageHandlers.get(data.id)!;
-            clearTimeout(handler.timeout);
-            handler.reject(new Error(data.error || 'Unknown error'));
-            this.messageHandlers.delete(data.id);
-          }
-          break;
-
-        default:
-          console.log('Unknown message type:', data.type);
-          // Check if it's a response to a pending request
-          if (data.id && this.messageHandlers.has(data.id)) {
-            const handler = this.messageHandlers.get(data.id)!;
-            clearTimeout(handler.timeout);
-            handler.resolve(data);
-            this.messageHandlers.delete(data.id);
-          }
+    const data = parseServerMessage(event.data);
+    if (!data) {
+      return;
+    }
+    console.log('WebSocket message received:', data);
+
+    // Replies to requests made with sendMessage
+    if (isResponseMessage(data)) {
+      const handler = this.messageHandlers.get(data.id);
+      if (handler) {
+        clearTimeout(handler.timeout);
+        handler.resolve(data.data);
+        this.messageHandlers.delete(data.id);
+      }
+      return;
+    }
+
+    switch (data.type) {
+      case 'connected':
+        console.log('Connected to server:', data.message);
+        break;
+
+      case 'register:ack':
+        console.log('Device registered successfully');
+        break;
+
+      case 'heartbeat:ack':
+        // Heartbeat acknowledged
+        break;
+
+      case 'device:discovered':
+        console.log('New device discovered via UDP:', data.device);
+        // Notify device discovery listeners
+        this.emit('device:discovered', data.device);
+        if (typeof window !== 'undefined') {
+          window.dispatchEvent(new CustomEvent('device:discovered', { detail: data.device }));
+        }
+        break;
+
+      case 'connection:success':
+        console.log('Device connection successful:', data.device);
+        this.emit('connection:success', data);
+        break;
+
+      case 'connection:error':
+        console.log('Device connection failed:', data.error);
+        this.emit('connection:error', data);
+        break;
+
+      case 'connection:state':
+        console.log(`Device ${data.deviceId} is ${data.state}: ${data.reason}`);
+        this.emit('connection:state', data);
+        break;
+
+      case 'link:quality':
+        this.emit('link:quality', data);
+        break;
+
+      case 'pairing:required':
+        console.log(`Device ${data.deviceId} needs pairing, PIN shown on the ${data.method}`);
+        this.emit('pairing:required', data);
+        break;
+
+      case 'pairing:attempt':
+        console.log(`Wrong pairing PIN for ${data.deviceId}, ${data.attemptsLeft} attempts left`);
+        this.emit('pairing:attempt', data);
+        break;
+
+      case 'connection:closed':
+        console.log('Device connection closed:', data.deviceId);
+        this.emit('connection:closed', data);
+        break;
+
+      case 'device:disconnected':
+        console.log('Device disconnected:', data.device);
+        this.emit('device:disconnected', data.device);
+        break;
+
+      case 'mobile:info:update':
+        console.log('Mobile info updated:', data);
+        this.emit('mobile:info:update', data);
+        // Also dispatch custom event for device store
+        if (typeof window !== 'undefined') {
+          window.dispatchEvent(new CustomEvent('mobile:info:update', { detail: data }));
+        }
+        break;
+
+      case 'transfer:update':
+        this.emit('transfer:update', data.task);
+        break;
+
+      case 'transfer:removed':
+        this.emit('transfer:removed', data.transferId);
+        break;
+
+      case 'upload:ready':
+        this.uploadsReady.get(data.id)?.();
+        break;
+
+      case 'file:progress':
+        this.progressHandlers.get(data.id)?.(data.progress);
+        break;
+
+      case 'file:search:results':
+        this.searchHandlers.get(data.id)?.(data.files, data.scannedFolders);
+        break;
+
+      case 'error': {
+        const handler = data.id ? this.messageHandlers.get(data.id) : undefined;
+        if (handler) {
+          clearTimeout(handler.timeout);
+          handler.reject(new ProtocolError(data.error, data.code, data.issues));
+          this.messageHandlers.delete(data.id!);
+        } else {
+          console.error(`Server error (${data.code}): ${data.error}`, data.issues || '');
+        }
+        break;
       }
-    } catch (error) {
-      console.error('Failed to parse WebSocket message:', error);
+
+      default:
+        // device:lost, device:changed and command:received are handled elsewhere
+        break;
     }
   }
 
@@ -212,7 +267,7 @@ class WebSocketNativeService {
     this.stopHeartbeat();
     this.heartbeatInterval = setInterval(() => {
       if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({ type: 'heartbeat' }));
+        this.send({ type: 'heartbeat' });
       }
     }, 5000);
   }
@@ -256,141 +311,301 @@ class WebSocketNativeService {
     this.listeners.get(event)?.forEach(callback => callback(...args));
   }
 
-  // Send raw message (for connect:device and other special messages)
-  send(_type: string, data: any): void {
+  // Send a message that is answered with events rather than a response
+  send(message: ClientMessage): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       throw new Error('Not connected to server');
     }
-    this.ws.send(JSON.stringify(data));
+    this.ws.send(JSON.stringify(message));
   }
 
-  // Send message to device
-  private sendMessage<T = any>(type: string, payload?: any): Promise<T> {
-    // Special handling for connect:device - doesn't need a response handler
-    if (type === 'connect:device') {
-      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-        return Promise.reject(new Error('Not connected to server'));
-      }
-
-      const message = {
-        type,
-        payload
-      };
-
-      this.ws.send(JSON.stringify(message));
-      // Return a resolved promise since we handle connection response via events
-      return Promise.resolve({} as T);
-    }
+  // Send a request to a device, deviceId selects which connected phone handles it
+  private sendMessage<T extends DeviceRequestType>(
+    type: T,
+    deviceId: string,
+    ...[payload]: undefined extends RequestPayload<T> ? [RequestPayload<T>?] : [RequestPayload<T>]
+  ): Promise<ResponseData<T>> {
+    const message = {
+      id: this.createRequestId(),
+      type,
+      deviceId,
+      payload
+    } as DeviceRequest;
+    return this.request(message, REQUEST_TIMEOUT_MS);
+  }
 
+  // Send a request and wait for its response, without a time limit when timeoutMs is null
+  private request<T extends DeviceRequestType>(message: DeviceRequest, timeoutMs: number | null): Promise<ResponseData<T>> {
     return new Promise((resolve, reject) => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
         reject(new Error('Not connected to device'));
         return;
       }
 
-      const id = `msg_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-
-      const timeout = setTimeout(() => {
-        this.messageHandlers.delete(id);
-        reject(new Error(`Request timeout: ${type}`));
-      }, 30000);
+      const timeout = timeoutMs === null ? undefined : setTimeout(() => {
+        this.messageHandlers.delete(message.id);
+        reject(new Error(`Request timeout: ${message.type}`));
+      }, timeoutMs);
 
-      this.messageHandlers.set(id, {
+      this.messageHandlers.set(message.id, {
         resolve,
         reject,
         timeout
       });
 
-      const message = {
-        id,
-        type,
-        payload
-      };
-
       this.ws.send(JSON.stringify(message));
     });
   }
 
-  // Register device
-  async registerDevice(device: Device): Promise<void> {
-    await this.sendMessage('register', device);
+  private createRequestId(): string {
+    return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  // Requests in flight are not answered on a new connection
+  private rejectPendingRequests() {
+    this.messageHandlers.forEach((handler) => {
+      clearTimeout(handler.timeout);
+      handler.reject(new Error('Connection to server lost'));
+    });
+    this.messageHandlers.clear();
+  }
+
+  // Stream a file as binary frames until it is sent or its request was answered
+  private async sendUploadFrames(
+    id: string,
+    file: File,
+    answered: () => boolean,
+    onProgress?: (sent: number, total: number) => void
+  ) {
+    for (let offset = 0; offset < file.size && !answered(); offset += UPLOAD_FRAME_SIZE) {
+      while (this.ws && this.ws.bufferedAmount > UPLOAD_BUFFER_LIMIT) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        throw new Error('Not connected to server');
+      }
+
+      const data = new Uint8Array(await file.slice(offset, offset + UPLOAD_FRAME_SIZE).arrayBuffer());
+      this.ws.send(encodeUploadChunk(id, data));
+      onProgress?.(offset + data.length, file.size);
+    }
+  }
+
+  // Ask the server to open the TCP channels of a device, the outcome arrives as events
+  connectDevice(device: Device, pairingMethod?: PairingMethod): void {
+    this.send({ type: 'connect:device', device, pairingMethod });
   }
 
   // Device info
-  async getDeviceInfo(): Promise<DeviceInfo> {
-    return this.sendMessage('device:info');
+  async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+    return this.sendMessage('device:info', deviceId);
+  }
+
+  // Close the TCP channels of a single device, leaving other devices connected
+  disconnectDevice(deviceId: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    this.send({ type: 'disconnect:device', deviceId });
+  }
+
+  // Pairing, for phones the server does not trust yet
+  submitPairingPin(deviceId: string, pin: string): void {
+    this.send({ type: 'pairing:submit', deviceId, payload: { pin } });
+  }
+
+  restartPairing(deviceId: string, method: PairingMethod): void {
+    this.send({ type: 'pairing:restart', deviceId, payload: { method } });
+  }
+
+  cancelPairing(deviceId: string): void {
+    this.send({ type: 'pairing:cancel', deviceId });
   }
 
   // File operations
-  async getFileList(path: string = '/'): Promise<FileItem[]> {
-    return this.sendMessage('file:list', { path });
+  async getFileList(deviceId: string, path: string = '/'): Promise<FileItem[]> {
+    return this.sendMessage('file:list', deviceId, { path });
   }
 
-  async downloadFile(path: string): Promise<any> {
-    return this.sendMessage('file:download', { path });
+  async downloadFile(deviceId: string, path: string): Promise<unknown> {
+    return this.sendMessage('file:download', deviceId, { path });
   }
 
-  async uploadFile(file: File, targetPath: string): Promise<void> {
-    // For file upload, we'll need to handle it differently
-    // This might require using HTTP endpoint instead
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('targetPath', targetPath);
+  /**
+   * Upload a file into a folder on the phone. The server checks the folder
+   * and resolves name conflicts first, then the file follows over this
+   * WebSocket. There is no time limit, a dropped connection fails it.
+   */
+  async uploadFile(
+    deviceId: string,
+    file: File,
+    targetPath: string,
+    options: { conflict?: ConflictPolicy; onProgress?: (sent: number, total: number) => void } = {}
+  ): Promise<FileUploadResult> {
+    const id = this.createRequestId();
+    const ready = new Promise<void>((resolve) => this.uploadsReady.set(id, resolve));
+    let answered = false;
+    const response = this.request<'file:upload'>({
+      id,
+      type: 'file:upload',
+      deviceId,
+      payload: { name: file.name, size: file.size, targetPath, conflict: options.conflict },
+    }, null).finally(() => {
+      answered = true;
+    });
 
-    return this.sendMessage('file:upload', {
-      name: file.name,
-      size: file.size,
-      targetPath
+    try {
+      // Skipped files and rejected folders are answered without upload:ready
+      const accepted = await Promise.race([ready.then(() => true), response.then(() => false)]);
+      if (accepted) {
+        await this.sendUploadFrames(id, file, () => answered, options.onProgress);
+      }
+    } finally {
+      this.uploadsReady.delete(id);
+    }
+    return response;
+  }
+
+  async deleteFile(deviceId: string, path: string): Promise<void> {
+    await this.sendMessage('file:delete', deviceId, { path });
+  }
+
+  async renameFile(deviceId: string, path: string, newName: string): Promise<FileItem> {
+    return this.sendMessage('file:rename', deviceId, { path, newName });
+  }
+
+  // Create a folder called name inside the folder at path
+  async createFolder(deviceId: string, path: string, name: string): Promise<FileItem> {
+    return this.sendMessage('file:mkdir', deviceId, { path, name });
+  }
+
+  /**
+   * Copy files and folders into another folder on the phone. Large folders
+   * take a while, so there is no time limit, onProgress hears how far it got.
+   */
+  async copyFiles(
+    deviceId: string,
+    paths: string[],
+    targetPath: string,
+    options: { conflict?: ConflictPolicy; onProgress?: (progress: FileOperationProgress) => void } = {}
+  ): Promise<FileOperationResult> {
+    return this.fileOperation('file:copy', deviceId, paths, targetPath, options);
+  }
+
+  /**
+   * Move files and folders into another folder on the phone, see copyFiles().
+   * Whatever could not be copied stays where it was.
+   */
+  async moveFiles(
+    deviceId: string,
+    paths: string[],
+    targetPath: string,
+    options: { conflict?: ConflictPolicy; onProgress?: (progress: FileOperationProgress) => void } = {}
+  ): Promise<FileOperationResult> {
+    return this.fileOperation('file:move', deviceId, paths, targetPath, options);
+  }
+
+  /**
+   * Search the folders below path on the phone. Matches are passed to
+   * onResults as they are found, done settles when the search is over.
+   * Stop it early with cancelSearch(deviceId, id).
+   */
+  searchFiles(
+    deviceId: string,
+    path: string,
+    filters: FileSearchFilters,
+    onResults: (files: FileItem[], scannedFolders: number) => void,
+    limit?: number
+  ): { id: string; done: Promise<FileSearchResult> } {
+    const id = this.createRequestId();
+    this.searchHandlers.set(id, onResults);
+    const done = this.request<'file:search'>({
+      id,
+      type: 'file:search',
+      deviceId,
+      payload: { path, filters, limit },
+    }, null).finally(() => {
+      this.searchHandlers.delete(id);
     });
+    return { id, done };
   }
 
-  async deleteFile(path: string): Promise<void> {
-    return this.sendMessage('file:delete', { path });
+  async cancelSearch(deviceId: string, searchId: string): Promise<void> {
+    await this.sendMessage('file:search:cancel', deviceId, { searchId });
+  }
+
+  private async fileOperation(
+    type: 'file:copy' | 'file:move',
+    deviceId: string,
+    paths: string[],
+    targetPath: string,
+    options: { conflict?: ConflictPolicy; onProgress?: (progress: FileOperationProgress) => void }
+  ): Promise<FileOperationResult> {
+    const id = this.createRequestId();
+    if (options.onProgress) {
+      this.progressHandlers.set(id, options.onProgress);
+    }
+    try {
+      return await this.request<typeof type>({
+        id,
+        type,
+        deviceId,
+        payload: { paths, targetPath, conflict: options.conflict },
+      }, null);
+    } finally {
+      this.progressHandlers.delete(id);
+    }
   }
 
   // Image operations
-  async getImages(albumId?: string): Promise<ImageItem[]> {
-    return this.sendMessage('image:list', { albumId });
+  async getImages(deviceId: string, albumId?: string): Promise<ImageItem[]> {
+    const images = await this.sendMessage('image:list', deviceId, { albumId });
+    return resolveMediaUrls(images, await getWebSocketUrl());
   }
 
-  async getAlbums(): Promise<Album[]> {
-    return this.sendMessage('album:list');
+  async getAlbums(deviceId: string): Promise<Album[]> {
+    return this.sendMessage('album:list', deviceId);
   }
 
   // Video operations
-  async getVideos(): Promise<VideoItem[]> {
-    return this.sendMessage('video:list');
+  async getVideos(deviceId: string): Promise<VideoItem[]> {
+    const videos = await this.sendMessage('video:list', deviceId);
+    return resolveMediaUrls(videos, await getWebSocketUrl());
   }
 
   // Contact operations
-  async getContacts(): Promise<Contact[]> {
-    return this.sendMessage('contact:list');
+  async getContacts(deviceId: string): Promise<Contact[]> {
+    return this.sendMessage('contact:list', deviceId);
   }
 
-  async updateContact(contact: Contact): Promise<void> {
-    return this.sendMessage('contact:update', contact);
+  async updateContact(deviceId: string, contact: Contact): Promise<void> {
+    await this.sendMessage('contact:update', deviceId, contact);
   }
 
-  async deleteContact(contactId: string): Promise<void> {
-    return this.sendMessage('contact:delete', { id: contactId });
+  async deleteContact(deviceId: string, contactId: string): Promise<void> {
+    await this.sendMessage('contact:delete', deviceId, { id: contactId });
   }
 
   // App operations
-  async getInstalledApps(): Promise<AppInfo[]> {
-    return this.sendMessage('app:list');
+  async getInstalledApps(deviceId: string): Promise<AppInfo[]> {
+    return this.sendMessage('app:list', deviceId);
   }
 
-  async uninstallApp(packageName: string): Promise<void> {
-    return this.sendMessage('app:uninstall', { packageName });
+  async uninstallApp(deviceId: string, packageName: string): Promise<void> {
+    await this.sendMessage('app:uninstall', deviceId, { packageName });
   }
 
-  async backupApp(packageName: string): Promise<void> {
-    return this.sendMessage('app:backup', { packageName });
+  async backupApp(deviceId: string, packageName: string): Promise<void> {
+    await this.sendMessage('app:backup', deviceId, { packageName });
   }
 
-  // Generic send command (for flexibility)
-  async sendCommand<T = any>(command: string, data?: any): Promise<T> {
-    return this.sendMessage(command, data);
+  // Any device request, typed by the shared protocol
+  async sendCommand<T extends DeviceRequestType>(
+    deviceId: string,
+    command: T,
+    ...payload: undefined extends RequestPayload<T> ? [RequestPayload<T>?] : [RequestPayload<T>]
+  ): Promise<ResponseData<T>> {
+    return this.sendMessage(command, deviceId, ...payload);
   }
 }
 
@@ -0,0 +1,322 @@
+import fs from 'fs';
+import path from 'path';
+import { AppInfo, Contact } from '../types';
+import { DEVICE_STORAGE_ROOT, stableId } from './media-library';
+import { Rgb, encodePng } from './png-writer';
+
+export interface DemoDataset {
+  storageDir: string;
+  contacts: Contact[];
+  apps: AppInfo[];
+}
+
+interface Scene {
+  sky: [Rgb, Rgb];   // Top and horizon
+  ground: Rgb;
+  sun: Rgb;
+  sunX: number;      // 0-1 across the frame
+  sunY: number;
+  hills: number;     // Number of hill crests
+}
+
+interface DemoMedia {
+  path: string;      // Relative to the storage root
+  date: string;
+  scene: Scene;
+}
+
+const PHOTO_SIZE = { width: 1200, height: 900 };
+const SCREENSHOT_SIZE = { width: 540, height: 1200 };
+const VIDEO_SIZE = { width: 1280, height: 720 };
+const THUMBNAIL_MAX = 320;
+
+// Android keeps MediaStore thumbnails here, the simulator serves them when present
+const THUMBNAIL_DIR = 'DCIM/.thumbnails';
+
+const PHOTOS: DemoMedia[] = [
+  {
+    path: 'DCIM/Camera/IMG_20240601_064512.png',
+    date: '2024-06-01T06:45:12Z',
+    scene: { sky: [[255, 170, 120], [255, 220, 170]], ground: [70, 90, 60], sun: [255, 240, 200], sunX: 0.25, sunY: 0.6, hills: 2 },
+  },
+  {
+    path: 'DCIM/Camera/IMG_20240608_131045.png',
+    date: '2024-06-08T13:10:45Z',
+    scene: { sky: [[60, 130, 220], [170, 210, 245]], ground: [80, 150, 70], sun: [255, 255, 220], sunX: 0.7, sunY: 0.2, hills: 3 },
+  },
+  {
+    path: 'DCIM/Camera/IMG_20240615_194230.png',
+    date: '2024-06-15T19:42:30Z',
+    scene: { sky: [[90, 60, 140], [250, 140, 90]], ground: [50, 40, 60], sun: [255, 200, 120], sunX: 0.5, sunY: 0.55, hills: 4 },
+  },
+  {
+    path: 'DCIM/Camera/IMG_20240622_101500.png',
+    date: '2024-06-22T10:15:00Z',
+    scene: { sky: [[120, 180, 230], [220, 235, 245]], ground: [200, 190, 150], sun: [255, 255, 240], sunX: 0.85, sunY: 0.15, hills: 1 },
+  },
+  {
+    path: 'DCIM/Camera/IMG_20240703_215959.png',
+    date: '2024-07-03T21:59:59Z',
+    scene: { sky: [[10, 15, 40], [40, 50, 100]], ground: [20, 25, 30], sun: [230, 230, 210], sunX: 0.3, sunY: 0.25, hills: 5 },
+  },
+  {
+    path: 'Pictures/Holiday/IMG_20240712_090000.png',
+    date: '2024-07-12T09:00:00Z',
+    scene: { sky: [[0, 150, 200], [150, 220, 240]], ground: [230, 210, 160], sun: [255, 250, 210], sunX: 0.6, sunY: 0.18, hills: 0 },
+  },
+  {
+    path: 'Pictures/Holiday/IMG_20240713_174520.png',
+    date: '2024-07-13T17:45:20Z',
+    scene: { sky: [[240, 120, 80], [255, 200, 140]], ground: [20, 90, 130], sun: [255, 230, 160], sunX: 0.45, sunY: 0.5, hills: 0 },
+  },
+];
+
+const SCREENSHOTS: DemoMedia[] = [
+  {
+    path: 'Pictures/Screenshots/Screenshot_20240610_101010.png',
+    date: '2024-06-10T10:10:10Z',
+    scene: { sky: [[33, 150, 243], [33, 150, 243]], ground: [245, 245, 245], sun: [255, 255, 255], sunX: 0, sunY: 0, hills: 6 },
+  },
+  {
+    path: 'Pictures/Screenshots/Screenshot_20240705_083000.png',
+    date: '2024-07-05T08:30:00Z',
+    scene: { sky: [[76, 175, 80], [76, 175, 80]], ground: [250, 250, 250], sun: [255, 255, 255], sunX: 0, sunY: 0, hills: 4 },
+  },
+];
+
+// Video files are placeholders of a plausible size, only their thumbnails and metadata are meant to be looked at
+const VIDEOS: (DemoMedia & { size: number })[] = [
+  {
+    path: 'DCIM/Camera/VID_20240615_195012.mp4',
+    date: '2024-06-15T19:50:12Z',
+    size: 3 * 1024 * 1024,
+    scene: { sky: [[90, 60, 140], [250, 140, 90]], ground: [50, 40, 60], sun: [255, 200, 120], sunX: 0.55, sunY: 0.6, hills: 4 },
+  },
+  {
+    path: 'Movies/VID_20240712_101530.mp4',
+    date: '2024-07-12T10:15:30Z',
+    size: 5 * 1024 * 1024,
+    scene: { sky: [[0, 150, 200], [150, 220, 240]], ground: [20, 90, 130], sun: [255, 250, 210], sunX: 0.2, sunY: 0.2, hills: 0 },
+  },
+];
+
+const DOCUMENTS: { path: string; date: string; content: string | Buffer }[] = [
+  {
+    path: 'Documents/notes.md',
+    date: '2024-06-03T08:00:00Z',
+    content: '# Notes\n\n- Book train tickets for the coast\n- Renew passport before August\n- Send photos to Mum\n',
+  },
+  {
+    path: 'Documents/budget-2024.csv',
+    date: '2024-06-30T18:20:00Z',
+    content: 'month,rent,groceries,travel\nApril,950,310,120\nMay,950,285,80\nJune,950,330,410\n',
+  },
+  {
+    path: 'Documents/Work/meeting-notes.txt',
+    date: '2024-07-01T15:05:00Z',
+    content: 'Quarterly planning\n\n1. Ship the new onboarding flow\n2. Hire a second designer\n3. Review support backlog weekly\n',
+  },
+  {
+    path: 'Download/boarding-pass.pdf',
+    date: '2024-07-10T20:45:00Z',
+    content: simplePdf(['Boarding pass', 'Flight AC 214 - Lisbon', 'Seat 14A, Gate B7', 'Boarding 08:35']),
+  },
+  {
+    path: 'Download/readme.txt',
+    date: '2024-05-20T12:00:00Z',
+    content: 'Files downloaded on the phone end up in this folder.\n',
+  },
+];
+
+const EMPTY_FOLDERS = ['Music', 'Alarms'];
+const EMPTY_FOLDER_DATE = '2024-05-01T00:00:00Z';
+
+const CONTACTS: Contact[] = [
+  { id: 'contact_1', name: 'Alice Martin', phoneNumbers: ['+44 7700 900101'], emails: ['alice.martin@example.com'] },
+  { id: 'contact_2', name: 'Ben Okafor', phoneNumbers: ['+44 7700 900102', '+44 20 7946 0102'], emails: [] },
+  { id: 'contact_3', name: 'Chen Wei', phoneNumbers: ['+86 138 0000 0103'], emails: ['chen.wei@example.com'] },
+  { id: 'contact_4', name: 'Dana Kowalski', phoneNumbers: ['+48 600 000 104'], emails: ['dana@example.org'] },
+  { id: 'contact_5', name: 'Emma Rossi', phoneNumbers: ['+39 320 000 0105'], emails: ['emma.rossi@example.com', 'e.rossi@example.org'] },
+  { id: 'contact_6', name: 'Farid Haddad', phoneNumbers: ['+33 6 00 00 01 06'], emails: [] },
+  { id: 'contact_7', name: 'Grace Lee', phoneNumbers: ['+1 202 555 0107'], emails: ['grace.lee@example.com'] },
+  { id: 'contact_8', name: 'Hugo Santos', phoneNumbers: ['+351 910 000 108'], emails: ['hugo@example.net'] },
+];
+
+const APPS: { name: string; packageName: string; version: string; sizeMb: number; installed: string; color: string }[] = [
+  { name: 'Notes', packageName: 'com.example.notes', version: '4.2.1', sizeMb: 18, installed: '2023-11-02T10:00:00Z', color: '#f59e0b' },
+  { name: 'Weather', packageName: 'com.example.weather', version: '2.8.0', sizeMb: 34, installed: '2023-12-14T09:30:00Z', color: '#3b82f6' },
+  { name: 'Podcasts', packageName: 'com.example.podcasts', version: '1.15.3', sizeMb: 56, installed: '2024-01-20T19:15:00Z', color: '#8b5cf6' },
+  { name: 'Maps', packageName: 'com.example.maps', version: '11.4.0', sizeMb: 142, installed: '2024-02-05T08:00:00Z', color: '#10b981' },
+  { name: 'Recipes', packageName: 'com.example.recipes', version: '3.0.2', sizeMb: 27, installed: '2024-03-18T17:40:00Z', color: '#ef4444' },
+  { name: 'Trains', packageName: 'com.example.trains', version: '5.6.9', sizeMb: 41, installed: '2024-05-30T07:20:00Z', color: '#0ea5e9' },
+];
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+/**
+ * Landscape made of a sky gradient, a sun and rolling hills, drawn the same at any size
+ */
+function landscape(scene: Scene, width: number, height: number) {
+  return (x: number, y: number): Rgb => {
+    const u = x / width;
+    const v = y / height;
+    const horizon = 0.62 + (scene.hills ? 0.06 * Math.sin(u * Math.PI * scene.hills) : 0);
+    if (v > horizon) {
+      return mix(scene.ground, [0, 0, 0], Math.min(0.5, (v - horizon) * 0.8));
+    }
+
+    const sky = mix(scene.sky[0], scene.sky[1], v / horizon);
+    const dx = (u - scene.sunX) * (width / height);
+    const dy = v - scene.sunY;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance < 0.07) {
+      return scene.sun;
+    }
+    return mix(scene.sun, sky, Math.min(1, (distance - 0.07) / 0.12));
+  };
+}
+
+/**
+ * Phone screen with an app bar and a list of cards, hills is the number of cards
+ */
+function screen(scene: Scene, width: number, height: number) {
+  return (x: number, y: number): Rgb => {
+    const v = y / height;
+    if (v < 0.03) return [30, 30, 30];
+    if (v < 0.1) return scene.sky[0];
+
+    const card = Math.floor((v - 0.12) / 0.14);
+    const inCard = (v - 0.12) % 0.14 < 0.12 && card >= 0 && card < scene.hills;
+    const margin = 0.04 * width;
+    if (inCard && x > margin && x < width - margin) {
+      return (v - 0.12) % 0.14 < 0.03 ? mix(scene.sky[0], [255, 255, 255], 0.7) : [255, 255, 255];
+    }
+    return scene.ground;
+  };
+}
+
+function writeFile(storageDir: string, relativePath: string, content: string | Buffer, date: string) {
+  const localPath = path.join(storageDir, relativePath);
+  fs.mkdirSync(path.dirname(localPath), { recursive: true });
+  fs.writeFileSync(localPath, content);
+  const time = new Date(date);
+  fs.utimesSync(localPath, time, time);
+}
+
+function writeThumbnail(
+  storageDir: string,
+  media: DemoMedia,
+  size: { width: number; height: number },
+  draw: typeof landscape
+) {
+  const id = stableId(`${DEVICE_STORAGE_ROOT}/${media.path}`);
+  const scale = THUMBNAIL_MAX / Math.max(size.width, size.height);
+  const width = Math.round(size.width * scale);
+  const height = Math.round(size.height * scale);
+  writeFile(storageDir, `${THUMBNAIL_DIR}/${id}.png`, encodePng(width, height, draw(media.scene, width, height)), media.date);
+}
+
+/**
+ * Give each folder the date of its newest entry, writing files bumped them to now
+ */
+function dateFolders(dir: string): number {
+  let newest = new Date(EMPTY_FOLDER_DATE).getTime();
+  for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, dirent.name);
+    const time = dirent.isDirectory() ? dateFolders(entryPath) : fs.statSync(entryPath).mtimeMs;
+    newest = Math.max(newest, time);
+  }
+  const time = new Date(newest);
+  fs.utimesSync(dir, time, time);
+  return newest;
+}
+
+function appIcon(name: string, color: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="96" height="96" viewBox="0 0 96 96">` +
+    `<rect width="96" height="96" rx="22" fill="${color}"/>` +
+    `<text x="48" y="62" fill="#fff" font-family="sans-serif" font-size="44" font-weight="bold" text-anchor="middle">${name[0]}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+/**
+ * One page PDF with a line of text per entry
+ */
+function simplePdf(lines: string[]): Buffer {
+  const text = lines
+    .map((line, i) => `${i === 0 ? '72 720 Td' : '0 -28 Td'} (${line.replace(/[()\\]/g, '\\$&')}) Tj`)
+    .join('\n');
+  const content = `BT\n/F1 18 Tf\n${text}\nET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(pdf));
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Write the demo phone's storage into dir, replacing whatever a previous run
+ * left there, so every demo starts from the same files, dates and ids.
+ */
+export function createDemoDataset(dir: string): DemoDataset {
+  const storageDir = path.join(dir, 'storage');
+  fs.rmSync(storageDir, { recursive: true, force: true });
+  fs.mkdirSync(storageDir, { recursive: true });
+
+  for (const photo of PHOTOS) {
+    const { width, height } = PHOTO_SIZE;
+    writeFile(storageDir, photo.path, encodePng(width, height, landscape(photo.scene, width, height)), photo.date);
+    writeThumbnail(storageDir, photo, PHOTO_SIZE, landscape);
+  }
+
+  for (const shot of SCREENSHOTS) {
+    const { width, height } = SCREENSHOT_SIZE;
+    writeFile(storageDir, shot.path, encodePng(width, height, screen(shot.scene, width, height)), shot.date);
+    writeThumbnail(storageDir, shot, SCREENSHOT_SIZE, screen);
+  }
+
+  for (const video of VIDEOS) {
+    writeFile(storageDir, video.path, Buffer.alloc(video.size), video.date);
+    writeThumbnail(storageDir, video, VIDEO_SIZE, landscape);
+  }
+
+  for (const document of DOCUMENTS) {
+    writeFile(storageDir, document.path, document.content, document.date);
+  }
+
+  for (const folder of EMPTY_FOLDERS) {
+    fs.mkdirSync(path.join(storageDir, folder), { recursive: true });
+  }
+  dateFolders(storageDir);
+
+  return {
+    storageDir,
+    contacts: CONTACTS,
+    apps: APPS.map((app) => ({
+      id: app.packageName,
+      name: app.name,
+      packageName: app.packageName,
+      version: app.version,
+      icon: appIcon(app.name, app.color),
+      size: app.sizeMb * 1024 * 1024,
+      installTime: new Date(app.installed),
+    })),
+  };
+}
@@ -0,0 +1,708 @@
+import dgram from 'dgram';
+import net from 'net';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import express, { Request, Response } from 'express';
+import busboy from 'busboy';
+import { PORTS, PROTOCOL, PLATFORM } from '../server/constants';
+import { JsonStreamDecoder } from '../server/json-stream-decoder';
+import { TrustCredentials, trustProof } from '../server/trust-store';
+import { MediaLibrary, MediaEntry, DEVICE_STORAGE_ROOT } from './media-library';
+import { writeZip } from './zip-writer';
+import { AppInfo, Contact } from '../types';
+
+export interface DeviceSimulatorOptions {
+  storageDir: string;
+  name?: string;
+  ip?: string;                 // Address advertised in discovery packets
+  broadcastAddress?: string;
+  broadcastInterval?: number;  // ms between discovery broadcasts
+  mobileInfoInterval?: number; // ms between CMD_UPDATE_MOBILE_INFO pushes
+  batteryLevel?: number;
+  model?: string;
+  androidVersion?: string;
+  storageSize?: { totalSize: number; availableSize: number };  // Reported instead of the host disk
+  contacts?: Contact[];
+  apps?: AppInfo[];
+}
+
+/**
+ * Simulated AirController phone.
+ *
+ * Speaks the same protocol as the Android app: discovery broadcasts on UDP,
+ * the command and heartbeat channels on TCP and the HTTP API, with a local
+ * directory standing in for the phone's shared storage.
+ */
+export class DeviceSimulator extends EventEmitter {
+  readonly library: MediaLibrary;
+  private readonly options: Required<Omit<DeviceSimulatorOptions, 'storageSize'>> &
+    Pick<DeviceSimulatorOptions, 'storageSize'>;
+  private udpSocket: dgram.Socket | null = null;
+  private commandServer: net.Server | null = null;
+  private heartbeatServer: net.Server | null = null;
+  private httpServer: http.Server | null = null;
+  private commandSockets: Set<net.Socket> = new Set();
+  private heartbeatSockets: Set<net.Socket> = new Set();
+  private broadcastTimer: NodeJS.Timeout | null = null;
+  private mobileInfoTimer: NodeJS.Timeout | null = null;
+  // Handed out by the desktop on pairing, kept in memory only
+  private pairing: TrustCredentials | null = null;
+
+  constructor(options: DeviceSimulatorOptions) {
+    super();
+    this.options = {
+      name: options.name || 'AirController Simulator',
+      ip: options.ip || '127.0.0.1',
+      broadcastAddress: options.broadcastAddress || '255.255.255.255',
+      broadcastInterval: options.broadcastInterval ?? 2000,
+      mobileInfoInterval: options.mobileInfoInterval ?? 10000,
+      batteryLevel: options.batteryLevel ?? 87,
+      model: options.model || 'Pixel 8',
+      androidVersion: options.androidVersion || '14',
+      storageSize: options.storageSize,
+      contacts: options.contacts || [],
+      apps: options.apps || [],
+      storageDir: options.storageDir,
+    };
+    this.library = new MediaLibrary(options.storageDir);
+  }
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  /**
+   * Start all four channels
+   */
+  async start(): Promise<void> {
+    if (!fs.existsSync(this.library.storageDir)) {
+      throw new Error(`Storage directory not found: ${this.library.storageDir}`);
+    }
+
+    this.commandServer = await this.listenTcp(PORTS.CMD, (socket) => this.handleCommandSocket(socket));
+    this.heartbeatServer = await this.listenTcp(PORTS.HEARTBEAT, (socket) => this.handleHeartbeatSocket(socket));
+    this.httpServer = await this.listenHttp();
+    await this.startBroadcasting();
+
+    this.mobileInfoTimer = setInterval(() => {
+      this.commandSockets.forEach((socket) => this.sendMobileInfo(socket));
+    }, this.options.mobileInfoInterval);
+
+    console.log(`[simulator] ${this.options.name} serving ${this.library.storageDir}`);
+  }
+
+  /**
+   * Stop all channels and drop connected clients
+   */
+  async stop(): Promise<void> {
+    if (this.broadcastTimer) {
+      clearInterval(this.broadcastTimer);
+      this.broadcastTimer = null;
+    }
+    if (this.mobileInfoTimer) {
+      clearInterval(this.mobileInfoTimer);
+      this.mobileInfoTimer = null;
+    }
+
+    this.udpSocket?.close();
+    this.udpSocket = null;
+
+    [...this.commandSockets, ...this.heartbeatSockets].forEach((socket) => socket.destroy());
+    this.commandSockets.clear();
+    this.heartbeatSockets.clear();
+
+    await Promise.all(
+      [this.commandServer, this.heartbeatServer, this.httpServer].map(
+        (server) => new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+      )
+    );
+    this.commandServer = null;
+    this.heartbeatServer = null;
+    this.httpServer = null;
+
+    console.log('[simulator] Stopped');
+  }
+
+  /**
+   * Drop the TCP channels without stopping the servers, like a Wi-Fi blip
+   */
+  dropConnections(): void {
+    [...this.commandSockets, ...this.heartbeatSockets].forEach((socket) => socket.destroy());
+  }
+
+  /**
+   * Answer a pairing request with the PIN the user typed on the phone
+   */
+  confirmPairing(pin: string): void {
+    this.sendPairingConfirm({ pin, accepted: true });
+  }
+
+  /**
+   * Refuse a pairing request, like tapping "Reject" on the phone
+   */
+  rejectPairing(): void {
+    this.sendPairingConfirm({ accepted: false });
+  }
+
+  /**
+   * Act as if pairing with the desktop already happened, e.g. for the demo device
+   */
+  rememberPairing(credentials: TrustCredentials): void {
+    this.pairing = credentials;
+  }
+
+  private sendPairingConfirm(data: { pin?: string; accepted: boolean }) {
+    this.commandSockets.forEach((socket) => {
+      socket.write(JSON.stringify({ cmd: PROTOCOL.CMD_PAIRING_CONFIRM, data }));
+    });
+  }
+
+  /**
+   * Build the discovery packet the phone broadcasts
+   */
+  buildDiscoveryPacket(): string {
+    return `${PROTOCOL.CMD_SEARCH_PREFIX}${PROTOCOL.RANDOM_STR_SEARCH}#${PLATFORM.ANDROID}#${this.options.name}#${this.options.ip}`;
+  }
+
+  private async startBroadcasting(): Promise<void> {
+    const socket = dgram.createSocket('udp4');
+    this.udpSocket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(0, () => {
+        socket.off('error', reject);
+        socket.setBroadcast(true);
+        resolve();
+      });
+    });
+
+    socket.on('error', (error) => {
+      console.error('[simulator] UDP error:', error);
+    });
+
+    const broadcast = () => {
+      const packet = Buffer.from(this.buildDiscoveryPacket());
+      socket.send(packet, PORTS.SEARCH, this.options.broadcastAddress, (err) => {
+        if (err) {
+          console.error('[simulator] Failed to broadcast discovery packet:', err.message);
+        }
+      });
+    };
+
+    broadcast();
+    this.broadcastTimer = setInterval(broadcast, this.options.broadcastInterval);
+  }
+
+  private listenTcp(port: number, onConnection: (socket: net.Socket) => void): Promise<net.Server> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer(onConnection);
+      server.once('error', reject);
+      server.listen(port, '0.0.0.0', () => {
+        server.off('error', reject);
+        console.log(`[simulator] Listening on TCP ${port}`);
+        resolve(server);
+      });
+    });
+  }
+
+  /**
+   * Command channel: receives desktop info and pushes mobile info updates
+   */
+  private handleCommandSocket(socket: net.Socket) {
+    console.log(`[simulator] Command channel connected from ${socket.remoteAddress}`);
+    this.commandSockets.add(socket);
+
+    const decoder = new JsonStreamDecoder({
+      onError: (error) => console.warn('[simulator] Bad command data:', error.message),
+    });
+
+    socket.on('data', (data) => {
+      for (const message of decoder.write(data)) {
+        this.handleCommand(socket, message);
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      this.commandSockets.delete(socket);
+      this.emit('command:disconnected');
+    });
+
+    this.emit('command:connected');
+  }
+
+  private handleCommand(socket: net.Socket, message: any) {
+    switch (message.cmd) {
+      case PROTOCOL.CMD_REPORT_DESKTOP_INFO:
+        console.log('[simulator] Desktop info:', message.data);
+        this.emit('desktop:info', message.data);
+        this.sendMobileInfo(socket);
+        break;
+
+      case PROTOCOL.CMD_PAIRING_REQUEST:
+        // The real app shows the PIN, or asks for the one the browser shows
+        if (message.data?.pin) {
+          console.log(`[simulator] Pairing with ${message.data.name}, PIN: ${message.data.pin}`);
+        } else {
+          console.log(`[simulator] Pairing with ${message.data?.name}, enter the PIN shown in the browser`);
+        }
+        this.emit('pairing:request', message.data);
+        break;
+
+      case PROTOCOL.CMD_PAIRING_RESULT:
+        console.log('[simulator] Pairing result:', message.data?.accepted ? 'accepted' : message.data);
+        if (message.data?.accepted && message.data.identity && message.data.secret) {
+          this.pairing = { identity: message.data.identity, secret: message.data.secret };
+        }
+        this.emit('pairing:result', message.data);
+        break;
+
+      case PROTOCOL.CMD_TRUST_CHALLENGE:
+        // An empty answer tells the desktop to start pairing right away
+        socket.write(JSON.stringify({
+          cmd: PROTOCOL.CMD_TRUST_PROOF,
+          data: this.pairing && typeof message.data?.nonce === 'string'
+            ? { identity: this.pairing.identity, proof: trustProof(this.pairing.secret, message.data.nonce) }
+            : {},
+        }));
+        break;
+
+      default:
+        console.log('[simulator] Unknown command:', message.cmd);
+        this.emit('command', message);
+    }
+  }
+
+  private sendMobileInfo(socket: net.Socket) {
+    socket.write(JSON.stringify({
+      cmd: PROTOCOL.CMD_UPDATE_MOBILE_INFO,
+      data: this.getMobileInfo(),
+    }));
+  }
+
+  /**
+   * Heartbeat channel: echoes the heartbeat value back
+   */
+  private handleHeartbeatSocket(socket: net.Socket) {
+    console.log(`[simulator] Heartbeat channel connected from ${socket.remoteAddress}`);
+    this.heartbeatSockets.add(socket);
+
+    const decoder = new JsonStreamDecoder({
+      onError: (error) => console.warn('[simulator] Bad heartbeat data:', error.message),
+    });
+
+    socket.on('data', (data) => {
+      for (const message of decoder.write(data)) {
+        socket.write(JSON.stringify({
+          ip: this.options.ip,
+          value: message.value,
+          time: Date.now(),
+        }));
+        this.emit('heartbeat', message);
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.heartbeatSockets.delete(socket));
+  }
+
+  getMobileInfo() {
+    if (this.options.storageSize) {
+      return { batteryLevel: this.options.batteryLevel, storageSize: this.options.storageSize };
+    }
+
+    let totalSize = 64 * 1024 * 1024 * 1024;
+    let availableSize = 24 * 1024 * 1024 * 1024;
+
+    try {
+      const stats = fs.statfsSync(this.library.storageDir);
+      totalSize = stats.blocks * stats.bsize;
+      availableSize = stats.bavail * stats.bsize;
+    } catch {
+      // Keep the defaults
+    }
+
+    return {
+      batteryLevel: this.options.batteryLevel,
+      storageSize: { totalSize, availableSize },
+    };
+  }
+
+  /**
+   * HTTP API on port 9527
+   */
+  private listenHttp(): Promise<http.Server> {
+    const app = express();
+    app.use(express.json());
+    this.registerRoutes(app);
+
+    return new Promise((resolve, reject) => {
+      const server = http.createServer(app);
+      server.once('error', reject);
+      server.listen(PORTS.HTTP, '0.0.0.0', () => {
+        server.off('error', reject);
+        console.log(`[simulator] HTTP API listening on ${PORTS.HTTP}`);
+        resolve(server);
+      });
+    });
+  }
+
+  protected registerRoutes(app: express.Express) {
+    app.post('/common/mobileInfo', (req, res) => {
+      res.json(ok(this.getMobileInfo()));
+    });
+
+    app.get('/device/info', (req, res) => {
+      const { batteryLevel, storageSize } = this.getMobileInfo();
+      res.json(ok({
+        model: this.options.model,
+        manufacturer: 'Google',
+        androidVersion: this.options.androidVersion,
+        battery: batteryLevel,
+        storage: {
+          total: storageSize.totalSize,
+          used: storageSize.totalSize - storageSize.availableSize,
+          free: storageSize.availableSize,
+        },
+      }));
+    });
+
+    // Contacts and apps
+    app.get('/contacts', (req, res) => {
+      res.json(ok(this.options.contacts));
+    });
+
+    app.get('/apps', (req, res) => {
+      res.json(ok(this.options.apps));
+    });
+
+    // Files
+    app.post('/file/list', (req, res) => {
+      const devicePath = req.body?.path || DEVICE_STORAGE_ROOT;
+      const localPath = this.library.toLocalPath(devicePath);
+      if (!localPath || !isDirectory(localPath)) {
+        res.json(fail(`Folder not found: ${devicePath}`));
+        return;
+      }
+
+      const folder = this.library.toDevicePath(localPath);
+      const entries = fs.readdirSync(localPath, { withFileTypes: true })
+        .filter((dirent) => !dirent.name.startsWith('.'))
+        .map((dirent) => {
+          const entryPath = path.join(localPath, dirent.name);
+          const stat = fs.statSync(entryPath);
+          const isDir = stat.isDirectory();
+          return {
+            name: dirent.name,
+            folder,
+            size: isDir ? 0 : stat.size,
+            isDir,
+            changeDate: Math.floor(stat.mtimeMs),
+            isEmpty: isDir ? fs.readdirSync(entryPath).length === 0 : stat.size === 0,
+          };
+        });
+
+      res.json(ok(entries));
+    });
+
+    app.delete('/file', (req, res) => {
+      const localPath = this.library.toLocalPath(req.body?.path);
+      if (!localPath || localPath === this.library.storageDir || !fs.existsSync(localPath)) {
+        res.status(404).json(fail('File not found'));
+        return;
+      }
+      fs.rmSync(localPath, { recursive: true, force: true });
+      res.json(ok(null));
+    });
+
+    app.post('/file/uploadFiles', (req, res) => this.handleUpload(req, res));
+
+    // Rename a file or folder in place: { folder, file, newName }
+    app.post('/file/rename', (req, res) => {
+      const { folder, file, newName } = req.body || {};
+      const localFolder = this.library.toLocalPath(folder);
+      if (!localFolder || !isFileName(file) || !isFileName(newName)) {
+        res.json(fail('Invalid rename request'));
+        return;
+      }
+      const source = path.join(localFolder, file);
+      const destination = path.join(localFolder, newName);
+      if (!fs.existsSync(source)) {
+        res.json(fail(`File not found: ${folder}/${file}`));
+        return;
+      }
+      if (fs.existsSync(destination)) {
+        res.json(fail(`${newName} already exists`));
+        return;
+      }
+      fs.renameSync(source, destination);
+      res.json(ok(null));
+    });
+
+    // Create a folder: { folder, name }
+    app.post('/file/create', (req, res) => {
+      const { folder, name } = req.body || {};
+      const localFolder = this.library.toLocalPath(folder);
+      if (!localFolder || !isDirectory(localFolder) || !isFileName(name)) {
+        res.json(fail('Invalid folder'));
+        return;
+      }
+      const localPath = path.join(localFolder, name);
+      if (fs.existsSync(localPath)) {
+        res.json(fail(`${name} already exists`));
+        return;
+      }
+      fs.mkdirSync(localPath);
+      res.json(ok(null));
+    });
+
+    // Images
+    app.post('/image/all', (req, res) => {
+      res.json(ok(paginate(this.library.getImages(), req.body).map(toImageResponse)));
+    });
+
+    app.post('/image/imagesOfAlbum', (req, res) => {
+      const images = this.library.getImagesOfAlbum(Number(req.body?.id));
+      res.json(ok(paginate(images, req.body).map(toImageResponse)));
+    });
+
+    app.post('/image/albums', (req, res) => {
+      res.json(ok(this.library.getAlbums()));
+    });
+
+    // Videos
+    app.post('/video/videos', (req, res) => {
+      res.json(ok(paginate(this.library.getVideos(), req.body).map(toVideoResponse)));
+    });
+
+    app.get('/video/item/:id', (req, res) => {
+      const video = this.library.getVideoById(Number(req.params.id));
+      if (!video) {
+        res.status(404).end();
+        return;
+      }
+      res.sendFile(video.localPath);
+    });
+
+    // Streams
+    app.get('/stream/file', (req, res) => {
+      const localPath = this.library.toLocalPath(String(req.query.path || ''));
+      if (!localPath || !isFile(localPath)) {
+        res.status(404).end();
+        return;
+      }
+      res.sendFile(localPath);
+    });
+
+    app.get('/stream/image/thumbnail/:id/:width/:height', (req, res) => {
+      const image = this.library.getImageById(Number(req.params.id));
+      if (!image) {
+        res.status(404).end();
+        return;
+      }
+      // Without a stored thumbnail the full image is sent, the browser scales it
+      res.sendFile(this.library.getThumbnailPath(image) || image.localPath, { dotfiles: 'allow' });
+    });
+
+    app.get('/stream/image/thumbnail2', (req, res) => {
+      const localPath = this.library.toLocalPath(String(req.query.path || ''));
+      if (!localPath || !isFile(localPath)) {
+        res.status(404).end();
+        return;
+      }
+      res.sendFile(localPath);
+    });
+
+    app.get('/stream/video/thumbnail/:id/:width/:height', (req, res) => {
+      const video = this.library.getVideoById(Number(req.params.id));
+      if (!video) {
+        res.status(404).end();
+        return;
+      }
+      const thumbnailPath = this.library.getThumbnailPath(video);
+      if (thumbnailPath) {
+        res.sendFile(thumbnailPath, { dotfiles: 'allow' });
+        return;
+      }
+      res.type('image/svg+xml').send(placeholderThumbnail(video.name, Number(req.params.width), Number(req.params.height)));
+    });
+
+    app.get('/stream/download', async (req, res) => {
+      let paths: string[] = [];
+      try {
+        paths = JSON.parse(String(req.query.paths || '[]'));
+      } catch {
+        res.status(400).end();
+        return;
+      }
+      await this.sendFiles(res, paths, 'download.zip');
+    });
+
+    app.get('/stream/file/multipart', async (req, res) => {
+      const paths = String(req.query.paths || '').split(',').filter(Boolean);
+      await this.sendFiles(res, paths, 'files.zip');
+    });
+  }
+
+  /**
+   * Send one file as-is, or several as a ZIP archive
+   */
+  private async sendFiles(res: Response, devicePaths: string[], zipName: string) {
+    const files = devicePaths
+      .map((devicePath) => this.library.toLocalPath(devicePath))
+      .filter((localPath): localPath is string => !!localPath && isFile(localPath))
+      .map((localPath) => ({ name: path.basename(localPath), localPath }));
+
+    if (files.length === 0) {
+      res.status(404).end();
+      return;
+    }
+
+    if (files.length === 1) {
+      res.download(files[0].localPath, files[0].name);
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${zipName}"`);
+    try {
+      await writeZip(res, files);
+      res.end();
+    } catch (error) {
+      console.error('[simulator] Failed to write ZIP:', error);
+      res.destroy();
+    }
+  }
+
+  /**
+   * Multipart upload with a `path` field and one or more `files` parts
+   */
+  private handleUpload(req: Request, res: Response) {
+    let targetPath = DEVICE_STORAGE_ROOT;
+    const pending: Promise<{ tempPath: string; name: string }>[] = [];
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers });
+    } catch (error) {
+      res.status(400).json(fail('Expected multipart/form-data'));
+      return;
+    }
+
+    parser.on('field', (name, value) => {
+      if (name === 'path') {
+        targetPath = value;
+      }
+    });
+
+    // Stage files in a temp dir since the path field may arrive after them
+    parser.on('file', (_field, stream, info) => {
+      const tempPath = path.join(os.tmpdir(), `aircontroller-sim-${Date.now()}-${Math.random().toString(36).substring(2)}`);
+      pending.push(new Promise((resolve, reject) => {
+        const out = fs.createWriteStream(tempPath);
+        stream.pipe(out);
+        out.on('finish', () => resolve({ tempPath, name: path.basename(info.filename) }));
+        out.on('error', reject);
+      }));
+    });
+
+    parser.on('close', async () => {
+      try {
+        const staged = await Promise.all(pending);
+        const folder = this.library.toLocalPath(targetPath);
+        if (!folder) {
+          staged.forEach(({ tempPath }) => fs.rmSync(tempPath, { force: true }));
+          res.json(fail(`Invalid target path: ${targetPath}`));
+          return;
+        }
+
+        fs.mkdirSync(folder, { recursive: true });
+        for (const { tempPath, name } of staged) {
+          const destination = path.join(folder, name);
+          fs.copyFileSync(tempPath, destination);
+          fs.rmSync(tempPath, { force: true });
+          console.log(`[simulator] Uploaded ${this.library.toDevicePath(destination)}`);
+        }
+
+        res.json(ok(null));
+      } catch (error) {
+        console.error('[simulator] Upload failed:', error);
+        res.status(500).json(fail('Upload failed'));
+      }
+    });
+
+    req.pipe(parser);
+  }
+}
+
+function ok(data: any) {
+  return { code: 0, data, msg: 'success' };
+}
+
+function fail(msg: string) {
+  return { code: -1, data: null, msg };
+}
+
+function isDirectory(localPath: string): boolean {
+  return fs.existsSync(localPath) && fs.statSync(localPath).isDirectory();
+}
+
+function isFile(localPath: string): boolean {
+  return fs.existsSync(localPath) && fs.statSync(localPath).isFile();
+}
+
+function isFileName(name: unknown): name is string {
+  return typeof name === 'string' && name.length > 0 && !/[/\\\0]/.test(name) && name !== '.' && name !== '..';
+}
+
+function paginate<T>(items: T[], body: any): T[] {
+  const page = Number(body?.page);
+  const pageSize = Number(body?.pageSize);
+  if (!page || !pageSize) {
+    return items;
+  }
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
+
+function toImageResponse(image: MediaEntry) {
+  return {
+    id: image.id,
+    mimeType: image.mimeType,
+    path: image.path,
+    width: image.width,
+    height: image.height,
+    modifyTime: image.modifyTime,
+    createTime: image.createTime,
+    size: image.size,
+  };
+}
+
+function toVideoResponse(video: MediaEntry) {
+  return {
+    id: video.id,
+    name: video.name,
+    mimeType: video.mimeType,
+    path: video.path,
+    width: video.width,
+    height: video.height,
+    duration: 0,
+    size: video.size,
+    modifyTime: video.modifyTime,
+    lastModifyTime: video.modifyTime,
+  };
+}
+
+function placeholderThumbnail(label: string, width: number, height: number): string {
+  const w = width || 200;
+  const h = height || 200;
+  const text = label.replace(/[<>&"]/g, '');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+    `<rect width="100%" height="100%" fill="#1f2937"/>` +
+    `<polygon points="${w / 2 - 12},${h / 2 - 16} ${w / 2 - 12},${h / 2 + 16} ${w / 2 + 16},${h / 2}" fill="#9ca3af"/>` +
+    `<text x="50%" y="${h - 12}" fill="#d1d5db" font-family="sans-serif" font-size="12" text-anchor="middle">${text}</text>` +
+    `</svg>`;
+}
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Root path the simulated phone reports for its shared storage
+ */
+export const DEVICE_STORAGE_ROOT = '/storage/emulated/0';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+};
+
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.mkv': 'video/x-matroska',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.3gp': 'video/3gpp',
+};
+
+export interface MediaEntry {
+  id: number;
+  name: string;
+  path: string;        // Device path
+  localPath: string;   // Path inside the storage directory
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+  modifyTime: number;
+  createTime: number;
+}
+
+export interface AlbumEntry {
+  id: number;
+  name: string;
+  path: string;
+  photoNum: number;
+  coverImageId: number;
+}
+
+/**
+ * Maps device paths onto a local directory and indexes the media inside it,
+ * the same way MediaStore does on a real phone
+ */
+export class MediaLibrary {
+  readonly storageDir: string;
+
+  constructor(storageDir: string) {
+    this.storageDir = path.resolve(storageDir);
+  }
+
+  /**
+   * Resolve a device path to a local path, refusing paths outside storage
+   */
+  toLocalPath(devicePath: string): string | null {
+    let relative = devicePath || '';
+    if (relative.startsWith(DEVICE_STORAGE_ROOT)) {
+      relative = relative.substring(DEVICE_STORAGE_ROOT.length);
+    } else if (relative.startsWith('/sdcard')) {
+      relative = relative.substring('/sdcard'.length);
+    }
+
+    const localPath = path.resolve(this.storageDir, '.' + path.posix.normalize('/' + relative));
+    if (localPath !== this.storageDir && !localPath.startsWith(this.storageDir + path.sep)) {
+      return null;
+    }
+    return localPath;
+  }
+
+  /**
+   * Convert a local path back to the path the phone would report
+   */
+  toDevicePath(localPath: string): string {
+    const relative = path.relative(this.storageDir, localPath).split(path.sep).join('/');
+    return relative ? `${DEVICE_STORAGE_ROOT}/${relative}` : DEVICE_STORAGE_ROOT;
+  }
+
+  getImages(): MediaEntry[] {
+    return this.scan(IMAGE_MIME_TYPES);
+  }
+
+  getVideos(): MediaEntry[] {
+    return this.scan(VIDEO_MIME_TYPES);
+  }
+
+  /**
+   * Pre-generated thumbnail in DCIM/.thumbnails named after the media id, if there is one
+   */
+  getThumbnailPath(entry: MediaEntry): string | null {
+    const thumbnailPath = path.join(this.storageDir, 'DCIM', '.thumbnails', `${entry.id}.png`);
+    return fs.existsSync(thumbnailPath) ? thumbnailPath : null;
+  }
+
+  getImageById(id: number): MediaEntry | undefined {
+    return this.getImages().find((image) => image.id === id);
+  }
+
+  getVideoById(id: number): MediaEntry | undefined {
+    return this.getVideos().find((video) => video.id === id);
+  }
+
+  /**
+   * Albums are the folders that directly contain images
+   */
+  getAlbums(): AlbumEntry[] {
+    const albums = new Map<string, AlbumEntry>();
+
+    for (const image of this.getImages()) {
+      const folder = path.posix.dirname(image.path);
+      let album = albums.get(folder);
+      if (!album) {
+        album = {
+          id: stableId(folder),
+          name: path.posix.basename(folder),
+          path: folder,
+          photoNum: 0,
+          coverImageId: image.id,
+        };
+        albums.set(folder, album);
+      }
+      album.photoNum++;
+    }
+
+    return Array.from(albums.values());
+  }
+
+  getImagesOfAlbum(albumId: number): MediaEntry[] {
+    const album = this.getAlbums().find((a) => a.id === albumId);
+    if (!album) {
+      return [];
+    }
+    return this.getImages().filter((image) => path.posix.dirname(image.path) === album.path);
+  }
+
+  /**
+   * Walk storage and collect files with a known media type, newest first
+   */
+  private scan(mimeTypes: Record<string, string>): MediaEntry[] {
+    const entries: MediaEntry[] = [];
+
+    const walk = (dir: string) => {
+      let names: fs.Dirent[];
+      try {
+        names = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const dirent of names) {
+        if (dirent.name.startsWith('.')) continue;
+        const localPath = path.join(dir, dirent.name);
+
+        if (dirent.isDirectory()) {
+          walk(localPath);
+          continue;
+        }
+
+        const mimeType = mimeTypes[path.extname(dirent.name).toLowerCase()];
+        if (!mimeType) continue;
+
+        const stat = fs.statSync(localPath);
+        const devicePath = this.toDevicePath(localPath);
+        const { width, height } = readImageSize(localPath);
+
+        entries.push({
+          id: stableId(devicePath),
+          name: dirent.name,
+          path: devicePath,
+          localPath,
+          mimeType,
+          size: stat.size,
+          width,
+          height,
+          modifyTime: Math.floor(stat.mtimeMs),
+          createTime: Math.floor(stat.birthtimeMs || stat.mtimeMs),
+        });
+      }
+    };
+
+    walk(this.storageDir);
+    return entries.sort((a, b) => b.modifyTime - a.modifyTime || a.path.localeCompare(b.path));
+  }
+}
+
+/**
+ * Derive a MediaStore-like numeric id that stays the same across restarts
+ */
+export function stableId(devicePath: string): number {
+  return parseInt(crypto.createHash('sha1').update(devicePath).digest('hex').substring(0, 8), 16);
+}
+
+/**
+ * Read pixel dimensions from PNG and JPEG headers
+ */
+function readImageSize(localPath: string): { width: number; height: number } {
+  const unknown = { width: 0, height: 0 };
+  let header: Buffer;
+
+  try {
+    const fd = fs.openSync(localPath, 'r');
+    header = Buffer.alloc(64 * 1024);
+    const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+    fs.closeSync(fd);
+    header = header.subarray(0, bytesRead);
+  } catch {
+    return unknown;
+  }
+
+  // PNG: dimensions live in the IHDR chunk
+  if (header.length >= 24 && header.readUInt32BE(0) === 0x89504e47) {
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (header.length >= 4 && header[0] === 0xff && header[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < header.length) {
+      if (header[offset] !== 0xff) break;
+      const marker = header[offset + 1];
+      const length = header.readUInt16BE(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: header.readUInt16BE(offset + 7), height: header.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return unknown;
+}
@@ -0,0 +1,54 @@
+import zlib from 'zlib';
+import { crc32 } from './zip-writer';
+
+export type Rgb = [number, number, number];
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function chunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Encode an 8-bit RGB image, pixel is called once for every position.
+ * Rows use the Sub filter, which keeps smooth generated images small.
+ */
+export function encodePng(width: number, height: number, pixel: (x: number, y: number) => Rgb): Buffer {
+  const stride = width * 3 + 1;
+  const raw = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    raw[row] = 1;
+    let previous: Rgb = [0, 0, 0];
+    for (let x = 0; x < width; x++) {
+      const color = pixel(x, y);
+      for (let c = 0; c < 3; c++) {
+        const value = Math.max(0, Math.min(255, Math.round(color[c])));
+        raw[row + 1 + x * 3 + c] = (value - previous[c]) & 0xff;
+        previous[c] = value;
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;   // Bit depth
+  header[9] = 2;   // Truecolor
+  header[10] = 0;  // Deflate
+  header[11] = 0;  // Adaptive filtering
+  header[12] = 0;  // No interlace
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,62 @@
+import path from 'path';
+import readline from 'readline';
+import { DeviceSimulator } from './device-simulator';
+
+/**
+ * Start a simulated phone from the command line:
+ *
+ *   npm run simulator -- --storage ./my-fixtures --name "Pixel Sim" --ip 192.168.1.50
+ *
+ * When the bridge asks to pair, type the PIN shown in the browser and press
+ * Enter, or type "reject" to refuse. Pairing is forgotten when it stops.
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const next = argv[i + 1];
+      if (next && !next.startsWith('--')) {
+        args[arg.substring(2)] = next;
+        i++;
+      } else {
+        args[arg.substring(2)] = 'true';
+      }
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const simulator = new DeviceSimulator({
+    storageDir: args.storage || path.join(__dirname, 'fixtures', 'storage'),
+    name: args.name,
+    ip: args.ip,
+    broadcastAddress: args.broadcast,
+  });
+
+  await simulator.start();
+
+  // Stand-in for the PIN prompt of the real app
+  const input = readline.createInterface({ input: process.stdin });
+  input.on('line', (line) => {
+    const answer = line.trim();
+    if (answer === 'reject') {
+      simulator.rejectPairing();
+    } else if (answer) {
+      simulator.confirmPairing(answer);
+    }
+  });
+
+  process.on('SIGINT', async () => {
+    await simulator.stop();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error('Failed to start simulator:', error);
+  process.exit(1);
+});
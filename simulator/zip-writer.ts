@@ -0,0 +1,91 @@
+import fs from 'fs';
+import { Writable } from 'stream';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// 1980-01-01 00:00, the earliest date a ZIP entry can hold
+const DOS_EPOCH = 0x0021 << 16;
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write an uncompressed ZIP archive, the format the phone uses for
+ * multi-file downloads. Files are read into memory one at a time,
+ * which is fine for fixture-sized storage.
+ */
+export async function writeZip(
+  output: Writable,
+  files: { name: string; localPath: string }[]
+): Promise<void> {
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  const write = (chunk: Buffer) =>
+    new Promise<void>((resolve, reject) => {
+      output.write(chunk, (err) => (err ? reject(err) : resolve()));
+      offset += chunk.length;
+    });
+
+  for (const file of files) {
+    const data = await fs.promises.readFile(file.localPath);
+    const name = Buffer.from(file.name, 'utf8');
+    const crc = crc32(data);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(20, 4);          // Version needed
+    localHeader.writeUInt16LE(0x0800, 6);      // UTF-8 file names
+    localHeader.writeUInt16LE(0, 8);           // Stored, no compression
+    localHeader.writeUInt32LE(DOS_EPOCH, 10);  // Modification time/date
+    localHeader.writeUInt32LE(crc, 14);
+    localHeader.writeUInt32LE(data.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(20, 4);
+    centralHeader.writeUInt16LE(20, 6);
+    centralHeader.writeUInt16LE(0x0800, 8);
+    centralHeader.writeUInt16LE(0, 10);
+    centralHeader.writeUInt32LE(DOS_EPOCH, 12);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(data.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42);
+    centralDirectory.push(centralHeader, name);
+
+    await write(localHeader);
+    await write(name);
+    await write(data);
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  await write(directory);
+  await write(end);
+}
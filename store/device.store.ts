@@ -10,6 +10,7 @@ interface DeviceStore {
   removeDevice: (deviceId: string) => void;
   updateDevice: (deviceId: string, updates: Partial<Device>) => void;
   selectDevice: (device: Device | null) => void;
+  switchDevice: (deviceId: string) => void;
   setScanning: (scanning: boolean) => void;
   setInitializing: (initializing: boolean) => void;
   clearDevices: () => void;
@@ -45,6 +46,15 @@ export const useDeviceStore = create<DeviceStore>((set) => ({
 
   selectDevice: (device) => set({ selectedDevice: device }),
 
+  // Make another connected device the active one, pages reload for it
+  switchDevice: (deviceId) =>
+    set((state) => {
+      const device = state.devices.find(
+        (d) => d.id === deviceId && d.status === 'connected'
+      );
+      return device ? { selectedDevice: device } : {};
+    }),
+
   setScanning: (scanning) => set({ isScanning: scanning }),
 
   setInitializing: (initializing) => set({ isInitializing: initializing }),
@@ -0,0 +1,31 @@
+import { create } from 'zustand';
+import { TransferTask } from '@/types';
+
+interface TransferStore {
+  tasks: TransferTask[];   // Oldest first, as the bridge queues them
+  setTasks: (tasks: TransferTask[]) => void;
+  upsertTask: (task: TransferTask) => void;
+  removeTask: (transferId: string) => void;
+}
+
+export const useTransferStore = create<TransferStore>((set) => ({
+  tasks: [],
+
+  setTasks: (tasks) => set({ tasks }),
+
+  upsertTask: (task) =>
+    set((state) => {
+      const index = state.tasks.findIndex((t) => t.id === task.id);
+      if (index === -1) {
+        return { tasks: [...state.tasks, task] };
+      }
+      const tasks = [...state.tasks];
+      tasks[index] = task;
+      return { tasks };
+    }),
+
+  removeTask: (transferId) =>
+    set((state) => ({
+      tasks: state.tasks.filter((t) => t.id !== transferId),
+    })),
+}));
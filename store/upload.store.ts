@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { ChunkedUpload, UploadChunk } from '@/types';
+
+interface UploadStore {
+  uploads: ChunkedUpload[];   // Files still being sent to the bridge
+  upsertUpload: (upload: ChunkedUpload) => void;
+  updateUpload: (uploadId: string, changes: Partial<ChunkedUpload>) => void;
+  updateChunk: (uploadId: string, index: number, changes: Partial<UploadChunk>) => void;
+  removeUpload: (uploadId: string) => void;
+}
+
+export const useUploadStore = create<UploadStore>((set) => ({
+  uploads: [],
+
+  upsertUpload: (upload) =>
+    set((state) => {
+      const index = state.uploads.findIndex((u) => u.id === upload.id);
+      if (index === -1) {
+        return { uploads: [...state.uploads, upload] };
+      }
+      const uploads = [...state.uploads];
+      uploads[index] = upload;
+      return { uploads };
+    }),
+
+  updateUpload: (uploadId, changes) =>
+    set((state) => ({
+      uploads: state.uploads.map((u) => (u.id === uploadId ? { ...u, ...changes } : u)),
+    })),
+
+  updateChunk: (uploadId, index, changes) =>
+    set((state) => ({
+      uploads: state.uploads.map((u) => {
+        if (u.id !== uploadId) return u;
+        const chunks = [...u.chunks];
+        chunks[index] = { ...chunks[index], ...changes };
+        return { ...u, chunks };
+      }),
+    })),
+
+  removeUpload: (uploadId) =>
+    set((state) => ({
+      uploads: state.uploads.filter((u) => u.id !== uploadId),
+    })),
+}));
@@ -7,6 +7,62 @@ export interface Device {
   status: 'connected' | 'disconnected' | 'connecting';
   lastSeen: Date;
   deviceInfo?: DeviceInfo;
+  connectionState?: ConnectionStateInfo;
+  linkQuality?: LinkQuality;
+  manual?: boolean;  // Added by address rather than found through discovery
+}
+
+export type ConnectionState =
+  | 'discovered'
+  | 'connecting'
+  | 'handshaking'
+  | 'pairing'
+  | 'connected'
+  | 'degraded'
+  | 'reconnecting'
+  | 'lost';
+
+export interface ConnectionStateInfo {
+  state: ConnectionState;
+  previousState?: ConnectionState;
+  reason: string;
+  attempt: number;
+  nextRetryAt?: number;
+  changedAt: number;
+}
+
+// Where the pairing PIN is displayed, it is typed on the other side
+export type PairingMethod = 'browser' | 'phone';
+
+export interface PairingRequest {
+  deviceId: string;
+  identity: string;
+  method: PairingMethod;
+  pin?: string;          // Only sent to the browser when the browser displays it
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+export interface TrustedDevice {
+  identity: string;      // Random key handed out at pairing, see TrustStore
+  name: string;
+  type: Device['type'];
+  pairedAt: number;
+  lastSeenAt?: number;
+}
+
+export type LinkQualityLevel = 'unknown' | 'poor' | 'fair' | 'good' | 'excellent';
+
+export interface LinkQuality {
+  rtt: number | null;        // Latest heartbeat round trip in ms
+  averageRtt: number | null;
+  jitter: number;            // Smoothed RTT variation in ms
+  missedHeartbeats: number;  // Total since the connection was opened
+  lossRate: number;          // Share of missed heartbeats in the recent window, 0-1
+  score: number;             // 0-100
+  level: LinkQualityLevel;
+  samples: number;
+  updatedAt: number;
 }
 
 export interface DeviceInfo {
@@ -33,6 +89,16 @@ export interface FileItem {
   thumbnail?: string;
 }
 
+// Where a copy or move on the phone has got to
+export interface FileOperationProgress {
+  operation: 'copy' | 'move';
+  processedFiles: number;
+  totalFiles: number;
+  processedBytes: number;
+  totalBytes: number;
+  currentPath?: string;
+}
+
 export interface ImageItem extends FileItem {
   width: number;
   height: number;
@@ -51,6 +117,40 @@ export interface Album {
   count: number;
 }
 
+export type MediaSort = 'newest' | 'oldest' | 'name' | 'size';
+
+export interface MediaQuery {
+  page?: number;
+  pageSize?: number;
+  sort?: MediaSort;
+  search?: string;
+}
+
+/**
+ * Images, albums or videos from the bridge's media index
+ */
+export interface MediaPage<T> {
+  items: T[];
+  total: number;         // Matching items across all pages
+  offline: boolean;      // Phone not connected, this is the saved copy
+  syncedAt: number;
+}
+
+/**
+ * A phone whose media the bridge has indexed, connected or not
+ */
+export interface IndexedDevice {
+  deviceId: string;
+  identity: string;      // Key of the phone's media index, its trust identity when paired
+  name: string;
+  type: Device['type'];
+  syncedAt: number;
+  imageCount: number;
+  videoCount: number;
+  albumCount: number;
+  connected: boolean;
+}
+
 export interface Contact {
   id: string;
   name: string;
@@ -69,13 +169,67 @@ export interface AppInfo {
   installTime: Date;
 }
 
+export type TransferStatus = 'pending' | 'transferring' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Upload or download queued on the bridge, see server/transfer-manager.ts
+ */
 export interface TransferTask {
   id: string;
   type: 'upload' | 'download';
+  deviceId: string;
+  fileName: string;
+  fileSize: number;        // 0 while unknown
+  path: string;            // File downloaded from the phone, or the folder uploaded into
+  progress: number;        // Percent
+  transferredBytes: number;
+  status: TransferStatus;
+  speed?: number;          // Bytes per second
+  remainingTime?: number;  // Seconds
+  error?: string;
+  sha256?: string;         // Of a completed download, for the browser to check its copy against
+  savedTo?: string;        // Completed download saved into the download folder on the server host
+  retryable?: boolean;     // False for an upload whose file never fully reached the bridge
+  createdAt: number;
+  finishedAt?: number;
+}
+
+/**
+ * File sent to the bridge in chunks before it is uploaded to the phone,
+ * see server/upload-sessions.ts
+ */
+export interface UploadSession {
+  id: string;
+  deviceId: string;
+  path: string;            // Folder on the phone
+  fileName: string;
+  fileSize: number;
+  lastModified: number;    // Together with the above identifies the file when an upload is resumed
+  chunkSize: number;
+  chunkCount: number;
+  receivedChunks: number[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ChunkStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+export interface UploadChunk {
+  status: ChunkStatus;
+  loaded: number;          // Bytes of this chunk the bridge has taken
+  error?: string;
+}
+
+/**
+ * Chunked upload as the browser sees it, until the bridge queues it as a transfer
+ */
+export interface ChunkedUpload {
+  id: string;
+  deviceId: string;
   fileName: string;
   fileSize: number;
-  progress: number;
-  status: 'pending' | 'transferring' | 'completed' | 'failed';
-  speed?: number;
-  remainingTime?: number;
+  chunkSize: number;
+  chunks: UploadChunk[];
+  status: 'waiting' | 'uploading' | 'failed' | 'completing';
+  error?: string;
 }
\ No newline at end of file